@@ -0,0 +1,288 @@
+/**
+ * ApiClient against the in-process mock backend
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+import {AuthEvent, apiClient} from '../src/api/client';
+import {HttpError, ValidationError} from '../src/api/errors';
+import {MOCK_BASE_URL, mockBackend} from '../src/api/mock-backend';
+import {MOCK_PASSWORD} from '../src/api/mock-fixtures';
+import secureStore, {MemorySecureStore} from '../src/services/secure-store';
+import {getTokenExpiry} from '../src/utils/jwt';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/**
+ * Unsigned JWT expiring at a given time
+ */
+function jwt(expiresAt: number): string {
+  const part = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${part({alg: 'HS256'})}.${part({
+    sub: 'demo',
+    exp: Math.floor(expiresAt / 1000),
+  })}.signature`;
+}
+
+beforeEach(async () => {
+  mockBackend.reset();
+  apiClient.setBaseUrl(MOCK_BASE_URL);
+  await apiClient.clearTokens();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await apiClient.clearTokens();
+});
+
+describe('auth', () => {
+  it('logs in and calls authenticated routes', async () => {
+    const tokens = await apiClient.login('demo', MOCK_PASSWORD);
+
+    expect(apiClient.isAuthenticated()).toBe(true);
+    expect(apiClient.getUserId()).toBe(tokens.user_id);
+    const me = await apiClient.getMe();
+    expect(me.username).toBe('demo');
+  });
+
+  it('keeps tokens out of AsyncStorage', async () => {
+    await apiClient.login('demo', MOCK_PASSWORD);
+
+    expect(secureStore).toBeInstanceOf(MemorySecureStore);
+    expect(await secureStore.getItem('@GMP_access_token')).not.toBeNull();
+    expect(await AsyncStorage.getItem('@GMP_access_token')).toBeNull();
+    expect(await AsyncStorage.getItem('@GMP_refresh_token')).toBeNull();
+  });
+
+  it('rejects a wrong password', async () => {
+    const error = await apiClient
+      .login('demo', 'wrong')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(401);
+    expect(apiClient.isAuthenticated()).toBe(false);
+  });
+
+  it('registers then logs in the new user', async () => {
+    await apiClient.register({
+      username: 'newcomer',
+      email: 'newcomer@greencorp.test',
+      password: 'secret123',
+      firstname: 'New',
+      lastname: 'Comer',
+      company_code: 'GREEN1',
+    });
+
+    const me = await apiClient.getMe();
+    expect(me.username).toBe('newcomer');
+  });
+
+  it('clears the session on logout', async () => {
+    const events: AuthEvent[] = [];
+    const unsubscribe = apiClient.addAuthListener(event => events.push(event));
+    await apiClient.login('demo', MOCK_PASSWORD);
+
+    await apiClient.logout();
+    unsubscribe();
+
+    expect(apiClient.isAuthenticated()).toBe(false);
+    expect(events).toEqual(['logged_out']);
+  });
+});
+
+describe('token refresh', () => {
+  it('refreshes a rejected access token and retries the call', async () => {
+    const {user_id} = await apiClient.login('demo', MOCK_PASSWORD);
+    await secureStore.setItem('@GMP_access_token', 'mock-access-stale');
+    await apiClient.loadTokens();
+    const events: AuthEvent[] = [];
+    const unsubscribe = apiClient.addAuthListener(event => events.push(event));
+
+    const profile = await apiClient.getUserProfile(user_id);
+    unsubscribe();
+
+    expect(profile.username).toBe('demo');
+    expect(events).toEqual(['token_refreshed']);
+    expect(await secureStore.getItem('@GMP_access_token')).toBe(
+      `mock-access-${user_id}`,
+    );
+  });
+
+  it('expires the session when the refresh token is rejected', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const {user_id} = await apiClient.login('demo', MOCK_PASSWORD);
+    await secureStore.setItem('@GMP_access_token', 'mock-access-stale');
+    await secureStore.setItem('@GMP_refresh_token', 'mock-refresh-stale');
+    await apiClient.loadTokens();
+    const events: AuthEvent[] = [];
+    const unsubscribe = apiClient.addAuthListener(event => events.push(event));
+
+    await expect(apiClient.getUserProfile(user_id)).rejects.toBeDefined();
+    unsubscribe();
+
+    expect(events).toEqual(['session_expired']);
+    expect(apiClient.isAuthenticated()).toBe(false);
+  });
+});
+
+describe('refresh scheduling', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reads the expiry of a JWT', () => {
+    const expiresAt = Date.UTC(2030, 0, 1);
+
+    expect(getTokenExpiry(jwt(expiresAt))).toBe(expiresAt);
+    expect(getTokenExpiry('mock-access-1')).toBeNull();
+  });
+
+  it('refreshes a minute before expiry', async () => {
+    await apiClient.login('demo', MOCK_PASSWORD);
+    jest.useFakeTimers({now: Date.now()});
+    await secureStore.setItem('@GMP_access_token', jwt(Date.now() + 3600000));
+    await apiClient.loadTokens();
+    const events: AuthEvent[] = [];
+    const unsubscribe = apiClient.addAuthListener(event => events.push(event));
+
+    await jest.advanceTimersByTimeAsync(58 * 60000);
+    expect(events).toEqual([]);
+    await jest.advanceTimersByTimeAsync(60000);
+    unsubscribe();
+
+    expect(events).toEqual(['token_refreshed']);
+  });
+
+  it('waits for a token valid longer than the timer limit', async () => {
+    await apiClient.login('demo', MOCK_PASSWORD);
+    jest.useFakeTimers({now: Date.now()});
+    await secureStore.setItem(
+      '@GMP_access_token',
+      jwt(Date.now() + 30 * DAY_MS),
+    );
+    await apiClient.loadTokens();
+    const events: AuthEvent[] = [];
+    const unsubscribe = apiClient.addAuthListener(event => events.push(event));
+
+    // Past the 24.8 days a timer can wait
+    await jest.advanceTimersByTimeAsync(29 * DAY_MS);
+    expect(events).toEqual([]);
+    await jest.advanceTimersByTimeAsync(DAY_MS);
+    unsubscribe();
+
+    expect(events).toEqual(['token_refreshed']);
+  });
+});
+
+describe('release builds', () => {
+  const dev = __DEV__;
+
+  afterEach(() => {
+    Object.assign(global, {__DEV__: dev});
+  });
+
+  it('leave the mock backend out', async () => {
+    Object.assign(global, {__DEV__: false});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let mockBackendLoaded = false;
+    let release: typeof apiClient | undefined;
+    jest.isolateModules(() => {
+      jest.doMock('../src/api/mock-backend', () => {
+        mockBackendLoaded = true;
+        return {};
+      });
+      release = require('../src/api/client').apiClient;
+    });
+    const client = release as typeof apiClient;
+
+    client.setBaseUrl(MOCK_BASE_URL);
+    await client.setMockBackendEnabled(true);
+
+    expect(client.isMockBackendEnabled()).toBe(false);
+    expect(mockBackendLoaded).toBe(false);
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('validation errors', () => {
+  it('maps FastAPI field errors', async () => {
+    const error = await apiClient
+      .register({
+        username: '',
+        email: 'someone@greencorp.test',
+        password: 'secret123',
+        firstname: 'Some',
+        lastname: 'One',
+        company_code: 'GREEN1',
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).status).toBe(422);
+    expect((error as ValidationError).fields).toHaveProperty('username');
+  });
+
+  it('keeps the detail message of other client errors', async () => {
+    const {user_id} = await apiClient.login('demo', MOCK_PASSWORD);
+
+    const error = await apiClient
+      .changePassword(user_id, {
+        current_password: 'wrong',
+        new_password: 'another123',
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    expect((error as HttpError).detail).toBe('Incorrect password');
+  });
+});
+
+describe('pagination', () => {
+  it('walks the validated history page by page', async () => {
+    const {user_id} = await apiClient.login('demo', MOCK_PASSWORD);
+    const first = await apiClient.getValidatedJourneyHistory(user_id, {}, 2);
+    expect(first.total).toBeGreaterThan(2);
+
+    const seen = [...first.items];
+    let offset = first.next_offset;
+    while (offset !== null) {
+      const page = await apiClient.getValidatedJourneyHistory(
+        user_id,
+        {},
+        2,
+        offset,
+      );
+      seen.push(...page.items);
+      offset = page.next_offset;
+    }
+
+    expect(seen).toHaveLength(first.total);
+    expect(new Set(seen.map(journey => journey.id)).size).toBe(first.total);
+    const departures = seen.map(journey => journey.time_departure);
+    expect([...departures].sort().reverse()).toEqual(departures);
+  });
+
+  it('filters the history by transport type', async () => {
+    const {user_id} = await apiClient.login('demo', MOCK_PASSWORD);
+
+    const page = await apiClient.getValidatedJourneyHistory(user_id, {
+      transport_type: 'velo',
+    });
+
+    expect(page.items.length).toBeGreaterThan(0);
+    expect(page.items.every(j => j.transport_type === 'velo')).toBe(true);
+  });
+
+  it('pages the company leaderboard', async () => {
+    await apiClient.login('demo', MOCK_PASSWORD);
+
+    const all = await apiClient.getGlobalLeaderboard(50, 0);
+    const second = await apiClient.getGlobalLeaderboard(2, 2);
+
+    expect(second).toEqual(all.slice(2, 4));
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Commute templates: backend sync on the version counter, matching detected
+ * journeys and declaring the last occurrence
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {apiClient} from '../src/api/client';
+import {HttpError} from '../src/api/errors';
+import {MOCK_BASE_URL, mockBackend} from '../src/api/mock-backend';
+import {MOCK_PASSWORD} from '../src/api/mock-fixtures';
+import {CommuteTemplate, LocalJourney} from '../src/api/types';
+import commuteTemplates from '../src/services/commute-templates';
+import {
+  findMatchingTemplate,
+  templateToManualJourney,
+} from '../src/utils/commuteTemplates';
+
+const COMMUTE: CommuteTemplate = {
+  id: 'commute',
+  name: 'Domicile - travail',
+  transport_type: 'velo',
+  distance_km: 5,
+  departure_time: '08:00',
+  duration_minutes: 20,
+};
+
+const LATE_SHIFT: CommuteTemplate = {
+  ...COMMUTE,
+  id: 'late-shift',
+  name: 'Retour de nuit',
+  departure_time: '23:50',
+  duration_minutes: 30,
+};
+
+function journey(departure: Date, distanceKm = 5): LocalJourney {
+  const time = departure.getTime();
+  return {
+    id: 1,
+    timeDeparture: time,
+    timeArrival: time + 20 * 60000,
+    durationMinutes: 20,
+    distanceKm,
+    detectedTransportType: 'marche',
+    confidenceAvg: 80,
+    placeDeparture: 'Début du trajet',
+    placeArrival: 'Fin du trajet',
+    status: 'PENDING',
+    createdAt: time,
+    updatedAt: time,
+  };
+}
+
+describe('sync', () => {
+  let userId: number;
+
+  // Another phone of the same account saving its list
+  async function saveFromOtherDevice(
+    templates: CommuteTemplate[],
+  ): Promise<void> {
+    const {version} = await apiClient.getCommuteTemplates(userId);
+    await apiClient.saveCommuteTemplates(userId, {templates, version});
+  }
+
+  beforeEach(async () => {
+    await apiClient.clearTokens();
+    await AsyncStorage.clear();
+    // Logged out: drops the list cached for the previous test
+    await commuteTemplates.getTemplates();
+    mockBackend.reset();
+    apiClient.setBaseUrl(MOCK_BASE_URL);
+    ({user_id: userId} = await apiClient.login('demo', MOCK_PASSWORD));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await apiClient.clearTokens();
+  });
+
+  it('pushes the local list when sync is enabled', async () => {
+    await commuteTemplates.saveTemplate(COMMUTE);
+
+    await commuteTemplates.setSyncEnabled(true);
+
+    const remote = await apiClient.getCommuteTemplates(userId);
+    expect(remote).toEqual({templates: [COMMUTE], version: 1});
+  });
+
+  it('takes the list saved from another device', async () => {
+    await commuteTemplates.setSyncEnabled(true);
+    await saveFromOtherDevice([LATE_SHIFT]);
+
+    await commuteTemplates.sync();
+
+    expect(await commuteTemplates.getTemplates()).toEqual([LATE_SHIFT]);
+  });
+
+  it('pushes later changes on top of the synced version', async () => {
+    await commuteTemplates.setSyncEnabled(true);
+    await saveFromOtherDevice([LATE_SHIFT]);
+    await commuteTemplates.sync();
+
+    await commuteTemplates.saveTemplate(COMMUTE);
+    await commuteTemplates.sync();
+
+    const remote = await apiClient.getCommuteTemplates(userId);
+    expect(remote).toEqual({templates: [LATE_SHIFT, COMMUTE], version: 2});
+  });
+
+  it('lets the first device to push win over unsynced local changes', async () => {
+    // Local change made after the other device saved, with sync off
+    await saveFromOtherDevice([LATE_SHIFT]);
+    await commuteTemplates.saveTemplate(COMMUTE);
+
+    await commuteTemplates.setSyncEnabled(true);
+
+    expect(await commuteTemplates.getTemplates()).toEqual([LATE_SHIFT]);
+    expect(await apiClient.getCommuteTemplates(userId)).toEqual({
+      templates: [LATE_SHIFT],
+      version: 1,
+    });
+  });
+
+  it('takes the backend list when it changed between the read and the write', async () => {
+    await commuteTemplates.saveTemplate(COMMUTE);
+    await saveFromOtherDevice([LATE_SHIFT]);
+    // Read before the other device saved
+    jest
+      .spyOn(apiClient, 'getCommuteTemplates')
+      .mockResolvedValueOnce({templates: [], version: 0});
+
+    await commuteTemplates.setSyncEnabled(true);
+
+    expect(await commuteTemplates.getTemplates()).toEqual([LATE_SHIFT]);
+    expect((await apiClient.getCommuteTemplates(userId)).version).toBe(1);
+  });
+
+  it('treats a 404 as an empty backend list', async () => {
+    await commuteTemplates.saveTemplate(COMMUTE);
+    jest
+      .spyOn(apiClient, 'getCommuteTemplates')
+      .mockRejectedValueOnce(new HttpError(404, 'Not found', null));
+
+    await commuteTemplates.setSyncEnabled(true);
+
+    expect(await commuteTemplates.getTemplates()).toEqual([COMMUTE]);
+    const remote = await apiClient.getCommuteTemplates(userId);
+    expect(remote.templates).toEqual([COMMUTE]);
+  });
+});
+
+describe('findMatchingTemplate', () => {
+  it('matches a departure within the window and a close distance', () => {
+    const match = findMatchingTemplate(
+      [COMMUTE],
+      journey(new Date(2026, 9, 19, 8, 30), 5.8),
+    );
+
+    expect(match).toBe(COMMUTE);
+  });
+
+  it('ignores a journey too far in time or distance', () => {
+    expect(
+      findMatchingTemplate([COMMUTE], journey(new Date(2026, 9, 19, 8, 50))),
+    ).toBeNull();
+    expect(
+      findMatchingTemplate([COMMUTE], journey(new Date(2026, 9, 19, 8, 0), 7)),
+    ).toBeNull();
+  });
+
+  it('matches across midnight', () => {
+    const early = {...LATE_SHIFT, id: 'early', departure_time: '00:10'};
+
+    expect(
+      findMatchingTemplate([LATE_SHIFT], journey(new Date(2026, 9, 20, 0, 20))),
+    ).toBe(LATE_SHIFT);
+    expect(
+      findMatchingTemplate([early], journey(new Date(2026, 9, 19, 23, 40))),
+    ).toBe(early);
+    expect(
+      findMatchingTemplate([LATE_SHIFT], journey(new Date(2026, 9, 20, 0, 40))),
+    ).toBeNull();
+  });
+
+  it('prefers the closest template', () => {
+    const later = {...COMMUTE, id: 'later', departure_time: '08:30'};
+
+    expect(
+      findMatchingTemplate(
+        [COMMUTE, later],
+        journey(new Date(2026, 9, 19, 8, 20)),
+      ),
+    ).toBe(later);
+  });
+});
+
+describe('templateToManualJourney', () => {
+  it("declares today's trip once it is over", () => {
+    const declared = templateToManualJourney(
+      COMMUTE,
+      new Date(2026, 9, 19, 10, 0),
+    );
+
+    expect(declared.departure).toEqual(new Date(2026, 9, 19, 8, 0));
+    expect(declared.arrival).toEqual(new Date(2026, 9, 19, 8, 20));
+    expect(declared.distanceKm).toBe(5);
+    expect(declared.transportType).toBe('velo');
+  });
+
+  it("declares yesterday's trip while today's is not over", () => {
+    const declared = templateToManualJourney(
+      COMMUTE,
+      new Date(2026, 9, 19, 8, 10),
+    );
+
+    expect(declared.departure).toEqual(new Date(2026, 9, 18, 8, 0));
+    expect(declared.arrival).toEqual(new Date(2026, 9, 18, 8, 20));
+  });
+
+  it('goes back to the last trip over midnight that has ended', () => {
+    const declared = templateToManualJourney(
+      LATE_SHIFT,
+      new Date(2026, 9, 19, 0, 10),
+    );
+
+    expect(declared.departure).toEqual(new Date(2026, 9, 17, 23, 50));
+    expect(declared.arrival).toEqual(new Date(2026, 9, 18, 0, 20));
+  });
+
+  it('keeps the departure time across a DST change', () => {
+    // Clocks go back on Sunday, October 25 2026 in Paris
+    const declared = templateToManualJourney(
+      COMMUTE,
+      new Date(2026, 9, 26, 8, 10),
+    );
+
+    expect(declared.departure).toEqual(new Date(2026, 9, 25, 8, 0));
+  });
+});
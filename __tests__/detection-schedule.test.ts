@@ -0,0 +1,131 @@
+/**
+ * Detection schedule: windows, days off and the next start/stop time
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  DEFAULT_DETECTION_SCHEDULE,
+  DetectionSchedule,
+  isInSchedule,
+  nextScheduleChange,
+  validateSchedule,
+} from '../src/utils/detectionSchedule';
+
+// Weekdays, 06:30-10:00 and 16:00-20:00
+const schedule: DetectionSchedule = {
+  ...DEFAULT_DETECTION_SCHEDULE,
+  enabled: true,
+};
+
+// October 2026, local time: the 23rd is a Friday
+function at(day: number, hours: number, minutes = 0): Date {
+  return new Date(2026, 9, day, hours, minutes);
+}
+
+describe('isInSchedule', () => {
+  it('runs all the time when the schedule is off', () => {
+    expect(isInSchedule(DEFAULT_DETECTION_SCHEDULE, at(24, 3))).toBe(true);
+  });
+
+  it('runs inside a window of an active day', () => {
+    expect(isInSchedule(schedule, at(23, 6, 30))).toBe(true);
+    expect(isInSchedule(schedule, at(23, 9, 59))).toBe(true);
+    expect(isInSchedule(schedule, at(23, 10))).toBe(false);
+    expect(isInSchedule(schedule, at(24, 8))).toBe(false);
+  });
+
+  it('follows days off and extra days', () => {
+    const exceptions: DetectionSchedule = {
+      ...schedule,
+      exceptions: [
+        {date: '2026-10-23', active: false},
+        {date: '2026-10-24', active: true},
+      ],
+    };
+
+    expect(isInSchedule(exceptions, at(23, 8))).toBe(false);
+    expect(isInSchedule(exceptions, at(24, 8))).toBe(true);
+  });
+
+  it('never runs without windows', () => {
+    expect(isInSchedule({...schedule, windows: []}, at(23, 8))).toBe(false);
+  });
+
+  it('ignores a window crossing midnight, which validation refuses', () => {
+    const overnight: DetectionSchedule = {
+      ...schedule,
+      windows: [{start: '22:00', end: '02:00'}],
+    };
+
+    expect(isInSchedule(overnight, at(23, 23))).toBe(false);
+    expect(isInSchedule(overnight, at(23, 1))).toBe(false);
+    expect(validateSchedule(overnight).windows).toEqual([
+      'La fin doit etre apres le debut',
+    ]);
+  });
+});
+
+describe('nextScheduleChange', () => {
+  it('is null when the schedule is off or empty', () => {
+    expect(nextScheduleChange(DEFAULT_DETECTION_SCHEDULE, at(23, 8))).toBe(
+      null,
+    );
+    expect(nextScheduleChange({...schedule, windows: []}, at(23, 8))).toBe(
+      null,
+    );
+    expect(nextScheduleChange({...schedule, days: []}, at(23, 8))).toBe(null);
+  });
+
+  it('stops at the end of the current window', () => {
+    expect(nextScheduleChange(schedule, at(23, 8))).toEqual(at(23, 10));
+  });
+
+  it('starts at the next window, after the weekend', () => {
+    expect(nextScheduleChange(schedule, at(23, 12))).toEqual(at(23, 16));
+    expect(nextScheduleChange(schedule, at(23, 21))).toEqual(at(26, 6, 30));
+  });
+
+  it('skips a day off', () => {
+    const holiday: DetectionSchedule = {
+      ...schedule,
+      exceptions: [{date: '2026-10-26', active: false}],
+    };
+
+    expect(nextScheduleChange(holiday, at(23, 21))).toEqual(at(27, 6, 30));
+  });
+
+  it('follows back-to-back windows around midnight', () => {
+    const nightShift: DetectionSchedule = {
+      ...schedule,
+      days: [0, 1, 2, 3, 4, 5, 6],
+      windows: [
+        {start: '00:00', end: '02:00'},
+        {start: '20:00', end: '23:59'},
+      ],
+    };
+
+    expect(nextScheduleChange(nightShift, at(23, 21))).toEqual(at(23, 23, 59));
+    expect(nextScheduleChange(nightShift, at(23, 23, 59))).toEqual(at(24, 0));
+    expect(nextScheduleChange(nightShift, at(24, 1))).toEqual(at(24, 2));
+  });
+
+  // Clocks go back an hour on Sunday 25 October 2026 (tests run in
+  // Europe/Paris, see jest.global-setup.js)
+  describe('across a DST change', () => {
+    it('keeps the local time of day', () => {
+      const mondays: DetectionSchedule = {...schedule, days: [1]};
+
+      const next = nextScheduleChange(mondays, at(24, 12)) as Date;
+
+      expect(next).toEqual(at(26, 6, 30));
+      expect(next.getHours()).toBe(6);
+    });
+
+    it('still looks a full week ahead', () => {
+      const saturdays: DetectionSchedule = {...schedule, days: [6]};
+
+      expect(nextScheduleChange(saturdays, at(24, 21))).toEqual(at(31, 6, 30));
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Journey legs: editing the legs of a journey, and proposing them from the
+ * activity transitions recorded by the detection
+ */
+
+import {afterAll, beforeAll, describe, expect, it} from '@jest/globals';
+
+import {TransportType} from '../src/api/types';
+import replayTripDetection from '../src/native/ReplayTripDetection';
+import tripDetection from '../src/native/TripDetection';
+import transitionLog from '../src/services/transition-log';
+import {
+  LegDraft,
+  MAX_LEGS,
+  moveLegBoundary,
+  proposeLegs,
+  removeLeg,
+  splitLeg,
+  totalLegDistance,
+  validateLegs,
+} from '../src/utils/journeyLegs';
+
+const T0 = new Date(2026, 9, 19, 7, 0).getTime();
+const MINUTE = 60000;
+
+function leg(
+  transportType: TransportType,
+  from: number,
+  to: number,
+  distance: string,
+): LegDraft {
+  return {
+    transportType,
+    departure: T0 + from * MINUTE,
+    arrival: T0 + to * MINUTE,
+    distance,
+  };
+}
+
+// Minutes since T0 of each leg, e.g. [[0, 10], [10, 40]]
+function times(legs: LegDraft[]): number[][] {
+  return legs.map(l => [
+    (l.departure - T0) / MINUTE,
+    (l.arrival - T0) / MINUTE,
+  ]);
+}
+
+// Walk 10 min, then bike 30 min, 9 km in all
+const walkThenBike = [leg('marche', 0, 10, '0.8'), leg('velo', 10, 40, '8.2')];
+
+describe('splitLeg', () => {
+  it('splits a leg in two halves of the same mode', () => {
+    const legs = splitLeg(walkThenBike, 1);
+
+    expect(times(legs)).toEqual([
+      [0, 10],
+      [10, 25],
+      [25, 40],
+    ]);
+    expect(legs.map(l => l.transportType)).toEqual(['marche', 'velo', 'velo']);
+    expect(totalLegDistance(legs)).toBe(9);
+  });
+
+  it('keeps a leg too short to split', () => {
+    const legs = [leg('marche', 0, 1, '0.1'), leg('velo', 1, 30, '7')];
+
+    expect(splitLeg(legs, 0)).toBe(legs);
+  });
+
+  it(`keeps at most ${MAX_LEGS} legs`, () => {
+    const legs = [0, 10, 20, 30, 40].map(from =>
+      leg('velo', from, from + 10, '2'),
+    );
+
+    expect(splitLeg(legs, 2)).toBe(legs);
+  });
+});
+
+describe('moveLegBoundary', () => {
+  it('moves the boundary and shares the distance again', () => {
+    const legs = moveLegBoundary(walkThenBike, 0, 5);
+
+    expect(times(legs)).toEqual([
+      [0, 15],
+      [15, 40],
+    ]);
+    expect(Number(legs[0].distance)).toBeGreaterThan(0.8);
+    expect(totalLegDistance(legs)).toBe(9);
+  });
+
+  it('keeps both legs at least a minute long', () => {
+    expect(times(moveLegBoundary(walkThenBike, 0, -60))).toEqual([
+      [0, 1],
+      [1, 40],
+    ]);
+    expect(times(moveLegBoundary(walkThenBike, 0, 60))).toEqual([
+      [0, 39],
+      [39, 40],
+    ]);
+  });
+});
+
+describe('removeLeg', () => {
+  const threeLegs = [
+    leg('marche', 0, 10, '0.8'),
+    leg('transport_commun', 10, 30, '10'),
+    leg('marche', 30, 40, '0.8'),
+  ];
+
+  it('gives the time of a leg to the previous one', () => {
+    const legs = removeLeg(threeLegs, 1);
+
+    expect(times(legs)).toEqual([
+      [0, 30],
+      [30, 40],
+    ]);
+    expect(legs.map(l => l.transportType)).toEqual(['marche', 'marche']);
+    expect(totalLegDistance(legs)).toBe(11.6);
+  });
+
+  it('gives the time of the first leg to the next one', () => {
+    const legs = removeLeg(threeLegs, 0);
+
+    expect(times(legs)).toEqual([
+      [0, 30],
+      [30, 40],
+    ]);
+    expect(legs[0].transportType).toBe('transport_commun');
+  });
+
+  it('keeps at least two legs', () => {
+    expect(removeLeg(walkThenBike, 0)).toBe(walkThenBike);
+  });
+});
+
+describe('validateLegs', () => {
+  it('accepts plausible legs', () => {
+    expect(validateLegs(walkThenBike)).toEqual([undefined, undefined]);
+  });
+
+  it('refuses a missing distance or an implausible speed', () => {
+    expect(
+      validateLegs([
+        leg('marche', 0, 10, ''),
+        leg('velo', 10, 20, '0'),
+        leg('marche', 20, 30, '5'),
+        leg('velo', 30, 40, '2,5'),
+      ]),
+    ).toEqual([
+      'Distance invalide',
+      'Distance invalide',
+      'Vitesse peu plausible pour ce mode : 30 km/h',
+      undefined,
+    ]);
+  });
+});
+
+describe('proposeLegs', () => {
+  beforeAll(async () => {
+    await tripDetection.startDetection();
+  });
+
+  afterAll(async () => {
+    await tripDetection.stopDetection();
+    await tripDetection.deleteAllLocalJourneys();
+    await transitionLog.clear();
+  });
+
+  it('splits a journey where the recorded activity changed', async () => {
+    // 10 min walking then 20 min by bike, ending an hour ago
+    const start = Date.now() - 90 * MINUTE;
+    const rows = ['timestamp,latitude,longitude,activity'];
+    for (let minute = 0; minute <= 30; minute++) {
+      const activity =
+        minute === 0 ? 'WALKING' : minute === 10 ? 'ON_BICYCLE' : '';
+      const latitude =
+        minute <= 10 ? minute * 0.0008 : 0.008 + (minute - 10) * 0.0035;
+      rows.push(
+        `${start + minute * MINUTE},${(45.764 + latitude).toFixed(
+          6,
+        )},4.8357,${activity}`,
+      );
+    }
+    rows.push(`${start + 31 * MINUTE},45.842,4.8357,STILL`);
+    const [journey] = await replayTripDetection.replay(rows.join('\n'));
+
+    const transitions = await transitionLog.getTransitions(
+      journey.timeDeparture,
+      journey.timeArrival,
+    );
+    const legs = proposeLegs(journey, transitions, journey.distanceKm);
+
+    expect(legs?.map(l => l.transportType)).toEqual(['marche', 'velo']);
+    expect(legs?.[0].arrival).toBe(start + 10 * MINUTE);
+  });
+
+  it('forgets the transitions once cleared', async () => {
+    await transitionLog.clear();
+
+    expect(await transitionLog.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Merging and splitting pending journeys: the selection checks and distance
+ * sharing of the screens, and the replay driver doing the same as native
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from '@jest/globals';
+
+import {LocalJourney} from '../src/api/types';
+import replayTripDetection from '../src/native/ReplayTripDetection';
+import tripDetection from '../src/native/TripDetection';
+import {areAdjacent, splitDistance} from '../src/utils/journeys';
+
+const MINUTE = 60000;
+const T0 = Date.now() - 4 * 3600 * 1000;
+
+/**
+ * Trace heading north from minute `from` for `minutes`, one point a minute,
+ * `kmPerMinute` apart, then still
+ */
+function trace(
+  activity: string,
+  from: number,
+  minutes: number,
+  kmPerMinute: number,
+  accuracy: number | '' = '',
+): string {
+  const start = T0 + from * MINUTE;
+  const rows = ['timestamp,latitude,longitude,activity,accuracy'];
+  for (let minute = 0; minute <= minutes; minute++) {
+    rows.push(
+      [
+        start + minute * MINUTE,
+        (45.764 + (minute * kmPerMinute) / 111.2).toFixed(6),
+        '4.8357',
+        minute === 0 ? activity : '',
+        accuracy,
+      ].join(','),
+    );
+  }
+  rows.push(
+    `${start + (minutes + 1) * MINUTE},${(
+      45.764 +
+      (minutes * kmPerMinute) / 111.2
+    ).toFixed(6)},4.8357,STILL,`,
+  );
+  return rows.join('\n');
+}
+
+async function detect(
+  ...args: Parameters<typeof trace>
+): Promise<LocalJourney> {
+  const [journey] = await replayTripDetection.replay(trace(...args));
+  return journey;
+}
+
+function pendingJourney(id: number, from: number, to: number): LocalJourney {
+  return {
+    id,
+    timeDeparture: T0 + from * MINUTE,
+    timeArrival: T0 + to * MINUTE,
+    durationMinutes: to - from,
+    distanceKm: 6,
+    detectedTransportType: 'velo',
+    confidenceAvg: 80,
+    placeDeparture: 'Début du trajet',
+    placeArrival: 'Fin du trajet',
+    status: 'PENDING',
+    createdAt: T0,
+    updatedAt: T0,
+  };
+}
+
+describe('areAdjacent', () => {
+  // Out of order on purpose: adjacency follows the departure times
+  const pending = [
+    pendingJourney(3, 60, 80),
+    pendingJourney(1, 0, 20),
+    pendingJourney(2, 30, 50),
+  ];
+
+  it('accepts journeys that follow each other', () => {
+    expect(areAdjacent(pending, new Set([1, 2]))).toBe(true);
+    expect(areAdjacent(pending, new Set([3, 2]))).toBe(true);
+    expect(areAdjacent(pending, new Set([1, 2, 3]))).toBe(true);
+  });
+
+  it('refuses a selection with a pending journey in between', () => {
+    expect(areAdjacent(pending, new Set([1, 3]))).toBe(false);
+  });
+
+  it('needs at least two pending journeys', () => {
+    expect(areAdjacent(pending, new Set([2]))).toBe(false);
+    expect(areAdjacent(pending, new Set([2, 42]))).toBe(false);
+  });
+});
+
+describe('splitDistance', () => {
+  it('shares the distance in proportion to the time', () => {
+    const [first, second] = splitDistance(
+      pendingJourney(1, 0, 20),
+      T0 + 5 * MINUTE,
+    );
+
+    expect(first).toBeCloseTo(1.5);
+    expect(second).toBeCloseTo(4.5);
+  });
+
+  it('keeps the total distance', () => {
+    const parts = splitDistance(pendingJourney(1, 0, 30), T0 + 7 * MINUTE);
+
+    expect(parts[0] + parts[1]).toBe(6);
+  });
+});
+
+describe('replay merge and split', () => {
+  beforeAll(async () => {
+    await tripDetection.startDetection();
+  });
+
+  beforeEach(async () => {
+    await tripDetection.deleteAllLocalJourneys();
+  });
+
+  afterAll(async () => {
+    await tripDetection.stopDetection();
+    await tripDetection.deleteAllLocalJourneys();
+  });
+
+  it('merges adjacent journeys', async () => {
+    // 20 min by bike, then 20 min walking with imprecise fixes
+    const bike = await detect('ON_BICYCLE', 0, 20, 0.35);
+    const walk = await detect('WALKING', 30, 20, 0.08, 100);
+    expect(walk.confidenceAvg).toBeLessThan(bike.confidenceAvg);
+
+    const merged = await tripDetection.mergeJourneys([walk.id, bike.id]);
+
+    expect(merged.distanceKm).toBeCloseTo(bike.distanceKm + walk.distanceKm);
+    expect(merged.timeDeparture).toBe(bike.timeDeparture);
+    expect(merged.timeArrival).toBe(walk.timeArrival);
+    // Mode covering the most distance, confidence weighted by distance
+    expect(merged.detectedTransportType).toBe('velo');
+    expect(merged.confidenceAvg).toBe(
+      Math.round(
+        (bike.confidenceAvg * bike.distanceKm +
+          walk.confidenceAvg * walk.distanceKm) /
+          (bike.distanceKm + walk.distanceKm),
+      ),
+    );
+    expect((await tripDetection.getJourneyTrack(merged.id)).length).toBe(
+      (bike.gpsPointsCount ?? 0) + (walk.gpsPointsCount ?? 0),
+    );
+    const pending = await tripDetection.getPendingJourneys();
+    expect(pending.map(j => j.id)).toEqual([merged.id]);
+  });
+
+  it('refuses to merge around a pending journey', async () => {
+    const first = await detect('ON_BICYCLE', 0, 20, 0.35);
+    await detect('WALKING', 30, 10, 0.08);
+    const last = await detect('ON_BICYCLE', 50, 20, 0.35);
+
+    await expect(
+      tripDetection.mergeJourneys([first.id, last.id]),
+    ).rejects.toThrow('adjacent');
+    expect(await tripDetection.getPendingCount()).toBe(3);
+  });
+
+  it('splits a journey at a timestamp', async () => {
+    const bike = await detect('ON_BICYCLE', 0, 20, 0.35);
+    const splitAt = T0 + 5.5 * MINUTE;
+
+    const [first, second] = await tripDetection.splitJourney(bike.id, splitAt);
+
+    expect(first.timeDeparture).toBe(bike.timeDeparture);
+    expect(first.timeArrival).toBe(splitAt);
+    expect(second.timeDeparture).toBe(splitAt);
+    expect(second.timeArrival).toBe(bike.timeArrival);
+    const [firstKm, secondKm] = splitDistance(bike, splitAt);
+    expect(first.distanceKm).toBeCloseTo(firstKm);
+    expect(second.distanceKm).toBeCloseTo(secondKm);
+    // Points before the split (minutes 0 to 5) and from it
+    const firstTrack = await tripDetection.getJourneyTrack(first.id);
+    const secondTrack = await tripDetection.getJourneyTrack(second.id);
+    expect(firstTrack).toHaveLength(6);
+    expect(firstTrack.every(p => p.timestamp < splitAt)).toBe(true);
+    expect(secondTrack.every(p => p.timestamp >= splitAt)).toBe(true);
+    expect(first.endLatitude).toBe(firstTrack[5].latitude);
+    expect(second.startLatitude).toBe(secondTrack[0].latitude);
+  });
+
+  it('refuses a part shorter than a minute', async () => {
+    const bike = await detect('ON_BICYCLE', 0, 20, 0.35);
+
+    await expect(
+      tripDetection.splitJourney(bike.id, bike.timeDeparture + 30000),
+    ).rejects.toThrow('minute');
+    await expect(
+      tripDetection.splitJourney(bike.id, bike.timeArrival - 30000),
+    ).rejects.toThrow('minute');
+  });
+});
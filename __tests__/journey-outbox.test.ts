@@ -0,0 +1,188 @@
+/**
+ * Journey outbox state transitions: sent, queued for retry, dropped,
+ * reconciled after a 409
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+import {apiClient} from '../src/api/client';
+import {
+  AuthExpiredError,
+  HttpError,
+  NetworkError,
+  ValidationError,
+} from '../src/api/errors';
+import {MOCK_BASE_URL, mockBackend} from '../src/api/mock-backend';
+import {MOCK_PASSWORD} from '../src/api/mock-fixtures';
+import {JourneyCreate} from '../src/api/types';
+import journeyOutbox from '../src/services/journey-outbox';
+import {generateUuid} from '../src/utils/uuid';
+
+function payload(overrides: Partial<JourneyCreate> = {}): JourneyCreate {
+  const departure = Date.now() - 3600 * 1000;
+  return {
+    place_departure: 'Début du trajet',
+    place_arrival: 'Fin du trajet',
+    time_departure: new Date(departure).toISOString(),
+    time_arrival: new Date(departure + 20 * 60000).toISOString(),
+    distance_km: 4.2,
+    transport_type: 'velo',
+    detection_source: 'auto',
+    client_journey_id: generateUuid(),
+    ...overrides,
+  };
+}
+
+function rejectCreate(error: unknown) {
+  return jest.spyOn(apiClient, 'createJourney').mockRejectedValueOnce(error);
+}
+
+beforeEach(async () => {
+  mockBackend.reset();
+  apiClient.setBaseUrl(MOCK_BASE_URL);
+  await journeyOutbox.clear();
+  await apiClient.login('demo', MOCK_PASSWORD);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await journeyOutbox.clear();
+  await apiClient.clearTokens();
+});
+
+describe('submit', () => {
+  it('sends the journey and forgets the entry', async () => {
+    const journey = payload();
+
+    const result = await journeyOutbox.submit(null, journey);
+
+    expect(result.status).toBe('sent');
+    expect(await journeyOutbox.getCount()).toBe(0);
+    const submitted = await journeyOutbox.findSubmitted(
+      journey.client_journey_id as string,
+    );
+    expect(submitted?.distance_km).toBe(4.2);
+  });
+
+  it('queues the journey when the network is down', async () => {
+    rejectCreate(new NetworkError());
+
+    const result = await journeyOutbox.submit(3, payload());
+
+    expect(result).toEqual({status: 'queued'});
+    const [entry] = await journeyOutbox.getEntries();
+    expect(entry.attempts).toBe(1);
+    expect(entry.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(entry.lastError).not.toBeNull();
+    expect(await journeyOutbox.isQueued(3)).toBe(true);
+  });
+
+  it('keeps the client id when a queued journey is validated again', async () => {
+    rejectCreate(new NetworkError());
+    await journeyOutbox.submit(5, payload({client_journey_id: undefined}));
+    const [queued] = await journeyOutbox.getEntries();
+
+    await journeyOutbox.submit(5, payload({client_journey_id: undefined}));
+
+    const id = queued.payload.client_journey_id as string;
+    expect(await journeyOutbox.findSubmitted(id)).not.toBeNull();
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+
+  it.each([
+    ['a 401', new HttpError(401, 'Not authenticated', null)],
+    ['a 403', new HttpError(403, 'Forbidden', null)],
+    ['an expired session', new AuthExpiredError()],
+  ])('keeps the journey on %s until the next login', async (_, error) => {
+    rejectCreate(error);
+
+    const result = await journeyOutbox.submit(null, payload());
+
+    expect(result).toEqual({status: 'queued'});
+    expect(await journeyOutbox.getCount()).toBe(1);
+  });
+
+  it('drops a journey the backend refuses', async () => {
+    const refused = new ValidationError({distance_km: 'too long'}, null);
+    rejectCreate(refused);
+
+    await expect(journeyOutbox.submit(null, payload())).rejects.toBe(refused);
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+});
+
+describe('flush', () => {
+  it('sends the queued journeys once the network is back', async () => {
+    rejectCreate(new NetworkError());
+    await journeyOutbox.submit(null, payload());
+
+    await journeyOutbox.flush(true);
+
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+
+  it('stops at the first network error and keeps the rest', async () => {
+    const create = jest.spyOn(apiClient, 'createJourney');
+    create.mockRejectedValue(new NetworkError());
+    await journeyOutbox.submit(null, payload());
+    await journeyOutbox.submit(null, payload());
+    create.mockClear();
+
+    await journeyOutbox.flush(true);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    const entries = await journeyOutbox.getEntries();
+    expect(entries.map(entry => entry.attempts)).toEqual([2, 1]);
+  });
+
+  it('waits for a login before sending', async () => {
+    rejectCreate(new NetworkError());
+    await journeyOutbox.submit(null, payload());
+    await apiClient.clearTokens();
+
+    await journeyOutbox.flush(true);
+    expect(await journeyOutbox.getCount()).toBe(1);
+
+    await apiClient.login('demo', MOCK_PASSWORD);
+    await journeyOutbox.flush(true);
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+});
+
+describe('409 reconcile', () => {
+  it('recovers the journey a previous attempt already created', async () => {
+    const journey = payload();
+    const first = await journeyOutbox.submit(null, journey);
+    // Acknowledgement lost (e.g. app killed before it was saved)
+    await journeyOutbox.clear();
+
+    const second = await journeyOutbox.submit(null, journey);
+
+    expect(second.status).toBe('sent');
+    expect(second.status === 'sent' && second.journey.id).toBe(
+      first.status === 'sent' && first.journey.id,
+    );
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+
+  it('drops a duplicate it cannot find', async () => {
+    const journey = payload();
+    await journeyOutbox.submit(null, journey);
+    await journeyOutbox.clear();
+    jest.spyOn(apiClient, 'getValidatedJourneyHistory').mockResolvedValueOnce({
+      items: [],
+      total: 0,
+      next_offset: null,
+      total_distance_km: 0,
+      total_score: 0,
+      total_carbon_footprint: 0,
+    });
+
+    const error = await journeyOutbox
+      .submit(null, journey)
+      .catch((e: unknown) => e);
+
+    expect((error as HttpError).status).toBe(409);
+    expect(await journeyOutbox.getCount()).toBe(0);
+  });
+});
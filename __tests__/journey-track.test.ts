@@ -0,0 +1,71 @@
+/**
+ * Track trimming: the first and last meters of a recorded route are never
+ * drawn
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {JourneyTrackPoint} from '../src/api/types';
+import {trimTrack} from '../src/utils/journeyTrack';
+
+// Kilometers per degree of latitude, for the Earth radius of haversineKm
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+
+/**
+ * Points heading north at the given path distances (meters) from the start,
+ * one a minute
+ */
+function track(...meters: number[]): JourneyTrackPoint[] {
+  return meters.map((distance, minute) => ({
+    timestamp: minute * 60000,
+    latitude: 45.764 + distance / 1000 / KM_PER_DEGREE,
+    longitude: 4.8357,
+  }));
+}
+
+// Minutes of the points left, which are their indexes in the track
+function minutes(points: JourneyTrackPoint[]): number[] {
+  return points.map(point => point.timestamp / 60000);
+}
+
+describe('trimTrack', () => {
+  it('drops the points near the start and the end', () => {
+    const points = track(0, 100, 200, 300, 400, 500, 600, 700, 800, 900);
+
+    expect(minutes(trimTrack(points, 150))).toEqual([2, 3, 4, 5, 6, 7]);
+  });
+
+  it('measures the distance along the path, not by point count', () => {
+    // Two close fixes at each end, a long gap in between
+    const points = track(0, 20, 40, 1000, 1020, 1040);
+
+    expect(minutes(trimTrack(points, 30))).toEqual([2, 3]);
+    expect(trimTrack(points, 100)).toEqual([]);
+  });
+
+  it('keeps the one point farther than the trim distance from both ends', () => {
+    const points = track(0, 100, 200, 300, 400);
+
+    expect(minutes(trimTrack(points, 150))).toEqual([2]);
+  });
+
+  it('drops a track shorter than twice the trim distance', () => {
+    expect(trimTrack(track(0, 100, 200, 300), 200)).toEqual([]);
+    expect(trimTrack(track(0, 150, 350), 200)).toEqual([]);
+  });
+
+  it('drops a track shorter than the trim distance', () => {
+    expect(trimTrack(track(0, 100), 150)).toEqual([]);
+    expect(trimTrack(track(0), 150)).toEqual([]);
+  });
+
+  it('returns a copy of the whole track without trimming', () => {
+    const points = track(0, 100, 200);
+
+    const trimmed = trimTrack(points, 0);
+
+    expect(trimmed).toEqual(points);
+    expect(trimmed).not.toBe(points);
+    expect(trimTrack([], 200)).toEqual([]);
+  });
+});
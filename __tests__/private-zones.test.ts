@@ -0,0 +1,194 @@
+/**
+ * Private zone trimming: coordinates of starts, ends and route points inside
+ * a zone never leave the device
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {JourneyTrackPoint, LocalJourney} from '../src/api/types';
+import {buildJourneyCreate, PRIVATE_PLACE_LABEL} from '../src/utils/journeys';
+import {
+  findPrivateZone,
+  PrivateZone,
+  trimJourney,
+  trimTrackPoints,
+} from '../src/utils/privateZones';
+import {haversineKm} from '../src/utils/traces';
+
+const HOME: PrivateZone = {
+  id: 'home',
+  name: 'Maison',
+  latitude: 45.764,
+  longitude: 4.8357,
+  radiusMeters: 200,
+};
+
+// About 110 m north of HOME (inside it), and 5 km north of it
+const NEAR_HOME = {latitude: 45.765, longitude: 4.8357};
+const OFFICE = {latitude: 45.809, longitude: 4.8357};
+
+function journey(
+  start: {latitude: number; longitude: number},
+  end: {latitude: number; longitude: number},
+): LocalJourney {
+  const departure = Date.now() - 3600 * 1000;
+  return {
+    id: 1,
+    timeDeparture: departure,
+    timeArrival: departure + 20 * 60000,
+    durationMinutes: 20,
+    distanceKm: 5,
+    detectedTransportType: 'velo',
+    confidenceAvg: 80,
+    placeDeparture: '12 rue des Lilas',
+    placeArrival: 'Bureau',
+    clientId: 'client-1',
+    startLatitude: start.latitude,
+    startLongitude: start.longitude,
+    endLatitude: end.latitude,
+    endLongitude: end.longitude,
+    status: 'PENDING',
+    createdAt: departure,
+    updatedAt: departure,
+  };
+}
+
+function point(
+  latitude: number,
+  longitude: number,
+  timestamp = 0,
+): JourneyTrackPoint {
+  return {timestamp, latitude, longitude};
+}
+
+describe('trimJourney', () => {
+  it('hides a start inside a zone and keeps the end', () => {
+    const trimmed = trimJourney(journey(NEAR_HOME, OFFICE), [HOME]);
+
+    expect(trimmed.startLatitude).toBeUndefined();
+    expect(trimmed.startLongitude).toBeUndefined();
+    expect(trimmed.placeDeparture).toBe(PRIVATE_PLACE_LABEL);
+    expect(trimmed.endLatitude).toBe(OFFICE.latitude);
+    expect(trimmed.placeArrival).toBe('Bureau');
+  });
+
+  it('hides an end inside a zone and keeps the start', () => {
+    const trimmed = trimJourney(journey(OFFICE, NEAR_HOME), [HOME]);
+
+    expect(trimmed.endLatitude).toBeUndefined();
+    expect(trimmed.endLongitude).toBeUndefined();
+    expect(trimmed.placeArrival).toBe(PRIVATE_PLACE_LABEL);
+    expect(trimmed.startLatitude).toBe(OFFICE.latitude);
+    expect(trimmed.placeDeparture).toBe('12 rue des Lilas');
+  });
+
+  it('hides both ends of a journey entirely inside a zone', () => {
+    const inside = {latitude: 45.7635, longitude: 4.8357};
+
+    const trimmed = trimJourney(journey(NEAR_HOME, inside), [HOME]);
+
+    expect(trimmed.startLatitude).toBeUndefined();
+    expect(trimmed.endLatitude).toBeUndefined();
+    expect(trimmed.placeDeparture).toBe(PRIVATE_PLACE_LABEL);
+    expect(trimmed.placeArrival).toBe(PRIVATE_PLACE_LABEL);
+  });
+
+  it('leaves the original journey untouched', () => {
+    const original = journey(NEAR_HOME, OFFICE);
+
+    trimJourney(original, [HOME]);
+
+    expect(original.startLatitude).toBe(NEAR_HOME.latitude);
+    expect(original.placeDeparture).toBe('12 rue des Lilas');
+  });
+
+  it('keeps everything without zones', () => {
+    const original = journey(NEAR_HOME, OFFICE);
+
+    expect(trimJourney(original, [])).toEqual(original);
+  });
+});
+
+describe('zone boundary', () => {
+  // Radius set to the exact distance of the point, as computed by the zone check
+  const exactRadius = haversineKm(HOME, NEAR_HOME) * 1000;
+  const zone = {...HOME, radiusMeters: exactRadius};
+
+  it('treats a point exactly on the radius as inside', () => {
+    expect(
+      findPrivateZone([zone], NEAR_HOME.latitude, NEAR_HOME.longitude),
+    ).toBe(zone);
+    expect(trimJourney(journey(NEAR_HOME, OFFICE), [zone]).startLatitude).toBe(
+      undefined,
+    );
+  });
+
+  it('treats a point just beyond the radius as outside', () => {
+    const smaller = {...zone, radiusMeters: exactRadius - 0.01};
+
+    expect(
+      findPrivateZone([smaller], NEAR_HOME.latitude, NEAR_HOME.longitude),
+    ).toBeNull();
+    expect(
+      trimTrackPoints(
+        [point(NEAR_HOME.latitude, NEAR_HOME.longitude)],
+        [smaller],
+      ),
+    ).toHaveLength(1);
+  });
+});
+
+describe('trimTrackPoints', () => {
+  it('drops the points inside a zone at both ends of the route', () => {
+    const route = [0, 1, 2, 3, 4, 5, 6].map(minute =>
+      point(45.764 + minute * 0.001, 4.8357, minute * 60000),
+    );
+    const work: PrivateZone = {
+      ...HOME,
+      id: 'work',
+      latitude: 45.77,
+      radiusMeters: 150,
+    };
+
+    const trimmed = trimTrackPoints(route, [HOME, work]);
+
+    // Points 111 m apart: two inside each zone
+    expect(trimmed.map(p => p.timestamp / 60000)).toEqual([2, 3, 4]);
+  });
+
+  it('drops every point of a route entirely inside a zone', () => {
+    const route = [
+      point(45.764, 4.8357),
+      point(45.7645, 4.8359),
+      point(45.7635, 4.8355),
+    ];
+
+    expect(trimTrackPoints(route, [HOME])).toEqual([]);
+  });
+});
+
+describe('submitted payload', () => {
+  it.each([
+    ['trimmed', [HOME]],
+    ['without zones', []],
+  ])('carries no coordinates or place labels (%s)', (_, zones) => {
+    const original = journey(NEAR_HOME, OFFICE);
+
+    const payload = buildJourneyCreate(trimJourney(original, zones));
+    const body = JSON.stringify(payload);
+
+    for (const value of [
+      NEAR_HOME.latitude,
+      NEAR_HOME.longitude,
+      OFFICE.latitude,
+    ]) {
+      expect(body).not.toContain(String(value));
+    }
+    expect(body).not.toContain('12 rue des Lilas');
+    expect(body).not.toContain('Bureau');
+    expect(body).not.toContain(PRIVATE_PLACE_LABEL);
+    expect(Object.keys(payload).filter(key => /lat|lon/i.test(key))).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Query cache: fresh reads, stale-while-revalidate, de-duplication and
+ * invalidation, including while a fetch is in flight
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {Query, queryCache} from '../src/api/query-cache';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+/**
+ * Query answering each fetch with the next value, counting the fetches
+ */
+function counter(key: Query<number>['key'] = ['stats', 1]) {
+  let value = 0;
+  const fetch = jest.fn(async () => ++value);
+  const query: Query<number> = {key, fetch, staleTimeMs: 1000};
+  return {query, fetch};
+}
+
+beforeEach(async () => {
+  await queryCache.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetch', () => {
+  it('serves fresh data from the cache', async () => {
+    const {query, fetch} = counter();
+
+    expect(await queryCache.fetch(query)).toBe(1);
+    expect(await queryCache.fetch(query)).toBe(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(await queryCache.fetch(query, {force: true})).toBe(2);
+  });
+
+  it('shares one request between concurrent fetches', async () => {
+    const {query, fetch} = counter();
+
+    const results = await Promise.all([
+      queryCache.fetch(query),
+      queryCache.fetch(query),
+      queryCache.fetch(query, {force: true}),
+    ]);
+
+    expect(results).toEqual([1, 1, 1]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale data while the refetch is in flight', async () => {
+    const {query} = counter();
+    await queryCache.fetch(query);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001);
+    const next = deferred<number>();
+    query.fetch = () => next.promise;
+
+    expect(queryCache.isStale(query)).toBe(true);
+    const refetch = queryCache.fetch(query);
+    await Promise.resolve();
+
+    expect(queryCache.getState(query.key)).toMatchObject({
+      data: 1,
+      isFetching: true,
+    });
+    next.resolve(5);
+    expect(await refetch).toBe(5);
+    expect(queryCache.getState(query.key)).toMatchObject({
+      data: 5,
+      isFetching: false,
+    });
+    expect(queryCache.isStale(query)).toBe(false);
+  });
+
+  it('keeps the previous data when a refetch fails', async () => {
+    const {query} = counter();
+    await queryCache.fetch(query);
+    const failure = new Error('Network request failed');
+    query.fetch = () => Promise.reject(failure);
+
+    await expect(queryCache.fetch(query, {force: true})).rejects.toBe(failure);
+
+    expect(queryCache.getState(query.key)).toMatchObject({
+      data: 1,
+      error: failure,
+    });
+  });
+
+  it('drops a fetch completed after clear()', async () => {
+    const next = deferred<number>();
+    const query: Query<number> = {key: ['stats', 1], fetch: () => next.promise};
+
+    const request = queryCache.fetch(query);
+    await Promise.resolve();
+    await queryCache.clear();
+    next.resolve(7);
+
+    expect(await request).toBe(7);
+    expect(queryCache.getState(query.key).data).toBeUndefined();
+  });
+
+  it('saves persisted queries for the next cold start', async () => {
+    const {query} = counter(['wallet', 1]);
+
+    await queryCache.fetch({...query, persist: true});
+    await Promise.resolve();
+
+    const saved = JSON.parse(
+      (await AsyncStorage.getItem('@GMP_query_cache')) as string,
+    );
+    expect(Object.values(saved)).toMatchObject([{key: ['wallet', 1], data: 1}]);
+  });
+});
+
+describe('invalidate', () => {
+  it('marks the matching queries stale and notifies them', async () => {
+    const stats = counter(['stats', 1]);
+    const other = counter(['stats', 2]);
+    const wallet = counter(['wallet', 1]);
+    await Promise.all(
+      [stats, other, wallet].map(({query}) => queryCache.fetch(query)),
+    );
+    const listener = jest.fn();
+    const unsubscribe = queryCache.subscribe(['stats', 1], listener);
+
+    queryCache.invalidate(['stats']);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(queryCache.getState(['stats', 1]).isInvalidated).toBe(true);
+    expect(queryCache.isStale(other.query)).toBe(true);
+    expect(queryCache.isStale(wallet.query)).toBe(false);
+    expect(await queryCache.fetch(stats.query)).toBe(2);
+    expect(queryCache.getState(['stats', 1]).isInvalidated).toBe(false);
+  });
+
+  it('keeps a fetch in flight stale when it completes', async () => {
+    const {query} = counter();
+    await queryCache.fetch(query);
+    const next = deferred<number>();
+    query.fetch = () => next.promise;
+    const refetch = queryCache.fetch(query, {force: true});
+    await Promise.resolve();
+
+    // E.g. a journey validated while the stats were loading
+    queryCache.invalidate(['stats']);
+    next.resolve(2);
+    await refetch;
+
+    expect(queryCache.getState(query.key)).toMatchObject({
+      data: 2,
+      isInvalidated: true,
+    });
+    expect(queryCache.isStale(query)).toBe(true);
+  });
+
+  it('keeps a first fetch in flight stale too', async () => {
+    const next = deferred<number>();
+    const query: Query<number> = {key: ['stats', 1], fetch: () => next.promise};
+    const request = queryCache.fetch(query);
+    await Promise.resolve();
+    const listener = jest.fn();
+    const unsubscribe = queryCache.subscribe(query.key, listener);
+
+    queryCache.invalidate(['stats']);
+    next.resolve(1);
+    await request;
+    unsubscribe();
+
+    expect(queryCache.getState(query.key).isInvalidated).toBe(true);
+    // Mounted screens refetch on this notification
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('is cleared by a fetch started after it', async () => {
+    const {query} = counter();
+    await queryCache.fetch(query);
+    queryCache.invalidate(['stats']);
+
+    await queryCache.fetch(query);
+
+    expect(queryCache.getState(query.key).isInvalidated).toBe(false);
+    expect(queryCache.isStale(query)).toBe(false);
+  });
+});
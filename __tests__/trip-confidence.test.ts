@@ -0,0 +1,53 @@
+/**
+ * Detection confidence of a trip from its GPS fixes and average speed
+ */
+
+import {describe, expect, it} from '@jest/globals';
+
+import {
+  ESTIMATED_CONFIDENCE,
+  tripConfidence,
+} from '../src/utils/tripConfidence';
+
+const HOUR_MS = 3600000;
+
+function fixes(...accuracies: (number | undefined)[]) {
+  return accuracies.map(accuracy => ({accuracy}));
+}
+
+describe('tripConfidence', () => {
+  it('rates an estimated trip low', () => {
+    expect(tripConfidence('ON_BICYCLE', fixes(5), 15, HOUR_MS)).toBe(
+      ESTIMATED_CONFIDENCE,
+    );
+  });
+
+  it('trusts precise fixes at a plausible speed', () => {
+    expect(tripConfidence('ON_BICYCLE', fixes(5, 10, 30), 15, HOUR_MS)).toBe(
+      100,
+    );
+  });
+
+  it('counts fixes without accuracy as precise', () => {
+    expect(
+      tripConfidence('WALKING', fixes(undefined, undefined), 5, HOUR_MS),
+    ).toBe(100);
+  });
+
+  it('lowers the confidence with imprecise fixes', () => {
+    expect(tripConfidence('WALKING', fixes(10, 80, 120, 20), 5, HOUR_MS)).toBe(
+      75,
+    );
+  });
+
+  it('gives half the speed score within a factor of 2 of the range', () => {
+    // 60 km/h "by bike", 35 km/h at most
+    expect(tripConfidence('ON_BICYCLE', fixes(5, 5), 60, HOUR_MS)).toBe(75);
+  });
+
+  it('gives no speed score to an implausible speed', () => {
+    // 40 km/h on foot
+    expect(tripConfidence('WALKING', fixes(5, 5), 40, HOUR_MS)).toBe(50);
+    expect(tripConfidence('UNKNOWN', fixes(5, 5), 5, HOUR_MS)).toBe(50);
+  });
+});
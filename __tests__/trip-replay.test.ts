@@ -0,0 +1,101 @@
+/**
+ * Pending -> validated flow: a replayed trace becomes a pending journey,
+ * which is validated and sent to the mock backend
+ */
+
+import {afterAll, beforeAll, describe, expect, it} from '@jest/globals';
+
+import {apiClient} from '../src/api/client';
+import {MOCK_BASE_URL, mockBackend} from '../src/api/mock-backend';
+import {MOCK_PASSWORD} from '../src/api/mock-fixtures';
+import replayTripDetection from '../src/native/ReplayTripDetection';
+import tripDetection from '../src/native/TripDetection';
+import journeyOutbox from '../src/services/journey-outbox';
+import {buildJourneyCreate} from '../src/utils/journeys';
+
+/**
+ * 20 minutes by bike heading north, one point a minute, ending an hour ago
+ */
+function bikeTrace(): string {
+  const start = Date.now() - 80 * 60000;
+  const rows = ['timestamp,latitude,longitude,activity'];
+  for (let minute = 0; minute <= 20; minute++) {
+    rows.push(
+      [
+        start + minute * 60000,
+        (45.764 + minute * 0.0035).toFixed(6),
+        '4.8357',
+        minute === 0 ? 'ON_BICYCLE' : '',
+      ].join(','),
+    );
+  }
+  rows.push(`${start + 21 * 60000},45.834,4.8357,STILL`);
+  return rows.join('\n');
+}
+
+describe('trip replay', () => {
+  let userId: number;
+
+  beforeAll(async () => {
+    mockBackend.reset();
+    apiClient.setBaseUrl(MOCK_BASE_URL);
+    ({user_id: userId} = await apiClient.login('demo', MOCK_PASSWORD));
+    await tripDetection.startDetection();
+  });
+
+  afterAll(async () => {
+    await tripDetection.stopDetection();
+    await tripDetection.deleteAllLocalJourneys();
+    await journeyOutbox.clear();
+    await apiClient.clearTokens();
+  });
+
+  it('uses the replay driver under Jest', () => {
+    expect(tripDetection).toBe(replayTripDetection);
+  });
+
+  it('detects a pending journey and validates it', async () => {
+    const detected = await replayTripDetection.replay(bikeTrace());
+
+    expect(detected).toHaveLength(1);
+    const [journey] = await tripDetection.getPendingJourneys();
+    expect(journey.id).toBe(detected[0].id);
+    expect(journey.detectedTransportType).toBe('velo');
+    expect(journey.distanceKm).toBeGreaterThan(7);
+    // Fixes without accuracy, about 23 km/h
+    expect(journey.confidenceAvg).toBe(100);
+    expect(
+      (await tripDetection.getJourneyTrack(journey.id)).length,
+    ).toBeGreaterThan(2);
+
+    const payload = buildJourneyCreate(journey);
+    const result = await journeyOutbox.submit(journey.id, payload);
+
+    expect(result.status).toBe('sent');
+    expect(await tripDetection.getPendingCount()).toBe(0);
+    expect(await journeyOutbox.getCount()).toBe(0);
+
+    const history = await apiClient.getValidatedJourneyHistory(userId, {}, 5);
+    const validated = history.items.find(
+      item => item.client_journey_id === payload.client_journey_id,
+    );
+    expect(validated).toBeDefined();
+    expect(validated?.transport_type).toBe('velo');
+    expect(validated?.distance_km).toBeCloseTo(payload.distance_km, 2);
+  });
+
+  it('does not score a journey twice when it is sent again', async () => {
+    const [journey] = await tripDetection.getAllLocalJourneys();
+    const before = await apiClient.getUserStats(userId);
+
+    const payload = {
+      ...buildJourneyCreate(journey),
+      client_journey_id: journey.clientId,
+    };
+    await journeyOutbox.submit(null, payload);
+    await journeyOutbox.submit(null, payload);
+
+    const after = await apiClient.getUserStats(userId);
+    expect(after.validated_journey_count).toBe(before.validated_journey_count);
+  });
+});
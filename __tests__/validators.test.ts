@@ -0,0 +1,158 @@
+/**
+ * Response schemas: the mismatches they report, and what the client does
+ * with them in each validation mode
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+import {apiClient} from '../src/api/client';
+import {ResponseValidationError} from '../src/api/errors';
+import {MOCK_BASE_URL} from '../src/api/mock-backend';
+import {
+  arrayOf,
+  companySchema,
+  formatIssues,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  validate,
+} from '../src/api/validators';
+
+const COMPANY = {
+  id: 1,
+  company_code: 'GREEN1',
+  company_name: 'GreenCorp',
+  company_locate: 'Lyon',
+};
+
+interface Item {
+  id: number;
+  label: string | null;
+  note?: string;
+  kind: 'a' | 'b';
+}
+
+const itemSchema = object<Item>('Item', {
+  id: number,
+  label: nullable(string),
+  note: optional(string),
+  kind: literal('a', 'b'),
+});
+
+describe('validate', () => {
+  it('accepts a matching value, extra fields included', () => {
+    expect(
+      validate(itemSchema, {id: 1, label: null, kind: 'a', added: true}),
+    ).toEqual([]);
+  });
+
+  it('reports every mismatching field with its path', () => {
+    const issues = validate(arrayOf(itemSchema), [
+      {id: 1, label: 'ok', kind: 'a'},
+      {id: '2', label: 3, note: null, kind: 'c'},
+    ]);
+
+    expect(issues).toEqual([
+      {path: '$[1].id', expected: 'number', received: 'string "2"'},
+      {path: '$[1].label', expected: 'string | null', received: 'number'},
+      {path: '$[1].note', expected: 'string | undefined', received: 'null'},
+      {path: '$[1].kind', expected: '"a" | "b"', received: 'string "c"'},
+    ]);
+  });
+
+  it('reports a missing field or a wrong container', () => {
+    expect(validate(itemSchema, {label: null, kind: 'b'})).toEqual([
+      {path: '$.id', expected: 'number', received: 'undefined'},
+    ]);
+    expect(validate(arrayOf(itemSchema), {})).toEqual([
+      {path: '$', expected: 'array', received: 'object'},
+    ]);
+    expect(validate(itemSchema, [])).toEqual([
+      {path: '$', expected: 'Item', received: 'array'},
+    ]);
+  });
+
+  it('truncates long reports', () => {
+    const issues = validate(arrayOf(number), ['a', 'b', 'c']);
+
+    expect(formatIssues(issues, 2).split('\n')).toEqual([
+      '$[0]: expected number, received string "a"',
+      '$[1]: expected number, received string "b"',
+      '... and 1 more',
+    ]);
+  });
+});
+
+describe('validation modes', () => {
+  let body: unknown;
+  let removeInterceptor: () => void;
+
+  beforeEach(() => {
+    body = COMPANY;
+    // Outside the mock backend, so the response below is the one received
+    apiClient.setBaseUrl('https://api.test');
+    removeInterceptor = apiClient.use(
+      async () =>
+        new Response(JSON.stringify(body), {
+          status: 200,
+          headers: {'Content-Type': 'application/json'},
+        }),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    removeInterceptor();
+    apiClient.setResponseValidation('warn');
+    apiClient.setBaseUrl(MOCK_BASE_URL);
+  });
+
+  it('returns a matching response in every mode', async () => {
+    for (const mode of ['off', 'warn', 'throw'] as const) {
+      apiClient.setResponseValidation(mode);
+      await expect(apiClient.getCompanyByCode('GREEN1')).resolves.toEqual(
+        COMPANY,
+      );
+    }
+  });
+
+  it('off: returns a drifted response without checking it', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    apiClient.setResponseValidation('off');
+    body = {...COMPANY, id: '1'};
+
+    await expect(apiClient.getCompanyByCode('GREEN1')).resolves.toEqual(body);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warn: logs the mismatching fields and returns the response', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    apiClient.setResponseValidation('warn');
+    body = {...COMPANY, id: '1'};
+
+    await expect(apiClient.getCompanyByCode('GREEN1')).resolves.toEqual(body);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('/company/code/GREEN1');
+    expect(warn.mock.calls[0][0]).toContain('$.id: expected number');
+  });
+
+  it('throw: rejects with the mismatching fields', async () => {
+    apiClient.setResponseValidation('throw');
+    body = {...COMPANY, company_name: undefined};
+
+    const error = await apiClient
+      .getCompanyByCode('GREEN1')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect((error as ResponseValidationError).issues).toEqual(
+      validate(companySchema, body),
+    );
+    expect((error as ResponseValidationError).issues[0].path).toBe(
+      '$.company_name',
+    );
+  });
+});
@@ -11,6 +11,7 @@ import com.facebook.react.defaults.DefaultReactHost.getDefaultReactHost
 import com.facebook.react.defaults.DefaultReactNativeHost
 import com.facebook.react.flipper.ReactNativeFlipper
 import com.facebook.soloader.SoLoader
+import com.greenmobilitypass.bridge.SecureStoragePackage
 import com.greenmobilitypass.bridge.TripDetectionPackage
 
 class MainApplication : Application(), ReactApplication {
@@ -21,6 +22,7 @@ class MainApplication : Application(), ReactApplication {
             PackageList(this).packages.apply {
               // Add custom packages
               add(TripDetectionPackage())
+              add(SecureStoragePackage())
             }
 
         override fun getJSMainModuleName(): String = "index"
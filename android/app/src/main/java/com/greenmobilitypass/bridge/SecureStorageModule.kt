@@ -0,0 +1,145 @@
+package com.greenmobilitypass.bridge
+
+import android.content.Context
+import android.content.SharedPreferences
+import android.security.keystore.KeyGenParameterSpec
+import android.security.keystore.KeyProperties
+import android.util.Base64
+import android.util.Log
+import com.facebook.react.bridge.*
+import java.security.KeyStore
+import javax.crypto.Cipher
+import javax.crypto.KeyGenerator
+import javax.crypto.SecretKey
+import javax.crypto.spec.GCMParameterSpec
+
+/**
+ * React Native Native Module for secret storage (auth tokens).
+ * Values are encrypted with an AES-GCM key held by the Android Keystore, which never
+ * leaves it; only the ciphertext is written to SharedPreferences.
+ */
+class SecureStorageModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        private const val TAG = "SecureStorageModule"
+        private const val MODULE_NAME = "SecureStorageModule"
+        private const val KEYSTORE = "AndroidKeyStore"
+        private const val KEY_ALIAS = "gmp_secure_storage"
+        private const val PREFS_NAME = "gmp_secure_storage"
+        private const val TRANSFORMATION = "AES/GCM/NoPadding"
+        private const val IV_LENGTH = 12
+        private const val TAG_LENGTH_BITS = 128
+    }
+
+    private val prefs: SharedPreferences by lazy {
+        reactApplicationContext.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+    }
+
+    override fun getName(): String = MODULE_NAME
+
+    /**
+     * Read and decrypt a value, null when missing
+     */
+    @ReactMethod
+    fun getItem(key: String, promise: Promise) {
+        val stored = prefs.getString(key, null)
+        if (stored == null) {
+            promise.resolve(null)
+            return
+        }
+        try {
+            promise.resolve(decrypt(stored))
+        } catch (e: Exception) {
+            // Key invalidated (e.g. lock screen removed): the value is lost
+            Log.w(TAG, "Failed to decrypt $key, dropping it", e)
+            prefs.edit().remove(key).commit()
+            promise.resolve(null)
+        }
+    }
+
+    /**
+     * Encrypt and store a value
+     */
+    @ReactMethod
+    fun setItem(key: String, value: String, promise: Promise) {
+        try {
+            prefs.edit().putString(key, encrypt(value)).commit()
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to store $key", e)
+            promise.reject("SECURE_STORAGE_ERROR", e.message, e)
+        }
+    }
+
+    /**
+     * Remove a value
+     */
+    @ReactMethod
+    fun removeItem(key: String, promise: Promise) {
+        prefs.edit().remove(key).commit()
+        promise.resolve(null)
+    }
+
+    /**
+     * Remove every value and delete the key; a new one is generated on next write
+     */
+    @ReactMethod
+    fun clear(promise: Promise) {
+        try {
+            prefs.edit().clear().commit()
+            val keyStore = KeyStore.getInstance(KEYSTORE).apply { load(null) }
+            if (keyStore.containsAlias(KEY_ALIAS)) {
+                keyStore.deleteEntry(KEY_ALIAS)
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to clear secure storage", e)
+            promise.reject("SECURE_STORAGE_ERROR", e.message, e)
+        }
+    }
+
+    // ==================== Crypto ====================
+
+    private fun getOrCreateKey(): SecretKey {
+        val keyStore = KeyStore.getInstance(KEYSTORE).apply { load(null) }
+        (keyStore.getEntry(KEY_ALIAS, null) as? KeyStore.SecretKeyEntry)?.let {
+            return it.secretKey
+        }
+
+        val generator = KeyGenerator.getInstance(KeyProperties.KEY_ALGORITHM_AES, KEYSTORE)
+        generator.init(
+            KeyGenParameterSpec.Builder(
+                KEY_ALIAS,
+                KeyProperties.PURPOSE_ENCRYPT or KeyProperties.PURPOSE_DECRYPT
+            )
+                .setBlockModes(KeyProperties.BLOCK_MODE_GCM)
+                .setEncryptionPaddings(KeyProperties.ENCRYPTION_PADDING_NONE)
+                .setKeySize(256)
+                .build()
+        )
+        return generator.generateKey()
+    }
+
+    /**
+     * Base64 of IV followed by ciphertext (with its GCM tag)
+     */
+    private fun encrypt(value: String): String {
+        val cipher = Cipher.getInstance(TRANSFORMATION)
+        cipher.init(Cipher.ENCRYPT_MODE, getOrCreateKey())
+        val encrypted = cipher.doFinal(value.toByteArray(Charsets.UTF_8))
+        return Base64.encodeToString(cipher.iv + encrypted, Base64.NO_WRAP)
+    }
+
+    private fun decrypt(stored: String): String {
+        val bytes = Base64.decode(stored, Base64.NO_WRAP)
+        val cipher = Cipher.getInstance(TRANSFORMATION)
+        cipher.init(
+            Cipher.DECRYPT_MODE,
+            getOrCreateKey(),
+            GCMParameterSpec(TAG_LENGTH_BITS, bytes, 0, IV_LENGTH)
+        )
+        val decrypted = cipher.doFinal(bytes, IV_LENGTH, bytes.size - IV_LENGTH)
+        return String(decrypted, Charsets.UTF_8)
+    }
+}
@@ -7,14 +7,19 @@ import android.os.Build
 import android.util.Log
 import androidx.core.app.ActivityCompat
 import androidx.core.content.ContextCompat
+import androidx.room.withTransaction
 import com.facebook.react.bridge.*
 import com.facebook.react.modules.core.DeviceEventManagerModule
 import com.greenmobilitypass.database.AppDatabase
 import com.greenmobilitypass.database.JourneyStatus
 import com.greenmobilitypass.database.LocalJourney
 import com.greenmobilitypass.detection.BootReceiver
+import com.greenmobilitypass.detection.DetectionConfig
+import com.greenmobilitypass.detection.DetectionSchedule
+import com.greenmobilitypass.detection.DetectionScheduleReceiver
 import com.greenmobilitypass.detection.TripDetectionService
 import kotlinx.coroutines.*
+import java.util.UUID
 
 /**
  * React Native Native Module for trip detection.
@@ -29,6 +34,9 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         private const val MODULE_NAME = "TripDetectionModule"
         private const val PERMISSION_REQUEST_CODE = 1001
 
+        // Shortest part a journey can be split into
+        private const val MIN_SPLIT_PART_MS = 60_000L
+
         // Event names for React Native
         const val EVENT_TRIP_DETECTED = "onTripDetected"
         const val EVENT_DETECTION_STATE_CHANGED = "onDetectionStateChanged"
@@ -56,7 +64,8 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
     }
 
     /**
-     * Start trip detection service
+     * Enable trip detection: the service runs now if the detection schedule
+     * allows it, otherwise from the next window (DetectionScheduleReceiver)
      */
     @ReactMethod
     fun startDetection(promise: Promise) {
@@ -70,18 +79,12 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
                 return
             }
 
-            val serviceIntent = Intent(context, TripDetectionService::class.java)
-
-            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
-                context.startForegroundService(serviceIntent)
-            } else {
-                context.startService(serviceIntent)
-            }
-
-            // Save preference for boot restart
+            // Save preference for boot restart and schedule alarms
             BootReceiver.setDetectionEnabled(context, true)
+            DetectionScheduleReceiver.apply(context)
+            val isRunning = DetectionSchedule.get(context).isActive(System.currentTimeMillis())
 
-            Log.d(TAG, "Detection service started")
+            Log.d(TAG, "Detection enabled (service running: $isRunning)")
             
             // Set up trip detection listener with delay to ensure service is ready
             scope.launch {
@@ -94,7 +97,7 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
 
             sendEvent(
                 EVENT_DETECTION_STATE_CHANGED,
-                Arguments.createMap().apply { putBoolean("isRunning", true) }
+                Arguments.createMap().apply { putBoolean("isRunning", isRunning) }
             )
         } catch (e: Exception) {
             Log.e(TAG, "Failed to start detection", e)
@@ -112,8 +115,9 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
             val serviceIntent = Intent(context, TripDetectionService::class.java)
             context.stopService(serviceIntent)
 
-            // Save preference
+            // Save preference, no more schedule alarms
             BootReceiver.setDetectionEnabled(context, false)
+            DetectionScheduleReceiver.cancel(context)
 
             Log.d(TAG, "Detection service stopped")
             promise.resolve(true)
@@ -128,6 +132,38 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Save the detection schedule (JSON of the DetectionSchedule type plus
+     * pausedUntil) and apply it now when detection is enabled: the service
+     * starts, or stops once the trip in progress is over.
+     */
+    @ReactMethod
+    fun setDetectionSchedule(json: String, promise: Promise) {
+        try {
+            val context = reactApplicationContext
+            val wasRunning = TripDetectionService.isRunning()
+            DetectionSchedule.save(context, json)
+            DetectionScheduleReceiver.apply(context)
+
+            if (!wasRunning && BootReceiver.isDetectionEnabled(context) &&
+                DetectionSchedule.get(context).isActive(System.currentTimeMillis())
+            ) {
+                scope.launch {
+                    delay(500) // Wait 500ms for service to initialize
+                    setupTripListener()
+                }
+                sendEvent(
+                    EVENT_DETECTION_STATE_CHANGED,
+                    Arguments.createMap().apply { putBoolean("isRunning", true) }
+                )
+            }
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to set detection schedule", e)
+            promise.reject("UPDATE_FAILED", e.message)
+        }
+    }
+
     /**
      * Check if detection service is running
      */
@@ -160,6 +196,30 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Get all journeys stored on the device, pending and sent
+     */
+    @ReactMethod
+    fun getAllLocalJourneys(promise: Promise) {
+        scope.launch {
+            try {
+                val journeys = withContext(Dispatchers.IO) {
+                    database.localJourneyDao().getAllJourneys()
+                }
+
+                val result = Arguments.createArray()
+                journeys.forEach { journey ->
+                    result.pushMap(journeyToMap(journey))
+                }
+
+                promise.resolve(result)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to get all journeys", e)
+                promise.reject("GET_FAILED", e.message)
+            }
+        }
+    }
+
     /**
      * Get a specific journey by ID
      */
@@ -183,6 +243,80 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Get the GPS points recorded during a journey, oldest first
+     * (empty when the distance was estimated)
+     */
+    @ReactMethod
+    fun getJourneyTrack(id: Double, promise: Promise) {
+        scope.launch {
+            try {
+                val points = withContext(Dispatchers.IO) {
+                    database.journeyPointDao().getPoints(id.toLong())
+                }
+                promise.resolve(Arguments.createArray().apply {
+                    points.forEach { point ->
+                        pushMap(Arguments.createMap().apply {
+                            putDouble("timestamp", point.timestamp.toDouble())
+                            putDouble("latitude", point.latitude)
+                            putDouble("longitude", point.longitude)
+                            putDouble("accuracy", point.accuracy.toDouble())
+                            point.speed?.let { putDouble("speed", it.toDouble()) }
+                        })
+                    }
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to get journey track", e)
+                promise.reject("GET_FAILED", e.message)
+            }
+        }
+    }
+
+    /**
+     * Get the activity transitions recorded between two timestamps (epoch
+     * ms), oldest first
+     */
+    @ReactMethod
+    fun getActivityTransitions(from: Double, to: Double, promise: Promise) {
+        scope.launch {
+            try {
+                val transitions = withContext(Dispatchers.IO) {
+                    database.activityTransitionDao().getTransitions(from.toLong(), to.toLong())
+                }
+                promise.resolve(Arguments.createArray().apply {
+                    transitions.forEach { transition ->
+                        pushMap(Arguments.createMap().apply {
+                            putString("activityType", transition.activityType)
+                            putString("transitionType", transition.transitionType)
+                            putDouble("timestamp", transition.timestamp.toDouble())
+                        })
+                    }
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to get activity transitions", e)
+                promise.reject("GET_FAILED", e.message)
+            }
+        }
+    }
+
+    /**
+     * Delete every recorded activity transition (account deletion)
+     */
+    @ReactMethod
+    fun clearActivityTransitions(promise: Promise) {
+        scope.launch {
+            try {
+                withContext(Dispatchers.IO) {
+                    database.activityTransitionDao().deleteAllTransitions()
+                }
+                promise.resolve(true)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to clear activity transitions", e)
+                promise.reject("DELETE_FAILED", e.message)
+            }
+        }
+    }
+
     /**
      * Update a local journey
      */
@@ -232,7 +366,10 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         scope.launch {
             try {
                 withContext(Dispatchers.IO) {
-                    database.localJourneyDao().deleteJourney(id.toLong())
+                    database.withTransaction {
+                        database.journeyPointDao().deletePoints(id.toLong())
+                        database.localJourneyDao().deleteJourney(id.toLong())
+                    }
                 }
                 promise.resolve(true)
             } catch (e: Exception) {
@@ -242,6 +379,187 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Delete every journey stored on the device
+     */
+    @ReactMethod
+    fun deleteAllLocalJourneys(promise: Promise) {
+        scope.launch {
+            try {
+                withContext(Dispatchers.IO) {
+                    database.withTransaction {
+                        database.journeyPointDao().deleteAllPoints()
+                        database.localJourneyDao().deleteAllJourneys()
+                    }
+                }
+                promise.resolve(true)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to delete all journeys", e)
+                promise.reject("DELETE_FAILED", e.message)
+            }
+        }
+    }
+
+    /**
+     * Merge several adjacent pending journeys into a single one.
+     * Times span the whole set, distances are summed, the dominant mode is the
+     * one covering the most distance and confidence is distance-weighted.
+     * Fails when another pending journey lies between them.
+     */
+    @ReactMethod
+    fun mergeJourneys(ids: ReadableArray, promise: Promise) {
+        scope.launch {
+            try {
+                val merged = withContext(Dispatchers.IO) {
+                    database.withTransaction {
+                        val dao = database.localJourneyDao()
+                        val journeys = (0 until ids.size())
+                            .mapNotNull { dao.getJourney(ids.getDouble(it).toLong()) }
+                            .filter { it.status == JourneyStatus.PENDING }
+                            .sortedBy { it.timeDeparture }
+
+                        if (journeys.size < 2) {
+                            throw Exception("At least two pending journeys are required")
+                        }
+
+                        val first = journeys.first()
+                        val last = journeys.maxByOrNull { it.timeArrival } ?: journeys.last()
+                        val mergedIds = journeys.map { it.id }.toSet()
+                        val inBetween = dao.getJourneysByStatus().any {
+                            it.id !in mergedIds &&
+                                it.timeDeparture > first.timeDeparture &&
+                                it.timeDeparture < last.timeArrival
+                        }
+                        if (inBetween) {
+                            throw Exception("Only adjacent journeys can be merged")
+                        }
+                        val totalDistance = journeys.sumOf { it.distanceKm }
+                        val dominantType = journeys
+                            .groupBy { it.detectedTransportType }
+                            .maxByOrNull { (_, group) -> group.sumOf { it.distanceKm } }
+                            ?.key ?: first.detectedTransportType
+                        val confidence = if (totalDistance > 0) {
+                            journeys.sumOf { it.confidenceAvg * it.distanceKm } / totalDistance
+                        } else {
+                            journeys.map { it.confidenceAvg }.average()
+                        }
+
+                        val mergedJourney = LocalJourney(
+                            timeDeparture = first.timeDeparture,
+                            timeArrival = last.timeArrival,
+                            durationMinutes = ((last.timeArrival - first.timeDeparture) / 60_000L).toInt(),
+                            distanceKm = totalDistance,
+                            detectedTransportType = dominantType,
+                            confidenceAvg = Math.round(confidence).toInt(),
+                            placeDeparture = first.placeDeparture,
+                            placeArrival = last.placeArrival,
+                            isGpsBasedDistance = journeys.all { it.isGpsBasedDistance },
+                            gpsPointsCount = journeys.sumOf { it.gpsPointsCount },
+                            startLatitude = first.startLatitude,
+                            startLongitude = first.startLongitude,
+                            endLatitude = last.endLatitude,
+                            endLongitude = last.endLongitude
+                        )
+
+                        val id = dao.insertJourney(mergedJourney)
+                        journeys.forEach {
+                            database.journeyPointDao().movePoints(it.id, id)
+                            dao.deleteJourney(it.id)
+                        }
+                        mergedJourney.copy(id = id)
+                    }
+                }
+
+                Log.d(TAG, "Merged ${ids.size()} journeys into id=${merged.id}")
+                promise.resolve(journeyToMap(merged))
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to merge journeys", e)
+                promise.reject("MERGE_FAILED", e.message)
+            }
+        }
+    }
+
+    /**
+     * Split a pending journey in two at the given timestamp (epoch ms).
+     * Each part must last at least a minute. The distance is shared in
+     * proportion to the time; the recorded points go to the part they were
+     * recorded in and give the coordinates around the split (none without
+     * points). The original is deleted.
+     */
+    @ReactMethod
+    fun splitJourney(id: Double, timestamp: Double, promise: Promise) {
+        scope.launch {
+            try {
+                val parts = withContext(Dispatchers.IO) {
+                    database.withTransaction {
+                        val dao = database.localJourneyDao()
+                        val journey = dao.getJourney(id.toLong())
+                            ?.takeIf { it.status == JourneyStatus.PENDING }
+                            ?: throw Exception("Pending journey not found")
+
+                        val splitAt = timestamp.toLong()
+                        if (splitAt - journey.timeDeparture < MIN_SPLIT_PART_MS ||
+                            journey.timeArrival - splitAt < MIN_SPLIT_PART_MS
+                        ) {
+                            throw Exception("Each part must last at least a minute")
+                        }
+
+                        val ratio = (splitAt - journey.timeDeparture).toDouble() /
+                            (journey.timeArrival - journey.timeDeparture)
+                        val points = database.journeyPointDao().getPoints(journey.id)
+                        val before = points.filter { it.timestamp < splitAt }
+                        val after = points.filter { it.timestamp >= splitAt }
+                        val firstPoints = if (points.isNotEmpty()) {
+                            before.size
+                        } else {
+                            Math.round(journey.gpsPointsCount * ratio).toInt()
+                        }
+
+                        val first = journey.copy(
+                            id = 0,
+                            timeArrival = splitAt,
+                            durationMinutes = ((splitAt - journey.timeDeparture) / 60_000L).toInt(),
+                            distanceKm = journey.distanceKm * ratio,
+                            gpsPointsCount = firstPoints,
+                            endLatitude = before.lastOrNull()?.latitude,
+                            endLongitude = before.lastOrNull()?.longitude,
+                            clientId = UUID.randomUUID().toString(),
+                            createdAt = System.currentTimeMillis(),
+                            updatedAt = System.currentTimeMillis()
+                        )
+                        val second = journey.copy(
+                            id = 0,
+                            timeDeparture = splitAt,
+                            durationMinutes = ((journey.timeArrival - splitAt) / 60_000L).toInt(),
+                            distanceKm = journey.distanceKm - first.distanceKm,
+                            gpsPointsCount = if (points.isNotEmpty()) after.size else journey.gpsPointsCount - firstPoints,
+                            startLatitude = after.firstOrNull()?.latitude,
+                            startLongitude = after.firstOrNull()?.longitude,
+                            clientId = UUID.randomUUID().toString(),
+                            createdAt = System.currentTimeMillis(),
+                            updatedAt = System.currentTimeMillis()
+                        )
+
+                        val firstId = dao.insertJourney(first)
+                        val secondId = dao.insertJourney(second)
+                        database.journeyPointDao().movePointsBefore(journey.id, firstId, splitAt)
+                        database.journeyPointDao().movePoints(journey.id, secondId)
+                        dao.deleteJourney(journey.id)
+                        listOf(first.copy(id = firstId), second.copy(id = secondId))
+                    }
+                }
+
+                Log.d(TAG, "Split journey id=${id.toLong()} into ${parts.map { it.id }}")
+                promise.resolve(Arguments.createArray().apply {
+                    parts.forEach { pushMap(journeyToMap(it)) }
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to split journey", e)
+                promise.reject("SPLIT_FAILED", e.message)
+            }
+        }
+    }
+
     /**
      * Mark a journey as sent to backend
      */
@@ -418,6 +736,13 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
                 }
                 sendEvent("onGpsLog", params)
             }
+
+            service.onStoppedByScheduleListener = {
+                sendEvent(
+                    EVENT_DETECTION_STATE_CHANGED,
+                    Arguments.createMap().apply { putBoolean("isRunning", false) }
+                )
+            }
             Log.d(TAG, "Listeners configured successfully")
         } else {
             // Service not ready yet, will be set up when service starts
@@ -460,6 +785,13 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
                             }
                             sendEvent("onGpsLog", params)
                         }
+
+                        serviceInstance.onStoppedByScheduleListener = {
+                            sendEvent(
+                                EVENT_DETECTION_STATE_CHANGED,
+                                Arguments.createMap().apply { putBoolean("isRunning", false) }
+                            )
+                        }
                         Log.d(TAG, "Listeners configured successfully after retry")
                         return@launch
                     }
@@ -485,6 +817,63 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
         )
     }
 
+    /**
+     * Get the detection thresholds (defaults until set from React Native)
+     */
+    @ReactMethod
+    fun getDetectionConfig(promise: Promise) {
+        try {
+            promise.resolve(configToMap(DetectionConfig.get(reactApplicationContext)))
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to get detection config", e)
+            promise.reject("GET_FAILED", e.message)
+        }
+    }
+
+    /**
+     * Update some detection thresholds. Missing keys keep their value; rejects
+     * with INVALID_CONFIG when a value is out of range. The running service
+     * picks the new values up at its next decision.
+     */
+    @ReactMethod
+    fun setDetectionConfig(updates: ReadableMap, promise: Promise) {
+        try {
+            val current = DetectionConfig.get(reactApplicationContext)
+            fun value(key: String, fallback: Int): Int =
+                if (updates.hasKey(key) && !updates.isNull(key)) updates.getDouble(key).toInt() else fallback
+
+            val config = DetectionConfig(
+                minDurationSeconds = value("minDurationSeconds", current.minDurationSeconds),
+                minDistanceMeters = value("minDistanceMeters", current.minDistanceMeters),
+                stopTimeoutSeconds = value("stopTimeoutSeconds", current.stopTimeoutSeconds),
+                gpsIntervalSeconds = value("gpsIntervalSeconds", current.gpsIntervalSeconds),
+                minConfidence = value("minConfidence", current.minConfidence)
+            )
+            val invalidField = config.invalidField()
+            if (invalidField != null) {
+                val range = DetectionConfig.RANGES.getValue(invalidField)
+                promise.reject(
+                    "INVALID_CONFIG",
+                    "$invalidField must be between ${range.first} and ${range.last}"
+                )
+                return
+            }
+
+            config.save(reactApplicationContext)
+            Log.d(TAG, "Detection config updated: $config")
+            promise.resolve(configToMap(config))
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to set detection config", e)
+            promise.reject("UPDATE_FAILED", e.message)
+        }
+    }
+
+    private fun configToMap(config: DetectionConfig): WritableMap {
+        return Arguments.createMap().apply {
+            config.toMap().forEach { (key, value) -> putInt(key, value) }
+        }
+    }
+
     /**
      * Create a fake LocalJourney and insert into Room, then notify JS.
      * Used to test the full flow (Room -> UI -> backend) from the mobile app UI.
@@ -532,6 +921,13 @@ class TripDetectionModule(reactContext: ReactApplicationContext) :
             putInt("confidenceAvg", journey.confidenceAvg)
             putString("placeDeparture", journey.placeDeparture)
             putString("placeArrival", journey.placeArrival)
+            putString("clientId", journey.clientId)
+            putBoolean("isGpsBasedDistance", journey.isGpsBasedDistance)
+            putInt("gpsPointsCount", journey.gpsPointsCount)
+            journey.startLatitude?.let { putDouble("startLatitude", it) }
+            journey.startLongitude?.let { putDouble("startLongitude", it) }
+            journey.endLatitude?.let { putDouble("endLatitude", it) }
+            journey.endLongitude?.let { putDouble("endLongitude", it) }
             putString("status", journey.status)
             putDouble("createdAt", journey.createdAt.toDouble())
             putDouble("updatedAt", journey.updatedAt.toDouble())
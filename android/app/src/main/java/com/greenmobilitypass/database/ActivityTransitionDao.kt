@@ -0,0 +1,31 @@
+package com.greenmobilitypass.database
+
+import androidx.room.*
+
+/**
+ * Data Access Object for ActivityTransitionRecord entity.
+ */
+@Dao
+interface ActivityTransitionDao {
+
+    /**
+     * Get the transitions recorded between two timestamps, oldest first
+     */
+    @Query("SELECT * FROM activity_transitions WHERE timestamp BETWEEN :from AND :to ORDER BY timestamp ASC")
+    suspend fun getTransitions(from: Long, to: Long): List<ActivityTransitionRecord>
+
+    @Insert
+    suspend fun insertTransition(transition: ActivityTransitionRecord)
+
+    /**
+     * Delete the transitions recorded before a timestamp (expiry)
+     */
+    @Query("DELETE FROM activity_transitions WHERE timestamp < :before")
+    suspend fun deleteTransitionsBefore(before: Long)
+
+    /**
+     * Delete every transition (account deletion)
+     */
+    @Query("DELETE FROM activity_transitions")
+    suspend fun deleteAllTransitions()
+}
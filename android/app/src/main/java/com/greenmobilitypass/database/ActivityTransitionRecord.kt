@@ -0,0 +1,28 @@
+package com.greenmobilitypass.database
+
+import androidx.room.Entity
+import androidx.room.Index
+import androidx.room.PrimaryKey
+
+/**
+ * Activity transition acted on by the detection service, kept so a journey
+ * can be split into legs where the activity changed, even when React Native
+ * was not running at the time. Kept 48 hours.
+ */
+@Entity(
+    tableName = "activity_transitions",
+    indices = [Index("timestamp")]
+)
+data class ActivityTransitionRecord(
+    @PrimaryKey(autoGenerate = true)
+    val id: Long = 0,
+
+    // Reception time (epoch milliseconds)
+    val timestamp: Long,
+
+    // WALKING, RUNNING, ON_BICYCLE, IN_VEHICLE, STILL...
+    val activityType: String,
+
+    // ENTER or EXIT
+    val transitionType: String
+)
@@ -4,24 +4,82 @@ import android.content.Context
 import androidx.room.Database
 import androidx.room.Room
 import androidx.room.RoomDatabase
+import androidx.room.migration.Migration
+import androidx.sqlite.db.SupportSQLiteDatabase
 
 /**
- * Room database for storing local journeys.
+ * Room database for storing local journeys, their GPS points and the recent
+ * activity transitions.
  * Uses singleton pattern to ensure only one instance exists.
  */
 @Database(
-    entities = [LocalJourney::class],
-    version = 2,
+    entities = [LocalJourney::class, JourneyPoint::class, ActivityTransitionRecord::class],
+    version = 5,
     exportSchema = false
 )
 abstract class AppDatabase : RoomDatabase() {
 
     abstract fun localJourneyDao(): LocalJourneyDao
 
+    abstract fun journeyPointDao(): JourneyPointDao
+
+    abstract fun activityTransitionDao(): ActivityTransitionDao
+
     companion object {
         @Volatile
         private var INSTANCE: AppDatabase? = null
 
+        /**
+         * v3: add clientId (idempotency key) without dropping pending journeys
+         */
+        private val MIGRATION_2_3 = object : Migration(2, 3) {
+            override fun migrate(db: SupportSQLiteDatabase) {
+                db.execSQL("ALTER TABLE local_journeys ADD COLUMN clientId TEXT NOT NULL DEFAULT ''")
+                // Random version 4 UUID, same format as UUID.randomUUID() for new rows
+                db.execSQL(
+                    "UPDATE local_journeys SET clientId = " +
+                        "lower(hex(randomblob(4))) || '-' || " +
+                        "lower(hex(randomblob(2))) || '-4' || " +
+                        "substr(lower(hex(randomblob(2))), 2) || '-' || " +
+                        "substr('89ab', abs(random()) % 4 + 1, 1) || " +
+                        "substr(lower(hex(randomblob(2))), 2) || '-' || " +
+                        "lower(hex(randomblob(6))) " +
+                        "WHERE clientId = ''"
+                )
+            }
+        }
+
+        /**
+         * v4: keep the GPS points of each journey (route display)
+         */
+        private val MIGRATION_3_4 = object : Migration(3, 4) {
+            override fun migrate(db: SupportSQLiteDatabase) {
+                db.execSQL(
+                    "CREATE TABLE IF NOT EXISTS `journey_points` (" +
+                        "`id` INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL, " +
+                        "`journeyId` INTEGER NOT NULL, `timestamp` INTEGER NOT NULL, " +
+                        "`latitude` REAL NOT NULL, `longitude` REAL NOT NULL, " +
+                        "`accuracy` REAL NOT NULL, `speed` REAL)"
+                )
+                db.execSQL("CREATE INDEX IF NOT EXISTS `index_journey_points_journeyId` ON `journey_points` (`journeyId`)")
+            }
+        }
+
+        /**
+         * v5: keep the activity transitions (journey legs)
+         */
+        private val MIGRATION_4_5 = object : Migration(4, 5) {
+            override fun migrate(db: SupportSQLiteDatabase) {
+                db.execSQL(
+                    "CREATE TABLE IF NOT EXISTS `activity_transitions` (" +
+                        "`id` INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL, " +
+                        "`timestamp` INTEGER NOT NULL, " +
+                        "`activityType` TEXT NOT NULL, `transitionType` TEXT NOT NULL)"
+                )
+                db.execSQL("CREATE INDEX IF NOT EXISTS `index_activity_transitions_timestamp` ON `activity_transitions` (`timestamp`)")
+            }
+        }
+
         fun getInstance(context: Context): AppDatabase {
             return INSTANCE ?: synchronized(this) {
                 val instance = Room.databaseBuilder(
@@ -29,6 +87,7 @@ abstract class AppDatabase : RoomDatabase() {
                     AppDatabase::class.java,
                     "green_mobility_pass_db"
                 )
+                    .addMigrations(MIGRATION_2_3, MIGRATION_3_4, MIGRATION_4_5)
                     .fallbackToDestructiveMigration()
                     .build()
                 INSTANCE = instance
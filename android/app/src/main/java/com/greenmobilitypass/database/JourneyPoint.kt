@@ -0,0 +1,33 @@
+package com.greenmobilitypass.database
+
+import androidx.room.Entity
+import androidx.room.Index
+import androidx.room.PrimaryKey
+
+/**
+ * GPS point recorded during a detected journey, used to draw its route.
+ * Points are moved along when journeys are merged or split, and deleted
+ * with their journey.
+ */
+@Entity(
+    tableName = "journey_points",
+    indices = [Index("journeyId")]
+)
+data class JourneyPoint(
+    @PrimaryKey(autoGenerate = true)
+    val id: Long = 0,
+
+    val journeyId: Long,
+
+    // Fix time (epoch milliseconds)
+    val timestamp: Long,
+
+    val latitude: Double,
+    val longitude: Double,
+
+    // Horizontal accuracy in meters
+    val accuracy: Float = 0f,
+
+    // Speed reported by the fix in m/s, when available
+    val speed: Float? = null
+)
@@ -0,0 +1,40 @@
+package com.greenmobilitypass.database
+
+import androidx.room.*
+
+/**
+ * Data Access Object for JourneyPoint entity.
+ */
+@Dao
+interface JourneyPointDao {
+
+    /**
+     * Get the points of a journey, oldest first
+     */
+    @Query("SELECT * FROM journey_points WHERE journeyId = :journeyId ORDER BY timestamp ASC")
+    suspend fun getPoints(journeyId: Long): List<JourneyPoint>
+
+    @Insert
+    suspend fun insertPoints(points: List<JourneyPoint>)
+
+    /**
+     * Move the points of a journey to another one (merge)
+     */
+    @Query("UPDATE journey_points SET journeyId = :toJourneyId WHERE journeyId = :fromJourneyId")
+    suspend fun movePoints(fromJourneyId: Long, toJourneyId: Long)
+
+    /**
+     * Move the points recorded before a timestamp to another journey (split)
+     */
+    @Query("UPDATE journey_points SET journeyId = :toJourneyId WHERE journeyId = :fromJourneyId AND timestamp < :before")
+    suspend fun movePointsBefore(fromJourneyId: Long, toJourneyId: Long, before: Long)
+
+    @Query("DELETE FROM journey_points WHERE journeyId = :journeyId")
+    suspend fun deletePoints(journeyId: Long)
+
+    /**
+     * Delete every point (account deletion)
+     */
+    @Query("DELETE FROM journey_points")
+    suspend fun deleteAllPoints()
+}
@@ -2,6 +2,7 @@ package com.greenmobilitypass.database
 
 import androidx.room.Entity
 import androidx.room.PrimaryKey
+import java.util.UUID
 
 /**
  * Entity representing a locally detected journey.
@@ -40,6 +41,10 @@ data class LocalJourney(
     val endLatitude: Double? = null,
     val endLongitude: Double? = null,
 
+    // Stable client-generated id, sent with the journey so the backend can
+    // detect retries of the same trip (idempotency key)
+    val clientId: String = UUID.randomUUID().toString(),
+
     // Status: "PENDING" or "SENT"
     val status: String = JourneyStatus.PENDING,
 
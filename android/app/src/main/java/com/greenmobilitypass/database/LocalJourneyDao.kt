@@ -16,6 +16,12 @@ interface LocalJourneyDao {
     @Query("SELECT * FROM local_journeys WHERE status = :status ORDER BY timeDeparture DESC")
     suspend fun getJourneysByStatus(status: String = JourneyStatus.PENDING): List<LocalJourney>
 
+    /**
+     * Get every journey, whatever its status (personal data export)
+     */
+    @Query("SELECT * FROM local_journeys ORDER BY timeDeparture DESC")
+    suspend fun getAllJourneys(): List<LocalJourney>
+
     /**
      * Get pending journeys as Flow for reactive updates
      */
@@ -67,4 +73,10 @@ interface LocalJourneyDao {
      */
     @Query("DELETE FROM local_journeys WHERE status = 'SENT'")
     suspend fun deleteSentJourneys()
+
+    /**
+     * Delete every journey (account deletion)
+     */
+    @Query("DELETE FROM local_journeys")
+    suspend fun deleteAllJourneys()
 }
@@ -3,13 +3,12 @@ package com.greenmobilitypass.detection
 import android.content.BroadcastReceiver
 import android.content.Context
 import android.content.Intent
-import android.content.SharedPreferences
-import android.os.Build
 import android.util.Log
 
 /**
  * BroadcastReceiver to restart the TripDetectionService after device boot.
- * Only restarts if detection was previously enabled by the user.
+ * Only restarts if detection was previously enabled by the user, and only
+ * within the detection schedule (see DetectionScheduleReceiver).
  */
 class BootReceiver : BroadcastReceiver() {
 
@@ -36,26 +35,12 @@ class BootReceiver : BroadcastReceiver() {
             Log.d(TAG, "Boot completed received")
 
             if (isDetectionEnabled(context)) {
-                Log.d(TAG, "Detection was enabled, restarting service")
-                startDetectionService(context)
+                // Started now only within the schedule, alarms are set again
+                Log.d(TAG, "Detection was enabled, following the detection schedule")
+                DetectionScheduleReceiver.apply(context)
             } else {
                 Log.d(TAG, "Detection was not enabled, not starting service")
             }
         }
     }
-
-    private fun startDetectionService(context: Context) {
-        val serviceIntent = Intent(context, TripDetectionService::class.java)
-
-        try {
-            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
-                context.startForegroundService(serviceIntent)
-            } else {
-                context.startService(serviceIntent)
-            }
-            Log.d(TAG, "Detection service started after boot")
-        } catch (e: Exception) {
-            Log.e(TAG, "Failed to start detection service after boot", e)
-        }
-    }
 }
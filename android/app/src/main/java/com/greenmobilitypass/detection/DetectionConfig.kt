@@ -0,0 +1,76 @@
+package com.greenmobilitypass.detection
+
+import android.content.Context
+
+/**
+ * Tunable thresholds of the trip detection, persisted in SharedPreferences
+ * and editable from React Native (TripDetectionModule.setDetectionConfig).
+ *
+ * Defaults keep the behaviour the detection had before it was configurable.
+ * Ranges must match src/utils/detectionConfig.ts.
+ */
+data class DetectionConfig(
+    val minDurationSeconds: Int = 1,      // Shorter trips are discarded
+    val minDistanceMeters: Int = 0,       // Shorter trips are discarded
+    val stopTimeoutSeconds: Int = 60,     // STILL time before a trip ends
+    val gpsIntervalSeconds: Int = 5,      // GPS sampling, x4 once speed is stable
+    val minConfidence: Int = 0            // Less confident trips are discarded
+) {
+
+    companion object {
+        private const val PREFS_NAME = "GreenMobilityPassPrefs"
+        private const val KEY_PREFIX = "detection_config_"
+
+        val RANGES: Map<String, IntRange> = mapOf(
+            "minDurationSeconds" to 1..1800,
+            "minDistanceMeters" to 0..5000,
+            "stopTimeoutSeconds" to 30..900,
+            "gpsIntervalSeconds" to 1..60,
+            "minConfidence" to 0..100
+        )
+
+        // Last loaded or saved config, so the detection reads SharedPreferences once
+        @Volatile
+        private var current: DetectionConfig? = null
+
+        /**
+         * Current config, loaded from SharedPreferences on first use and
+         * replaced by save()
+         */
+        fun get(context: Context): DetectionConfig =
+            current ?: load(context).also { current = it }
+
+        private fun load(context: Context): DetectionConfig {
+            val prefs = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+            val defaults = DetectionConfig()
+            return DetectionConfig(
+                minDurationSeconds = prefs.getInt(KEY_PREFIX + "minDurationSeconds", defaults.minDurationSeconds),
+                minDistanceMeters = prefs.getInt(KEY_PREFIX + "minDistanceMeters", defaults.minDistanceMeters),
+                stopTimeoutSeconds = prefs.getInt(KEY_PREFIX + "stopTimeoutSeconds", defaults.stopTimeoutSeconds),
+                gpsIntervalSeconds = prefs.getInt(KEY_PREFIX + "gpsIntervalSeconds", defaults.gpsIntervalSeconds),
+                minConfidence = prefs.getInt(KEY_PREFIX + "minConfidence", defaults.minConfidence)
+            )
+        }
+    }
+
+    fun toMap(): Map<String, Int> = mapOf(
+        "minDurationSeconds" to minDurationSeconds,
+        "minDistanceMeters" to minDistanceMeters,
+        "stopTimeoutSeconds" to stopTimeoutSeconds,
+        "gpsIntervalSeconds" to gpsIntervalSeconds,
+        "minConfidence" to minConfidence
+    )
+
+    /**
+     * Name of the first value out of its range, null when all are valid
+     */
+    fun invalidField(): String? =
+        toMap().entries.firstOrNull { (key, value) -> value !in RANGES.getValue(key) }?.key
+
+    fun save(context: Context) {
+        val editor = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE).edit()
+        toMap().forEach { (key, value) -> editor.putInt(KEY_PREFIX + key, value) }
+        editor.apply()
+        current = this
+    }
+}
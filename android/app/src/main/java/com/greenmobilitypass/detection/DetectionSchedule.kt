@@ -0,0 +1,168 @@
+package com.greenmobilitypass.detection
+
+import android.content.Context
+import org.json.JSONObject
+import java.util.Calendar
+import java.util.Locale
+
+/**
+ * Commute windows during which trip detection runs, and the "pause for today"
+ * override, persisted in SharedPreferences and set from React Native
+ * (TripDetectionModule.setDetectionSchedule).
+ *
+ * Same rules as src/utils/detectionSchedule.ts: when the schedule is off,
+ * detection runs all the time.
+ */
+data class DetectionSchedule(
+    val enabled: Boolean = false,
+    val days: Set<Int> = setOf(1, 2, 3, 4, 5),     // 0 = Sunday ... 6 = Saturday
+    val windows: List<Pair<Int, Int>> = emptyList(), // Start and end, in minutes of the day
+    val exceptions: Map<String, Boolean> = emptyMap(), // YYYY-MM-DD -> detection on that day
+    val pausedUntil: Long? = null                   // Epoch ms
+) {
+
+    companion object {
+        private const val PREFS_NAME = "GreenMobilityPassPrefs"
+        private const val KEY_SCHEDULE = "detection_schedule"
+
+        // Boundaries are looked for within a week, as in JS
+        private const val DAYS_AHEAD = 7
+
+        /**
+         * Parse the JSON sent by React Native: the DetectionSchedule type
+         * plus pausedUntil
+         */
+        private fun fromJson(json: String): DetectionSchedule {
+            val obj = JSONObject(json)
+            val days = obj.optJSONArray("days")
+            val windows = obj.optJSONArray("windows")
+            val exceptions = obj.optJSONArray("exceptions")
+            return DetectionSchedule(
+                enabled = obj.optBoolean("enabled", false),
+                days = (0 until (days?.length() ?: 0)).map { days!!.getInt(it) }.toSet(),
+                windows = (0 until (windows?.length() ?: 0)).mapNotNull { index ->
+                    val window = windows!!.getJSONObject(index)
+                    val start = parseTimeOfDay(window.optString("start"))
+                    val end = parseTimeOfDay(window.optString("end"))
+                    if (start != null && end != null) start to end else null
+                },
+                exceptions = (0 until (exceptions?.length() ?: 0)).associate { index ->
+                    val exception = exceptions!!.getJSONObject(index)
+                    exception.getString("date") to exception.getBoolean("active")
+                },
+                pausedUntil = if (obj.isNull("pausedUntil")) null else obj.getLong("pausedUntil")
+            )
+        }
+
+        // Last loaded or saved schedule, so transitions do not read SharedPreferences
+        @Volatile
+        private var current: DetectionSchedule? = null
+
+        /**
+         * Saved schedule, off (detection all the time) until one is set
+         */
+        fun get(context: Context): DetectionSchedule =
+            current ?: load(context).also { current = it }
+
+        private fun load(context: Context): DetectionSchedule {
+            val json = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .getString(KEY_SCHEDULE, null)
+                ?: return DetectionSchedule()
+            return try {
+                fromJson(json)
+            } catch (e: Exception) {
+                DetectionSchedule()
+            }
+        }
+
+        /**
+         * Save the JSON sent by React Native, throws when it is not a schedule
+         */
+        fun save(context: Context, json: String): DetectionSchedule {
+            val schedule = fromJson(json)
+            context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+                .edit()
+                .putString(KEY_SCHEDULE, json)
+                .apply()
+            current = schedule
+            return schedule
+        }
+
+        private fun parseTimeOfDay(value: String): Int? {
+            val match = Regex("^(\\d{2}):(\\d{2})$").find(value) ?: return null
+            val hours = match.groupValues[1].toInt()
+            val minutes = match.groupValues[2].toInt()
+            return if (hours < 24 && minutes < 60) hours * 60 + minutes else null
+        }
+    }
+
+    /**
+     * Whether detection should run at a given time (pause included)
+     */
+    fun isActive(timeMs: Long): Boolean {
+        if (pausedUntil != null && pausedUntil > timeMs) {
+            return false
+        }
+        return isInSchedule(timeMs)
+    }
+
+    /**
+     * Next time detection should start or stop, null when it never changes
+     * within a week (schedule off, no active day...)
+     */
+    fun nextChange(timeMs: Long): Long? {
+        if (pausedUntil != null && pausedUntil > timeMs) {
+            // Checked again when the pause ends
+            return pausedUntil
+        }
+        if (!enabled) {
+            return null
+        }
+        val current = isInSchedule(timeMs)
+        val today = Calendar.getInstance().apply {
+            timeInMillis = timeMs
+            set(Calendar.HOUR_OF_DAY, 0)
+            set(Calendar.MINUTE, 0)
+            set(Calendar.SECOND, 0)
+            set(Calendar.MILLISECOND, 0)
+        }
+
+        val boundaries = mutableListOf<Long>()
+        for (offset in 0..DAYS_AHEAD) {
+            windows.forEach { (start, end) ->
+                listOf(start, end).forEach { minutes ->
+                    val boundary = (today.clone() as Calendar).apply {
+                        add(Calendar.DAY_OF_MONTH, offset)
+                        set(Calendar.HOUR_OF_DAY, minutes / 60)
+                        set(Calendar.MINUTE, minutes % 60)
+                    }.timeInMillis
+                    if (boundary > timeMs) {
+                        boundaries.add(boundary)
+                    }
+                }
+            }
+        }
+        return boundaries.sorted().firstOrNull { isInSchedule(it) != current }
+    }
+
+    private fun isInSchedule(timeMs: Long): Boolean {
+        if (!enabled) {
+            return true
+        }
+        val calendar = Calendar.getInstance().apply { timeInMillis = timeMs }
+        val dateKey = String.format(
+            Locale.US,
+            "%04d-%02d-%02d",
+            calendar.get(Calendar.YEAR),
+            calendar.get(Calendar.MONTH) + 1,
+            calendar.get(Calendar.DAY_OF_MONTH)
+        )
+        // Calendar.SUNDAY is 1, JS Date.getDay() gives 0
+        val activeDay = exceptions[dateKey] ?: days.contains(calendar.get(Calendar.DAY_OF_WEEK) - 1)
+        if (!activeDay) {
+            return false
+        }
+        val minutes = calendar.get(Calendar.HOUR_OF_DAY) * 60 + calendar.get(Calendar.MINUTE)
+        return windows.any { (start, end) -> minutes >= start && minutes < end }
+    }
+}
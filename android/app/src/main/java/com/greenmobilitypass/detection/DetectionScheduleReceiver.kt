@@ -0,0 +1,101 @@
+package com.greenmobilitypass.detection
+
+import android.app.AlarmManager
+import android.app.PendingIntent
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.os.Build
+import android.util.Log
+
+/**
+ * Starts and stops the TripDetectionService at the boundaries of the
+ * detection schedule, with an AlarmManager alarm set for the next boundary.
+ * Runs without React Native, so windows are followed while the app is in the
+ * background or was never opened since boot.
+ */
+class DetectionScheduleReceiver : BroadcastReceiver() {
+
+    companion object {
+        private const val TAG = "DetectionSchedule"
+        private const val REQUEST_CODE = 2001
+
+        /**
+         * Match the service to the schedule now, then set the alarm for the
+         * next boundary. Does nothing (and cancels the alarm) while detection
+         * is disabled. A trip in progress is finished before the service stops.
+         */
+        fun apply(context: Context) {
+            if (!BootReceiver.isDetectionEnabled(context)) {
+                cancel(context)
+                return
+            }
+
+            val now = System.currentTimeMillis()
+            val schedule = DetectionSchedule.get(context)
+            val service = TripDetectionService.getInstance()
+            if (schedule.isActive(now)) {
+                if (service == null) {
+                    startService(context)
+                }
+            } else {
+                service?.applySchedule()
+            }
+
+            val nextChange = schedule.nextChange(now)
+            if (nextChange != null) {
+                setAlarm(context, nextChange)
+            } else {
+                cancel(context)
+            }
+        }
+
+        fun cancel(context: Context) {
+            val alarmManager = context.getSystemService(AlarmManager::class.java)
+            alarmManager.cancel(alarmIntent(context))
+        }
+
+        private fun setAlarm(context: Context, triggerAtMs: Long) {
+            val alarmManager = context.getSystemService(AlarmManager::class.java)
+            val intent = alarmIntent(context)
+            // An exact alarm may start a foreground service from the background,
+            // an inexact one is only a best effort on Android 12+
+            if (Build.VERSION.SDK_INT < Build.VERSION_CODES.S || alarmManager.canScheduleExactAlarms()) {
+                alarmManager.setExactAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, triggerAtMs, intent)
+            } else {
+                alarmManager.setAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, triggerAtMs, intent)
+            }
+            Log.d(TAG, "Next schedule check at ${java.util.Date(triggerAtMs)}")
+        }
+
+        private fun alarmIntent(context: Context): PendingIntent =
+            PendingIntent.getBroadcast(
+                context,
+                REQUEST_CODE,
+                Intent(context, DetectionScheduleReceiver::class.java),
+                PendingIntent.FLAG_IMMUTABLE or PendingIntent.FLAG_UPDATE_CURRENT
+            )
+
+        private fun startService(context: Context) {
+            val serviceIntent = Intent(context, TripDetectionService::class.java)
+
+            try {
+                if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+                    context.startForegroundService(serviceIntent)
+                } else {
+                    context.startService(serviceIntent)
+                }
+                Log.d(TAG, "Detection service started (schedule window)")
+            } catch (e: Exception) {
+                // E.g. foreground service start refused in the background: the
+                // app starts it when it next comes to the foreground
+                Log.e(TAG, "Failed to start detection service", e)
+            }
+        }
+    }
+
+    override fun onReceive(context: Context, intent: Intent) {
+        Log.d(TAG, "Schedule alarm received")
+        apply(context)
+    }
+}
@@ -29,6 +29,9 @@ enum class GpsMode {
  * - STARTUP (first 60s): High frequency (5s) for accurate departure point
  * - CRUISE (after 60s, stable speed): Low frequency (20s) to save battery
  * - ARRIVAL (STILL detected): High frequency (5s) for accurate arrival point
+ *
+ * The high frequency interval is DetectionConfig.gpsIntervalSeconds, the low
+ * frequency one is four times longer.
  */
 class GpsLocationTracker(
     private val context: Context,
@@ -37,10 +40,9 @@ class GpsLocationTracker(
     companion object {
         private const val TAG = "GpsLocationTracker"
         
-        // GPS intervals
-        private const val HIGH_FREQUENCY_INTERVAL_MS = 5_000L   // 5 seconds
-        private const val LOW_FREQUENCY_INTERVAL_MS = 20_000L   // 20 seconds
-        
+        // Low frequency interval, relative to the configured high frequency one
+        private const val LOW_FREQUENCY_FACTOR = 4
+
         // Adaptive mode thresholds
         private const val STARTUP_PHASE_DURATION_MS = 60_000L   // First 60 seconds in high frequency
         private const val MIN_POINTS_FOR_STABILITY = 3          // Minimum GPS points to assess stability
@@ -53,6 +55,9 @@ class GpsLocationTracker(
     private val fusedLocationClient: FusedLocationProviderClient = 
         com.google.android.gms.location.LocationServices.getFusedLocationProviderClient(context)
 
+    private val highFrequencyIntervalMs: Long
+        get() = DetectionConfig.get(context).gpsIntervalSeconds * 1000L
+
     // Current GPS mode
     private var currentMode = GpsMode.HIGH_FREQUENCY
     private var isTracking = false
@@ -79,7 +84,9 @@ class GpsLocationTracker(
                 stateMachine.addGpsPoint(
                     latitude = location.latitude,
                     longitude = location.longitude,
-                    accuracy = location.accuracy
+                    accuracy = location.accuracy,
+                    timestamp = location.time,
+                    speed = if (location.hasSpeed()) location.speed else null
                 )
                 
                 // Calculate speed for stability detection
@@ -195,8 +202,8 @@ class GpsLocationTracker(
         if (!isTracking) return
         
         val interval = when (currentMode) {
-            GpsMode.HIGH_FREQUENCY -> HIGH_FREQUENCY_INTERVAL_MS
-            GpsMode.LOW_FREQUENCY -> LOW_FREQUENCY_INTERVAL_MS
+            GpsMode.HIGH_FREQUENCY -> highFrequencyIntervalMs
+            GpsMode.LOW_FREQUENCY -> highFrequencyIntervalMs * LOW_FREQUENCY_FACTOR
         }
         
         try {
@@ -269,9 +276,10 @@ class GpsLocationTracker(
             isTracking = true
             
             // Start with high frequency
-            val locationRequest = LocationRequest.Builder(HIGH_FREQUENCY_INTERVAL_MS)
+            val interval = highFrequencyIntervalMs
+            val locationRequest = LocationRequest.Builder(interval)
                 .setPriority(Priority.PRIORITY_HIGH_ACCURACY)
-                .setMinUpdateIntervalMillis(HIGH_FREQUENCY_INTERVAL_MS / 2)
+                .setMinUpdateIntervalMillis(interval / 2)
                 .build()
 
             fusedLocationClient.requestLocationUpdates(
@@ -10,8 +10,10 @@ import android.os.IBinder
 import android.os.Looper
 import android.util.Log
 import androidx.core.app.NotificationCompat
+import androidx.lifecycle.Lifecycle
 import androidx.lifecycle.LifecycleService
 import androidx.lifecycle.lifecycleScope
+import androidx.room.withTransaction
 import com.google.android.gms.location.ActivityRecognition
 import com.google.android.gms.location.ActivityRecognitionClient
 import com.google.android.gms.location.ActivityTransition
@@ -19,7 +21,9 @@ import com.google.android.gms.location.ActivityTransitionRequest
 import com.google.android.gms.location.DetectedActivity
 import com.greenmobilitypass.MainActivity
 import com.greenmobilitypass.R
+import com.greenmobilitypass.database.ActivityTransitionRecord
 import com.greenmobilitypass.database.AppDatabase
+import com.greenmobilitypass.database.JourneyPoint
 import com.greenmobilitypass.database.LocalJourney
 import kotlinx.coroutines.launch
 import kotlinx.coroutines.withContext
@@ -39,7 +43,10 @@ class TripDetectionService : LifecycleService() {
 
         // Confirmation delays for GPS management
         private const val MOVING_CONFIRM_MS = 10_000L  // 10 seconds to confirm movement before GPS
-        private const val STOP_CONFIRM_MS = 60_000L   // 60 seconds to confirm stop before ending trip
+        // Stop confirmation delay comes from DetectionConfig.stopTimeoutSeconds (60s by default)
+
+        // Recorded transitions are dropped after this: journeys are reviewed long before
+        private const val TRANSITION_MAX_AGE_MS = 48 * 3600 * 1000L
 
         @Volatile
         private var instance: TripDetectionService? = null
@@ -55,10 +62,15 @@ class TripDetectionService : LifecycleService() {
     private val stateMachine = TripStateMachine()
     private var gpsTracker: GpsLocationTracker? = null
 
+    // Read on each use so changes made from React Native apply without a restart
+    private val detectionConfig: DetectionConfig
+        get() = DetectionConfig.get(applicationContext)
+
     // Listener for React Native events
     var onTripDetectedListener: ((LocalJourney) -> Unit)? = null
     var onTransitionDetectedListener: ((String, String) -> Unit)? = null // activityType, transitionType
     var onGpsLogListener: ((Map<String, Any>) -> Unit)? = null // For GPS logging to React Native
+    var onStoppedByScheduleListener: (() -> Unit)? = null
 
     // Track when service started to ignore initial STILL detection
     private var serviceStartTime: Long = 0
@@ -72,6 +84,9 @@ class TripDetectionService : LifecycleService() {
     private var isStopConfirmationPending = false    // Waiting for 60s stop confirmation
     private var lastMovingActivity: DetectedActivityType? = null  // Track last moving activity for confirmation
 
+    // Trips being written to Room (the service must not stop before)
+    private var savingTrips = 0
+
     // Runnables for confirmation timers (stored for cancellation)
     private var movingConfirmationRunnable: Runnable? = null
     private var stopConfirmationRunnable: Runnable? = null
@@ -128,6 +143,9 @@ class TripDetectionService : LifecycleService() {
         // Notify that listeners should be set up (in case they weren't set up yet)
         Log.d(TAG, "Service started, listeners should be configured by TripDetectionModule")
 
+        // Started outside the detection schedule (boot, late alarm...)
+        stopIfOutOfSchedule()
+
         return START_STICKY
     }
 
@@ -304,6 +322,28 @@ class TripDetectionService : LifecycleService() {
         }
     }
 
+    /**
+     * Save a transition for the journey legs, whether or not React Native is
+     * running, and drop the expired ones
+     */
+    private fun recordTransition(activityType: String, transitionType: String, timestamp: Long) {
+        lifecycleScope.launch(Dispatchers.IO) {
+            try {
+                val dao = database.activityTransitionDao()
+                dao.insertTransition(
+                    ActivityTransitionRecord(
+                        timestamp = timestamp,
+                        activityType = activityType,
+                        transitionType = transitionType
+                    )
+                )
+                dao.deleteTransitionsBefore(timestamp - TRANSITION_MAX_AGE_MS)
+            } catch (e: Exception) {
+                Log.e(TAG, "❌ Failed to record transition: ${e.message}", e)
+            }
+        }
+    }
+
     /**
      * Called by ActivityRecognitionReceiver when activity transition is detected
      */
@@ -339,6 +379,19 @@ class TripDetectionService : LifecycleService() {
             }
         }
         
+        // Outside the detection schedule, no new trip is recorded (a trip in
+        // progress goes on until it ends)
+        if (isEnter && isMovingActivity(detectedType) && !stateMachine.isTrackingTrip() &&
+            !DetectionSchedule.get(applicationContext).isActive(currentTimeMs)
+        ) {
+            Log.d(TAG, "⏭️  Ignoring ${detectedType.name} (outside the detection schedule)")
+            Log.d(TAG, "═══════════════════════════════════════════════════════")
+            stopIfOutOfSchedule()
+            return
+        }
+
+        recordTransition(detectedType.name, if (isEnter) "ENTER" else "EXIT", currentTimeMs)
+
         // Notify React Native about the transition (for live tracking)
         try {
             val transitionName = if (isEnter) "ENTER" else "EXIT"
@@ -416,9 +469,42 @@ class TripDetectionService : LifecycleService() {
             Log.d(TAG, "⏸️ Deferring STILL transition (stop confirmation pending)")
         } else {
             Log.d(TAG, "🔄 Forwarding to state machine...")
+            stateMachine.config = detectionConfig
             stateMachine.processTransition(detectedType, isEnter, elapsedTimeNanos)
         }
         Log.d(TAG, "═══════════════════════════════════════════════════════")
+
+        // The trip may have ended, or never started
+        stopIfOutOfSchedule()
+    }
+
+    /**
+     * Called by DetectionScheduleReceiver at a schedule boundary
+     */
+    fun applySchedule() {
+        stopIfOutOfSchedule()
+    }
+
+    /**
+     * Stop the service when the detection schedule says detection is off.
+     * A trip in progress (or being saved) is finished first: this is called
+     * again once it is over.
+     */
+    private fun stopIfOutOfSchedule() {
+        if (lifecycle.currentState == Lifecycle.State.DESTROYED ||
+            DetectionSchedule.get(applicationContext).isActive(System.currentTimeMillis())
+        ) {
+            return
+        }
+        if (stateMachine.isTrackingTrip() || isMovingConfirmationPending ||
+            isStopConfirmationPending || savingTrips > 0
+        ) {
+            Log.d(TAG, "⏳ Outside the detection schedule, stopping after the current trip")
+            return
+        }
+        Log.d(TAG, "🛑 Outside the detection schedule, stopping detection")
+        onStoppedByScheduleListener?.invoke()
+        stopSelf()
     }
 
     private fun isMovingActivity(activityType: DetectedActivityType): Boolean {
@@ -509,7 +595,8 @@ class TripDetectionService : LifecycleService() {
         val formattedTime = java.text.SimpleDateFormat("HH:mm:ss.SSS", java.util.Locale.getDefault())
             .format(java.util.Date(currentTimeMs))
 
-        Log.d(TAG, "⏳ Starting stop confirmation timer (${STOP_CONFIRM_MS / 1000}s)")
+        val stopConfirmMs = detectionConfig.stopTimeoutSeconds * 1000L
+        Log.d(TAG, "⏳ Starting stop confirmation timer (${stopConfirmMs / 1000}s)")
         Log.d(TAG, "   Timestamp: $formattedTime")
 
         // Cancel any pending stop confirmation (in case of rapid transitions)
@@ -532,16 +619,18 @@ class TripDetectionService : LifecycleService() {
                 isTripConfirmed = false
 
                 // Now actually end the trip via state machine
+                stateMachine.config = detectionConfig
                 stateMachine.confirmTripEnd()
 
                 // Notify React Native
                 notifyGpsEvent("trip_end_confirmed", "STILL", System.currentTimeMillis())
+                stopIfOutOfSchedule()
             } else {
                 Log.d(TAG, "❌ Stop NOT confirmed (user started moving again)")
             }
         }
 
-        confirmationHandler.postDelayed(stopConfirmationRunnable!!, STOP_CONFIRM_MS)
+        confirmationHandler.postDelayed(stopConfirmationRunnable!!, stopConfirmMs)
     }
 
     /**
@@ -689,6 +778,7 @@ class TripDetectionService : LifecycleService() {
             }
 
             Log.d(TAG, "🚀 Starting coroutine to save trip to database...")
+            savingTrips++
             lifecycleScope.launch {
                 try {
                     // Validate trip data before saving
@@ -743,10 +833,26 @@ class TripDetectionService : LifecycleService() {
                         if (!::database.isInitialized) {
                             throw IllegalStateException("Database not initialized")
                         }
-                        database.localJourneyDao().insertJourney(localJourney)
+                        // The journey and its route are saved together
+                        database.withTransaction {
+                            val journeyId = database.localJourneyDao().insertJourney(localJourney)
+                            database.journeyPointDao().insertPoints(
+                                trip.points.map { point ->
+                                    JourneyPoint(
+                                        journeyId = journeyId,
+                                        timestamp = point.timestamp,
+                                        latitude = point.latitude,
+                                        longitude = point.longitude,
+                                        accuracy = point.accuracy,
+                                        speed = point.speed
+                                    )
+                                }
+                            )
+                            journeyId
+                        }
                     }
 
-                    Log.d(TAG, "✅ Trip saved successfully with ID: $id")
+                    Log.d(TAG, "✅ Trip saved successfully with ID: $id (${trip.points.size} points)")
 
                     // Notify listener (React Native) - ensure we're on main thread
                     val savedJourney = localJourney.copy(id = id)
@@ -766,6 +872,9 @@ class TripDetectionService : LifecycleService() {
                     Log.e(TAG, "❌ Failed to save trip: ${e.message}", e)
                     e.printStackTrace()
                     Log.d(TAG, "═══════════════════════════════════════════════════════")
+                } finally {
+                    savingTrips--
+                    stopIfOutOfSchedule()
                 }
             }
         } catch (e: Exception) {
@@ -46,6 +46,19 @@ enum class DetectedActivityType {
         }
     }
 
+    /**
+     * Plausible average speed in km/h, used to rate the detection confidence
+     */
+    fun getSpeedRangeKmh(): ClosedFloatingPointRange<Double>? {
+        return when (this) {
+            WALKING -> 2.0..8.0
+            RUNNING -> 6.0..20.0
+            ON_BICYCLE -> 6.0..35.0
+            IN_VEHICLE -> 10.0..150.0
+            STILL, UNKNOWN -> null
+        }
+    }
+
     companion object {
         /**
          * Convert from Google's DetectedActivity type constant
@@ -88,5 +101,7 @@ data class DetectedTrip(
     val startLatitude: Double? = null,
     val startLongitude: Double? = null,
     val endLatitude: Double? = null,
-    val endLongitude: Double? = null
+    val endLongitude: Double? = null,
+    // Points recorded during the trip, oldest first
+    val points: List<TripStateMachine.GpsPoint> = emptyList()
 )
@@ -14,7 +14,8 @@ import java.util.Locale
  * Rules:
  * - Start trip: ENTER transition for a moving activity (WALKING, RUNNING, ON_BICYCLE, IN_VEHICLE)
  * - End trip: ENTER transition for STILL activity (user stopped moving)
- * - Minimum trip duration: 10 seconds (to avoid false positives)
+ * - Minimum trip duration, distance and confidence: see DetectionConfig
+ * - Confidence = GPS accuracy and speed plausible for the activity, see computeConfidence()
  * - Distance = duration_hours * estimated_speed
  *
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -44,7 +45,9 @@ class TripStateMachine {
 
     companion object {
         private const val TAG = "TripStateMachine"
-        private const val MIN_TRIP_DURATION_MS = 1000L // 1 second minimum (to avoid identical timestamps)
+        // Transitions carry no confidence: trips without GPS only get this
+        private const val ESTIMATED_CONFIDENCE = 30
+        private const val PRECISE_ACCURACY_METERS = 30f
         
         private fun formatTimestamp(timestamp: Long): String {
             val sdf = SimpleDateFormat("HH:mm:ss.SSS", Locale.getDefault())
@@ -52,6 +55,9 @@ class TripStateMachine {
         }
     }
 
+    // Thresholds, set by TripDetectionService before each forwarded transition
+    var config: DetectionConfig = DetectionConfig()
+
     private var currentState: TripState = TripState.IDLE
     private var tripStartTime: Long = 0
     private var tripEndTime: Long = 0
@@ -66,7 +72,9 @@ class TripStateMachine {
     data class GpsPoint(
         val latitude: Double,
         val longitude: Double,
-        val accuracy: Float = 0f
+        val accuracy: Float = 0f,
+        val timestamp: Long = System.currentTimeMillis(),
+        val speed: Float? = null
     )
 
     // Listener for trip detection events
@@ -286,8 +294,8 @@ class TripStateMachine {
             
             val durationMinutes = (durationMs / 60000).toInt()
 
-            if (durationMs < MIN_TRIP_DURATION_MS) {
-                Log.w(TAG, "⚠️  Trip too short (${durationSeconds}s < ${MIN_TRIP_DURATION_MS / 1000}s), skipping")
+            if (durationSeconds < config.minDurationSeconds) {
+                Log.w(TAG, "⚠️  Trip too short (${durationSeconds}s < ${config.minDurationSeconds}s), skipping")
                 resetState()
                 currentState = TripState.IDLE
                 return
@@ -311,8 +319,22 @@ class TripStateMachine {
                 calculateEstimatedDistance(durationMinutes, activity)
             }
 
+            if (distanceKm * 1000 < config.minDistanceMeters) {
+                Log.w(TAG, "⚠️  Trip too short (${distanceKm}km < ${config.minDistanceMeters}m), skipping")
+                resetState()
+                currentState = TripState.IDLE
+                return
+            }
+
             // Determine if this is GPS-based distance
             val isGpsBasedDistance = tripGpsPoints.size >= 2
+            val confidence = computeConfidence(activity, tripGpsPoints, distanceKm, durationMs)
+            if (confidence < config.minConfidence) {
+                Log.w(TAG, "⚠️  Confidence too low ($confidence% < ${config.minConfidence}%), skipping")
+                resetState()
+                currentState = TripState.IDLE
+                return
+            }
             val startLat = tripGpsPoints.firstOrNull()?.latitude
             val startLon = tripGpsPoints.firstOrNull()?.longitude
             val endLat = tripGpsPoints.lastOrNull()?.latitude
@@ -324,7 +346,7 @@ class TripStateMachine {
             Log.d(TAG, "   Duration: ${durationMinutes}min (${durationSeconds}s)")
             Log.d(TAG, "   Distance: ${distanceKm}km")
             Log.d(TAG, "   Speed: ${activity.getEstimatedSpeedKmh()}km/h")
-            Log.d(TAG, "   Confidence: 75%")
+            Log.d(TAG, "   Confidence: $confidence%")
             if (isGpsBasedDistance) {
                 Log.d(TAG, "   🛰️  GPS-based distance")
                 Log.d(TAG, "   📍 Start: (${String.format("%.4f", startLat)}, ${String.format("%.4f", startLon)})")
@@ -340,13 +362,14 @@ class TripStateMachine {
                 durationMinutes = durationMinutes,
                 distanceKm = distanceKm,
                 transportType = activity.toTransportType(),
-                confidenceAvg = 75, // Default confidence for transition API
+                confidenceAvg = confidence,
                 isGpsBasedDistance = isGpsBasedDistance,
                 gpsPointsCount = tripGpsPoints.size,
                 startLatitude = startLat,
                 startLongitude = startLon,
                 endLatitude = endLat,
-                endLongitude = endLon
+                endLongitude = endLon,
+                points = tripGpsPoints.toList()
             )
 
             Log.d(TAG, "✅ Trip data created successfully")
@@ -458,13 +481,47 @@ class TripStateMachine {
     /**
      * Add a GPS point to the current trip
      */
-    fun addGpsPoint(latitude: Double, longitude: Double, accuracy: Float = 0f) {
+    fun addGpsPoint(
+        latitude: Double,
+        longitude: Double,
+        accuracy: Float = 0f,
+        timestamp: Long = System.currentTimeMillis(),
+        speed: Float? = null
+    ) {
         if (currentState == TripState.IN_TRIP) {
-            tripGpsPoints.add(GpsPoint(latitude, longitude, accuracy))
+            tripGpsPoints.add(GpsPoint(latitude, longitude, accuracy, timestamp, speed))
             Log.d(TAG, "📍 GPS point added (${tripGpsPoints.size} points)")
         }
     }
 
+    /**
+     * Detection confidence (0-100): half from the share of precise GPS fixes,
+     * half from the average speed matching the activity (full inside its
+     * range, half within a factor of 2). Points without accuracy count as
+     * precise. Same rules as src/utils/tripConfidence.ts.
+     */
+    private fun computeConfidence(
+        activity: DetectedActivityType,
+        points: List<GpsPoint>,
+        distanceKm: Double,
+        durationMs: Long
+    ): Int {
+        if (points.size < 2) {
+            return ESTIMATED_CONFIDENCE
+        }
+        val precise = points.count { it.accuracy <= PRECISE_ACCURACY_METERS }.toDouble() / points.size
+
+        val speedKmh = distanceKm / (durationMs / 3_600_000.0)
+        val range = activity.getSpeedRangeKmh()
+        val speedScore = when {
+            range == null -> 0.0
+            speedKmh in range -> 1.0
+            speedKmh >= range.start / 2 && speedKmh <= range.endInclusive * 2 -> 0.5
+            else -> 0.0
+        }
+        return Math.round(100 * (precise + speedScore) / 2).toInt()
+    }
+
     /**
      * Calculate distance using Haversine formula (real GPS distance)
      */
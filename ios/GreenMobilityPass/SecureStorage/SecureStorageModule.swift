@@ -0,0 +1,100 @@
+import Foundation
+import React
+import Security
+
+/// React Native Native Module for secret storage (auth tokens).
+/// Values are kept in the iOS Keychain, readable after the first unlock (for background
+/// refreshes) and never migrated to another device by backups.
+@objc(SecureStorageModule)
+class SecureStorageModule: NSObject {
+    private let TAG = "SecureStorageModule"
+    private let service = "com.greenmobilitypass.secure_storage"
+
+    @objc
+    static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    // MARK: - React Methods
+
+    /// Read a value, nil when missing
+    @objc
+    func getItem(_ key: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        var query = baseQuery(key)
+        query[kSecReturnData as String] = true
+        query[kSecMatchLimit as String] = kSecMatchLimitOne
+
+        var result: AnyObject?
+        let status = SecItemCopyMatching(query as CFDictionary, &result)
+        switch status {
+        case errSecSuccess:
+            if let data = result as? Data, let value = String(data: data, encoding: .utf8) {
+                resolve(value)
+            } else {
+                resolve(nil)
+            }
+        case errSecItemNotFound:
+            resolve(nil)
+        default:
+            print("[\(TAG)] Failed to read \(key): \(status)")
+            reject("SECURE_STORAGE_ERROR", "Keychain read failed (\(status))", nil)
+        }
+    }
+
+    /// Store a value, replacing the previous one
+    @objc
+    func setItem(_ key: String, value: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        let data = Data(value.utf8)
+        let attributes: [String: Any] = [
+            kSecValueData as String: data,
+            kSecAttrAccessible as String: kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly
+        ]
+
+        var status = SecItemUpdate(baseQuery(key) as CFDictionary, attributes as CFDictionary)
+        if status == errSecItemNotFound {
+            var query = baseQuery(key)
+            query.merge(attributes) { _, new in new }
+            status = SecItemAdd(query as CFDictionary, nil)
+        }
+
+        if status == errSecSuccess {
+            resolve(nil)
+        } else {
+            print("[\(TAG)] Failed to store \(key): \(status)")
+            reject("SECURE_STORAGE_ERROR", "Keychain write failed (\(status))", nil)
+        }
+    }
+
+    /// Remove a value
+    @objc
+    func removeItem(_ key: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        SecItemDelete(baseQuery(key) as CFDictionary)
+        resolve(nil)
+    }
+
+    /// Remove every value of the app
+    @objc
+    func clear(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        let query: [String: Any] = [
+            kSecClass as String: kSecClassGenericPassword,
+            kSecAttrService as String: service
+        ]
+        let status = SecItemDelete(query as CFDictionary)
+        if status == errSecSuccess || status == errSecItemNotFound {
+            resolve(nil)
+        } else {
+            print("[\(TAG)] Failed to clear secure storage: \(status)")
+            reject("SECURE_STORAGE_ERROR", "Keychain clear failed (\(status))", nil)
+        }
+    }
+
+    // MARK: - Keychain
+
+    private func baseQuery(_ key: String) -> [String: Any] {
+        return [
+            kSecClass as String: kSecClassGenericPassword,
+            kSecAttrService as String: service,
+            kSecAttrAccount as String: key
+        ]
+    }
+}
@@ -1,3 +1,8 @@
 module.exports = {
   preset: 'react-native',
+  globalSetup: '<rootDir>/jest.global-setup.js',
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|@react-navigation|lucide-react-native)/)',
+  ],
 };
@@ -0,0 +1,4 @@
+// Same time zone on every machine, with DST changes like the app's users
+module.exports = () => {
+  process.env.TZ = 'Europe/Paris';
+};
@@ -4,6 +4,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AppState} from 'react-native';
 import {
   TokenResponse,
   UserInfo,
@@ -16,7 +17,12 @@ import {
   UserBadge,
   UserStats,
   ValidatedJourney,
+  ValidatedJourneyPage,
+  JourneyHistoryFilters,
   UserRegister,
+  UserUpdate,
+  PasswordChange,
+  AccountDeletion,
   UserStatistics,
   JourneyCreate,
   JourneyRead,
@@ -25,52 +31,334 @@ import {
   ShopItem,
   PurchasedItem,
   Wallet,
+  PasswordResetRequest,
+  PasswordResetConfirm,
+  MessageResponse,
+  CommuteTemplateList,
 } from './types';
+import {HttpError, ResponseValidationError, createHttpError} from './errors';
+import {HttpTransport, Interceptor, RetryPolicy} from './transport';
+import {
+  InvalidationRule,
+  authInterceptor,
+  invalidationInterceptor,
+  loggingInterceptor,
+  mockInterceptor,
+  retryInterceptor,
+  timeoutInterceptor,
+} from './interceptors';
+import {queryCache} from './query-cache';
+import {getTokenExpiry} from '../utils/jwt';
+import {
+  SecureStore,
+  migrateFromAsyncStorage,
+  secureStore,
+} from '../services/secure-store';
+import {
+  Schema,
+  validate,
+  arrayOf,
+  tokenResponseSchema,
+  userInfoSchema,
+  userProfileSchema,
+  companySchema,
+  teamSchema,
+  teamListItemSchema,
+  teamCreateResponseSchema,
+  userBadgeSchema,
+  userStatsSchema,
+  validatedJourneySchema,
+  validatedJourneyPageSchema,
+  journeyReadSchema,
+  leaderboardUserSchema,
+  leaderboardTeamSchema,
+  shopItemSchema,
+  purchasedItemSchema,
+  walletSchema,
+  messageResponseSchema,
+  commuteTemplateListSchema,
+} from './validators';
 import {
   API_BASE_URL as ENV_API_BASE_URL,
   ACCESS_TOKEN_KEY as ENV_ACCESS_TOKEN_KEY,
   REFRESH_TOKEN_KEY as ENV_REFRESH_TOKEN_KEY,
+  API_RESPONSE_VALIDATION as ENV_API_RESPONSE_VALIDATION,
 } from '@env';
 
 // Storage keys - now loaded from .env
 const ACCESS_TOKEN_KEY = ENV_ACCESS_TOKEN_KEY || '@GMP_access_token';
 const REFRESH_TOKEN_KEY = ENV_REFRESH_TOKEN_KEY || '@GMP_refresh_token';
 const USER_ID_KEY = '@GMP_user_id';
+const MOCK_BACKEND_KEY = '@GMP_dev_mock_backend';
 
 // API base URL - now loaded from .env
-const API_BASE_URL = ENV_API_BASE_URL || 'https://capitulatory-insinuatingly-dayna.ngrok-free.dev';
+const API_BASE_URL =
+  ENV_API_BASE_URL || 'https://capitulatory-insinuatingly-dayna.ngrok-free.dev';
+
+// Dev builds and Jest only: the guarded require keeps the mock backend and
+// its fixtures out of release bundles
+const mock: typeof import('./mock-backend') | null = __DEV__
+  ? require('./mock-backend')
+  : null;
+
+// The access token is renewed this long before its `exp`
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// setTimeout fires at once past this (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// A hung tunnel must not leave screens spinning forever
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Idempotent calls (GET) are retried with jittered backoff by default
+const DEFAULT_RETRY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+};
+
+// Cached reads (see queries.ts) made stale by each write
+const INVALIDATIONS: InvalidationRule[] = [
+  {
+    method: 'POST',
+    path: /^\/journey\/$/,
+    invalidates: [
+      ['getValidatedJourneyHistory'],
+      ['getUserStats'],
+      ['getWallet'],
+    ],
+  },
+  {
+    method: 'POST',
+    path: /^\/shop\/purchase\/\d+$/,
+    invalidates: [['getWallet']],
+  },
+  {
+    method: 'POST',
+    path: /^\/teams(\/\d+\/join)?$/,
+    invalidates: [['getUserProfile']],
+  },
+  {
+    method: 'DELETE',
+    path: /^\/teams\/\d+\/leave$/,
+    invalidates: [['getUserProfile']],
+  },
+  {
+    method: 'PATCH',
+    path: /^\/users\/\d+$/,
+    invalidates: [['getUserProfile']],
+  },
+];
+
+/**
+ * What to do when a response does not match its schema:
+ * - off: skip validation
+ * - warn: log the mismatching fields and return the data as is
+ * - throw: reject with a ResponseValidationError
+ */
+export type ResponseValidationMode = 'off' | 'warn' | 'throw';
+
+// Enabled in dev/test by default, opt-in in production via .env
+const RESPONSE_VALIDATION: ResponseValidationMode =
+  ENV_API_RESPONSE_VALIDATION === 'off' ||
+  ENV_API_RESPONSE_VALIDATION === 'warn' ||
+  ENV_API_RESPONSE_VALIDATION === 'throw'
+    ? ENV_API_RESPONSE_VALIDATION
+    : __DEV__
+    ? 'warn'
+    : 'off';
+
+/**
+ * Per-call options accepted by every endpoint method
+ */
+export interface CallOptions {
+  // Abort the call (e.g. when the screen blurs or unmounts)
+  signal?: AbortSignal;
+  // Override the default timeout of each attempt
+  timeoutMs?: number;
+  // Override the retry policy, or false to never retry this call
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * Session lifecycle, for the UI to follow:
+ * - token_refreshed: the access token was renewed
+ * - session_expired: the refresh token was rejected, tokens are cleared
+ * - logged_out: logout() was called
+ */
+export type AuthEvent = 'token_refreshed' | 'session_expired' | 'logged_out';
+
+interface RequestOptions<T> extends CallOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  // Send the access token (default true)
+  auth?: boolean;
+  // Expected response shape, checked according to the validation mode
+  schema?: Schema<T>;
+}
 
 class ApiClient {
   private baseUrl: string;
+  private defaultBaseUrl: string;
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
+  // Expiry of the access token (epoch ms), null when unknown
+  private accessTokenExpiresAt: number | null = null;
   private userId: number | null = null;
   private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private responseValidation: ResponseValidationMode = RESPONSE_VALIDATION;
+  private transport: HttpTransport;
+  private authListeners = new Set<(event: AuthEvent) => void>();
+  // Access and refresh tokens live here, never in plain AsyncStorage
+  private secrets: SecureStore;
 
-  constructor(baseUrl: string = API_BASE_URL) {
+  constructor(
+    baseUrl: string = API_BASE_URL,
+    transport: HttpTransport = new HttpTransport(),
+    secrets: SecureStore = secureStore,
+  ) {
     this.baseUrl = baseUrl;
+    this.defaultBaseUrl = baseUrl;
+    this.transport = transport;
+    this.secrets = secrets;
+    // Not under Jest: test output stays readable
+    if (__DEV__ && !process.env.JEST_WORKER_ID) {
+      this.transport.use(loggingInterceptor());
+    }
+    this.transport.use(
+      invalidationInterceptor(INVALIDATIONS, prefix =>
+        queryCache.invalidate(prefix),
+      ),
+    );
+    this.transport.use(
+      authInterceptor({
+        getAccessToken: () => this.accessToken,
+        canRefresh: () => this.refreshToken !== null,
+        refresh: () => this.doRefreshToken(),
+        ensureFresh: () => this.ensureFreshToken(),
+      }),
+    );
+    this.transport.use(retryInterceptor(DEFAULT_RETRY));
+    // Innermost: the timeout applies to each attempt
+    this.transport.use(timeoutInterceptor(DEFAULT_TIMEOUT_MS));
+    if (mock) {
+      // Requests to MOCK_BASE_URL never reach the network
+      const {MOCK_BASE_URL, mockBackend} = mock;
+      this.transport.use(
+        mockInterceptor(request =>
+          request.url.startsWith(MOCK_BASE_URL)
+            ? mockBackend.handle(request)
+            : undefined,
+        ),
+      );
+    }
+    // Timers do not run in background: catch up when the app comes back
+    AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.refreshIfExpiring();
+      }
+    });
     this.loadTokens();
   }
 
   /**
-   * Set the API base URL
+   * Set the API base URL. Release builds only accept http(s) URLs: the mock
+   * backend does not exist there.
    */
   setBaseUrl(url: string): void {
+    if (!mock && !/^https?:\/\//.test(url)) {
+      console.warn(`[API] Ignored base URL ${url} (not http/https)`);
+      return;
+    }
     this.baseUrl = url;
   }
 
+  /**
+   * Dev switch: send every call to the in-process mock backend (does
+   * nothing in release builds).
+   * Tokens are cleared since they belong to the previous backend.
+   */
+  async setMockBackendEnabled(enabled: boolean): Promise<void> {
+    if (!mock) {
+      return;
+    }
+    this.baseUrl = enabled ? mock.MOCK_BASE_URL : this.defaultBaseUrl;
+    await this.clearTokens();
+    try {
+      if (enabled) {
+        await AsyncStorage.setItem(MOCK_BACKEND_KEY, '1');
+      } else {
+        await AsyncStorage.removeItem(MOCK_BACKEND_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to save mock backend setting:', error);
+    }
+  }
+
+  /**
+   * Whether calls go to the mock backend
+   */
+  isMockBackendEnabled(): boolean {
+    return mock !== null && this.baseUrl === mock.MOCK_BASE_URL;
+  }
+
+  /**
+   * Add an interceptor to the transport chain (after logging, cache
+   * invalidation, auth, retry, timeout and the mock backend). Returns a function removing it.
+   */
+  use(interceptor: Interceptor): () => void {
+    return this.transport.use(interceptor);
+  }
+
+  /**
+   * Subscribe to session lifecycle events
+   */
+  addAuthListener(callback: (event: AuthEvent) => void): () => void {
+    this.authListeners.add(callback);
+    return () => {
+      this.authListeners.delete(callback);
+    };
+  }
+
+  private emitAuthEvent(event: AuthEvent): void {
+    this.authListeners.forEach(listener => listener(event));
+  }
+
+  /**
+   * Set how response shape mismatches are handled
+   */
+  setResponseValidation(mode: ResponseValidationMode): void {
+    this.responseValidation = mode;
+  }
+
   /**
    * Load tokens from storage
    */
   async loadTokens(): Promise<void> {
     try {
-      const [accessToken, refreshToken, userId] = await Promise.all([
-        AsyncStorage.getItem(ACCESS_TOKEN_KEY),
-        AsyncStorage.getItem(REFRESH_TOKEN_KEY),
-        AsyncStorage.getItem(USER_ID_KEY),
+      // Earlier versions kept the tokens in plain AsyncStorage
+      await migrateFromAsyncStorage(this.secrets, [
+        ACCESS_TOKEN_KEY,
+        REFRESH_TOKEN_KEY,
       ]);
-      this.accessToken = accessToken;
-      this.refreshToken = refreshToken;
+    } catch (error) {
+      console.error('Failed to migrate tokens to secure storage:', error);
+    }
+    try {
+      const [accessToken, refreshToken, userId, mockBackendFlag] =
+        await Promise.all([
+          this.secrets.getItem(ACCESS_TOKEN_KEY),
+          this.secrets.getItem(REFRESH_TOKEN_KEY),
+          AsyncStorage.getItem(USER_ID_KEY),
+          AsyncStorage.getItem(MOCK_BACKEND_KEY),
+        ]);
+      // The dev switch is ignored in release builds
+      if (mock && mockBackendFlag === '1') {
+        this.baseUrl = mock.MOCK_BASE_URL;
+      }
+      this.setTokens(accessToken, refreshToken);
       this.userId = userId ? parseInt(userId, 10) : null;
     } catch (error) {
       console.error('Failed to load tokens:', error);
@@ -83,12 +371,11 @@ class ApiClient {
   private async saveTokens(tokens: TokenResponse): Promise<void> {
     try {
       await Promise.all([
-        AsyncStorage.setItem(ACCESS_TOKEN_KEY, tokens.access_token),
-        AsyncStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token),
+        this.secrets.setItem(ACCESS_TOKEN_KEY, tokens.access_token),
+        this.secrets.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token),
         AsyncStorage.setItem(USER_ID_KEY, tokens.user_id.toString()),
       ]);
-      this.accessToken = tokens.access_token;
-      this.refreshToken = tokens.refresh_token;
+      this.setTokens(tokens.access_token, tokens.refresh_token);
       this.userId = tokens.user_id;
     } catch (error) {
       console.error('Failed to save tokens:', error);
@@ -96,21 +383,98 @@ class ApiClient {
   }
 
   /**
-   * Clear tokens from storage
+   * Keep the tokens in memory and schedule the next refresh
+   */
+  private setTokens(
+    accessToken: string | null,
+    refreshToken: string | null,
+  ): void {
+    this.accessToken = accessToken;
+    this.refreshToken = refreshToken;
+    this.accessTokenExpiresAt = accessToken
+      ? getTokenExpiry(accessToken)
+      : null;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Refresh shortly before the access token expires (when its `exp` is known).
+   * A token valid for longer than the timer can wait is checked again when
+   * the timer fires.
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.accessTokenExpiresAt === null || this.refreshToken === null) {
+      return;
+    }
+    const delay = Math.min(
+      Math.max(this.accessTokenExpiresAt - REFRESH_MARGIN_MS - Date.now(), 0),
+      MAX_TIMER_DELAY_MS,
+    );
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshIfExpiring();
+    }, delay);
+  }
+
+  private isTokenExpiring(): boolean {
+    return (
+      this.accessTokenExpiresAt !== null &&
+      this.accessTokenExpiresAt - REFRESH_MARGIN_MS <= Date.now()
+    );
+  }
+
+  /**
+   * Refresh now if the access token expires soon, otherwise re-arm the timer
+   */
+  private refreshIfExpiring(): void {
+    if (this.refreshToken !== null && this.isTokenExpiring()) {
+      this.doRefreshToken().catch(() => {
+        // Offline: the next request retries
+      });
+    } else {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Before an authenticated request: wait for the refresh in flight, or
+   * refresh first if the token is about to expire, so requests never leave
+   * with a token known to be stale
+   */
+  private async ensureFreshToken(): Promise<void> {
+    try {
+      if (this.refreshPromise) {
+        await this.refreshPromise;
+      } else if (this.refreshToken !== null && this.isTokenExpiring()) {
+        await this.doRefreshToken();
+      }
+    } catch {
+      // Offline: send anyway, a 401 triggers another attempt
+    }
+  }
+
+  /**
+   * Clear tokens from storage (wipes the secure store)
    */
   async clearTokens(): Promise<void> {
     try {
       await Promise.all([
-        AsyncStorage.removeItem(ACCESS_TOKEN_KEY),
-        AsyncStorage.removeItem(REFRESH_TOKEN_KEY),
+        this.secrets.clear(),
+        // Left behind if the migration failed
+        AsyncStorage.multiRemove([ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY]),
         AsyncStorage.removeItem(USER_ID_KEY),
       ]);
-      this.accessToken = null;
-      this.refreshToken = null;
+      this.setTokens(null, null);
       this.userId = null;
     } catch (error) {
       console.error('Failed to clear tokens:', error);
     }
+    // Cached data belongs to the previous session
+    await queryCache.clear();
   }
 
   /**
@@ -128,45 +492,61 @@ class ApiClient {
   }
 
   /**
-   * Make an authenticated request
+   * Make a request through the transport and parse its JSON response
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {},
-    retry = true,
+    options: RequestOptions<T> = {},
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const headers: HeadersInit_ = {
-      'Content-Type': 'application/json',
-      ...(options.headers || {}),
-    };
-
-    if (this.accessToken) {
-      (
-        headers as Record<string, string>
-      ).Authorization = `Bearer ${this.accessToken}`;
-    }
-
-    const response = await fetch(url, {
-      ...options,
+    const {
+      schema,
+      method = 'GET',
       headers,
+      body,
+      auth,
+      signal,
+      timeoutMs,
+      retry,
+    } = options;
+    const response = await this.transport.send({
+      url: `${this.baseUrl}${endpoint}`,
+      path: endpoint,
+      method,
+      headers: {'Content-Type': 'application/json', ...headers},
+      body,
+      auth,
+      signal,
+      timeoutMs,
+      retry,
     });
 
-    // Handle 401 - try to refresh token
-    if (response.status === 401 && retry && this.refreshToken) {
-      const refreshed = await this.doRefreshToken();
-      if (refreshed) {
-        return this.request<T>(endpoint, options, false);
-      }
-      throw new Error('Session expired. Please login again.');
-    }
-
     if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`API Error ${response.status}: ${errorBody}`);
+      throw await createHttpError(response);
     }
 
-    return response.json();
+    const data = await response.json();
+    return schema ? this.checkResponse(endpoint, data, schema) : data;
+  }
+
+  /**
+   * Validate a response body against its schema
+   */
+  private checkResponse<T>(
+    endpoint: string,
+    data: unknown,
+    schema: Schema<T>,
+  ): T {
+    if (this.responseValidation !== 'off') {
+      const issues = validate(schema, data);
+      if (issues.length > 0) {
+        const error = new ResponseValidationError(endpoint, issues);
+        if (this.responseValidation === 'throw') {
+          throw error;
+        }
+        console.warn(`[API] ${error.report}`);
+      }
+    }
+    return data as T;
   }
 
   /**
@@ -180,27 +560,25 @@ class ApiClient {
 
     this.refreshPromise = (async () => {
       try {
-        const response = await fetch(`${this.baseUrl}/token/refresh`, {
+        const tokens = await this.request('/token/refresh', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          auth: false,
           body: JSON.stringify({
             refresh_token: this.refreshToken,
           }),
+          schema: tokenResponseSchema,
         });
-
-        if (!response.ok) {
-          await this.clearTokens();
-          return false;
-        }
-
-        const tokens: TokenResponse = await response.json();
         await this.saveTokens(tokens);
+        this.emitAuthEvent('token_refreshed');
         return true;
       } catch (error) {
         console.error('Token refresh failed:', error);
+        // Offline or timed out: the session may still be valid
+        if (!(error instanceof HttpError)) {
+          throw error;
+        }
         await this.clearTokens();
+        this.emitAuthEvent('session_expired');
         return false;
       } finally {
         this.refreshPromise = null;
@@ -217,17 +595,12 @@ class ApiClient {
    */
   async register(userData: UserRegister): Promise<TokenResponse> {
     // 1) create user
-    const createResp = await fetch(`${this.baseUrl}/users`, {
+    await this.request('/users', {
       method: 'POST',
-      headers: {'Content-Type': 'application/json'},
+      auth: false,
       body: JSON.stringify(userData),
     });
 
-    if (!createResp.ok) {
-      const errorBody = await createResp.text();
-      throw new Error(`Registration failed: ${errorBody}`);
-    }
-
     // 2) login to get tokens
     return this.login(userData.username, userData.password);
   }
@@ -240,36 +613,60 @@ class ApiClient {
     formData.append('username', username);
     formData.append('password', password);
 
-    const response = await fetch(`${this.baseUrl}/token`, {
+    const tokens = await this.request('/token', {
       method: 'POST',
+      auth: false,
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
       body: formData.toString(),
+      schema: tokenResponseSchema,
     });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`Login failed: ${errorBody}`);
-    }
-
-    const tokens: TokenResponse = await response.json();
     await this.saveTokens(tokens);
     return tokens;
   }
 
   /**
-   * Logout - clear tokens
+   * Send a temporary password reset code by email
+   */
+  async requestPasswordReset(
+    data: PasswordResetRequest,
+  ): Promise<MessageResponse> {
+    return this.request('/resetpassword', {
+      method: 'POST',
+      auth: false,
+      body: JSON.stringify(data),
+      schema: messageResponseSchema,
+    });
+  }
+
+  /**
+   * Set a new password using the temporary code
+   */
+  async confirmPasswordReset(
+    data: PasswordResetConfirm,
+  ): Promise<MessageResponse> {
+    return this.request('/resetpassword/confirm', {
+      method: 'POST',
+      auth: false,
+      body: JSON.stringify(data),
+      schema: messageResponseSchema,
+    });
+  }
+
+  /**
+   * Logout - clear tokens and notify listeners
    */
   async logout(): Promise<void> {
     await this.clearTokens();
+    this.emitAuthEvent('logged_out');
   }
 
   /**
    * Get current user info
    */
-  async getMe(): Promise<UserInfo> {
-    return this.request<UserInfo>('/me');
+  async getMe(options: CallOptions = {}): Promise<UserInfo> {
+    return this.request('/me', {...options, schema: userInfoSchema});
   }
 
   // ==================== USER ENDPOINTS ====================
@@ -277,55 +674,181 @@ class ApiClient {
   /**
    * Get user profile by ID
    */
-  async getUserProfile(userId: number): Promise<UserProfile> {
-    return this.request<UserProfile>(`/users/${userId}`);
+  async getUserProfile(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<UserProfile> {
+    return this.request(`/users/${userId}`, {
+      ...options,
+      schema: userProfileSchema,
+    });
+  }
+
+  /**
+   * Update the profile fields of a user (only the logged-in user)
+   */
+  async updateUserProfile(
+    userId: number,
+    data: UserUpdate,
+    options: CallOptions = {},
+  ): Promise<UserProfile> {
+    return this.request(`/users/${userId}`, {
+      ...options,
+      method: 'PATCH',
+      body: JSON.stringify(data),
+      schema: userProfileSchema,
+    });
+  }
+
+  /**
+   * Change the password of the logged-in user (requires the current one)
+   */
+  async changePassword(
+    userId: number,
+    data: PasswordChange,
+    options: CallOptions = {},
+  ): Promise<MessageResponse> {
+    return this.request(`/users/${userId}/password`, {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: messageResponseSchema,
+    });
+  }
+
+  /**
+   * Delete the account of the logged-in user and all its server-side data
+   * (journeys, badges, purchases, wallet). Tokens are not cleared here.
+   */
+  async deleteAccount(
+    userId: number,
+    data: AccountDeletion,
+    options: CallOptions = {},
+  ): Promise<MessageResponse> {
+    return this.request(`/users/${userId}`, {
+      ...options,
+      method: 'DELETE',
+      body: JSON.stringify(data),
+      schema: messageResponseSchema,
+    });
+  }
+
+  /**
+   * Get the commute templates saved on the backend for a user. May reject
+   * with a 404 until the first save.
+   */
+  async getCommuteTemplates(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<CommuteTemplateList> {
+    return this.request(`/users/${userId}/commute-templates`, {
+      ...options,
+      schema: commuteTemplateListSchema,
+    });
+  }
+
+  /**
+   * Replace the commute templates saved on the backend for a user. `version`
+   * is the one the list was based on, a 409 means another device saved since.
+   * Resolves with the new version.
+   */
+  async saveCommuteTemplates(
+    userId: number,
+    data: CommuteTemplateList,
+    options: CallOptions = {},
+  ): Promise<CommuteTemplateList> {
+    return this.request(`/users/${userId}/commute-templates`, {
+      ...options,
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: commuteTemplateListSchema,
+    });
+  }
+
+  /**
+   * Find a company by its sign-up code (public, used before registration)
+   */
+  async getCompanyByCode(
+    companyCode: string,
+    options: CallOptions = {},
+  ): Promise<Company> {
+    return this.request(`/company/code/${encodeURIComponent(companyCode)}`, {
+      ...options,
+      auth: false,
+      schema: companySchema,
+    });
   }
 
   /**
    * Get company by ID
    */
-  async getCompany(companyId: number): Promise<Company> {
-    return this.request<Company>(`/company/${companyId}`);
+  async getCompany(
+    companyId: number,
+    options: CallOptions = {},
+  ): Promise<Company> {
+    return this.request(`/company/${companyId}`, {
+      ...options,
+      schema: companySchema,
+    });
   }
 
   /**
    * Get team by ID
    */
-  async getTeam(teamId: number): Promise<Team> {
-    return this.request<Team>(`/teams/${teamId}`);
+  async getTeam(teamId: number, options: CallOptions = {}): Promise<Team> {
+    return this.request(`/teams/${teamId}`, {...options, schema: teamSchema});
   }
 
   /**
    * Get team members (uses leaderboard endpoint)
    */
-  async getTeamMembers(teamId: number, limit: number = 50): Promise<any[]> {
+  async getTeamMembers(
+    teamId: number,
+    limit: number = 50,
+    options: CallOptions = {},
+  ): Promise<LeaderboardUser[]> {
     const url = `/leaderboard/team/users?team_id=${teamId}&limit=${limit}`;
-    console.log('[API] getTeamMembers URL:', url);
-    return this.request<any[]>(url);
+    return this.request(url, {
+      ...options,
+      schema: arrayOf(leaderboardUserSchema),
+    });
   }
 
   /**
    * Get all teams
    */
-  async getAllTeams(): Promise<TeamListItem[]> {
-    return this.request<TeamListItem[]>('/teams');
+  async getAllTeams(options: CallOptions = {}): Promise<TeamListItem[]> {
+    return this.request('/teams', {
+      ...options,
+      schema: arrayOf(teamListItemSchema),
+    });
   }
 
   /**
    * Create a new team
    */
-  async createTeam(data: TeamCreate): Promise<TeamCreateResponse> {
-    return this.request<TeamCreateResponse>('/teams', {
+  async createTeam(
+    data: TeamCreate,
+    options: CallOptions = {},
+  ): Promise<TeamCreateResponse> {
+    return this.request('/teams', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(data),
+      schema: teamCreateResponseSchema,
     });
   }
 
   /**
    * Join a team
    */
-  async joinTeam(teamId: number, code?: string): Promise<void> {
+  async joinTeam(
+    teamId: number,
+    code?: string,
+    options: CallOptions = {},
+  ): Promise<void> {
     return this.request<void>(`/teams/${teamId}/join`, {
+      ...options,
       method: 'POST',
       body: JSON.stringify({code: code || ''}),
     });
@@ -334,8 +857,9 @@ class ApiClient {
   /**
    * Leave current team
    */
-  async leaveTeam(userId: number): Promise<void> {
+  async leaveTeam(userId: number, options: CallOptions = {}): Promise<void> {
     return this.request<void>(`/teams/${userId}/leave`, {
+      ...options,
       method: 'DELETE',
     });
   }
@@ -343,22 +867,69 @@ class ApiClient {
   /**
    * Get user badges
    */
-  async getUserBadges(userId: number): Promise<UserBadge[]> {
-    return this.request<UserBadge[]>(`/badges/user/${userId}`);
+  async getUserBadges(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<UserBadge[]> {
+    return this.request(`/badges/user/${userId}`, {
+      ...options,
+      schema: arrayOf(userBadgeSchema),
+    });
   }
 
   /**
    * Get user stats
    */
-  async getUserStats(userId: number): Promise<UserStats> {
-    return this.request<UserStats>(`/users/${userId}/stats`);
+  async getUserStats(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<UserStats> {
+    return this.request(`/users/${userId}/stats`, {
+      ...options,
+      schema: userStatsSchema,
+    });
   }
 
   /**
    * Get user validated journeys
    */
-  async getUserValidatedJourneys(userId: number): Promise<ValidatedJourney[]> {
-    return this.request<ValidatedJourney[]>(`/journey/${userId}/validated`);
+  async getUserValidatedJourneys(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<ValidatedJourney[]> {
+    return this.request(`/journey/${userId}/validated`, {
+      ...options,
+      schema: arrayOf(validatedJourneySchema),
+    });
+  }
+
+  /**
+   * Get one page of the user's validated journeys, newest first.
+   * Pass the page's `next_offset` to get the following one.
+   */
+  async getValidatedJourneyHistory(
+    userId: number,
+    filters: JourneyHistoryFilters = {},
+    limit: number = 50,
+    offset: number = 0,
+    options: CallOptions = {},
+  ): Promise<ValidatedJourneyPage> {
+    const params = new URLSearchParams();
+    params.append('limit', String(limit));
+    params.append('offset', String(offset));
+    if (filters.transport_type) {
+      params.append('transport_type', filters.transport_type);
+    }
+    if (filters.date_from) {
+      params.append('date_from', filters.date_from);
+    }
+    if (filters.date_to) {
+      params.append('date_to', filters.date_to);
+    }
+    return this.request(`/journey/${userId}/history?${params.toString()}`, {
+      ...options,
+      schema: validatedJourneyPageSchema,
+    });
   }
 
   // ==================== JOURNEY ENDPOINTS ====================
@@ -366,18 +937,34 @@ class ApiClient {
   /**
    * Create a new journey
    */
-  async createJourney(journey: JourneyCreate): Promise<JourneyRead> {
-    return this.request<JourneyRead>('/journey/', {
+  async createJourney(
+    journey: JourneyCreate,
+    options: CallOptions = {},
+  ): Promise<JourneyRead> {
+    // The client id doubles as idempotency key so retries are not scored twice
+    const headers: Record<string, string> = journey.client_journey_id
+      ? {'Idempotency-Key': journey.client_journey_id}
+      : {};
+    return this.request('/journey/', {
+      retry: {idempotent: !!journey.client_journey_id},
+      ...options,
       method: 'POST',
+      headers,
       body: JSON.stringify(journey),
+      schema: journeyReadSchema,
     });
   }
 
   /**
    * Get validated journeys
    */
-  async getValidatedJourneys(): Promise<JourneyRead[]> {
-    return this.request<JourneyRead[]>('/journey/validated');
+  async getValidatedJourneys(
+    options: CallOptions = {},
+  ): Promise<JourneyRead[]> {
+    return this.request('/journey/validated', {
+      ...options,
+      schema: arrayOf(journeyReadSchema),
+    });
   }
 
   // ==================== LEADERBOARD ENDPOINTS ====================
@@ -388,9 +975,11 @@ class ApiClient {
   async getGlobalLeaderboard(
     limit: number = 50,
     offset: number = 0,
+    options: CallOptions = {},
   ): Promise<LeaderboardUser[]> {
-    return this.request<LeaderboardUser[]>(
+    return this.request(
       `/leaderboard/company/users?limit=${limit}&offset=${offset}`,
+      {...options, schema: arrayOf(leaderboardUserSchema)},
     );
   }
 
@@ -400,9 +989,11 @@ class ApiClient {
   async getTeamLeaderboard(
     limit: number = 50,
     offset: number = 0,
+    options: CallOptions = {},
   ): Promise<LeaderboardTeam[]> {
-    return this.request<LeaderboardTeam[]>(
+    return this.request(
       `/leaderboard/company/teams?limit=${limit}&offset=${offset}`,
+      {...options, schema: arrayOf(leaderboardTeamSchema)},
     );
   }
 
@@ -412,9 +1003,11 @@ class ApiClient {
   async getTeamMembersLeaderboard(
     limit: number = 50,
     offset: number = 0,
+    options: CallOptions = {},
   ): Promise<LeaderboardUser[]> {
-    return this.request<LeaderboardUser[]>(
+    return this.request(
       `/leaderboard/team/users?limit=${limit}&offset=${offset}`,
+      {...options, schema: arrayOf(leaderboardUserSchema)},
     );
   }
 
@@ -423,24 +1016,40 @@ class ApiClient {
   /**
    * Get all shop items
    */
-  async getShopItems(): Promise<ShopItem[]> {
-    return this.request<ShopItem[]>('/shop/items');
+  async getShopItems(options: CallOptions = {}): Promise<ShopItem[]> {
+    return this.request('/shop/items', {
+      ...options,
+      schema: arrayOf(shopItemSchema),
+    });
   }
 
   /**
    * Purchase a shop item
+   * Never retried by default: a lost response could mean the coins were spent
    */
-  async purchaseItem(itemId: number): Promise<PurchasedItem> {
-    return this.request<PurchasedItem>(`/shop/purchase/${itemId}`, {
+  async purchaseItem(
+    itemId: number,
+    options: CallOptions = {},
+  ): Promise<PurchasedItem> {
+    return this.request(`/shop/purchase/${itemId}`, {
+      retry: false,
+      ...options,
       method: 'POST',
+      schema: purchasedItemSchema,
     });
   }
 
   /**
    * Get user's purchased items
    */
-  async getPurchasedItems(userId: number): Promise<PurchasedItem[]> {
-    return this.request<PurchasedItem[]>(`/shop/purchases/${userId}`);
+  async getPurchasedItems(
+    userId: number,
+    options: CallOptions = {},
+  ): Promise<PurchasedItem[]> {
+    return this.request(`/shop/purchases/${userId}`, {
+      ...options,
+      schema: arrayOf(purchasedItemSchema),
+    });
   }
 
   // ==================== WALLET ENDPOINTS ====================
@@ -448,8 +1057,11 @@ class ApiClient {
   /**
    * Get user's wallet (coins balance)
    */
-  async getWallet(userId: number): Promise<Wallet> {
-    return this.request<Wallet>(`/wallets/${userId}`);
+  async getWallet(userId: number, options: CallOptions = {}): Promise<Wallet> {
+    return this.request(`/wallets/${userId}`, {
+      ...options,
+      schema: walletSchema,
+    });
   }
 }
 
@@ -0,0 +1,246 @@
+/**
+ * API Errors for Green Mobility Pass
+ * Discriminated error hierarchy thrown by every ApiClient call
+ */
+
+import {SchemaIssue, formatIssues} from './validators';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'http'
+  | 'validation'
+  | 'auth_expired'
+  | 'invalid_response';
+
+// FastAPI validation item: {"loc": ["body", "email"], "msg": "...", "type": "..."}
+interface FastApiValidationItem {
+  loc?: (string | number)[];
+  msg?: string;
+  type?: string;
+}
+
+/**
+ * Base class: narrow on `kind` (or instanceof) to handle each case
+ */
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    // Keep instanceof working when classes are transpiled
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, tunnel down...)
+ */
+export class NetworkError extends ApiError {
+  readonly kind = 'network' as const;
+  readonly cause: unknown;
+
+  constructor(cause?: unknown) {
+    super('Connexion au serveur impossible. Vérifiez votre réseau.');
+    this.cause = cause;
+  }
+}
+
+/**
+ * No response within the allowed time
+ */
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout' as const;
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super('Le serveur met trop de temps à répondre. Réessayez.');
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller aborted the request (screen blurred or unmounted...)
+ */
+export class RequestCancelledError extends ApiError {
+  readonly kind = 'cancelled' as const;
+
+  constructor() {
+    super('Requête annulée');
+  }
+}
+
+/**
+ * The backend answered with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  readonly kind: 'http' | 'validation' = 'http';
+  readonly status: number;
+  // FastAPI `detail` when it is a string
+  readonly detail: string | null;
+  readonly body: unknown;
+
+  constructor(status: number, detail: string | null, body: unknown) {
+    super(detail || `Erreur serveur (${status})`);
+    this.status = status;
+    this.detail = detail;
+    this.body = body;
+  }
+
+  get isConflict(): boolean {
+    return this.status === 409;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get isServerError(): boolean {
+    return this.status >= 500;
+  }
+}
+
+/**
+ * Field errors from FastAPI (usually a 422), with the failing fields
+ */
+export class ValidationError extends HttpError {
+  readonly kind = 'validation' as const;
+  // Field name -> message (e.g. {email: 'value is not a valid email address'})
+  readonly fields: Record<string, string>;
+
+  constructor(
+    fields: Record<string, string>,
+    body: unknown,
+    status: number = 422,
+  ) {
+    const summary = Object.entries(fields)
+      .map(([field, message]) => `${field}: ${message}`)
+      .join('\n');
+    super(status, null, body);
+    this.message = summary || 'Données invalides';
+    this.fields = fields;
+  }
+}
+
+/**
+ * The session could not be refreshed: the user must log in again
+ */
+export class AuthExpiredError extends ApiError {
+  readonly kind = 'auth_expired' as const;
+
+  constructor() {
+    super('Session expirée. Veuillez vous reconnecter.');
+  }
+}
+
+/**
+ * The backend answered 2xx but the body does not match the expected type
+ */
+export class ResponseValidationError extends ApiError {
+  readonly kind = 'invalid_response' as const;
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    super('Réponse inattendue du serveur. Réessayez plus tard.');
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+
+  /**
+   * Field-level description for logs
+   */
+  get report(): string {
+    const issues = formatIssues(this.issues);
+    return `Response of ${this.endpoint} does not match its schema:\n${issues}`;
+  }
+}
+
+function parseValidationFields(
+  items: FastApiValidationItem[],
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  items.forEach(item => {
+    // Drop the location prefix ("body", "query"...) to keep the field name
+    const loc = (item.loc ?? []).filter(
+      part => part !== 'body' && part !== 'query' && part !== 'path',
+    );
+    const field = loc.length > 0 ? loc.join('.') : '_';
+    if (!fields[field]) {
+      fields[field] = item.msg ?? 'Valeur invalide';
+    }
+  });
+  return fields;
+}
+
+/**
+ * Build the typed error for a failed response
+ */
+export async function createHttpError(response: Response): Promise<HttpError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON (proxy error page...): keep the raw text
+  }
+
+  const detail =
+    body && typeof body === 'object' && 'detail' in body
+      ? (body as {detail: unknown}).detail
+      : undefined;
+
+  if (Array.isArray(detail)) {
+    return new ValidationError(
+      parseValidationFields(detail),
+      body,
+      response.status,
+    );
+  }
+  if (typeof detail === 'string') {
+    return new HttpError(response.status, detail, body);
+  }
+  return new HttpError(response.status, null, body);
+}
+
+/**
+ * Whether the error only means the request was aborted on purpose:
+ * nothing to show to the user
+ */
+export function isCancelled(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
+
+/**
+ * Get a message suitable for an Alert from any thrown value
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof AuthExpiredError
+  ) {
+    return error.message;
+  }
+  if (error instanceof HttpError) {
+    if (error.isRateLimited) {
+      return 'Trop de requêtes, réessayez dans quelques instants.';
+    }
+    if (error.isServerError) {
+      return `${fallback} (erreur serveur)`;
+    }
+    return error.detail || error instanceof ValidationError
+      ? error.message
+      : `${fallback} (${error.status})`;
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
@@ -0,0 +1,280 @@
+/**
+ * HTTP Interceptors for Green Mobility Pass
+ * Cross-cutting behaviors to plug into the transport (see transport.ts)
+ */
+
+import {
+  AuthExpiredError,
+  NetworkError,
+  RequestCancelledError,
+  TimeoutError,
+} from './errors';
+import {QueryKey} from './query-cache';
+import {HttpRequest, Interceptor, RetryPolicy} from './transport';
+
+export interface AuthHandlers {
+  getAccessToken: () => string | null;
+  // Whether a refresh can be attempted (a refresh token is available)
+  canRefresh: () => boolean;
+  refresh: () => Promise<boolean>;
+  // Run before sending: wait for a refresh in flight, or refresh a token
+  // about to expire
+  ensureFresh?: () => Promise<void>;
+}
+
+export interface RequestMetric {
+  method: string;
+  path: string;
+  status: number | null; // null when no response was received
+  durationMs: number;
+  error?: string;
+}
+
+function withAuthorization(request: HttpRequest, token: string | null) {
+  return token
+    ? {
+        ...request,
+        headers: {...request.headers, Authorization: `Bearer ${token}`},
+      }
+    : request;
+}
+
+/**
+ * Inject the bearer token (fresh, when `ensureFresh` is given) and, on 401,
+ * refresh it once and replay the request
+ */
+export function authInterceptor(auth: AuthHandlers): Interceptor {
+  return async (request, next) => {
+    if (request.auth === false) {
+      return next(request);
+    }
+
+    await auth.ensureFresh?.();
+    const response = await next(
+      withAuthorization(request, auth.getAccessToken()),
+    );
+    if (response.status !== 401 || !auth.canRefresh()) {
+      return response;
+    }
+
+    const refreshed = await auth.refresh();
+    if (!refreshed) {
+      throw new AuthExpiredError();
+    }
+    return next(withAuthorization(request, auth.getAccessToken()));
+  };
+}
+
+/**
+ * Log each request with its status and duration
+ */
+export function loggingInterceptor(
+  log: (message: string) => void = console.log,
+): Interceptor {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    try {
+      const response = await next(request);
+      log(
+        `[API] ${request.method} ${request.path} -> ${response.status} (${
+          Date.now() - startedAt
+        } ms)`,
+      );
+      return response;
+    } catch (error) {
+      log(`[API] ${request.method} ${request.path} -> ${String(error)}`);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Report method, path, status and duration of each request
+ */
+export function metricsInterceptor(
+  report: (metric: RequestMetric) => void,
+): Interceptor {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    const base = {method: request.method, path: request.path};
+    try {
+      const response = await next(request);
+      report({
+        ...base,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error) {
+      report({
+        ...base,
+        status: null,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.name : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Abort requests taking longer than `defaultTimeoutMs` (or the request's
+ * own `timeoutMs`) with a TimeoutError
+ */
+export function timeoutInterceptor(defaultTimeoutMs: number): Interceptor {
+  return async (request, next) => {
+    const timeoutMs = request.timeoutMs ?? defaultTimeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    // Keep honoring the caller's own signal
+    const onAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    request.signal?.addEventListener('abort', onAbort);
+
+    try {
+      return await next({...request, signal: controller.signal});
+    } catch (error) {
+      throw timedOut ? new TimeoutError(timeoutMs) : error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+type Outcome = {response?: Response; error?: unknown};
+
+/**
+ * Retry reads (or calls flagged idempotent) when the network failed,
+ * timed out or the server errored
+ */
+function isRetryable(
+  request: HttpRequest,
+  policy: RetryPolicy,
+  outcome: Outcome,
+): boolean {
+  const idempotent =
+    request.method === 'GET' ||
+    request.method === 'HEAD' ||
+    policy.idempotent === true;
+  if (!idempotent || request.signal?.aborted) {
+    return false;
+  }
+  if (outcome.error) {
+    return (
+      outcome.error instanceof NetworkError ||
+      outcome.error instanceof TimeoutError
+    );
+  }
+  return !!outcome.response && outcome.response.status >= 500;
+}
+
+/**
+ * Wait `ms`, rejecting early if the request gets aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Retry failed requests with exponential backoff and full jitter, so
+ * clients recovering together do not hit the server in sync.
+ * `request.retry` overrides the defaults; `false` disables retries.
+ */
+export function retryInterceptor(defaults: RetryPolicy = {}): Interceptor {
+  return async (request, next) => {
+    if (request.retry === false) {
+      return next(request);
+    }
+    const policy = {...defaults, ...request.retry};
+    const {retries = 2, baseDelayMs = 500, maxDelayMs = 5000} = policy;
+
+    for (let attempt = 0; ; attempt++) {
+      let outcome: Outcome;
+      try {
+        outcome = {response: await next(request)};
+      } catch (error) {
+        outcome = {error};
+      }
+
+      if (attempt >= retries || !isRetryable(request, policy, outcome)) {
+        if (outcome.error !== undefined) {
+          throw outcome.error;
+        }
+        return outcome.response as Response;
+      }
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await delay(Math.random() * ceiling, request.signal);
+    }
+  };
+}
+
+export interface InvalidationRule {
+  method: string;
+  path: RegExp;
+  // Query key prefixes made stale by a successful call
+  invalidates: QueryKey[];
+}
+
+/**
+ * Once a write succeeds, invalidate the cached reads it changed
+ */
+export function invalidationInterceptor(
+  rules: InvalidationRule[],
+  invalidate: (prefix: QueryKey) => void,
+): Interceptor {
+  return async (request, next) => {
+    const response = await next(request);
+    if (response.ok) {
+      rules
+        .filter(
+          rule =>
+            rule.method === request.method && rule.path.test(request.path),
+        )
+        .forEach(rule => rule.invalidates.forEach(invalidate));
+    }
+    return response;
+  };
+}
+
+/**
+ * Answer requests from `handler` instead of the network; requests it
+ * returns undefined for continue down the chain
+ */
+export function mockInterceptor(
+  handler: (
+    request: HttpRequest,
+  ) => Response | undefined | Promise<Response | undefined>,
+): Interceptor {
+  return async (request, next) => {
+    const response = await handler(request);
+    return response ?? next(request);
+  };
+}
+
+/**
+ * Build a JSON response, for mocks
+ */
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {'Content-Type': 'application/json'},
+  });
+}
@@ -0,0 +1,1115 @@
+/**
+ * Mock Backend for Green Mobility Pass
+ * In-process, stateful implementation of every route used by ApiClient.
+ * Selected with apiClient.setBaseUrl(MOCK_BASE_URL) or the dev switch.
+ */
+
+import {
+  AccountDeletion,
+  CommuteTemplateList,
+  Company,
+  JourneyCreate,
+  JourneyLeg,
+  JourneyLegRead,
+  JourneyRead,
+  LeaderboardTeam,
+  LeaderboardUser,
+  PasswordChange,
+  PurchasedItem,
+  ShopItem,
+  TokenResponse,
+  TransportType,
+  UserBadge,
+  UserStats,
+  UserUpdate,
+  ValidatedJourney,
+  ValidatedJourneyPage,
+} from './types';
+import {HttpRequest} from './transport';
+import {jsonResponse} from './interceptors';
+import {
+  MOCK_RESET_CODE,
+  MockTeam,
+  MockUser,
+  SEED_BADGES,
+  SEED_COMPANIES,
+  SEED_JOURNEYS,
+  SEED_SHOP_ITEMS,
+  SEED_TEAMS,
+  SEED_USERS,
+  SEED_WALLET_BONUS,
+} from './mock-fixtures';
+
+export const MOCK_BASE_URL = 'mock://backend';
+
+// Points per km and kg of CO2 per km, by transport mode
+const SCORE_PER_KM: Record<TransportType, number> = {
+  marche: 12,
+  velo: 10,
+  transport_commun: 4,
+  voiture: 0,
+};
+const CO2_PER_KM: Record<TransportType, number> = {
+  marche: 0,
+  velo: 0,
+  transport_commun: 0.05,
+  voiture: 0.19,
+};
+
+// Fields a user may change with PATCH /users/:id
+const PROFILE_FIELDS: (keyof UserUpdate)[] = [
+  'firstname',
+  'lastname',
+  'email',
+  'username',
+];
+
+interface MockJourney extends ValidatedJourney {
+  client_journey_id: string | null;
+}
+
+interface MockPurchase extends PurchasedItem {
+  user_id: number;
+}
+
+interface RouteContext {
+  params: string[];
+  query: Record<string, string>;
+  body: unknown;
+  headers: Record<string, string>;
+  user: MockUser;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  // Public routes do not need a bearer token
+  public?: boolean;
+  handle: (ctx: RouteContext) => Response;
+}
+
+function error(status: number, detail: string): Response {
+  return jsonResponse({detail}, status);
+}
+
+function parseForm(body: string): Record<string, string> {
+  const form: Record<string, string> = {};
+  body
+    .split('&')
+    .filter(Boolean)
+    .forEach(pair => {
+      const [key, value = ''] = pair.split('=');
+      form[decodeURIComponent(key)] = decodeURIComponent(
+        value.replace(/\+/g, ' '),
+      );
+    });
+  return form;
+}
+
+function parseBody(request: HttpRequest): unknown {
+  if (!request.body) {
+    return null;
+  }
+  const contentType = request.headers['Content-Type'] ?? '';
+  if (contentType.includes('x-www-form-urlencoded')) {
+    return parseForm(request.body);
+  }
+  try {
+    return JSON.parse(request.body);
+  } catch {
+    return null;
+  }
+}
+
+function omit<T extends object, K extends keyof T>(
+  value: T,
+  ...keys: K[]
+): Omit<T, K> {
+  const copy = {...value};
+  keys.forEach(key => delete copy[key]);
+  return copy;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function minutesBetween(from: string, to: string): number {
+  return Math.max(
+    0,
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000),
+  );
+}
+
+/**
+ * Why the legs of a journey are invalid, null when they are fine: at least
+ * 2 legs, in order, within the journey, adding up to its distance
+ */
+function legsProblem(data: JourneyCreate): string | null {
+  const legs = data.legs;
+  if (!Array.isArray(legs) || legs.length < 2) {
+    return 'A multimodal journey needs at least 2 legs';
+  }
+  let previousArrival = new Date(data.time_departure).getTime();
+  for (const leg of legs) {
+    const departure = new Date(leg.time_departure).getTime();
+    const arrival = new Date(leg.time_arrival).getTime();
+    if (!(leg.transport_type in SCORE_PER_KM)) {
+      return 'Input should be a valid transport type';
+    }
+    if (!(leg.distance_km > 0)) {
+      return 'Leg distance must be greater than 0';
+    }
+    if (!(departure >= previousArrival && arrival > departure)) {
+      return 'Legs must be in travel order';
+    }
+    previousArrival = arrival;
+  }
+  if (previousArrival > new Date(data.time_arrival).getTime()) {
+    return 'Legs must end before the journey arrival';
+  }
+  const total = legs.reduce((sum, leg) => sum + leg.distance_km, 0);
+  if (Math.abs(total - data.distance_km) > 0.05) {
+    return 'Leg distances must add up to the journey distance';
+  }
+  return null;
+}
+
+function scoreLeg(leg: JourneyLeg): JourneyLegRead {
+  return {
+    transport_type: leg.transport_type,
+    distance_km: leg.distance_km,
+    time_departure: leg.time_departure,
+    time_arrival: leg.time_arrival,
+    duration_minutes: minutesBetween(leg.time_departure, leg.time_arrival),
+    score_leg: Math.round(leg.distance_km * SCORE_PER_KM[leg.transport_type]),
+    carbon_footprint: roundTo(
+      leg.distance_km * CO2_PER_KM[leg.transport_type],
+      3,
+    ),
+  };
+}
+
+export class MockBackend {
+  private users: MockUser[] = [];
+  private teams: MockTeam[] = [];
+  private companies: Company[] = [];
+  private journeys: MockJourney[] = [];
+  private purchases: MockPurchase[] = [];
+  private shopItems: Omit<ShopItem, 'can_purchase'>[] = [];
+  private badges: (UserBadge & {user_id: number})[] = [];
+  private coinsSpent = new Map<number, number>();
+  private commuteTemplates = new Map<number, CommuteTemplateList>();
+  private routes: Route[];
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+    this.routes = this.buildRoutes();
+    this.reset();
+  }
+
+  /**
+   * Restore the seed data (e.g. between Jest tests)
+   */
+  reset(): void {
+    this.users = SEED_USERS.map(user => ({...user}));
+    this.teams = SEED_TEAMS.map(team => ({...team}));
+    this.companies = SEED_COMPANIES.map(company => ({...company}));
+    this.shopItems = SEED_SHOP_ITEMS.map(item => ({...item}));
+    this.badges = SEED_BADGES.map(badge => ({...badge}));
+    this.purchases = [];
+    this.coinsSpent = new Map();
+    this.commuteTemplates = new Map();
+    this.journeys = [];
+    SEED_JOURNEYS.forEach(seed => {
+      const departure = new Date(seed.time_departure).getTime();
+      const arrival = new Date(
+        departure + seed.duration_minutes * 60000,
+      ).toISOString();
+      this.addJourney(
+        seed.user_id,
+        {
+          place_departure: 'Début du trajet',
+          place_arrival: 'Fin du trajet',
+          time_departure: seed.time_departure,
+          time_arrival: arrival,
+          distance_km: seed.distance_km,
+          transport_type: seed.transport_type,
+          detection_source: 'auto',
+        },
+        arrival,
+      );
+    });
+  }
+
+  /**
+   * Answer a request as the FastAPI backend would
+   */
+  handle(request: HttpRequest): Response {
+    const [path, queryString = ''] = request.path.split('?');
+    const query = parseForm(queryString);
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (!match || route.method !== request.method) {
+        continue;
+      }
+
+      const user = this.authenticate(request.headers.Authorization);
+      if (!route.public && !user) {
+        return error(401, 'Not authenticated');
+      }
+      return route.handle({
+        params: match.slice(1),
+        query,
+        body: parseBody(request),
+        headers: request.headers,
+        user: user as MockUser,
+      });
+    }
+    return error(404, 'Not Found');
+  }
+
+  // ==================== STATE HELPERS ====================
+
+  private authenticate(header: string | undefined): MockUser | undefined {
+    const match = /^Bearer mock-access-(\d+)$/.exec(header ?? '');
+    return match ? this.findUser(Number(match[1])) : undefined;
+  }
+
+  private findUser(id: number): MockUser | undefined {
+    return this.users.find(user => user.id === id);
+  }
+
+  private findCompanyByCode(code: string): Company | undefined {
+    return this.companies.find(
+      company => company.company_code === code.toUpperCase(),
+    );
+  }
+
+  private tokensFor(user: MockUser): TokenResponse {
+    // Stateless tokens so they survive an app restart (the state does not)
+    return {
+      access_token: `mock-access-${user.id}`,
+      refresh_token: `mock-refresh-${user.id}`,
+      token_type: 'bearer',
+      user_id: user.id,
+    };
+  }
+
+  private addJourney(
+    userId: number,
+    data: JourneyCreate,
+    createdAt: string,
+  ): MockJourney {
+    // A multimodal journey is scored leg by leg
+    const legs = data.legs?.map(scoreLeg);
+    const journey: MockJourney = {
+      id: this.journeys.length + 1,
+      id_user: userId,
+      status: 'validated',
+      detection_source: data.detection_source,
+      place_departure: data.place_departure,
+      place_arrival: data.place_arrival,
+      time_departure: data.time_departure,
+      time_arrival: data.time_arrival,
+      distance_km: data.distance_km,
+      duration_minutes: minutesBetween(data.time_departure, data.time_arrival),
+      transport_type: data.transport_type,
+      score_journey: legs
+        ? legs.reduce((sum, leg) => sum + leg.score_leg, 0)
+        : Math.round(data.distance_km * SCORE_PER_KM[data.transport_type]),
+      carbon_footprint: legs
+        ? roundTo(
+            legs.reduce((sum, leg) => sum + leg.carbon_footprint, 0),
+            3,
+          )
+        : roundTo(data.distance_km * CO2_PER_KM[data.transport_type], 3),
+      created_at: createdAt,
+      validated_at: createdAt,
+      rejected_at: null,
+      client_journey_id: data.client_journey_id ?? null,
+      ...(legs && {legs}),
+    };
+    this.journeys.push(journey);
+    return journey;
+  }
+
+  private toJourneyRead(journey: MockJourney): JourneyRead {
+    return {
+      ...omit(journey, 'id_user', 'status', 'validated_at', 'rejected_at'),
+      user_id: journey.id_user,
+    };
+  }
+
+  private journeysOf(userId: number): MockJourney[] {
+    return this.journeys.filter(journey => journey.id_user === userId);
+  }
+
+  private scoreOf(userId: number): number {
+    return this.journeysOf(userId).reduce(
+      (sum, journey) => sum + journey.score_journey,
+      0,
+    );
+  }
+
+  private balanceOf(userId: number): number {
+    return (
+      SEED_WALLET_BONUS +
+      this.scoreOf(userId) -
+      (this.coinsSpent.get(userId) ?? 0)
+    );
+  }
+
+  private lastUpdate(userId: number): string {
+    const journeys = this.journeysOf(userId);
+    return journeys.length > 0
+      ? journeys[journeys.length - 1].created_at
+      : '2024-01-08T09:00:00Z';
+  }
+
+  private teamScore(teamId: number): number {
+    return this.users
+      .filter(user => user.team_id === teamId)
+      .reduce((sum, user) => sum + this.scoreOf(user.id), 0);
+  }
+
+  private rankUsers(users: MockUser[]): LeaderboardUser[] {
+    return users
+      .map(user => ({user, score: this.scoreOf(user.id)}))
+      .sort((a, b) => b.score - a.score || a.user.id - b.user.id)
+      .map(({user, score}, index) => ({
+        rank: index + 1,
+        user_id: user.id,
+        username: user.username,
+        firstname: user.firstname,
+        lastname: user.lastname,
+        team_id: user.team_id ?? 0,
+        score_total: score,
+        updated_at: this.lastUpdate(user.id),
+      }));
+  }
+
+  private page<T>(items: T[], query: Record<string, string>): T[] {
+    const limit = Number(query.limit ?? 50);
+    const offset = Number(query.offset ?? 0);
+    return items.slice(offset, offset + limit);
+  }
+
+  private history(
+    userId: number,
+    query: Record<string, string>,
+  ): ValidatedJourneyPage {
+    // Dates are compared on their YYYY-MM-DD prefix, bounds included
+    const matching = this.journeysOf(userId)
+      .filter(
+        journey =>
+          (!query.transport_type ||
+            journey.transport_type === query.transport_type) &&
+          (!query.date_from ||
+            journey.time_departure.slice(0, 10) >= query.date_from) &&
+          (!query.date_to ||
+            journey.time_departure.slice(0, 10) <= query.date_to),
+      )
+      .sort(
+        (a, b) =>
+          b.time_departure.localeCompare(a.time_departure) || b.id - a.id,
+      );
+    const limit = Number(query.limit ?? 50);
+    const offset = Number(query.offset ?? 0);
+    const sum = (field: 'distance_km' | 'carbon_footprint' | 'score_journey') =>
+      matching.reduce((total, journey) => total + journey[field], 0);
+    return {
+      items: matching.slice(offset, offset + limit),
+      total: matching.length,
+      next_offset: offset + limit < matching.length ? offset + limit : null,
+      total_distance_km: roundTo(sum('distance_km'), 2),
+      total_score: sum('score_journey'),
+      total_carbon_footprint: roundTo(sum('carbon_footprint'), 3),
+    };
+  }
+
+  private stats(userId: number): UserStats {
+    const journeys = this.journeysOf(userId);
+    // Multimodal journeys count for every mode they use, with the distance
+    // of the matching legs
+    const segments = (
+      journey: MockJourney,
+    ): {transport_type: TransportType; distance_km: number}[] =>
+      journey.legs ?? [journey];
+    const byMode = (mode: TransportType) =>
+      journeys.filter(journey =>
+        segments(journey).some(leg => leg.transport_type === mode),
+      );
+    const km = (list: MockJourney[]) =>
+      roundTo(
+        list.reduce((sum, journey) => sum + journey.distance_km, 0),
+        2,
+      );
+    const modeKm = (mode: TransportType) =>
+      roundTo(
+        journeys
+          .flatMap(segments)
+          .filter(leg => leg.transport_type === mode)
+          .reduce((sum, leg) => sum + leg.distance_km, 0),
+        2,
+      );
+    return {
+      user_id: userId,
+      score_total: this.scoreOf(userId),
+      carbon_footprint_total: roundTo(
+        journeys.reduce((sum, journey) => sum + journey.carbon_footprint, 0),
+        3,
+      ),
+      validated_journey_count: journeys.length,
+      total_distance_km: km(journeys),
+      bike_journey_count: byMode('velo').length,
+      bike_distance_km: modeKm('velo'),
+      walk_journey_count: byMode('marche').length,
+      walk_distance_km: modeKm('marche'),
+      car_journey_count: byMode('voiture').length,
+      car_distance_km: modeKm('voiture'),
+      updated_at: this.lastUpdate(userId),
+    };
+  }
+
+  // ==================== ROUTES ====================
+
+  private buildRoutes(): Route[] {
+    return [
+      // ---- Auth
+      {
+        method: 'POST',
+        pattern: /^\/users$/,
+        public: true,
+        handle: ({body}) => {
+          const data = body as {
+            username?: string;
+            email?: string;
+            password?: string;
+            firstname?: string;
+            lastname?: string;
+            company_code?: string;
+          };
+          if (
+            !data?.username ||
+            !data.email ||
+            !data.password ||
+            !data.firstname ||
+            !data.lastname ||
+            !data.company_code
+          ) {
+            return jsonResponse(
+              {
+                detail: [{loc: ['body', 'username'], msg: 'Field required'}],
+              },
+              422,
+            );
+          }
+          if (this.users.some(user => user.username === data.username)) {
+            return error(400, 'Username already registered');
+          }
+          const company = this.findCompanyByCode(data.company_code);
+          if (!company) {
+            return error(400, 'Invalid company code');
+          }
+          const user: MockUser = {
+            id: this.users.length + 1,
+            username: data.username,
+            firstname: data.firstname,
+            lastname: data.lastname,
+            email: data.email,
+            password: data.password,
+            role: 'user',
+            date_creation: new Date(this.now()).toISOString(),
+            company_id: company.id,
+            team_id: null,
+          };
+          this.users.push(user);
+          return jsonResponse(omit(user, 'password'), 201);
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/token$/,
+        public: true,
+        handle: ({body}) => {
+          const form = body as Record<string, string>;
+          const user = this.users.find(
+            candidate =>
+              candidate.username === form?.username &&
+              candidate.password === form?.password,
+          );
+          return user
+            ? jsonResponse(this.tokensFor(user))
+            : error(401, 'Incorrect username or password');
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/token\/refresh$/,
+        public: true,
+        handle: ({body}) => {
+          const token = (body as {refresh_token?: string})?.refresh_token;
+          const match = /^mock-refresh-(\d+)$/.exec(token ?? '');
+          const user = match ? this.findUser(Number(match[1])) : undefined;
+          return user
+            ? jsonResponse(this.tokensFor(user))
+            : error(401, 'Invalid refresh token');
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/resetpassword$/,
+        public: true,
+        handle: () =>
+          // Same answer whether the email exists or not
+          jsonResponse({message: 'Code envoyé par email'}),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/resetpassword\/confirm$/,
+        public: true,
+        handle: ({body}) => {
+          const data = body as {
+            email?: string;
+            temporary_password?: string;
+            new_password?: string;
+          };
+          const user = this.users.find(
+            candidate => candidate.email === data?.email,
+          );
+          if (!user || data.temporary_password !== MOCK_RESET_CODE) {
+            return error(400, 'Code invalide ou expiré');
+          }
+          user.password = data.new_password ?? user.password;
+          return jsonResponse({message: 'Mot de passe modifié'});
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/me$/,
+        handle: ({user}) =>
+          jsonResponse({
+            id: user.id,
+            email: user.email,
+            username: user.username,
+            is_active: true,
+            ...(user.team_id ? {team_id: user.team_id} : {}),
+          }),
+      },
+
+      // ---- Users
+      {
+        method: 'GET',
+        pattern: /^\/users\/(\d+)$/,
+        handle: ({params}) => {
+          const user = this.findUser(Number(params[0]));
+          if (!user) {
+            return error(404, 'User not found');
+          }
+          return jsonResponse({
+            ...omit(user, 'password'),
+            team_id: user.team_id ?? 0,
+          });
+        },
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/users\/(\d+)$/,
+        handle: ({params, body, user}) => {
+          if (user.id !== Number(params[0])) {
+            return error(403, 'Not allowed');
+          }
+          const data = body as UserUpdate;
+          if (
+            data?.email !== undefined &&
+            !/^[^\s@]+@[^\s@]+$/.test(data.email)
+          ) {
+            return jsonResponse(
+              {
+                detail: [
+                  {
+                    loc: ['body', 'email'],
+                    msg: 'value is not a valid email address',
+                  },
+                ],
+              },
+              422,
+            );
+          }
+          if (
+            data?.username !== undefined &&
+            this.users.some(
+              other => other.id !== user.id && other.username === data.username,
+            )
+          ) {
+            return error(400, 'Username already registered');
+          }
+          PROFILE_FIELDS.forEach(field => {
+            const value = data?.[field];
+            if (value !== undefined) {
+              user[field] = value;
+            }
+          });
+          return jsonResponse({
+            ...omit(user, 'password'),
+            team_id: user.team_id ?? 0,
+          });
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/users\/(\d+)$/,
+        handle: ({params, body, user}) => {
+          if (user.id !== Number(params[0])) {
+            return error(403, 'Not allowed');
+          }
+          if ((body as Partial<AccountDeletion>)?.password !== user.password) {
+            return error(400, 'Incorrect password');
+          }
+          this.users = this.users.filter(other => other.id !== user.id);
+          this.journeys = this.journeys.filter(
+            journey => journey.id_user !== user.id,
+          );
+          this.purchases = this.purchases.filter(
+            purchase => purchase.user_id !== user.id,
+          );
+          this.badges = this.badges.filter(badge => badge.user_id !== user.id);
+          this.coinsSpent.delete(user.id);
+          this.commuteTemplates.delete(user.id);
+          return jsonResponse({message: 'Account deleted'});
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/users\/(\d+)\/password$/,
+        handle: ({params, body, user}) => {
+          if (user.id !== Number(params[0])) {
+            return error(403, 'Not allowed');
+          }
+          const data = body as Partial<PasswordChange>;
+          if (data?.current_password !== user.password) {
+            return error(400, 'Incorrect password');
+          }
+          if (!data.new_password || data.new_password.length < 6) {
+            return jsonResponse(
+              {
+                detail: [
+                  {
+                    loc: ['body', 'new_password'],
+                    msg: 'ensure this value has at least 6 characters',
+                  },
+                ],
+              },
+              422,
+            );
+          }
+          user.password = data.new_password;
+          return jsonResponse({message: 'Mot de passe modifié'});
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/users\/(\d+)\/commute-templates$/,
+        handle: ({params, user}) => {
+          if (user.id !== Number(params[0])) {
+            return error(403, 'Not allowed');
+          }
+          return jsonResponse(
+            this.commuteTemplates.get(user.id) ?? {templates: [], version: 0},
+          );
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/users\/(\d+)\/commute-templates$/,
+        handle: ({params, body, user}) => {
+          if (user.id !== Number(params[0])) {
+            return error(403, 'Not allowed');
+          }
+          const data = body as Partial<CommuteTemplateList>;
+          if (
+            !Array.isArray(data?.templates) ||
+            typeof data.version !== 'number'
+          ) {
+            return error(422, 'templates and version are required');
+          }
+          const current = this.commuteTemplates.get(user.id)?.version ?? 0;
+          if (data.version !== current) {
+            return error(409, 'Templates changed since this version');
+          }
+          const invalid = data.templates.findIndex(
+            template =>
+              !template.name?.trim() ||
+              !(template.distance_km > 0) ||
+              !/^\d{2}:\d{2}$/.test(template.departure_time),
+          );
+          if (invalid >= 0) {
+            return jsonResponse(
+              {
+                detail: [
+                  {
+                    loc: ['body', 'templates', invalid],
+                    msg: 'invalid template',
+                  },
+                ],
+              },
+              422,
+            );
+          }
+          const list = {templates: data.templates, version: current + 1};
+          this.commuteTemplates.set(user.id, list);
+          return jsonResponse(list);
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/users\/(\d+)\/stats$/,
+        handle: ({params}) =>
+          this.findUser(Number(params[0]))
+            ? jsonResponse(this.stats(Number(params[0])))
+            : error(404, 'User not found'),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/company\/code\/([^/]+)$/,
+        public: true,
+        handle: ({params}) => {
+          const company = this.findCompanyByCode(decodeURIComponent(params[0]));
+          return company
+            ? jsonResponse(company)
+            : error(404, 'Company not found');
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/company\/(\d+)$/,
+        handle: ({params}) => {
+          const company = this.companies.find(
+            candidate => candidate.id === Number(params[0]),
+          );
+          return company
+            ? jsonResponse(company)
+            : error(404, 'Company not found');
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/badges\/user\/(\d+)$/,
+        handle: ({params}) =>
+          jsonResponse(
+            this.badges
+              .filter(badge => badge.user_id === Number(params[0]))
+              .map(badge => omit(badge, 'user_id')),
+          ),
+      },
+
+      // ---- Teams
+      {
+        method: 'GET',
+        pattern: /^\/teams$/,
+        handle: () =>
+          jsonResponse(
+            this.teams.map(team => ({
+              id: team.id,
+              name: team.name,
+              score_total: this.teamScore(team.id),
+              created_by_user_id: team.created_by_user_id,
+              is_public: team.is_public,
+              users: this.users
+                .filter(user => user.team_id === team.id)
+                .map(user => ({id: user.id, username: user.username})),
+            })),
+          ),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/teams\/(\d+)$/,
+        handle: ({params, user}) => {
+          const team = this.teams.find(
+            candidate => candidate.id === Number(params[0]),
+          );
+          if (!team) {
+            return error(404, 'Team not found');
+          }
+          return jsonResponse({
+            id: team.id,
+            name: team.name,
+            score_total: this.teamScore(team.id),
+            created_by_user_id: team.created_by_user_id,
+            is_public: team.is_public,
+            // Only members see the join code
+            join_code: user.team_id === team.id ? team.join_code : null,
+          });
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/teams$/,
+        handle: ({body, user}) => {
+          const data = body as {name?: string; is_public?: boolean};
+          if (!data?.name) {
+            return error(400, 'Team name is required');
+          }
+          if (user.team_id) {
+            return error(400, 'User already belongs to a team');
+          }
+          const team: MockTeam = {
+            id: this.teams.length + 1,
+            name: data.name,
+            created_by_user_id: user.id,
+            is_public: data.is_public !== false,
+            join_code: data.is_public === false ? `TEAM${user.id}` : null,
+          };
+          this.teams.push(team);
+          user.team_id = team.id;
+          return jsonResponse(
+            {
+              id: team.id,
+              name: team.name,
+              is_public: team.is_public,
+              join_code: team.join_code,
+            },
+            201,
+          );
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/teams\/(\d+)\/join$/,
+        handle: ({params, body, user}) => {
+          const team = this.teams.find(
+            candidate => candidate.id === Number(params[0]),
+          );
+          if (!team) {
+            return error(404, 'Team not found');
+          }
+          const code = (body as {code?: string})?.code;
+          if (!team.is_public && code !== team.join_code) {
+            return error(403, 'Invalid join code');
+          }
+          user.team_id = team.id;
+          return jsonResponse({message: 'Joined team'});
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/teams\/(\d+)\/leave$/,
+        handle: ({user}) => {
+          if (!user.team_id) {
+            return error(400, 'User has no team');
+          }
+          user.team_id = null;
+          return jsonResponse({message: 'Left team'});
+        },
+      },
+
+      // ---- Journeys
+      {
+        method: 'POST',
+        pattern: /^\/journey\/$/,
+        handle: ({body, headers, user}) => {
+          const data = body as JourneyCreate;
+          if (!data || !(data.transport_type in SCORE_PER_KM)) {
+            return jsonResponse(
+              {
+                detail: [
+                  {
+                    loc: ['body', 'transport_type'],
+                    msg: 'Input should be a valid transport type',
+                  },
+                ],
+              },
+              422,
+            );
+          }
+          const problem = data.legs !== undefined ? legsProblem(data) : null;
+          if (problem) {
+            return jsonResponse(
+              {detail: [{loc: ['body', 'legs'], msg: problem}]},
+              422,
+            );
+          }
+          const clientId =
+            headers['Idempotency-Key'] ?? data.client_journey_id ?? null;
+          if (
+            clientId &&
+            this.journeys.some(
+              journey => journey.client_journey_id === clientId,
+            )
+          ) {
+            return error(409, 'Journey already submitted');
+          }
+          const journey = this.addJourney(
+            user.id,
+            {...data, client_journey_id: clientId ?? undefined},
+            new Date(this.now()).toISOString(),
+          );
+          return jsonResponse(this.toJourneyRead(journey), 201);
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/journey\/validated$/,
+        handle: ({user}) =>
+          jsonResponse(
+            this.journeysOf(user.id).map(journey =>
+              this.toJourneyRead(journey),
+            ),
+          ),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/journey\/(\d+)\/validated$/,
+        handle: ({params}) => jsonResponse(this.journeysOf(Number(params[0]))),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/journey\/(\d+)\/history$/,
+        handle: ({params, query}) =>
+          jsonResponse(this.history(Number(params[0]), query)),
+      },
+
+      // ---- Leaderboards
+      {
+        method: 'GET',
+        pattern: /^\/leaderboard\/company\/users$/,
+        handle: ({query, user}) =>
+          jsonResponse(
+            this.page(
+              this.rankUsers(
+                this.users.filter(
+                  candidate => candidate.company_id === user.company_id,
+                ),
+              ),
+              query,
+            ),
+          ),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/leaderboard\/company\/teams$/,
+        handle: ({query}) => {
+          const ranked: LeaderboardTeam[] = this.teams
+            .map(team => ({team, score: this.teamScore(team.id)}))
+            .sort((a, b) => b.score - a.score || a.team.id - b.team.id)
+            .map(({team, score}, index) => ({
+              rank: index + 1,
+              team_id: team.id,
+              name: team.name,
+              score_total: score,
+            }));
+          return jsonResponse(this.page(ranked, query));
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/leaderboard\/team\/users$/,
+        handle: ({query, user}) => {
+          const teamId = query.team_id ? Number(query.team_id) : user.team_id;
+          if (!teamId) {
+            return error(404, 'User has no team');
+          }
+          return jsonResponse(
+            this.page(
+              this.rankUsers(
+                this.users.filter(candidate => candidate.team_id === teamId),
+              ),
+              query,
+            ),
+          );
+        },
+      },
+
+      // ---- Shop & wallet
+      {
+        method: 'GET',
+        pattern: /^\/shop\/items$/,
+        handle: ({user}) => {
+          const balance = this.balanceOf(user.id);
+          return jsonResponse(
+            this.shopItems.map(item => ({
+              ...item,
+              can_purchase:
+                item.is_unlocked &&
+                item.stock !== 0 &&
+                balance >= item.cost_coins,
+            })),
+          );
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/shop\/purchase\/(\d+)$/,
+        handle: ({params, user}) => {
+          const item = this.shopItems.find(
+            candidate => candidate.id === Number(params[0]),
+          );
+          if (!item) {
+            return error(404, 'Item not found');
+          }
+          if (!item.is_unlocked) {
+            return error(403, 'Item is locked');
+          }
+          if (item.stock === 0) {
+            return error(409, 'Item out of stock');
+          }
+          if (this.balanceOf(user.id) < item.cost_coins) {
+            return error(400, 'Not enough coins');
+          }
+          if (item.stock !== null) {
+            item.stock -= 1;
+          }
+          this.coinsSpent.set(
+            user.id,
+            (this.coinsSpent.get(user.id) ?? 0) + item.cost_coins,
+          );
+          const purchase: MockPurchase = {
+            purchase_id: this.purchases.length + 1,
+            user_id: user.id,
+            item_id: item.id,
+            item_code: item.code,
+            item_name: item.name,
+            item_type: item.type,
+            cost_coins: item.cost_coins,
+            purchased_at: new Date(this.now()).toISOString(),
+          };
+          this.purchases.push(purchase);
+          return jsonResponse(omit(purchase, 'user_id'), 201);
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/shop\/purchases\/(\d+)$/,
+        handle: ({params}) =>
+          jsonResponse(
+            this.purchases
+              .filter(purchase => purchase.user_id === Number(params[0]))
+              .map(purchase => omit(purchase, 'user_id')),
+          ),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/wallets\/(\d+)$/,
+        handle: ({params}) => {
+          const userId = Number(params[0]);
+          return this.findUser(userId)
+            ? jsonResponse({
+                user_id: userId,
+                balance: this.balanceOf(userId),
+                updated_at: this.lastUpdate(userId),
+              })
+            : error(404, 'Wallet not found');
+        },
+      },
+    ];
+  }
+}
+
+// Export singleton instance
+export const mockBackend = new MockBackend();
+
+export default mockBackend;
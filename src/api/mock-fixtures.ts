@@ -0,0 +1,202 @@
+/**
+ * Mock Backend Fixtures for Green Mobility Pass
+ * Deterministic seed data: same users, teams and journeys on every reset
+ */
+
+import {Company, ShopItem, TransportType, UserBadge} from './types';
+
+// Every seeded account uses this password
+export const MOCK_PASSWORD = 'demo1234';
+
+// Code accepted by /resetpassword/confirm
+export const MOCK_RESET_CODE = '123456';
+
+export interface MockUser {
+  id: number;
+  username: string;
+  firstname: string;
+  lastname: string;
+  email: string;
+  password: string;
+  role: 'admin' | 'user' | 'manager';
+  date_creation: string;
+  company_id: number;
+  team_id: number | null;
+}
+
+export interface MockTeam {
+  id: number;
+  name: string;
+  created_by_user_id: number;
+  is_public: boolean;
+  join_code: string | null;
+}
+
+export interface MockJourneySeed {
+  user_id: number;
+  transport_type: TransportType;
+  distance_km: number;
+  time_departure: string;
+  duration_minutes: number;
+}
+
+export const SEED_COMPANIES: Company[] = [
+  {
+    id: 1,
+    company_code: 'GREEN1',
+    company_name: 'Green Corp',
+    company_locate: 'Lyon',
+  },
+];
+
+export const SEED_USERS: MockUser[] = [
+  ['demo', 'Alice', 'Martin', 'manager', 1],
+  ['bob', 'Bob', 'Durand', 'user', 1],
+  ['chloe', 'Chloe', 'Bernard', 'user', 2],
+  ['david', 'David', 'Petit', 'user', 2],
+  ['emma', 'Emma', 'Robert', 'user', null],
+].map(([username, firstname, lastname, role, teamId], index) => ({
+  id: index + 1,
+  username: username as string,
+  firstname: firstname as string,
+  lastname: lastname as string,
+  email: `${username}@greencorp.test`,
+  password: MOCK_PASSWORD,
+  role: role as MockUser['role'],
+  date_creation: '2024-01-08T09:00:00Z',
+  company_id: 1,
+  team_id: teamId as number | null,
+}));
+
+export const SEED_TEAMS: MockTeam[] = [
+  {
+    id: 1,
+    name: 'Les Cyclistes',
+    created_by_user_id: 1,
+    is_public: true,
+    join_code: null,
+  },
+  {
+    id: 2,
+    name: 'Team Rando',
+    created_by_user_id: 3,
+    is_public: false,
+    join_code: 'RANDO42',
+  },
+];
+
+// Two weeks of commutes, spread over the users
+export const SEED_JOURNEYS: MockJourneySeed[] = [
+  [1, 'velo', 6.2, '2024-03-04T07:45:00Z', 22],
+  [1, 'velo', 6.4, '2024-03-04T17:30:00Z', 24],
+  [1, 'marche', 1.8, '2024-03-05T12:10:00Z', 21],
+  [1, 'transport_commun', 12.5, '2024-03-06T08:00:00Z', 35],
+  [1, 'voiture', 18.0, '2024-03-07T07:30:00Z', 28],
+  [1, 'velo', 6.3, '2024-03-11T07:50:00Z', 23],
+  [2, 'velo', 9.1, '2024-03-04T08:05:00Z', 31],
+  [2, 'transport_commun', 14.2, '2024-03-05T08:15:00Z', 40],
+  [2, 'marche', 2.4, '2024-03-08T18:00:00Z', 29],
+  [3, 'marche', 3.1, '2024-03-04T08:20:00Z', 38],
+  [3, 'marche', 3.0, '2024-03-05T08:22:00Z', 37],
+  [3, 'velo', 4.8, '2024-03-12T17:45:00Z', 18],
+  [4, 'voiture', 22.5, '2024-03-04T07:15:00Z', 33],
+  [4, 'transport_commun', 20.1, '2024-03-06T07:20:00Z', 52],
+  [5, 'velo', 11.7, '2024-03-07T08:40:00Z', 41],
+].map(([user_id, transport_type, distance_km, time_departure, duration]) => ({
+  user_id: user_id as number,
+  transport_type: transport_type as TransportType,
+  distance_km: distance_km as number,
+  time_departure: time_departure as string,
+  duration_minutes: duration as number,
+}));
+
+export const SEED_SHOP_ITEMS: Omit<ShopItem, 'can_purchase'>[] = [
+  {
+    id: 1,
+    code: 'BIKE_REPAIR',
+    name: 'Revision velo',
+    description: 'Une revision complete chez notre atelier partenaire',
+    type: 'MOBILITY',
+    cost_coins: 150,
+    company_id: null,
+    is_unlocked: true,
+    stock: 10,
+  },
+  {
+    id: 2,
+    code: 'TRANSIT_DAY',
+    name: 'Pass transport 1 jour',
+    description: 'Un ticket journee sur le reseau urbain',
+    type: 'MOBILITY',
+    cost_coins: 60,
+    company_id: 1,
+    is_unlocked: true,
+    stock: null,
+  },
+  {
+    id: 3,
+    code: 'YOGA_CLASS',
+    name: 'Cours de yoga',
+    description: 'Une seance de yoga en entreprise',
+    type: 'WELLBEING',
+    cost_coins: 90,
+    company_id: 1,
+    is_unlocked: true,
+    stock: 0,
+  },
+  {
+    id: 4,
+    code: 'GOLD_FRAME',
+    name: 'Cadre de profil Or',
+    description: 'Un cadre dore autour de votre avatar',
+    type: 'STATUS',
+    cost_coins: 300,
+    company_id: null,
+    is_unlocked: false,
+    stock: null,
+  },
+  {
+    id: 5,
+    code: 'TREE_PLANT',
+    name: 'Planter un arbre',
+    description: 'Un arbre plante par notre association partenaire',
+    type: 'DONATION',
+    cost_coins: 40,
+    company_id: null,
+    is_unlocked: true,
+    stock: null,
+  },
+];
+
+export const SEED_BADGES: (UserBadge & {user_id: number})[] = [
+  {
+    id: 1,
+    user_id: 1,
+    code: 'FIRST_RIDE',
+    name: 'Premier trajet',
+    icon_url: '',
+    description: 'Valider un premier trajet',
+    unlocked_at: '2024-03-04T08:10:00Z',
+  },
+  {
+    id: 2,
+    user_id: 1,
+    code: 'BIKE_50',
+    name: 'Cycliste',
+    icon_url: '',
+    description: 'Parcourir 50 km a velo',
+    unlocked_at: '2024-03-11T08:15:00Z',
+  },
+  {
+    id: 3,
+    user_id: 3,
+    code: 'FIRST_RIDE',
+    name: 'Premier trajet',
+    icon_url: '',
+    description: 'Valider un premier trajet',
+    unlocked_at: '2024-03-04T08:58:00Z',
+  },
+];
+
+// Coins given to each account on top of its journey scores
+export const SEED_WALLET_BONUS = 100;
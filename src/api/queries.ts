@@ -0,0 +1,81 @@
+/**
+ * Cached Queries for Green Mobility Pass
+ * Reads shared between screens through the query cache. Keys are the
+ * ApiClient method name followed by its params.
+ */
+
+import {apiClient} from './client';
+import {Query} from './query-cache';
+import {
+  JourneyHistoryFilters,
+  UserProfile,
+  UserStats,
+  ValidatedJourneyPage,
+  Wallet,
+} from './types';
+
+// Journeys per page of the validated history
+export const HISTORY_PAGE_SIZE = 30;
+
+export const queries = {
+  userProfile: (userId: number): Query<UserProfile> => ({
+    key: ['getUserProfile', userId],
+    fetch: () => apiClient.getUserProfile(userId),
+    persist: true,
+  }),
+
+  userStats: (userId: number): Query<UserStats> => ({
+    key: ['getUserStats', userId],
+    fetch: () => apiClient.getUserStats(userId),
+    persist: true,
+  }),
+
+  // Only the first page is persisted
+  validatedJourneyHistory: (
+    userId: number,
+    filters: JourneyHistoryFilters,
+    offset: number,
+  ): Query<ValidatedJourneyPage> => ({
+    key: [
+      'getValidatedJourneyHistory',
+      userId,
+      filters.transport_type ?? null,
+      filters.date_from ?? null,
+      filters.date_to ?? null,
+      offset,
+    ],
+    fetch: () =>
+      apiClient.getValidatedJourneyHistory(
+        userId,
+        filters,
+        HISTORY_PAGE_SIZE,
+        offset,
+      ),
+    persist: offset === 0,
+  }),
+
+  // Count and totals of the matching journeys, without fetching them
+  validatedJourneyTotals: (
+    userId: number,
+    filters: JourneyHistoryFilters,
+  ): Query<ValidatedJourneyPage> => ({
+    key: [
+      'getValidatedJourneyHistory',
+      userId,
+      filters.transport_type ?? null,
+      filters.date_from ?? null,
+      filters.date_to ?? null,
+      'totals',
+    ],
+    fetch: () => apiClient.getValidatedJourneyHistory(userId, filters, 1, 0),
+    persist: true,
+  }),
+
+  wallet: (userId: number): Query<Wallet> => ({
+    key: ['getWallet', userId],
+    fetch: () => apiClient.getWallet(userId),
+    persist: true,
+  }),
+};
+
+export default queries;
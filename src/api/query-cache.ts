@@ -0,0 +1,292 @@
+/**
+ * Query Cache for Green Mobility Pass
+ * Shared cache of API reads keyed by endpoint + params, with
+ * stale-while-revalidate, de-duplication and persisted snapshots
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = '@GMP_query_cache';
+// Queries persisted by earlier versions and no longer cached (the whole
+// validated history could outgrow an AsyncStorage row)
+const RETIRED_QUERIES = ['getUserValidatedJourneys'];
+
+// Cached data older than this is refetched on next use
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+export type QueryKey = readonly [string, ...(string | number | null)[]];
+
+export interface Query<T> {
+  key: QueryKey;
+  fetch: () => Promise<T>;
+  // Age after which the data is refetched (default 30 s)
+  staleTimeMs?: number;
+  // Keep a snapshot in storage, rendered on cold start before the refetch
+  persist?: boolean;
+}
+
+export interface QueryState<T> {
+  data?: T;
+  // Last successful fetch (ms), 0 when never fetched
+  updatedAt: number;
+  // Error of the last fetch, null when it succeeded
+  error: unknown;
+  isFetching: boolean;
+  // Marked stale by invalidate()
+  isInvalidated: boolean;
+}
+
+interface Entry {
+  key: QueryKey;
+  data?: unknown;
+  updatedAt: number;
+  error: unknown;
+  invalidated: boolean;
+  persist: boolean;
+}
+
+interface Inflight {
+  key: QueryKey;
+  request: Promise<unknown>;
+  // invalidate() was called after the request was sent: its data may
+  // predate the change, so it lands already stale
+  invalidated: boolean;
+}
+
+type Snapshot = Record<
+  string,
+  {key: QueryKey; data: unknown; updatedAt: number}
+>;
+
+type Listener = () => void;
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+// ['journeys'] matches ['journeys', 1] and ['journeys', 1, 'x']
+function matchesKey(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, index) => key[index] === part);
+}
+
+class QueryCache {
+  private entries: Map<string, Entry> = new Map();
+  private inflight: Map<string, Inflight> = new Map();
+  private listeners: Map<string, Set<Listener>> = new Map();
+  private hydration: Promise<void> | null = null;
+  // Bumped by clear() so fetches started before it are dropped
+  private generation = 0;
+
+  /**
+   * Load the persisted snapshot (once)
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadSnapshot();
+    }
+    return this.hydration;
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!raw) {
+        return;
+      }
+      const snapshot: Snapshot = JSON.parse(raw);
+      Object.entries(snapshot).forEach(([hash, saved]) => {
+        if (RETIRED_QUERIES.includes(saved.key[0])) {
+          return;
+        }
+        // Data fetched meanwhile is more recent
+        if (!this.entries.has(hash)) {
+          this.entries.set(hash, {
+            ...saved,
+            error: null,
+            invalidated: false,
+            persist: true,
+          });
+          this.notify(hash);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load query cache:', error);
+    }
+  }
+
+  private async saveSnapshot(): Promise<void> {
+    const snapshot: Snapshot = {};
+    this.entries.forEach((entry, hash) => {
+      if (entry.persist && entry.updatedAt > 0) {
+        snapshot[hash] = {
+          key: entry.key,
+          data: entry.data,
+          updatedAt: entry.updatedAt,
+        };
+      }
+    });
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Failed to save query cache:', error);
+    }
+  }
+
+  /**
+   * Current state of a query
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    const hash = hashQueryKey(key);
+    const entry = this.entries.get(hash);
+    return {
+      data: entry?.data as T | undefined,
+      updatedAt: entry?.updatedAt ?? 0,
+      error: entry?.error ?? null,
+      isFetching: this.inflight.has(hash),
+      isInvalidated: entry?.invalidated ?? false,
+    };
+  }
+
+  /**
+   * Whether the query has no data, was invalidated or is older than its
+   * stale time
+   */
+  isStale(query: Query<unknown>): boolean {
+    const entry = this.entries.get(hashQueryKey(query.key));
+    return (
+      !entry ||
+      entry.updatedAt === 0 ||
+      entry.invalidated ||
+      Date.now() - entry.updatedAt >
+        (query.staleTimeMs ?? DEFAULT_STALE_TIME_MS)
+    );
+  }
+
+  /**
+   * Return the cached data while fresh, otherwise fetch it.
+   * Concurrent fetches of the same key share one request.
+   */
+  async fetch<T>(query: Query<T>, {force = false} = {}): Promise<T> {
+    await this.hydrate();
+    const hash = hashQueryKey(query.key);
+
+    const pending = this.inflight.get(hash);
+    if (pending) {
+      return pending.request as Promise<T>;
+    }
+    if (!force && !this.isStale(query)) {
+      return this.entries.get(hash)?.data as T;
+    }
+
+    const generation = this.generation;
+    const inflight: Inflight = {
+      key: query.key,
+      invalidated: false,
+      request: query
+        .fetch()
+        .then(
+          data => {
+            if (generation === this.generation) {
+              this.entries.set(hash, {
+                key: query.key,
+                data,
+                updatedAt: Date.now(),
+                error: null,
+                invalidated: inflight.invalidated,
+                persist: !!query.persist,
+              });
+              if (query.persist) {
+                this.saveSnapshot();
+              }
+            }
+            return data;
+          },
+          error => {
+            const entry = this.entries.get(hash);
+            if (generation === this.generation) {
+              // Keep serving the previous data
+              this.entries.set(hash, {
+                key: query.key,
+                updatedAt: 0,
+                invalidated: false,
+                persist: !!query.persist,
+                ...entry,
+                error,
+              });
+            }
+            throw error;
+          },
+        )
+        .finally(() => {
+          if (this.inflight.get(hash) === inflight) {
+            this.inflight.delete(hash);
+          }
+          this.notify(hash);
+        }),
+    };
+
+    this.inflight.set(hash, inflight);
+    this.notify(hash);
+    return inflight.request as Promise<T>;
+  }
+
+  /**
+   * Mark every query whose key starts with `prefix` as stale; mounted
+   * screens refetch it. A fetch in flight stays stale when it completes.
+   */
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach((entry, hash) => {
+      if (matchesKey(entry.key, prefix)) {
+        entry.invalidated = true;
+        this.notify(hash);
+      }
+    });
+    // Including a first fetch, which has no entry yet
+    this.inflight.forEach(inflight => {
+      if (matchesKey(inflight.key, prefix)) {
+        inflight.invalidated = true;
+      }
+    });
+  }
+
+  /**
+   * Drop all cached data and the persisted snapshot (used on logout)
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    const hashes = [...this.entries.keys()];
+    this.entries.clear();
+    this.inflight.clear();
+    hashes.forEach(hash => this.notify(hash));
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear query cache:', error);
+    }
+  }
+
+  /**
+   * Listen for changes of a query (data, error, fetching, invalidation)
+   */
+  subscribe(key: QueryKey, listener: Listener): () => void {
+    const hash = hashQueryKey(key);
+    const listeners = this.listeners.get(hash) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(hash, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(hash);
+      }
+    };
+  }
+
+  private notify(hash: string): void {
+    this.listeners.get(hash)?.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const queryCache = new QueryCache();
+
+export default queryCache;
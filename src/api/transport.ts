@@ -0,0 +1,101 @@
+/**
+ * HTTP Transport for Green Mobility Pass
+ * Every ApiClient call goes through an interceptor chain before reaching fetch
+ */
+
+import {NetworkError, RequestCancelledError} from './errors';
+
+export interface RetryPolicy {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Allow retrying a non-GET call (e.g. a POST carrying an Idempotency-Key)
+  idempotent?: boolean;
+}
+
+export interface HttpRequest {
+  url: string; // absolute URL
+  path: string; // endpoint relative to the base URL, with its query string
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  // Send the access token (default true)
+  auth?: boolean;
+  signal?: AbortSignal;
+  // Per-call overrides of the timeout and retry interceptors
+  timeoutMs?: number;
+  retry?: RetryPolicy | false;
+}
+
+export type Fetcher = (request: HttpRequest) => Promise<Response>;
+
+/**
+ * Middleware around a request: may change the request, call `next` zero or
+ * more times, and change or replace the response
+ */
+export type Interceptor = (
+  request: HttpRequest,
+  next: Fetcher,
+) => Promise<Response>;
+
+/**
+ * Default fetcher: global fetch, with transport failures as NetworkError
+ * and aborted requests as RequestCancelledError
+ */
+export async function fetchRequest(request: HttpRequest): Promise<Response> {
+  try {
+    return await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+  } catch (error) {
+    throw request.signal?.aborted
+      ? new RequestCancelledError()
+      : new NetworkError(error);
+  }
+}
+
+export class HttpTransport {
+  private fetcher: Fetcher;
+  private interceptors: Interceptor[] = [];
+
+  constructor(fetcher: Fetcher = fetchRequest) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Append an interceptor; the first registered one is the outermost.
+   * Returns a function removing it.
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors = [...this.interceptors, interceptor];
+    return () => {
+      this.interceptors = this.interceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  /**
+   * Replace the function that actually performs requests (tests, mocks)
+   */
+  setFetcher(fetcher: Fetcher): void {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Run a request through the interceptor chain
+   */
+  send(request: HttpRequest): Promise<Response> {
+    // Snapshot so (un)registering during a request does not shift the chain
+    const chain = this.interceptors;
+    const fetcher = this.fetcher;
+
+    const dispatch = (index: number, current: HttpRequest): Promise<Response> =>
+      index < chain.length
+        ? chain[index](current, next => dispatch(index + 1, next))
+        : fetcher(current);
+
+    return dispatch(0, request);
+  }
+}
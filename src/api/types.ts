@@ -8,6 +8,21 @@ export type TransportType = 'marche' | 'velo' | 'transport_commun' | 'voiture';
 // Detection source
 export type DetectionSource = 'auto' | 'manual';
 
+// One leg of a multimodal journey (e.g. walk, then train, then bike)
+export interface JourneyLeg {
+  transport_type: TransportType;
+  distance_km: number;
+  time_departure: string; // ISO datetime
+  time_arrival: string; // ISO datetime
+}
+
+// Leg as returned by the backend, scored on its own
+export interface JourneyLegRead extends JourneyLeg {
+  duration_minutes: number;
+  score_leg: number;
+  carbon_footprint: number;
+}
+
 // Journey creation request
 export interface JourneyCreate {
   place_departure: string;
@@ -17,6 +32,10 @@ export interface JourneyCreate {
   distance_km: number;
   transport_type: TransportType;
   detection_source: DetectionSource;
+  client_journey_id?: string; // client-generated UUID (idempotency key)
+  // Multimodal journey: at least 2 legs in travel order, covering the whole
+  // journey. transport_type is then the main mode (longest distance).
+  legs?: JourneyLeg[];
 }
 
 // Journey response from backend
@@ -34,6 +53,8 @@ export interface JourneyRead {
   score_journey: number;
   carbon_footprint: number;
   created_at: string;
+  client_journey_id?: string | null;
+  legs?: JourneyLegRead[]; // multimodal journeys only
 }
 
 // Token response
@@ -44,11 +65,50 @@ export interface TokenResponse {
   user_id: number;
 }
 
-// User registration request
+// User registration request (the company is resolved from its code)
 export interface UserRegister {
   username: string;
   email: string;
   password: string;
+  firstname: string;
+  lastname: string;
+  company_code: string;
+}
+
+// Password reset request (POST /resetpassword)
+export interface PasswordResetRequest {
+  email: string;
+}
+
+// Password reset confirmation (POST /resetpassword/confirm)
+export interface PasswordResetConfirm {
+  email: string;
+  temporary_password: string;
+  new_password: string;
+}
+
+// Profile update (PATCH /users/:id), only the fields that changed
+export interface UserUpdate {
+  firstname?: string;
+  lastname?: string;
+  email?: string;
+  username?: string;
+}
+
+// Password change of the logged-in user (POST /users/:id/password)
+export interface PasswordChange {
+  current_password: string;
+  new_password: string;
+}
+
+// Account deletion (DELETE /users/:id), confirmed with the password
+export interface AccountDeletion {
+  password: string;
+}
+
+// Generic acknowledgement
+export interface MessageResponse {
+  message?: string;
 }
 
 // User info (basic from /me)
@@ -177,6 +237,48 @@ export interface ValidatedJourney {
   created_at: string;
   validated_at: string | null;
   rejected_at: string | null;
+  client_journey_id?: string | null;
+  legs?: JourneyLegRead[]; // multimodal journeys only
+}
+
+// Filters of the validated journey history (inclusive dates, YYYY-MM-DD)
+export interface JourneyHistoryFilters {
+  transport_type?: TransportType;
+  date_from?: string;
+  date_to?: string;
+}
+
+// One page of a paginated list
+export interface Page<T> {
+  items: T[];
+  total: number; // items matching the filters, over all pages
+  next_offset: number | null; // null on the last page
+}
+
+// Validated journeys, newest first, with totals over all matching journeys
+export interface ValidatedJourneyPage extends Page<ValidatedJourney> {
+  total_distance_km: number;
+  total_score: number;
+  total_carbon_footprint: number;
+}
+
+// Recurring trip saved by the user (e.g. home to work), used to pre-fill
+// declarations and suggest the mode of detected journeys
+export interface CommuteTemplate {
+  id: string; // client UUID
+  name: string;
+  transport_type: TransportType;
+  distance_km: number;
+  departure_time: string; // HH:MM, local time
+  duration_minutes: number;
+}
+
+// All templates of a user (GET/PUT /users/:id/commute-templates), the whole
+// list is replaced on save. The backend increments version on each save and
+// refuses (409) a PUT whose version is not the current one.
+export interface CommuteTemplateList {
+  templates: CommuteTemplate[];
+  version: number; // 0 until the first save
 }
 
 // Local journey from native module
@@ -190,6 +292,7 @@ export interface LocalJourney {
   confidenceAvg: number;
   placeDeparture: string;
   placeArrival: string;
+  clientId?: string; // stable UUID used as idempotency key
   // GPS coordinates (from native module)
   startLatitude?: number;
   startLongitude?: number;
@@ -202,6 +305,15 @@ export interface LocalJourney {
   updatedAt: number;
 }
 
+// GPS point recorded during a local journey (native journey_points table)
+export interface JourneyTrackPoint {
+  timestamp: number; // epoch ms
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // meters
+  speed?: number; // m/s, when reported by the fix
+}
+
 // Permission status
 export interface PermissionStatus {
   location: boolean;
@@ -210,6 +322,15 @@ export interface PermissionStatus {
   allGranted: boolean;
 }
 
+// Trip detection thresholds (native TripStateMachine)
+export interface DetectionConfig {
+  minDurationSeconds: number; // shorter trips are discarded
+  minDistanceMeters: number; // shorter trips are discarded
+  stopTimeoutSeconds: number; // time spent still before a trip ends
+  gpsIntervalSeconds: number; // GPS sampling interval while moving
+  minConfidence: number; // less confident trips are discarded (0-100)
+}
+
 // Leaderboard
 export interface LeaderboardUser {
   rank: number;
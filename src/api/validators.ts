@@ -0,0 +1,436 @@
+/**
+ * API Response Validators for Green Mobility Pass
+ * Runtime schemas mirroring src/api/types.ts, used to detect backend shape drift
+ */
+
+import {
+  TokenResponse,
+  UserInfo,
+  UserProfile,
+  Company,
+  Team,
+  TeamListItem,
+  TeamCreateResponse,
+  UserBadge,
+  UserStats,
+  ValidatedJourney,
+  ValidatedJourneyPage,
+  JourneyRead,
+  JourneyLegRead,
+  LeaderboardUser,
+  LeaderboardTeam,
+  ShopItem,
+  PurchasedItem,
+  Wallet,
+  TransportType,
+  DetectionSource,
+  JourneyStatus,
+  MessageResponse,
+  CommuteTemplate,
+  CommuteTemplateList,
+} from './types';
+
+// A field whose value does not match the schema
+export interface SchemaIssue {
+  path: string; // e.g. "$[3].transport_type"
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Type carrier only, never set
+  readonly __type?: T;
+}
+
+// Object schemas must list every field of the interface, with a matching type
+type Shape<T> = {[K in keyof T]-?: Schema<T[K]>};
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return `string "${value.length > 30 ? `${value.slice(0, 30)}...` : value}"`;
+  }
+  return typeof value;
+}
+
+function primitive<T>(
+  expected: string,
+  test: (value: unknown) => boolean,
+): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({path, expected, received: describe(value)});
+      }
+    },
+  };
+}
+
+// ==================== COMBINATORS ====================
+
+export const string = primitive<string>('string', v => typeof v === 'string');
+
+export const number = primitive<number>(
+  'number',
+  v => typeof v === 'number' && !isNaN(v),
+);
+
+export const boolean = primitive<boolean>(
+  'boolean',
+  v => typeof v === 'boolean',
+);
+
+export const unknown = primitive<unknown>('unknown', () => true);
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return primitive<T>(values.map(v => `"${v}"`).join(' | '), v =>
+    values.includes(v as T),
+  );
+}
+
+/**
+ * Accept `allowed` on top of `schema`, reporting the widened expectation
+ */
+function orValue<T, U>(
+  schema: Schema<T>,
+  allowed: U,
+  label: string,
+): Schema<T | U> {
+  const expected = `${schema.expected} | ${label}`;
+  return {
+    expected,
+    check(value, path, issues) {
+      if (value === allowed) {
+        return;
+      }
+      const inner: SchemaIssue[] = [];
+      schema.check(value, path, inner);
+      inner.forEach(issue =>
+        issues.push(issue.path === path ? {...issue, expected} : issue),
+      );
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return orValue(schema, null, 'null');
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return orValue(schema, undefined, 'undefined');
+}
+
+export function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${schema.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({path, expected: 'array', received: describe(value)});
+        return;
+      }
+      value.forEach((item, index) =>
+        schema.check(item, `${path}[${index}]`, issues),
+      );
+    },
+  };
+}
+
+/**
+ * Object schema. Unknown extra fields are accepted: the backend may add
+ * fields without breaking the app, only missing or mistyped ones are reported
+ */
+export function object<T>(name: string, shape: Shape<T>): Schema<T> {
+  return {
+    expected: name,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({path, expected: name, received: describe(value)});
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+        shape[key].check(record[key], `${path}.${key}`, issues);
+      });
+    },
+  };
+}
+
+/**
+ * Check a value against a schema, returning every mismatching field
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '$', issues);
+  return issues;
+}
+
+/**
+ * One line per issue, truncated so large lists stay readable in logs
+ */
+export function formatIssues(issues: SchemaIssue[], max: number = 10): string {
+  const lines = issues
+    .slice(0, max)
+    .map(
+      issue =>
+        `${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+    );
+  if (issues.length > max) {
+    lines.push(`... and ${issues.length - max} more`);
+  }
+  return lines.join('\n');
+}
+
+// ==================== RESPONSE SCHEMAS ====================
+
+const transportType = literal<TransportType>(
+  'marche',
+  'velo',
+  'transport_commun',
+  'voiture',
+);
+
+const detectionSource = literal<DetectionSource>('auto', 'manual');
+
+const journeyStatus = literal<JourneyStatus>(
+  'validated',
+  'pending',
+  'rejected',
+);
+
+export const tokenResponseSchema = object<TokenResponse>('TokenResponse', {
+  access_token: string,
+  refresh_token: string,
+  token_type: string,
+  user_id: number,
+});
+
+export const userInfoSchema = object<UserInfo>('UserInfo', {
+  id: number,
+  email: string,
+  username: string,
+  is_active: boolean,
+  team_id: optional(number),
+});
+
+export const userProfileSchema = object<UserProfile>('UserProfile', {
+  id: number,
+  username: string,
+  firstname: string,
+  lastname: string,
+  email: string,
+  role: literal('admin', 'user', 'manager'),
+  date_creation: string,
+  company_id: number,
+  team_id: number,
+});
+
+export const companySchema = object<Company>('Company', {
+  id: number,
+  company_code: string,
+  company_name: string,
+  company_locate: string,
+});
+
+export const teamSchema = object<Team>('Team', {
+  id: number,
+  name: string,
+  score_total: number,
+  created_by_user_id: number,
+  is_public: boolean,
+  join_code: optional(nullable(string)),
+});
+
+export const teamListItemSchema = object<TeamListItem>('TeamListItem', {
+  id: number,
+  name: string,
+  score_total: number,
+  created_by_user_id: number,
+  is_public: boolean,
+  users: arrayOf(unknown),
+});
+
+export const teamCreateResponseSchema = object<TeamCreateResponse>(
+  'TeamCreateResponse',
+  {
+    id: number,
+    name: string,
+    is_public: boolean,
+    join_code: nullable(string),
+  },
+);
+
+export const userBadgeSchema = object<UserBadge>('UserBadge', {
+  id: number,
+  code: string,
+  name: string,
+  icon_url: string,
+  description: string,
+  unlocked_at: string,
+});
+
+export const userStatsSchema = object<UserStats>('UserStats', {
+  user_id: number,
+  score_total: number,
+  carbon_footprint_total: number,
+  validated_journey_count: number,
+  total_distance_km: number,
+  bike_journey_count: number,
+  bike_distance_km: number,
+  walk_journey_count: number,
+  walk_distance_km: number,
+  car_journey_count: number,
+  car_distance_km: number,
+  updated_at: string,
+});
+
+export const journeyLegReadSchema = object<JourneyLegRead>('JourneyLegRead', {
+  transport_type: transportType,
+  distance_km: number,
+  time_departure: string,
+  time_arrival: string,
+  duration_minutes: number,
+  score_leg: number,
+  carbon_footprint: number,
+});
+
+export const validatedJourneySchema = object<ValidatedJourney>(
+  'ValidatedJourney',
+  {
+    id: number,
+    id_user: number,
+    status: journeyStatus,
+    detection_source: detectionSource,
+    place_departure: string,
+    place_arrival: string,
+    time_departure: string,
+    time_arrival: string,
+    distance_km: number,
+    duration_minutes: number,
+    transport_type: transportType,
+    score_journey: number,
+    carbon_footprint: number,
+    created_at: string,
+    validated_at: nullable(string),
+    rejected_at: nullable(string),
+    client_journey_id: optional(nullable(string)),
+    legs: optional(arrayOf(journeyLegReadSchema)),
+  },
+);
+
+export const validatedJourneyPageSchema = object<ValidatedJourneyPage>(
+  'ValidatedJourneyPage',
+  {
+    items: arrayOf(validatedJourneySchema),
+    total: number,
+    next_offset: nullable(number),
+    total_distance_km: number,
+    total_score: number,
+    total_carbon_footprint: number,
+  },
+);
+
+export const journeyReadSchema = object<JourneyRead>('JourneyRead', {
+  id: number,
+  user_id: number,
+  place_departure: string,
+  place_arrival: string,
+  time_departure: string,
+  time_arrival: string,
+  duration_minutes: number,
+  distance_km: number,
+  transport_type: transportType,
+  detection_source: detectionSource,
+  score_journey: number,
+  carbon_footprint: number,
+  created_at: string,
+  client_journey_id: optional(nullable(string)),
+  legs: optional(arrayOf(journeyLegReadSchema)),
+});
+
+export const leaderboardUserSchema = object<LeaderboardUser>(
+  'LeaderboardUser',
+  {
+    rank: number,
+    user_id: number,
+    username: string,
+    firstname: string,
+    lastname: string,
+    team_id: number,
+    score_total: number,
+    updated_at: string,
+  },
+);
+
+export const leaderboardTeamSchema = object<LeaderboardTeam>(
+  'LeaderboardTeam',
+  {
+    rank: number,
+    team_id: number,
+    name: string,
+    score_total: number,
+  },
+);
+
+export const shopItemSchema = object<ShopItem>('ShopItem', {
+  id: number,
+  code: string,
+  name: string,
+  description: string,
+  type: string,
+  cost_coins: number,
+  company_id: nullable(number),
+  is_unlocked: boolean,
+  can_purchase: boolean,
+  stock: nullable(number),
+});
+
+export const purchasedItemSchema = object<PurchasedItem>('PurchasedItem', {
+  purchase_id: number,
+  item_id: number,
+  item_code: string,
+  item_name: string,
+  item_type: string,
+  cost_coins: number,
+  purchased_at: string,
+});
+
+export const walletSchema = object<Wallet>('Wallet', {
+  user_id: number,
+  balance: number,
+  updated_at: string,
+});
+
+export const messageResponseSchema = object<MessageResponse>(
+  'MessageResponse',
+  {
+    message: optional(string),
+  },
+);
+
+export const commuteTemplateSchema = object<CommuteTemplate>(
+  'CommuteTemplate',
+  {
+    id: string,
+    name: string,
+    transport_type: transportType,
+    distance_km: number,
+    departure_time: string,
+    duration_minutes: number,
+  },
+);
+
+export const commuteTemplateListSchema = object<CommuteTemplateList>(
+  'CommuteTemplateList',
+  {
+    templates: arrayOf(commuteTemplateSchema),
+    version: number,
+  },
+);
@@ -1,5 +1,11 @@
 import {useAuth} from '@/context/AuthContext';
-import {ApiError, loginUser, resetPassword, changePasswordWithCode} from '@/services/auth-service';
+import {
+  loginUser,
+  resetPassword,
+  changePasswordWithCode,
+} from '@/services/auth-service';
+import {getErrorMessage} from '@/api/errors';
+import {isValidEmail} from '@/utils/validation';
 import {Icon} from '@/components/ui';
 import React, {useEffect, useRef, useState} from 'react';
 import {
@@ -25,9 +31,6 @@ interface LoginModalProps {
   onClose: () => void;
 }
 
-const isValidEmail = (email: string) =>
-  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-
 type ResetStep = 'email' | 'code';
 
 export const LoginModal: React.FC<LoginModalProps> = ({visible, onClose}) => {
@@ -110,8 +113,10 @@ export const LoginModal: React.FC<LoginModalProps> = ({visible, onClose}) => {
       resetForm();
       onClose();
     } catch (error) {
-      const apiError = error as ApiError;
-      Alert.alert('Oups !', apiError.message || 'Impossible de se connecter');
+      Alert.alert(
+        'Oups !',
+        getErrorMessage(error, 'Impossible de se connecter'),
+      );
     } finally {
       setIsLoading(false);
     }
@@ -489,8 +494,10 @@ export const LoginModal: React.FC<LoginModalProps> = ({visible, onClose}) => {
                       await resetPassword({email: resetEmail});
                       setResetStep('code');
                     } catch (error) {
-                      const apiError = error as ApiError;
-                      Alert.alert('Erreur', apiError.message || "Impossible d'envoyer le code");
+                      Alert.alert(
+                        'Erreur',
+                        getErrorMessage(error, "Impossible d'envoyer le code"),
+                      );
                     } finally {
                       setResetLoading(false);
                     }
@@ -539,8 +546,10 @@ export const LoginModal: React.FC<LoginModalProps> = ({visible, onClose}) => {
                         }]
                       );
                     } catch (error) {
-                      const apiError = error as ApiError;
-                      Alert.alert('Erreur', apiError.message || 'Code invalide ou expiré');
+                      Alert.alert(
+                        'Erreur',
+                        getErrorMessage(error, 'Code invalide ou expiré'),
+                      );
                     } finally {
                       setResetLoading(false);
                     }
@@ -1,4 +1,7 @@
-import {ApiError, signUpUser} from '@/services/auth-service';
+import {checkCompanyCode, signUpUser} from '@/services/auth-service';
+import {ValidationError, getErrorMessage, isCancelled} from '@/api/errors';
+import {Company} from '@/api/types';
+import {isValidEmail, isValidPassword} from '@/utils/validation';
 import {Icon} from '@/components/ui';
 import React, {useEffect, useRef, useState} from 'react';
 import {
@@ -25,10 +28,26 @@ interface SignUpModalProps {
   onSignUpSuccess: () => void;
 }
 
+// Backend field names -> labels shown to the user
+const FIELD_LABELS: Record<string, string> = {
+  username: "Nom d'utilisateur",
+  email: 'Email',
+  password: 'Mot de passe',
+  firstname: 'Prenom',
+  lastname: 'Nom',
+  company_code: 'Code entreprise',
+};
+
+const formatSignUpError = (error: unknown): string => {
+  if (error instanceof ValidationError) {
+    return Object.entries(error.fields)
+      .map(([field, message]) => `${FIELD_LABELS[field] ?? field} : ${message}`)
+      .join('\n');
+  }
+  return getErrorMessage(error, 'Impossible de creer votre compte');
+};
+
 // Validation helpers
-const isValidEmail = (email: string) =>
-  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-const isValidPassword = (password: string) => password.length >= 6;
 const isValidCompanyCode = (code: string) => code.length === 6;
 
 export const SignUpModal: React.FC<SignUpModalProps> = ({
@@ -44,6 +63,10 @@ export const SignUpModal: React.FC<SignUpModalProps> = ({
   const [password, setPassword] = useState('');
   const [verifyPassword, setVerifyPassword] = useState('');
   const [companyCode, setCompanyCode] = useState('');
+  // Company resolved from the code by the backend
+  const [company, setCompany] = useState<Company | null>(null);
+  const [companyError, setCompanyError] = useState<string | null>(null);
+  const [isCheckingCompany, setIsCheckingCompany] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showVerifyPassword, setShowVerifyPassword] = useState(false);
@@ -88,6 +111,33 @@ export const SignUpModal: React.FC<SignUpModalProps> = ({
     }
   }, [visible, backdropAnim, modalSlideAnim]);
 
+  // Check the code as soon as it is complete; a newer code aborts the check
+  useEffect(() => {
+    setCompany(null);
+    setCompanyError(null);
+    if (!isValidCompanyCode(companyCode)) {
+      setIsCheckingCompany(false);
+      return;
+    }
+    const controller = new AbortController();
+    setIsCheckingCompany(true);
+    checkCompanyCode(companyCode, {signal: controller.signal})
+      .then(setCompany)
+      .catch(error => {
+        if (!isCancelled(error)) {
+          setCompanyError(
+            getErrorMessage(error, 'Impossible de verifier le code'),
+          );
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsCheckingCompany(false);
+        }
+      });
+    return () => controller.abort();
+  }, [companyCode]);
+
   useEffect(() => {
     Animated.timing(progressAnim, {
       toValue: step / 3,
@@ -138,8 +188,8 @@ export const SignUpModal: React.FC<SignUpModalProps> = ({
     isValidPassword(password) &&
     password === verifyPassword;
 
-  // Step 3 validation
-  const isStep3Valid = isValidCompanyCode(companyCode);
+  // Step 3 validation: the backend knows the code
+  const isStep3Valid = isValidCompanyCode(companyCode) && company !== null;
 
   const handleNextStep = () => {
     if (step === 1 && isStep1Valid) {
@@ -188,11 +238,7 @@ export const SignUpModal: React.FC<SignUpModalProps> = ({
         ],
       );
     } catch (error) {
-      const apiError = error as ApiError;
-      Alert.alert(
-        'Oups !',
-        apiError.message || 'Impossible de creer votre compte',
-      );
+      Alert.alert('Oups !', formatSignUpError(error));
     } finally {
       setIsLoading(false);
     }
@@ -532,10 +578,23 @@ export const SignUpModal: React.FC<SignUpModalProps> = ({
                     </TouchableOpacity>
                   )}
 
-                  {companyCode.length === 6 && (
+                  {isCheckingCompany && (
+                    <Text style={styles.codeHint}>Verification du code...</Text>
+                  )}
+
+                  {company && (
                     <View style={styles.successBadge}>
                       <Icon name="checkmark-circle" size={18} color="#4CAF50" />
-                      <Text style={styles.successText}>Code valide</Text>
+                      <Text style={styles.successText}>
+                        {company.company_name}
+                      </Text>
+                    </View>
+                  )}
+
+                  {companyError && (
+                    <View style={styles.errorMessage}>
+                      <Icon name="warning-outline" size={16} color="#FF5252" />
+                      <Text style={styles.errorText}>{companyError}</Text>
                     </View>
                   )}
 
@@ -1,12 +1,19 @@
-import React from 'react';
+import React, {useState} from 'react';
 import {
   StatusBar,
   StyleSheet,
+  Switch,
   Text,
   TouchableOpacity,
   View,
 } from 'react-native';
 import {Icon} from '@/components/ui';
+import {apiClient} from '@/api/client';
+
+// Dev builds only, like the mock backend itself
+const MOCK_PASSWORD: string | null = __DEV__
+  ? require('@/api/mock-fixtures').MOCK_PASSWORD
+  : null;
 
 interface WelcomeScreenProps {
   onLoginPress: () => void;
@@ -15,6 +22,15 @@ interface WelcomeScreenProps {
 export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
   onLoginPress,
 }) => {
+  const [mockBackend, setMockBackend] = useState(
+    apiClient.isMockBackendEnabled(),
+  );
+
+  const toggleMockBackend = async (enabled: boolean) => {
+    setMockBackend(enabled);
+    await apiClient.setMockBackendEnabled(enabled);
+  };
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -69,6 +85,26 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
         <Text style={styles.footerText}>
           Reduisez votre empreinte carbone et gagnez des points !
         </Text>
+
+        {/* Switch dev : backend de demo local */}
+        {__DEV__ && (
+          <View style={styles.devSwitchRow}>
+            <View style={styles.devSwitchTextContainer}>
+              <Text style={styles.devSwitchLabel}>Backend de demo (dev)</Text>
+              {mockBackend && (
+                <Text style={styles.devSwitchHint}>
+                  Compte : demo / {MOCK_PASSWORD}
+                </Text>
+              )}
+            </View>
+            <Switch
+              value={mockBackend}
+              onValueChange={toggleMockBackend}
+              trackColor={{false: 'rgba(255,255,255,0.3)', true: '#A5D6A7'}}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        )}
       </View>
     </View>
   );
@@ -191,4 +227,28 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '300',
   },
+  devSwitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
+    marginTop: 30,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
+  },
+  devSwitchTextContainer: {
+    flex: 1,
+  },
+  devSwitchLabel: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  devSwitchHint: {
+    color: '#C8E6C9',
+    fontSize: 12,
+    marginTop: 2,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,190 @@
+/**
+ * BatchProgressModal Component
+ * Shows per-item progress of a batch operation on pending journeys
+ */
+
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  CheckCircle2,
+  XCircle,
+  CloudUpload,
+  CircleDashed,
+  Trash2,
+} from 'lucide-react-native';
+import {BatchItem, BatchProgress} from '@/services/journey-batch';
+import ActionButton from './ActionButton';
+
+interface BatchProgressModalProps {
+  visible: boolean;
+  title: string;
+  progress: BatchProgress | null;
+  // Label of each item (e.g. "Vélo - 12 mars à 08:30")
+  getItemLabel: (id: number) => string;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  waiting: 'En attente',
+  running: 'En cours...',
+  sent: 'Envoyé',
+  queued: 'En attente de réseau',
+  rejected: 'Supprimé',
+  failed: 'Échec',
+};
+
+function StatusIcon({status}: {status: BatchItem['status']}): JSX.Element {
+  switch (status) {
+    case 'running':
+      return <ActivityIndicator size="small" color="#2E7D32" />;
+    case 'sent':
+      return <CheckCircle2 size={18} color="#2E7D32" />;
+    case 'queued':
+      return <CloudUpload size={18} color="#E65100" />;
+    case 'rejected':
+      return <Trash2 size={18} color="#666" />;
+    case 'failed':
+      return <XCircle size={18} color="#E53935" />;
+    default:
+      return <CircleDashed size={18} color="#bbb" />;
+  }
+}
+
+export default function BatchProgressModal({
+  visible,
+  title,
+  progress,
+  getItemLabel,
+  onClose,
+}: BatchProgressModalProps): JSX.Element {
+  const done = progress?.done ?? 0;
+  const total = progress?.total ?? 0;
+  const isFinished = total > 0 && done === total;
+  const ratio = total > 0 ? done / total : 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.counter}>
+            {done} / {total}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, {width: `${ratio * 100}%`}]} />
+          </View>
+
+          <ScrollView style={styles.list}>
+            {progress?.items.map(item => (
+              <View key={item.id} style={styles.itemRow}>
+                <StatusIcon status={item.status} />
+                <View style={styles.itemContent}>
+                  <Text style={styles.itemLabel} numberOfLines={1}>
+                    {getItemLabel(item.id)}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.itemStatus,
+                      item.status === 'failed' && styles.itemStatusFailed,
+                    ]}
+                    numberOfLines={2}>
+                    {item.status === 'failed' && item.error
+                      ? item.error
+                      : STATUS_LABELS[item.status]}
+                    {item.scoreJourney !== undefined
+                      ? ` · +${item.scoreJourney} pts`
+                      : ''}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <ActionButton
+            title="Fermer"
+            onPress={onClose}
+            disabled={!isFinished}
+            style={styles.closeButton}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 380,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  counter: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E8F5E9',
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#2E7D32',
+  },
+  list: {
+    marginBottom: 16,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  itemStatus: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  itemStatusFailed: {
+    color: '#E53935',
+  },
+  closeButton: {
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,224 @@
+/**
+ * DateTimeField Component
+ * Labelled day or time picker built from steppers (no native picker needed)
+ */
+
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+} from 'lucide-react-native';
+
+const DAY_MS = 24 * 3600 * 1000;
+const MINUTE_STEP = 5;
+
+interface DateTimeFieldProps {
+  label: string;
+  mode: 'date' | 'time';
+  value: Date;
+  onChange: (value: Date) => void;
+  // Date mode only: bounds of the selectable days
+  minimumDate?: Date;
+  maximumDate?: Date;
+  // Shown under the value, e.g. "lendemain"
+  hint?: string;
+}
+
+function startOfDay(date: Date): number {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/**
+ * Move to the next or previous multiple of MINUTE_STEP, wrapping at the hour
+ */
+function stepMinutes(minutes: number, direction: 1 | -1): number {
+  const snapped =
+    direction > 0
+      ? Math.floor(minutes / MINUTE_STEP) * MINUTE_STEP
+      : Math.ceil(minutes / MINUTE_STEP) * MINUTE_STEP;
+  return (snapped + direction * MINUTE_STEP + 60) % 60;
+}
+
+function formatDay(date: Date): string {
+  const days = Math.round((startOfDay(new Date()) - startOfDay(date)) / DAY_MS);
+  if (days === 0) {
+    return "Aujourd'hui";
+  }
+  if (days === 1) {
+    return 'Hier';
+  }
+  return date.toLocaleDateString('fr-FR', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  });
+}
+
+export default function DateTimeField({
+  label,
+  mode,
+  value,
+  onChange,
+  minimumDate,
+  maximumDate,
+  hint,
+}: DateTimeFieldProps): JSX.Element {
+  const shift = (update: (date: Date) => void) => {
+    const next = new Date(value);
+    update(next);
+    onChange(next);
+  };
+
+  if (mode === 'date') {
+    const day = startOfDay(value);
+    const canGoBack = !minimumDate || day > startOfDay(minimumDate);
+    const canGoForward = !maximumDate || day < startOfDay(maximumDate);
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>{label}</Text>
+        <View style={styles.dateRow}>
+          <StepButton
+            disabled={!canGoBack}
+            onPress={() => shift(d => d.setDate(d.getDate() - 1))}>
+            <ChevronLeft size={20} color={canGoBack ? '#2E7D32' : '#ccc'} />
+          </StepButton>
+          <View style={styles.dateValue}>
+            <Text style={styles.valueText}>{formatDay(value)}</Text>
+            {hint && <Text style={styles.hint}>{hint}</Text>}
+          </View>
+          <StepButton
+            disabled={!canGoForward}
+            onPress={() => shift(d => d.setDate(d.getDate() + 1))}>
+            <ChevronRight size={20} color={canGoForward ? '#2E7D32' : '#ccc'} />
+          </StepButton>
+        </View>
+      </View>
+    );
+  }
+
+  // Hours and minutes wrap around without changing the day
+  const hours = value.getHours();
+  const minutes = value.getMinutes();
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.timeRow}>
+        <View style={styles.timeColumn}>
+          <StepButton onPress={() => shift(d => d.setHours((hours + 1) % 24))}>
+            <ChevronUp size={20} color="#2E7D32" />
+          </StepButton>
+          <Text style={styles.timeText}>{String(hours).padStart(2, '0')}</Text>
+          <StepButton onPress={() => shift(d => d.setHours((hours + 23) % 24))}>
+            <ChevronDown size={20} color="#2E7D32" />
+          </StepButton>
+        </View>
+        <Text style={styles.timeSeparator}>:</Text>
+        <View style={styles.timeColumn}>
+          <StepButton
+            onPress={() => shift(d => d.setMinutes(stepMinutes(minutes, 1)))}>
+            <ChevronUp size={20} color="#2E7D32" />
+          </StepButton>
+          <Text style={styles.timeText}>
+            {String(minutes).padStart(2, '0')}
+          </Text>
+          <StepButton
+            onPress={() => shift(d => d.setMinutes(stepMinutes(minutes, -1)))}>
+            <ChevronDown size={20} color="#2E7D32" />
+          </StepButton>
+        </View>
+        {hint && <Text style={[styles.hint, styles.timeHint]}>{hint}</Text>}
+      </View>
+    </View>
+  );
+}
+
+function StepButton({
+  onPress,
+  disabled,
+  children,
+}: {
+  onPress: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}): JSX.Element {
+  return (
+    <TouchableOpacity
+      style={styles.stepButton}
+      onPress={onPress}
+      disabled={disabled}
+      activeOpacity={0.7}>
+      {children}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: '#e0e0e0',
+    padding: 4,
+  },
+  dateValue: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  valueText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeColumn: {
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: '#e0e0e0',
+    paddingHorizontal: 8,
+  },
+  timeText: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    fontVariant: ['tabular-nums'],
+  },
+  timeSeparator: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginHorizontal: 8,
+  },
+  timeHint: {
+    marginLeft: 12,
+    marginTop: 0,
+  },
+  stepButton: {
+    padding: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
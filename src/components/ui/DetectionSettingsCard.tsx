@@ -0,0 +1,139 @@
+/**
+ * DetectionSettingsCard Component
+ * Edit the trip detection thresholds (minimum duration and distance, stop
+ * timeout, GPS interval, confidence floor)
+ */
+
+import React, {useEffect, useState} from 'react';
+import {View, Text, StyleSheet, Alert} from 'react-native';
+import {SlidersHorizontal} from 'lucide-react-native';
+
+import {DetectionConfig} from '@/api/types';
+import tripDetection from '@/native/TripDetection';
+import {
+  DEFAULT_DETECTION_CONFIG,
+  DETECTION_CONFIG_FIELDS,
+  validateDetectionConfig,
+} from '@/utils/detectionConfig';
+import {FieldErrors} from '@/utils/validation';
+import InfoCard from './InfoCard';
+import FormField from './FormField';
+import ActionButton from './ActionButton';
+
+type ConfigForm = Record<keyof DetectionConfig, string>;
+
+function toForm(config: DetectionConfig): ConfigForm {
+  const form = {} as ConfigForm;
+  DETECTION_CONFIG_FIELDS.forEach(({key}) => {
+    form[key] = String(config[key]);
+  });
+  return form;
+}
+
+function fromForm(form: ConfigForm): DetectionConfig {
+  const config = {} as DetectionConfig;
+  DETECTION_CONFIG_FIELDS.forEach(({key}) => {
+    config[key] = form[key].trim() === '' ? NaN : Number(form[key]);
+  });
+  return config;
+}
+
+export default function DetectionSettingsCard(): JSX.Element {
+  const [form, setForm] = useState<ConfigForm | null>(null);
+  const [errors, setErrors] = useState<FieldErrors<DetectionConfig>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    tripDetection
+      .getDetectionConfig()
+      .then(config => setForm(toForm(config)))
+      .catch(err => {
+        console.error('Error loading detection config:', err);
+        setForm(toForm(DEFAULT_DETECTION_CONFIG));
+      });
+  }, []);
+
+  const handleChange = (key: keyof DetectionConfig, value: string) => {
+    setForm(current => (current ? {...current, [key]: value} : current));
+    setErrors(current => ({...current, [key]: undefined}));
+  };
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+    const config = fromForm(form);
+    const fieldErrors = validateDetectionConfig(config);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      return;
+    }
+    setSaving(true);
+    try {
+      setForm(toForm(await tripDetection.setDetectionConfig(config)));
+      Alert.alert(
+        'Reglages enregistres',
+        "Ils s'appliquent aux prochains trajets detectes.",
+      );
+    } catch (err) {
+      console.error('Error saving detection config:', err);
+      Alert.alert('Erreur', "Impossible d'enregistrer les reglages");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <InfoCard
+      title="Detection des trajets"
+      icon={<SlidersHorizontal size={20} color="#2E7D32" />}>
+      <Text style={styles.description}>
+        Ajustez la detection aux trajets de votre site : les trajets plus courts
+        ou moins surs que ces seuils sont ignores.
+      </Text>
+      {form && (
+        <>
+          {DETECTION_CONFIG_FIELDS.map(({key, label, unit, min, max}) => (
+            <FormField
+              key={key}
+              label={`${label} (${unit})`}
+              value={form[key]}
+              onChangeText={value => handleChange(key, value)}
+              placeholder={`${min} - ${max}`}
+              keyboardType="number-pad"
+              error={errors[key]}
+            />
+          ))}
+          <View style={styles.actions}>
+            <ActionButton
+              title="Enregistrer"
+              onPress={handleSave}
+              loading={saving}
+            />
+            <ActionButton
+              title="Valeurs par defaut"
+              onPress={() => {
+                setForm(toForm(DEFAULT_DETECTION_CONFIG));
+                setErrors({});
+              }}
+              variant="outline"
+              disabled={saving}
+            />
+          </View>
+        </>
+      )}
+    </InfoCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  actions: {
+    gap: 10,
+  },
+});
@@ -0,0 +1,87 @@
+/**
+ * FormField Component
+ * Labelled text input with an inline error message
+ */
+
+import React, {ReactNode} from 'react';
+import {View, Text, TextInput, StyleSheet, TextInputProps} from 'react-native';
+
+interface FormFieldProps
+  extends Pick<
+    TextInputProps,
+    | 'value'
+    | 'onChangeText'
+    | 'placeholder'
+    | 'keyboardType'
+    | 'autoCapitalize'
+    | 'secureTextEntry'
+    | 'editable'
+  > {
+  label: string;
+  icon?: ReactNode;
+  error?: string;
+}
+
+export default function FormField({
+  label,
+  icon,
+  error,
+  autoCapitalize = 'none',
+  ...inputProps
+}: FormFieldProps): JSX.Element {
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={[styles.inputContainer, error ? styles.inputError : null]}>
+        {icon && <View style={styles.icon}>{icon}</View>}
+        <TextInput
+          style={styles.input}
+          placeholderTextColor="#aaa"
+          autoCapitalize={autoCapitalize}
+          autoCorrect={false}
+          {...inputProps}
+        />
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: '#e0e0e0',
+    paddingHorizontal: 14,
+  },
+  inputError: {
+    borderColor: '#E53935',
+  },
+  icon: {
+    marginRight: 10,
+    opacity: 0.6,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1a1a1a',
+    paddingVertical: 12,
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#E53935',
+  },
+});
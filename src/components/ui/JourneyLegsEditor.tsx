@@ -0,0 +1,262 @@
+/**
+ * JourneyLegsEditor Component
+ * Edit the legs of a multimodal journey: mode and distance of each leg,
+ * time of each change of mode, split or merge legs
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import {Scissors, X} from 'lucide-react-native';
+import {
+  LegDraft,
+  MAX_LEGS,
+  moveLegBoundary,
+  removeLeg,
+  setLegTransportType,
+  splitLeg,
+} from '@/utils/journeyLegs';
+import {TRANSPORT_OPTIONS} from './TransportSelector';
+
+const BOUNDARY_STEPS = [-5, -1, 1, 5];
+
+interface JourneyLegsEditorProps {
+  legs: LegDraft[];
+  onChange: (legs: LegDraft[]) => void;
+  // One message per leg, e.g. from validateLegs
+  errors?: (string | undefined)[];
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function JourneyLegsEditor({
+  legs,
+  onChange,
+  errors = [],
+}: JourneyLegsEditorProps): JSX.Element {
+  const setDistance = (index: number, distance: string) =>
+    onChange(legs.map((leg, i) => (i === index ? {...leg, distance} : leg)));
+
+  return (
+    <View style={styles.container}>
+      {legs.map((leg, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && (
+            <View style={styles.boundary}>
+              <Text style={styles.boundaryLabel}>
+                Changement à {formatTime(leg.departure)}
+              </Text>
+              <View style={styles.boundarySteps}>
+                {BOUNDARY_STEPS.map(step => (
+                  <TouchableOpacity
+                    key={step}
+                    style={styles.stepButton}
+                    onPress={() =>
+                      onChange(moveLegBoundary(legs, index - 1, step))
+                    }>
+                    <Text style={styles.stepText}>
+                      {step > 0 ? `+${step}` : step}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.legCard}>
+            <View style={styles.legHeader}>
+              <Text style={styles.legTitle}>Étape {index + 1}</Text>
+              <Text style={styles.legTimes}>
+                {formatTime(leg.departure)} - {formatTime(leg.arrival)}
+              </Text>
+              {legs.length < MAX_LEGS && (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => onChange(splitLeg(legs, index))}
+                  accessibilityLabel="Couper cette étape">
+                  <Scissors size={16} color="#666" />
+                </TouchableOpacity>
+              )}
+              {legs.length > 2 && (
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => onChange(removeLeg(legs, index))}
+                  accessibilityLabel="Supprimer cette étape">
+                  <X size={16} color="#666" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.modes}>
+              {TRANSPORT_OPTIONS.map(option => {
+                const selected = leg.transportType === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.modeChip,
+                      selected && {
+                        borderColor: option.color,
+                        backgroundColor: option.bgColor,
+                      },
+                    ]}
+                    onPress={() =>
+                      onChange(setLegTransportType(legs, index, option.value))
+                    }>
+                    <Text
+                      style={[
+                        styles.modeLabel,
+                        selected && styles.modeLabelSelected,
+                        selected && {color: option.color},
+                      ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.distanceRow}>
+              <Text style={styles.distanceLabel}>Distance (km)</Text>
+              <TextInput
+                style={styles.distanceInput}
+                value={leg.distance}
+                onChangeText={text => setDistance(index, text)}
+                keyboardType="decimal-pad"
+                placeholder="0.0"
+                placeholderTextColor="#aaa"
+              />
+            </View>
+            {errors[index] && (
+              <Text style={styles.errorText}>{errors[index]}</Text>
+            )}
+          </View>
+        </React.Fragment>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+  },
+  legCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.04,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  legHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  legTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  legTimes: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#666',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 6,
+  },
+  modes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  modeChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#eee',
+  },
+  modeLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  modeLabelSelected: {
+    fontWeight: '600',
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  distanceLabel: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  distanceInput: {
+    width: 90,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#1a1a1a',
+    textAlign: 'right',
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#E53935',
+  },
+  boundary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+  },
+  boundaryLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1a472a',
+  },
+  boundarySteps: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  stepButton: {
+    minWidth: 36,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    borderRadius: 8,
+    backgroundColor: '#E8F5E9',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+});
@@ -0,0 +1,114 @@
+/**
+ * JourneyRoute Component
+ * Map-free drawing of a recorded route: the track is scaled to fit, each
+ * segment colored by speed, with start and end markers
+ */
+
+import React, {useState} from 'react';
+import {View, Text, StyleSheet, LayoutChangeEvent} from 'react-native';
+import Svg, {Circle, Line} from 'react-native-svg';
+
+import {JourneyTrackPoint} from '@/api/types';
+import {SPEED_COLORS, projectTrack, speedColor} from '@/utils/journeyTrack';
+
+interface JourneyRouteProps {
+  points: JourneyTrackPoint[];
+  height?: number;
+}
+
+const PADDING = 12;
+const MARKER_RADIUS = 6;
+
+export default function JourneyRoute({
+  points,
+  height = 200,
+}: JourneyRouteProps): JSX.Element {
+  const [width, setWidth] = useState(0);
+  const track = projectTrack(points, width, height, PADDING);
+  const start = track.points[0];
+  const end = track.points[track.points.length - 1];
+
+  const handleLayout = (event: LayoutChangeEvent) =>
+    setWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View>
+      <View style={[styles.canvas, {height}]} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {track.segments.map((segment, index) => (
+              <Line
+                key={index}
+                x1={segment.from.x}
+                y1={segment.from.y}
+                x2={segment.to.x}
+                y2={segment.to.y}
+                stroke={speedColor(segment.speedKmh)}
+                strokeWidth={4}
+                strokeLinecap="round"
+              />
+            ))}
+            {start && (
+              <Circle
+                cx={start.x}
+                cy={start.y}
+                r={MARKER_RADIUS}
+                fill="#fff"
+                stroke="#2196F3"
+                strokeWidth={3}
+              />
+            )}
+            {end && track.points.length > 1 && (
+              <Circle
+                cx={end.x}
+                cy={end.y}
+                r={MARKER_RADIUS}
+                fill="#FF9800"
+                stroke="#fff"
+                strokeWidth={2}
+              />
+            )}
+          </Svg>
+        )}
+      </View>
+      <View style={styles.legend}>
+        {SPEED_COLORS.map(band => (
+          <View key={band.label} style={styles.legendItem}>
+            <View
+              style={[styles.legendSwatch, {backgroundColor: band.color}]}
+            />
+            <Text style={styles.legendText}>{band.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  canvas: {
+    borderRadius: 12,
+    backgroundColor: '#f5f7f5',
+    overflow: 'hidden',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 14,
+    height: 4,
+    borderRadius: 2,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
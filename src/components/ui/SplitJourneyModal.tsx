@@ -0,0 +1,218 @@
+/**
+ * SplitJourneyModal Component
+ * Choose where to split a detected journey in two, with a preview of both
+ * parts
+ */
+
+import React, {useEffect, useState} from 'react';
+import {Modal, View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {Scissors} from 'lucide-react-native';
+import {LocalJourney} from '@/api/types';
+import {MIN_SPLIT_PART_MINUTES, splitDistance} from '@/utils/journeys';
+import ActionButton from './ActionButton';
+
+const STEPS = [-5, -1, 1, 5];
+
+interface SplitJourneyModalProps {
+  // Journey to split, the modal is hidden when null
+  journey: LocalJourney | null;
+  loading?: boolean;
+  onCancel: () => void;
+  onConfirm: (timestamp: number) => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function middleOf(journey: LocalJourney): number {
+  const middle = (journey.timeDeparture + journey.timeArrival) / 2;
+  return Math.round(middle / 60000) * 60000;
+}
+
+export default function SplitJourneyModal({
+  journey,
+  loading = false,
+  onCancel,
+  onConfirm,
+}: SplitJourneyModalProps): JSX.Element {
+  const [splitAt, setSplitAt] = useState(0);
+
+  useEffect(() => {
+    if (journey) {
+      setSplitAt(middleOf(journey));
+    }
+  }, [journey]);
+
+  const minGap = MIN_SPLIT_PART_MINUTES * 60000;
+  const canSplit =
+    journey !== null &&
+    journey.timeArrival - journey.timeDeparture >= 2 * minGap;
+
+  const move = (minutes: number) => {
+    if (!journey) {
+      return;
+    }
+    setSplitAt(
+      Math.min(
+        Math.max(splitAt + minutes * 60000, journey.timeDeparture + minGap),
+        journey.timeArrival - minGap,
+      ),
+    );
+  };
+
+  const parts = journey && canSplit ? splitDistance(journey, splitAt) : null;
+
+  return (
+    <Modal visible={journey !== null} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Couper le trajet</Text>
+          <Text style={styles.subtitle}>
+            Pour un trajet qui en regroupe deux, choisissez l'heure de la
+            coupure. La distance est répartie selon la durée de chaque partie.
+          </Text>
+
+          {journey && parts ? (
+            <>
+              <View style={styles.splitRow}>
+                <Scissors size={18} color="#2E7D32" />
+                <Text style={styles.splitTime}>{formatTime(splitAt)}</Text>
+              </View>
+              <View style={styles.steps}>
+                {STEPS.map(step => (
+                  <TouchableOpacity
+                    key={step}
+                    style={styles.stepButton}
+                    onPress={() => move(step)}>
+                    <Text style={styles.stepText}>
+                      {step > 0 ? `+${step}` : step} min
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.part}>
+                <Text style={styles.partLabel}>Partie 1</Text>
+                <Text style={styles.partDetails}>
+                  {formatTime(journey.timeDeparture)} - {formatTime(splitAt)} ·{' '}
+                  {parts[0].toFixed(1)} km
+                </Text>
+              </View>
+              <View style={styles.part}>
+                <Text style={styles.partLabel}>Partie 2</Text>
+                <Text style={styles.partDetails}>
+                  {formatTime(splitAt)} - {formatTime(journey.timeArrival)} ·{' '}
+                  {parts[1].toFixed(1)} km
+                </Text>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.tooShort}>
+              Ce trajet est trop court pour être coupé.
+            </Text>
+          )}
+
+          <ActionButton
+            title="Couper"
+            onPress={() => onConfirm(splitAt)}
+            loading={loading}
+            disabled={!canSplit}
+            style={styles.button}
+          />
+          <ActionButton
+            title="Annuler"
+            onPress={onCancel}
+            variant="secondary"
+            disabled={loading}
+            style={styles.button}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 380,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  splitTime: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  steps: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  stepButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: '#E8F5E9',
+  },
+  stepText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  part: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  partLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  partDetails: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  tooShort: {
+    fontSize: 14,
+    color: '#E53935',
+    marginBottom: 8,
+  },
+  button: {
+    marginTop: 12,
+  },
+});
@@ -29,6 +29,7 @@ import {
 } from 'lucide-react-native';
 
 import {apiClient} from '@/api/client';
+import {getErrorMessage} from '@/api/errors';
 import {Team, TeamListItem} from '@/api/types';
 import InfoCard from './InfoCard';
 import InfoRow from './InfoRow';
@@ -106,8 +107,11 @@ export default function TeamSection({
       await apiClient.joinTeam(teamId, code);
       closeModal();
       onTeamChange();
-    } catch (err: any) {
-      Alert.alert('Erreur', err.message || 'Impossible de rejoindre la team');
+    } catch (err) {
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(err, 'Impossible de rejoindre la team'),
+      );
     } finally {
       setJoining(false);
     }
@@ -137,8 +141,11 @@ export default function TeamSection({
             try {
               await apiClient.leaveTeam(userId);
               onTeamChange();
-            } catch (err: any) {
-              Alert.alert('Erreur', err.message || 'Impossible de quitter');
+            } catch (err) {
+              Alert.alert(
+                'Erreur',
+                getErrorMessage(err, 'Impossible de quitter'),
+              );
             } finally {
               setLeaving(false);
             }
@@ -166,8 +173,11 @@ export default function TeamSection({
         closeModal();
         onTeamChange();
       }
-    } catch (err: any) {
-      Alert.alert('Erreur', err.message || 'Impossible de creer la team');
+    } catch (err) {
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(err, 'Impossible de creer la team'),
+      );
     } finally {
       setCreating(false);
     }
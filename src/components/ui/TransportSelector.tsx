@@ -0,0 +1,153 @@
+/**
+ * TransportSelector Component
+ * Grid of the four transport modes with the selected one highlighted
+ */
+
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {Bike, Bus, Car, Check, Footprints} from 'lucide-react-native';
+import {TransportType} from '@/api/types';
+
+export interface TransportOption {
+  value: TransportType;
+  label: string;
+  icon: React.ReactNode;
+  color: string;
+  bgColor: string;
+}
+
+export const TRANSPORT_OPTIONS: TransportOption[] = [
+  {
+    value: 'marche',
+    label: 'Marche',
+    icon: <Footprints size={28} color="#4CAF50" />,
+    color: '#4CAF50',
+    bgColor: '#E8F5E9',
+  },
+  {
+    value: 'velo',
+    label: 'Vélo',
+    icon: <Bike size={28} color="#2196F3" />,
+    color: '#2196F3',
+    bgColor: '#E3F2FD',
+  },
+  {
+    value: 'transport_commun',
+    label: 'Transport',
+    icon: <Bus size={28} color="#9C27B0" />,
+    color: '#9C27B0',
+    bgColor: '#F3E5F5',
+  },
+  {
+    value: 'voiture',
+    label: 'Voiture',
+    icon: <Car size={28} color="#FF9800" />,
+    color: '#FF9800',
+    bgColor: '#FFF3E0',
+  },
+];
+
+export function getTransportOption(
+  type: TransportType,
+): TransportOption | undefined {
+  return TRANSPORT_OPTIONS.find(option => option.value === type);
+}
+
+interface TransportSelectorProps {
+  value: TransportType;
+  onChange: (value: TransportType) => void;
+}
+
+export default function TransportSelector({
+  value,
+  onChange,
+}: TransportSelectorProps): JSX.Element {
+  return (
+    <View style={styles.grid}>
+      {TRANSPORT_OPTIONS.map(option => {
+        const selected = value === option.value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.option,
+              selected && {
+                borderColor: option.color,
+                backgroundColor: option.bgColor,
+              },
+            ]}
+            onPress={() => onChange(option.value)}
+            activeOpacity={0.7}>
+            <View
+              style={[styles.iconContainer, {backgroundColor: option.bgColor}]}>
+              {option.icon}
+            </View>
+            <Text
+              style={[
+                styles.label,
+                selected && styles.labelSelected,
+                selected && {color: option.color},
+              ]}>
+              {option.label}
+            </Text>
+            {selected && (
+              <View
+                style={[styles.checkBadge, {backgroundColor: option.color}]}>
+                <Check size={12} color="#fff" />
+              </View>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    gap: 10,
+  },
+  option: {
+    width: '48%',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+    position: 'relative',
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.04,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+  },
+  labelSelected: {
+    fontWeight: '600',
+  },
+  checkBadge: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
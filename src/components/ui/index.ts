@@ -3,5 +3,18 @@ export {default as ProfileHeader} from './ProfileHeader';
 export {default as InfoCard} from './InfoCard';
 export {default as InfoRow} from './InfoRow';
 export {default as ActionButton} from './ActionButton';
+export {default as FormField} from './FormField';
 export {default as BadgeDisplay} from './BadgeDisplay';
 export {default as TeamSection} from './TeamSection';
+export {default as BatchProgressModal} from './BatchProgressModal';
+export {default as DateTimeField} from './DateTimeField';
+export {
+  default as TransportSelector,
+  TRANSPORT_OPTIONS,
+  getTransportOption,
+} from './TransportSelector';
+export type {TransportOption} from './TransportSelector';
+export {default as JourneyLegsEditor} from './JourneyLegsEditor';
+export {default as SplitJourneyModal} from './SplitJourneyModal';
+export {default as DetectionSettingsCard} from './DetectionSettingsCard';
+export {default as JourneyRoute} from './JourneyRoute';
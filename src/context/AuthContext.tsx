@@ -10,9 +10,22 @@ import React, {
   useCallback,
   ReactNode,
 } from 'react';
+import {Alert} from 'react-native';
 import {apiClient} from '../api/client';
-import {UserInfo} from '../api/types';
+import {
+  PasswordChange,
+  UserInfo,
+  UserProfile,
+  UserRegister,
+  UserUpdate,
+} from '../api/types';
 import tripDetection from '../native/TripDetection';
+import journeyOutbox from '../services/journey-outbox';
+import transitionLog from '../services/transition-log';
+import detectionScheduler from '../services/detection-schedule';
+import privateZones from '../services/private-zones';
+import {changeUserPassword, updateUserProfile} from '../services/auth-service';
+import {deleteAccountAndData} from '../services/personal-data';
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -20,13 +33,14 @@ interface AuthContextType {
   user: UserInfo | null;
   userId: number | null;
   login: (username: string, password: string) => Promise<void>;
-  register: (
-    username: string,
-    email: string,
-    password: string,
-  ) => Promise<void>;
+  register: (data: UserRegister) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  // Both refresh `user` on success
+  updateProfile: (data: UserUpdate) => Promise<UserProfile>;
+  changePassword: (data: PasswordChange) => Promise<string>;
+  // Deletes the account and every local trace of it, then logs out
+  deleteAccount: (password: string) => Promise<void>;
   setIsLoggedIn: (value: boolean) => void;
 }
 
@@ -47,6 +61,40 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
     checkAuthStatus();
   }, []);
 
+  // Go back to the Auth stack whenever the ApiClient loses the session
+  useEffect(
+    () =>
+      apiClient.addAuthListener(event => {
+        if (event === 'session_expired') {
+          handleSessionExpired();
+        } else if (event === 'logged_out') {
+          setUser(null);
+          setUserId(null);
+          setIsAuthenticated(false);
+        }
+      }),
+    [],
+  );
+
+  const handleSessionExpired = async () => {
+    setUser(null);
+    setUserId(null);
+    setIsAuthenticated(false);
+    Alert.alert(
+      'Session expirée',
+      'Veuillez vous reconnecter. Vos trajets en attente sont conservés.',
+    );
+
+    detectionScheduler.stop();
+    try {
+      await tripDetection.stopDetection();
+    } catch (error) {
+      console.error('Failed to stop trip detection:', error);
+    }
+    // Unsent journeys stay queued and are sent after the next login
+    journeyOutbox.stop();
+  };
+
   const checkAuthStatus = async () => {
     try {
       await apiClient.loadTokens();
@@ -68,6 +116,7 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
           
           // Start trip detection if already authenticated (permissions requested at app startup)
           startTripDetection();
+          journeyOutbox.start(currentUserId);
         }
       }
     } catch (error) {
@@ -80,21 +129,22 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
     }
   };
 
-  // Start trip detection after login (permissions already requested at app startup)
+  // Start trip detection after login (permissions already requested at app startup),
+  // within the commute windows of the detection schedule
   const startTripDetection = async () => {
     try {
       const permissions = await tripDetection.checkPermissions();
       
       if (permissions.allGranted) {
-        await tripDetection.startDetection();
-        console.log('✅ Trip detection started');
+        await detectionScheduler.start();
+        console.log('✅ Trip detection schedule started');
       } else {
         // Try to start anyway - some features might work with partial permissions
         console.warn('⚠️ Not all permissions granted, attempting to start detection anyway');
         console.log('   Location:', permissions.location ? '✅' : '❌');
         console.log('   Activity:', permissions.activityRecognition ? '✅' : '❌');
         console.log('   Notifications:', permissions.notifications ? '✅' : '❌');
-        await tripDetection.startDetection();
+        await detectionScheduler.start();
       }
     } catch (error) {
       console.error('❌ Failed to start trip detection:', error);
@@ -121,40 +171,43 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
         
         // Start trip detection after successful login (permissions requested at app startup)
         startTripDetection();
+        journeyOutbox.start(currentUserId);
       }
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  const register = useCallback(
-    async (username: string, email: string, password: string) => {
-      setIsLoading(true);
-      try {
-        await apiClient.register({username, email, password});
-        const currentUserId = apiClient.getUserId();
-        if (currentUserId) {
-          const userProfile = await apiClient.getUserProfile(currentUserId);
-          const userInfo: UserInfo = {
-            id: userProfile.id,
-            email: userProfile.email,
-            username: userProfile.username,
-            is_active: true,
-            team_id: userProfile.team_id,
-          };
-          setUser(userInfo);
-          setUserId(currentUserId);
-          setIsAuthenticated(true);
-        }
-      } finally {
-        setIsLoading(false);
+  const register = useCallback(async (data: UserRegister) => {
+    setIsLoading(true);
+    try {
+      await apiClient.register(data);
+      const currentUserId = apiClient.getUserId();
+      if (currentUserId) {
+        const userProfile = await apiClient.getUserProfile(currentUserId);
+        const userInfo: UserInfo = {
+          id: userProfile.id,
+          email: userProfile.email,
+          username: userProfile.username,
+          is_active: true,
+          team_id: userProfile.team_id,
+        };
+        setUser(userInfo);
+        setUserId(currentUserId);
+        setIsAuthenticated(true);
+
+        // Same as after login
+        startTripDetection();
+        journeyOutbox.start(currentUserId);
       }
-    },
-    [],
-  );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
   const logout = useCallback(async () => {
     // Stop trip detection when logging out
+    await detectionScheduler.clear();
     try {
       await tripDetection.stopDetection();
       console.log('Trip detection stopped on logout');
@@ -162,6 +215,13 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
       console.error('Failed to stop trip detection:', error);
     }
     
+    // Queued journeys are kept and sent after this account logs in again
+    // (the outbox drops them if another account logs in instead)
+    journeyOutbox.stop();
+    await transitionLog.clear();
+    // Private zones describe this user's places (home...)
+    await privateZones.clear();
+
     await apiClient.logout();
     setUser(null);
     setUserId(null);
@@ -187,6 +247,46 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
     }
   }, []);
 
+  const updateProfile = useCallback(async (data: UserUpdate) => {
+    const currentUserId = apiClient.getUserId();
+    if (!currentUserId) {
+      throw new Error('Utilisateur non connecte');
+    }
+    const userProfile = await updateUserProfile(currentUserId, data);
+    setUser({
+      id: userProfile.id,
+      email: userProfile.email,
+      username: userProfile.username,
+      is_active: true,
+      team_id: userProfile.team_id,
+    });
+    return userProfile;
+  }, []);
+
+  const changePassword = useCallback(
+    async (data: PasswordChange) => {
+      const currentUserId = apiClient.getUserId();
+      if (!currentUserId) {
+        throw new Error('Utilisateur non connecte');
+      }
+      const message = await changeUserPassword(currentUserId, data);
+      await refreshUser();
+      return message;
+    },
+    [refreshUser],
+  );
+
+  const deleteAccount = useCallback(async (password: string) => {
+    const currentUserId = apiClient.getUserId();
+    if (!currentUserId) {
+      throw new Error('Utilisateur non connecte');
+    }
+    await deleteAccountAndData(currentUserId, password);
+    setUser(null);
+    setUserId(null);
+    setIsAuthenticated(false);
+  }, []);
+
   const setIsLoggedIn = useCallback(async (value: boolean) => {
     if (value) {
       try {
@@ -203,6 +303,7 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
           setUser(userInfo);
           setUserId(currentUserId);
           setIsAuthenticated(true);
+          journeyOutbox.start(currentUserId);
         }
       } catch (error) {
         console.error('Failed to get user info:', error);
@@ -223,6 +324,9 @@ export function AuthProvider({children}: AuthProviderProps): JSX.Element {
     register,
     logout,
     refreshUser,
+    updateProfile,
+    changePassword,
+    deleteAccount,
     setIsLoggedIn,
   };
 
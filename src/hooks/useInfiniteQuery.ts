@@ -0,0 +1,177 @@
+/**
+ * Hook reading a paginated query from the shared cache, for infinite lists
+ * The first page renders from cache and is revalidated like useQuery; the
+ * next pages are fetched on demand with loadMore()
+ */
+
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {useFocusEffect} from '@react-navigation/native';
+import {Query, hashQueryKey, queryCache} from '@/api/query-cache';
+import {Page} from '@/api/types';
+
+export interface InfiniteQueryResult<P extends Page<unknown>> {
+  // Pages loaded so far, in order
+  pages: P[];
+  items: P['items'];
+  // Error of the last fetch, null when it succeeded
+  error: unknown;
+  // No page yet: neither cached nor fetched
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  // Reload from the first page
+  refetch: () => Promise<void>;
+}
+
+/**
+ * `getPage(offset)` builds the query of the page starting at `offset`;
+ * pass null to skip the query (e.g. while the user id is unknown)
+ */
+export const useInfiniteQuery = <P extends Page<unknown>>(
+  getPage: ((offset: number) => Query<P>) | null,
+): InfiniteQueryResult<P> => {
+  const getPageRef = useRef(getPage);
+  getPageRef.current = getPage;
+  const firstKey = getPage ? hashQueryKey(getPage(0).key) : null;
+
+  const [pages, setPages] = useState<P[]>([]);
+  const [error, setError] = useState<unknown>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+  const loadingMoreRef = useRef(false);
+  const focusedRef = useRef(false);
+  // Bumped when the query changes, so results of the previous one are dropped
+  const generationRef = useRef(0);
+
+  const loadFirst = useCallback(async (force: boolean) => {
+    const current = getPageRef.current;
+    if (!current) {
+      return;
+    }
+    const generation = generationRef.current;
+    try {
+      const page = await queryCache.fetch(current(0), {force});
+      if (generation === generationRef.current) {
+        setPages([page]);
+        setError(null);
+      }
+    } catch (err) {
+      if (generation === generationRef.current) {
+        setError(err);
+      }
+    }
+  }, []);
+
+  // Only when stale: reloading the first page drops the pages after it
+  const revalidate = useCallback(() => {
+    const current = getPageRef.current;
+    if (
+      current &&
+      (pagesRef.current.length === 0 || queryCache.isStale(current(0)))
+    ) {
+      loadFirst(false);
+    }
+  }, [loadFirst]);
+
+  useEffect(() => {
+    generationRef.current++;
+    loadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    setError(null);
+    const current = getPageRef.current;
+    if (!current) {
+      setPages([]);
+      return;
+    }
+
+    const first = current(0);
+    const cached = queryCache.getState<P>(first.key).data;
+    setPages(cached ? [cached] : []);
+    const unsubscribe = queryCache.subscribe(first.key, () => {
+      // After a failed refetch, wait for the next focus or pull-to-refresh
+      const state = queryCache.getState(first.key);
+      if (
+        focusedRef.current &&
+        state.isInvalidated &&
+        !state.isFetching &&
+        state.error === null
+      ) {
+        loadFirst(false);
+      }
+    });
+    // Render the persisted first page as soon as it is loaded
+    const generation = generationRef.current;
+    queryCache.hydrate().then(() => {
+      const data = queryCache.getState<P>(first.key).data;
+      if (
+        data &&
+        generation === generationRef.current &&
+        pagesRef.current.length === 0
+      ) {
+        setPages([data]);
+      }
+    });
+    // The query changed while focused (e.g. a new filter)
+    if (focusedRef.current) {
+      loadFirst(false);
+    }
+    return unsubscribe;
+  }, [firstKey, loadFirst]);
+
+  useFocusEffect(
+    useCallback(() => {
+      focusedRef.current = true;
+      revalidate();
+      return () => {
+        focusedRef.current = false;
+      };
+    }, [revalidate]),
+  );
+
+  const loadMore = useCallback(async () => {
+    const current = getPageRef.current;
+    const last = pagesRef.current[pagesRef.current.length - 1];
+    if (!current || !last || last.next_offset === null) {
+      return;
+    }
+    if (loadingMoreRef.current) {
+      return;
+    }
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    const generation = generationRef.current;
+    try {
+      const page = await queryCache.fetch(current(last.next_offset));
+      // Dropped if the list was reloaded meanwhile
+      setPages(previous =>
+        previous[previous.length - 1] === last ? [...previous, page] : previous,
+      );
+    } catch (err) {
+      if (generation === generationRef.current) {
+        setError(err);
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, []);
+
+  const refetch = useCallback(() => loadFirst(true), [loadFirst]);
+
+  const lastPage = pages[pages.length - 1];
+
+  return {
+    pages,
+    items: pages.flatMap(page => page.items),
+    error,
+    isLoading: !!getPage && pages.length === 0 && error === null,
+    isLoadingMore,
+    hasMore: !!lastPage && lastPage.next_offset !== null,
+    loadMore,
+    refetch,
+  };
+};
@@ -0,0 +1,97 @@
+/**
+ * Hook reading a query from the shared cache (stale-while-revalidate)
+ * Cached or persisted data renders immediately; it is refetched in the
+ * background when the screen gains focus while stale, or when invalidated
+ */
+
+import {useCallback, useEffect, useReducer, useRef} from 'react';
+import {useFocusEffect} from '@react-navigation/native';
+import {Query, hashQueryKey, queryCache} from '@/api/query-cache';
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  // Error of the last fetch, null when it succeeded
+  error: unknown;
+  // No data yet: neither cached nor fetched
+  isLoading: boolean;
+  isFetching: boolean;
+  // Last successful fetch (ms), 0 when never fetched
+  updatedAt: number;
+  // Fetch now, even if fresh
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Pass null to skip the query (e.g. while the user id is unknown)
+ */
+export const useQuery = <T>(query: Query<T> | null): QueryResult<T> => {
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const focusedRef = useRef(false);
+  const hash = query ? hashQueryKey(query.key) : null;
+
+  const revalidate = useCallback(async (force: boolean) => {
+    const current = queryRef.current;
+    if (!current) {
+      return;
+    }
+    try {
+      await queryCache.fetch(current, {force});
+    } catch {
+      // Kept in the cache state, exposed as `error`
+    }
+  }, []);
+
+  useEffect(() => {
+    const current = queryRef.current;
+    if (!current) {
+      return;
+    }
+    const unsubscribe = queryCache.subscribe(current.key, () => {
+      rerender();
+      // After a failed refetch, wait for the next focus or pull-to-refresh
+      const state = queryCache.getState(current.key);
+      if (
+        focusedRef.current &&
+        state.isInvalidated &&
+        !state.isFetching &&
+        state.error === null
+      ) {
+        revalidate(false);
+      }
+    });
+    // Render the persisted snapshot as soon as it is loaded
+    queryCache.hydrate().then(rerender);
+    // The key changed while focused (e.g. the user id became known)
+    if (focusedRef.current) {
+      revalidate(false);
+    }
+    return unsubscribe;
+  }, [hash, revalidate]);
+
+  useFocusEffect(
+    useCallback(() => {
+      focusedRef.current = true;
+      revalidate(false);
+      return () => {
+        focusedRef.current = false;
+      };
+    }, [revalidate]),
+  );
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+
+  const state = query
+    ? queryCache.getState<T>(query.key)
+    : {data: undefined, error: null, isFetching: false, updatedAt: 0};
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: !!query && state.data === undefined && state.error === null,
+    isFetching: state.isFetching,
+    updatedAt: state.updatedAt,
+    refetch,
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * Hook giving an AbortSignal for the API calls of a screen
+ * The signal is aborted when the screen loses focus or unmounts, so pending
+ * requests stop and their results never reach a screen that is gone
+ */
+
+import {useCallback, useRef} from 'react';
+import {useFocusEffect} from '@react-navigation/native';
+
+export const useRequestSignal = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Cleanup runs on blur and on unmount
+  useFocusEffect(
+    useCallback(
+      () => () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+      },
+      [],
+    ),
+  );
+
+  // A fresh controller per focus session, created on demand
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+};
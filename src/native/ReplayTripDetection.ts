@@ -0,0 +1,758 @@
+/**
+ * Trip detection driver replaying recorded GPS traces (GPX or CSV) instead of
+ * listening to the device sensors. Used on the iOS simulator and in Jest:
+ * journeys are kept in memory and events go through the same listeners as
+ * the native module.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DetectionConfig,
+  JourneyTrackPoint,
+  LocalJourney,
+  PermissionStatus,
+} from '../api/types';
+import {
+  DEFAULT_DETECTION_CONFIG,
+  validateDetectionConfig,
+} from '../utils/detectionConfig';
+import {
+  DEFAULT_DETECTION_SCHEDULE,
+  DetectionSchedule,
+  isInSchedule,
+} from '../utils/detectionSchedule';
+import {trimTrack} from '../utils/journeyTrack';
+import {tripConfidence} from '../utils/tripConfidence';
+import {generateUuid} from '../utils/uuid';
+import {
+  haversineKm,
+  parseTrace,
+  TraceEvent,
+  TraceLocation,
+} from '../utils/traces';
+import {
+  GpsLogEvent,
+  JourneyTrackOptions,
+  LocalJourneyUpdates,
+  TransitionEvent,
+  TripDetectionDriver,
+} from './TripDetectionDriver';
+
+// Same mapping and estimated speeds as the native state machine
+const TRANSPORT_TYPES: Record<string, string> = {
+  WALKING: 'marche',
+  RUNNING: 'marche',
+  ON_BICYCLE: 'velo',
+  IN_VEHICLE: 'voiture',
+};
+
+const ESTIMATED_SPEED_KMH: Record<string, number> = {
+  WALKING: 5,
+  RUNNING: 10,
+  ON_BICYCLE: 15,
+  IN_VEHICLE: 40,
+};
+
+const DETECTION_CONFIG_KEY = '@GMP_detection_config';
+const MIN_TRIP_DURATION_MS = 1000;
+const MIN_SPLIT_PART_MS = 60_000;
+
+export interface ReplayOptions {
+  // Delay between two events, to watch the replay live (default: none)
+  intervalMs?: number;
+}
+
+interface CurrentTrip {
+  start: number;
+  activity: string;
+  points: TraceLocation[];
+  // Time STILL was entered, the trip ends if it lasts the stop timeout
+  stoppedAt: number | null;
+}
+
+type Listener<T> = (data: T) => void;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('fr-FR');
+}
+
+/**
+ * Activity of a trace without transitions, from its average speed
+ */
+function inferActivity(points: TraceLocation[]): string {
+  const hours =
+    (points[points.length - 1].timestamp - points[0].timestamp) / 3600000;
+  const speed = hours > 0 ? pathKm(points) / hours : 0;
+  if (speed < 7) {
+    return 'WALKING';
+  }
+  return speed < 25 ? 'ON_BICYCLE' : 'IN_VEHICLE';
+}
+
+function pathKm(points: TraceLocation[]): number {
+  return points
+    .slice(1)
+    .reduce((sum, point, i) => sum + haversineKm(points[i], point), 0);
+}
+
+/**
+ * Sample walking trace ending now, used by simulateTrip
+ */
+function sampleTrace(): TraceEvent[] {
+  const end = Date.now();
+  const start = end - 10 * 60000;
+  const events: TraceEvent[] = [
+    {
+      type: 'transition',
+      timestamp: start,
+      activityType: 'WALKING',
+      transitionType: 'ENTER',
+    },
+  ];
+  for (let minute = 0; minute <= 10; minute++) {
+    events.push({
+      type: 'location',
+      timestamp: start + minute * 60000,
+      latitude: 48.8566 + minute * 0.0007,
+      longitude: 2.3522,
+    });
+  }
+  events.push(
+    {
+      type: 'transition',
+      timestamp: end,
+      activityType: 'WALKING',
+      transitionType: 'EXIT',
+    },
+    {
+      type: 'transition',
+      timestamp: end,
+      activityType: 'STILL',
+      transitionType: 'ENTER',
+    },
+  );
+  return events;
+}
+
+class ReplayTripDetection implements TripDetectionDriver {
+  private journeys: LocalJourney[] = [];
+  // Recorded points by journey id, like the native journey_points table
+  private tracks = new Map<number, JourneyTrackPoint[]>();
+  // Replayed transitions, like the native activity_transitions table
+  private transitions: TransitionEvent[] = [];
+  private nextId = 1;
+  private running = false;
+  // Set by startDetection: detection then runs within the schedule, which is
+  // checked when it changes and after each trip (no alarms here)
+  private enabled = false;
+  private schedule: DetectionSchedule = DEFAULT_DETECTION_SCHEDULE;
+  private pausedUntil: number | null = null;
+  private debugMode = false;
+  private trip: CurrentTrip | null = null;
+  private config: DetectionConfig | null = null;
+
+  private tripListeners = new Set<Listener<LocalJourney>>();
+  private stateListeners = new Set<Listener<{isRunning: boolean}>>();
+  private transitionListeners = new Set<Listener<TransitionEvent>>();
+  private gpsLogListeners = new Set<Listener<GpsLogEvent>>();
+
+  /**
+   * Replay a trace (GPX or CSV text, or parsed events) through the detection
+   * state machine. Resolves with the journeys detected in it.
+   */
+  async replay(
+    trace: string | TraceEvent[],
+    options: ReplayOptions = {},
+  ): Promise<LocalJourney[]> {
+    if (!this.running) {
+      throw new Error('Trip detection is not running');
+    }
+    const events = (typeof trace === 'string' ? parseTrace(trace) : trace)
+      .slice()
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (events.length === 0) {
+      return [];
+    }
+    await this.getDetectionConfig();
+
+    const detected: LocalJourney[] = [];
+    const hasTransitions = events.some(event => event.type === 'transition');
+    if (!hasTransitions) {
+      // No activity recorded: the whole trace is one trip
+      const points = events as TraceLocation[];
+      this.trip = {
+        start: points[0].timestamp,
+        activity: inferActivity(points),
+        points: [],
+        stoppedAt: null,
+      };
+      this.emitGpsLog('gps_start', this.trip.activity, this.trip.start);
+    }
+
+    for (const event of events) {
+      if (!this.running) {
+        break;
+      }
+      if (options.intervalMs) {
+        await new Promise(resolve => setTimeout(resolve, options.intervalMs));
+      }
+      const journey = this.handleEvent(event);
+      if (journey) {
+        detected.push(journey);
+      }
+    }
+
+    // Trace over: the trip ends with it, or when it stopped
+    if (this.trip) {
+      const journey = this.endTrip(
+        this.trip.stoppedAt ?? events[events.length - 1].timestamp,
+      );
+      if (journey) {
+        detected.push(journey);
+      }
+    }
+    return detected;
+  }
+
+  async startDetection(): Promise<boolean> {
+    this.enabled = true;
+    this.applySchedule();
+    return true;
+  }
+
+  async stopDetection(): Promise<boolean> {
+    this.enabled = false;
+    this.trip = null;
+    this.setRunning(false);
+    return true;
+  }
+
+  async isDetectionRunning(): Promise<boolean> {
+    return this.running;
+  }
+
+  async setDetectionSchedule(
+    schedule: DetectionSchedule,
+    pausedUntil: number | null,
+  ): Promise<void> {
+    this.schedule = schedule;
+    this.pausedUntil = pausedUntil;
+    this.applySchedule();
+  }
+
+  async getPendingJourneys(): Promise<LocalJourney[]> {
+    return this.journeys
+      .filter(journey => journey.status === 'PENDING')
+      .sort((a, b) => b.timeDeparture - a.timeDeparture)
+      .map(journey => ({...journey}));
+  }
+
+  async getAllLocalJourneys(): Promise<LocalJourney[]> {
+    return this.journeys
+      .slice()
+      .sort((a, b) => b.timeDeparture - a.timeDeparture)
+      .map(journey => ({...journey}));
+  }
+
+  async getJourney(id: number): Promise<LocalJourney> {
+    return {...this.find(id)};
+  }
+
+  async getJourneyTrack(
+    id: number,
+    options: JourneyTrackOptions = {},
+  ): Promise<JourneyTrackPoint[]> {
+    this.find(id);
+    return trimTrack(this.tracks.get(id) ?? [], options.trimMeters ?? 0);
+  }
+
+  async getActivityTransitions(
+    from: number,
+    to: number,
+  ): Promise<TransitionEvent[]> {
+    return this.transitions
+      .filter(t => t.timestamp >= from && t.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(t => ({...t}));
+  }
+
+  async clearActivityTransitions(): Promise<void> {
+    this.transitions = [];
+  }
+
+  async updateLocalJourney(
+    id: number,
+    updates: LocalJourneyUpdates,
+  ): Promise<boolean> {
+    const journey = this.journeys.find(j => j.id === id);
+    if (!journey) {
+      return false;
+    }
+    if (updates.transportType !== undefined) {
+      journey.detectedTransportType = updates.transportType;
+    }
+    if (updates.distanceKm !== undefined) {
+      journey.distanceKm = updates.distanceKm;
+    }
+    if (updates.placeDeparture !== undefined) {
+      journey.placeDeparture = updates.placeDeparture;
+    }
+    if (updates.placeArrival !== undefined) {
+      journey.placeArrival = updates.placeArrival;
+    }
+    journey.updatedAt = Date.now();
+    return true;
+  }
+
+  async deleteLocalJourney(id: number): Promise<boolean> {
+    this.journeys = this.journeys.filter(journey => journey.id !== id);
+    this.tracks.delete(id);
+    return true;
+  }
+
+  async deleteAllLocalJourneys(): Promise<boolean> {
+    this.journeys = [];
+    this.tracks.clear();
+    return true;
+  }
+
+  /**
+   * Same rules as the native module: pending and adjacent journeys only, the
+   * mode covering the most distance wins, confidence is distance-weighted
+   */
+  async mergeJourneys(ids: number[]): Promise<LocalJourney> {
+    const journeys = this.journeys
+      .filter(j => ids.includes(j.id) && j.status === 'PENDING')
+      .sort((a, b) => a.timeDeparture - b.timeDeparture);
+    if (journeys.length < 2) {
+      throw new Error('At least two pending journeys are required');
+    }
+
+    const first = journeys[0];
+    const last = journeys.reduce((a, b) =>
+      b.timeArrival > a.timeArrival ? b : a,
+    );
+    const inBetween = this.journeys.some(
+      j =>
+        j.status === 'PENDING' &&
+        !ids.includes(j.id) &&
+        j.timeDeparture > first.timeDeparture &&
+        j.timeDeparture < last.timeArrival,
+    );
+    if (inBetween) {
+      throw new Error('Only adjacent journeys can be merged');
+    }
+
+    const totalDistance = journeys.reduce((sum, j) => sum + j.distanceKm, 0);
+    const distanceByType = new Map<string, number>();
+    journeys.forEach(j =>
+      distanceByType.set(
+        j.detectedTransportType,
+        (distanceByType.get(j.detectedTransportType) ?? 0) + j.distanceKm,
+      ),
+    );
+    const dominantType = [...distanceByType.entries()].reduce((a, b) =>
+      b[1] > a[1] ? b : a,
+    )[0];
+    const confidence =
+      totalDistance > 0
+        ? journeys.reduce((sum, j) => sum + j.confidenceAvg * j.distanceKm, 0) /
+          totalDistance
+        : journeys.reduce((sum, j) => sum + j.confidenceAvg, 0) /
+          journeys.length;
+
+    const merged = this.insert({
+      timeDeparture: first.timeDeparture,
+      timeArrival: last.timeArrival,
+      distanceKm: totalDistance,
+      detectedTransportType: dominantType,
+      confidenceAvg: Math.round(confidence),
+      placeDeparture: first.placeDeparture,
+      placeArrival: last.placeArrival,
+      startLatitude: first.startLatitude,
+      startLongitude: first.startLongitude,
+      endLatitude: last.endLatitude,
+      endLongitude: last.endLongitude,
+      isGpsBasedDistance: journeys.every(j => j.isGpsBasedDistance),
+      gpsPointsCount: journeys.reduce(
+        (sum, j) => sum + (j.gpsPointsCount ?? 0),
+        0,
+      ),
+    });
+    this.tracks.set(
+      merged.id,
+      journeys.flatMap(j => this.tracks.get(j.id) ?? []),
+    );
+    journeys.forEach(j => this.tracks.delete(j.id));
+    this.journeys = this.journeys.filter(
+      j => !journeys.some(original => original.id === j.id),
+    );
+    return {...merged};
+  }
+
+  async splitJourney(
+    id: number,
+    timestamp: number,
+  ): Promise<[LocalJourney, LocalJourney]> {
+    const journey = this.find(id);
+    if (journey.status !== 'PENDING') {
+      throw new Error('Only pending journeys can be split');
+    }
+    const splitAt = Math.round(timestamp);
+    if (
+      splitAt - journey.timeDeparture < MIN_SPLIT_PART_MS ||
+      journey.timeArrival - splitAt < MIN_SPLIT_PART_MS
+    ) {
+      throw new Error('Each part must last at least a minute');
+    }
+
+    const ratio =
+      (splitAt - journey.timeDeparture) /
+      (journey.timeArrival - journey.timeDeparture);
+    // Recorded points go to their part and give the coordinates at the split
+    const track = this.tracks.get(id) ?? [];
+    const before = track.filter(p => p.timestamp < splitAt);
+    const after = track.filter(p => p.timestamp >= splitAt);
+    const points = journey.gpsPointsCount ?? 0;
+    const firstPoints =
+      track.length > 0 ? before.length : Math.round(points * ratio);
+    const first = this.insert({
+      ...journey,
+      timeArrival: splitAt,
+      distanceKm: journey.distanceKm * ratio,
+      gpsPointsCount: firstPoints,
+      endLatitude: before[before.length - 1]?.latitude,
+      endLongitude: before[before.length - 1]?.longitude,
+    });
+    const second = this.insert({
+      ...journey,
+      timeDeparture: splitAt,
+      distanceKm: journey.distanceKm - first.distanceKm,
+      gpsPointsCount: track.length > 0 ? after.length : points - firstPoints,
+      startLatitude: after[0]?.latitude,
+      startLongitude: after[0]?.longitude,
+    });
+    this.tracks.set(first.id, before);
+    this.tracks.set(second.id, after);
+    this.tracks.delete(id);
+    this.journeys = this.journeys.filter(j => j.id !== id);
+    return [{...first}, {...second}];
+  }
+
+  async markJourneySent(id: number): Promise<boolean> {
+    const journey = this.journeys.find(j => j.id === id);
+    if (!journey) {
+      return false;
+    }
+    journey.status = 'SENT';
+    journey.updatedAt = Date.now();
+    return true;
+  }
+
+  async getPendingCount(): Promise<number> {
+    return this.journeys.filter(j => j.status === 'PENDING').length;
+  }
+
+  async getDetectionConfig(): Promise<DetectionConfig> {
+    if (!this.config) {
+      try {
+        const value = await AsyncStorage.getItem(DETECTION_CONFIG_KEY);
+        this.config = {
+          ...DEFAULT_DETECTION_CONFIG,
+          ...(value ? JSON.parse(value) : {}),
+        };
+      } catch (error) {
+        console.error('Failed to load detection config:', error);
+        this.config = {...DEFAULT_DETECTION_CONFIG};
+      }
+    }
+    return {...(this.config as DetectionConfig)};
+  }
+
+  async setDetectionConfig(
+    updates: Partial<DetectionConfig>,
+  ): Promise<DetectionConfig> {
+    const config = {...(await this.getDetectionConfig()), ...updates};
+    const errors = Object.entries(validateDetectionConfig(config));
+    if (errors.length > 0) {
+      const [key, message] = errors[0];
+      throw new Error(`Invalid ${key}: ${message}`);
+    }
+    this.config = config;
+    await AsyncStorage.setItem(DETECTION_CONFIG_KEY, JSON.stringify(config));
+    return {...config};
+  }
+
+  /**
+   * Nothing to grant: traces do not need the device sensors
+   */
+  async checkPermissions(): Promise<PermissionStatus> {
+    return {
+      location: true,
+      activityRecognition: true,
+      notifications: true,
+      allGranted: true,
+    };
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  async setDebugMode(enabled: boolean): Promise<void> {
+    this.debugMode = enabled;
+  }
+
+  /**
+   * Replay a 10 minute walk ending now, even when detection is stopped
+   */
+  async simulateTrip(): Promise<void> {
+    const wasRunning = this.running;
+    this.running = true;
+    try {
+      await this.replay(sampleTrace());
+    } finally {
+      this.running = wasRunning;
+    }
+  }
+
+  addTripDetectedListener(callback: Listener<LocalJourney>): () => void {
+    return this.subscribe(this.tripListeners, callback);
+  }
+
+  addStateChangeListener(callback: Listener<{isRunning: boolean}>): () => void {
+    return this.subscribe(this.stateListeners, callback);
+  }
+
+  addTransitionListener(callback: Listener<TransitionEvent>): () => void {
+    return this.subscribe(this.transitionListeners, callback);
+  }
+
+  addGpsLogListener(callback: Listener<GpsLogEvent>): () => void {
+    return this.subscribe(this.gpsLogListeners, callback);
+  }
+
+  /**
+   * Feed one event to the state machine: a trip starts when a moving
+   * activity is entered and ends once STILL has lasted the stop timeout
+   */
+  private handleEvent(event: TraceEvent): LocalJourney | null {
+    const {stopTimeoutSeconds} = this.config as DetectionConfig;
+    let ended: LocalJourney | null = null;
+    if (
+      this.trip?.stoppedAt != null &&
+      event.timestamp - this.trip.stoppedAt >= stopTimeoutSeconds * 1000
+    ) {
+      ended = this.endTrip(this.trip.stoppedAt);
+    }
+
+    if (event.type === 'location') {
+      // Like the native service, no GPS while a stop is being confirmed
+      if (this.trip && this.trip.stoppedAt === null) {
+        this.trip.points.push(event);
+      }
+      return ended;
+    }
+
+    const transition: TransitionEvent = {
+      activityType: event.activityType,
+      transitionType: event.transitionType,
+      timestamp: event.timestamp,
+    };
+    this.transitions.push(transition);
+    this.emit(this.transitionListeners, {...transition});
+    if (event.transitionType !== 'ENTER') {
+      return ended;
+    }
+
+    if (event.activityType === 'STILL') {
+      if (this.trip && this.trip.stoppedAt === null) {
+        this.trip.stoppedAt = event.timestamp;
+      }
+      return ended;
+    }
+    if (!TRANSPORT_TYPES[event.activityType]) {
+      return ended;
+    }
+    if (this.trip) {
+      // Moving again before the stop timeout: same trip
+      this.trip.activity = event.activityType;
+      this.trip.stoppedAt = null;
+    } else {
+      this.trip = {
+        start: event.timestamp,
+        activity: event.activityType,
+        points: [],
+        stoppedAt: null,
+      };
+      this.emitGpsLog('gps_start', event.activityType, event.timestamp);
+    }
+    return ended;
+  }
+
+  private endTrip(end: number): LocalJourney | null {
+    const trip = this.trip as CurrentTrip;
+    this.trip = null;
+    this.applySchedule();
+    this.emitGpsLog('trip_end_confirmed', trip.activity, end);
+    const config = this.config as DetectionConfig;
+    const minDurationMs = Math.max(
+      MIN_TRIP_DURATION_MS,
+      config.minDurationSeconds * 1000,
+    );
+    if (end - trip.start < minDurationMs) {
+      return null;
+    }
+
+    const isGpsBased = trip.points.length >= 2;
+    const durationMinutes = Math.floor((end - trip.start) / 60000);
+    const distanceKm = isGpsBased
+      ? pathKm(trip.points) || 0.01
+      : (durationMinutes / 60) * ESTIMATED_SPEED_KMH[trip.activity];
+    if (distanceKm * 1000 < config.minDistanceMeters) {
+      return null;
+    }
+    const confidence = tripConfidence(
+      trip.activity,
+      trip.points,
+      distanceKm,
+      end - trip.start,
+    );
+    if (confidence < config.minConfidence) {
+      return null;
+    }
+    const first = trip.points[0];
+    const last = trip.points[trip.points.length - 1];
+
+    this.emitGpsLog('gps_stats', trip.activity, end, {
+      isGpsBased,
+      gpsPoints: trip.points.length,
+      distance: distanceKm,
+      startLat: first?.latitude,
+      startLon: first?.longitude,
+      endLat: last?.latitude,
+      endLon: last?.longitude,
+    });
+
+    const journey = this.insert({
+      timeDeparture: trip.start,
+      timeArrival: end,
+      distanceKm,
+      detectedTransportType: TRANSPORT_TYPES[trip.activity],
+      confidenceAvg: confidence,
+      placeDeparture: this.debugMode ? 'DEBUG: Replay' : 'Auto-detected',
+      placeArrival: this.debugMode ? 'DEBUG: Replay' : 'Unknown',
+      startLatitude: first?.latitude,
+      startLongitude: first?.longitude,
+      endLatitude: last?.latitude,
+      endLongitude: last?.longitude,
+      isGpsBasedDistance: isGpsBased,
+      gpsPointsCount: trip.points.length,
+    });
+    this.tracks.set(
+      journey.id,
+      trip.points.map(({timestamp, latitude, longitude, accuracy}) => ({
+        timestamp,
+        latitude,
+        longitude,
+        accuracy,
+      })),
+    );
+    this.emit(this.tripListeners, {...journey});
+    return {...journey};
+  }
+
+  private insert(
+    fields: Omit<
+      LocalJourney,
+      | 'id'
+      | 'durationMinutes'
+      | 'clientId'
+      | 'status'
+      | 'createdAt'
+      | 'updatedAt'
+    >,
+  ): LocalJourney {
+    const now = Date.now();
+    const journey: LocalJourney = {
+      ...fields,
+      id: this.nextId++,
+      durationMinutes: Math.floor(
+        (fields.timeArrival - fields.timeDeparture) / 60000,
+      ),
+      clientId: generateUuid(),
+      status: 'PENDING',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.journeys.push(journey);
+    return journey;
+  }
+
+  private find(id: number): LocalJourney {
+    const journey = this.journeys.find(j => j.id === id);
+    if (!journey) {
+      throw new Error(`Journey ${id} not found`);
+    }
+    return journey;
+  }
+
+  /**
+   * Run when enabled and within the schedule; outside of it, a trip in
+   * progress is finished first
+   */
+  private applySchedule(): void {
+    if (!this.enabled) {
+      return;
+    }
+    const now = Date.now();
+    const paused = this.pausedUntil !== null && this.pausedUntil > now;
+    if (!paused && isInSchedule(this.schedule, new Date(now))) {
+      this.setRunning(true);
+    } else if (!this.trip) {
+      this.setRunning(false);
+    }
+  }
+
+  private setRunning(isRunning: boolean): void {
+    if (this.running !== isRunning) {
+      this.running = isRunning;
+      this.emit(this.stateListeners, {isRunning});
+    }
+  }
+
+  private emitGpsLog(
+    event: string,
+    activity: string,
+    timestamp: number,
+    extra: Partial<GpsLogEvent> = {},
+  ): void {
+    this.emit(this.gpsLogListeners, {
+      event,
+      activity,
+      timestamp,
+      formattedTime: formatTime(timestamp),
+      ...extra,
+    });
+  }
+
+  private subscribe<T>(listeners: Set<Listener<T>>, callback: Listener<T>) {
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  private emit<T>(listeners: Set<Listener<T>>, data: T): void {
+    listeners.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('[ReplayTripDetection] Listener error:', error);
+      }
+    });
+  }
+}
+
+export const replayTripDetection = new ReplayTripDetection();
+export default replayTripDetection;
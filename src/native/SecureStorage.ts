@@ -0,0 +1,52 @@
+/**
+ * TypeScript wrapper for the native SecureStorageModule
+ */
+
+import {NativeModules} from 'react-native';
+
+const {SecureStorageModule} = NativeModules;
+
+/**
+ * Secure Storage Native Module Interface
+ * Values are encrypted with a key held by the Android Keystore, or kept in
+ * the iOS Keychain
+ */
+class SecureStorage {
+  /**
+   * Whether the native module is linked (Android and iOS builds)
+   */
+  isAvailable(): boolean {
+    return !!SecureStorageModule;
+  }
+
+  /**
+   * Read a value, null when missing or no longer decryptable
+   */
+  async getItem(key: string): Promise<string | null> {
+    return SecureStorageModule.getItem(key);
+  }
+
+  /**
+   * Encrypt and store a value
+   */
+  async setItem(key: string, value: string): Promise<void> {
+    return SecureStorageModule.setItem(key, value);
+  }
+
+  /**
+   * Remove a value
+   */
+  async removeItem(key: string): Promise<void> {
+    return SecureStorageModule.removeItem(key);
+  }
+
+  /**
+   * Remove every value (and the Android encryption key)
+   */
+  async clear(): Promise<void> {
+    return SecureStorageModule.clear();
+  }
+}
+
+export const secureStorage = new SecureStorage();
+export default secureStorage;
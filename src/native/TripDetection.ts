@@ -1,18 +1,33 @@
 /**
- * TypeScript wrapper for the native TripDetectionModule
+ * TypeScript wrapper for the native TripDetectionModule (Android). Dev builds
+ * on other platforms (iOS simulator) and Jest get the trace replay driver
+ * instead; release builds there have no detection.
  */
 
 import {NativeModules, NativeEventEmitter, Platform} from 'react-native';
-import {LocalJourney, PermissionStatus} from '../api/types';
+import {
+  DetectionConfig,
+  JourneyTrackPoint,
+  LocalJourney,
+  PermissionStatus,
+} from '../api/types';
+import {
+  DEFAULT_DETECTION_CONFIG,
+  validateDetectionConfig,
+} from '../utils/detectionConfig';
+import {DetectionSchedule} from '../utils/detectionSchedule';
+import {trimTrack} from '../utils/journeyTrack';
+import {
+  GpsLogEvent,
+  JourneyTrackOptions,
+  LocalJourneyUpdates,
+  TransitionEvent,
+  TripDetectionDriver,
+} from './TripDetectionDriver';
+import replayTripDetection from './ReplayTripDetection';
 
 const {TripDetectionModule} = NativeModules;
 
-// Event emitter for native events
-const eventEmitter =
-  Platform.OS === 'android'
-    ? new NativeEventEmitter(TripDetectionModule)
-    : null;
-
 // Event types
 export const EVENTS = {
   TRIP_DETECTED: 'onTripDetected',
@@ -24,15 +39,14 @@ export const EVENTS = {
 /**
  * Trip Detection Native Module Interface
  */
-class TripDetection {
+class NativeTripDetection implements TripDetectionDriver {
+  // Event emitter for native events
+  private eventEmitter = new NativeEventEmitter(TripDetectionModule);
+
   /**
-   * Start the trip detection service
+   * Enable the trip detection service (run within the detection schedule)
    */
   async startDetection(): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      console.warn('Trip detection is only available on Android');
-      return false;
-    }
     return TripDetectionModule.startDetection();
   }
 
@@ -40,9 +54,6 @@ class TripDetection {
    * Stop the trip detection service
    */
   async stopDetection(): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.stopDetection();
   }
 
@@ -50,47 +61,78 @@ class TripDetection {
    * Check if detection service is running
    */
   async isDetectionRunning(): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.isDetectionRunning();
   }
 
+  /**
+   * Save the detection schedule natively: alarms start and stop the service
+   * at the window boundaries, also after a reboot
+   */
+  async setDetectionSchedule(
+    schedule: DetectionSchedule,
+    pausedUntil: number | null,
+  ): Promise<void> {
+    return TripDetectionModule.setDetectionSchedule(
+      JSON.stringify({...schedule, pausedUntil}),
+    );
+  }
+
   /**
    * Get all pending (not yet sent) journeys
    */
   async getPendingJourneys(): Promise<LocalJourney[]> {
-    if (Platform.OS !== 'android') {
-      return [];
-    }
     return TripDetectionModule.getPendingJourneys();
   }
 
+  /**
+   * Get every journey stored on the device, pending and sent
+   */
+  async getAllLocalJourneys(): Promise<LocalJourney[]> {
+    return TripDetectionModule.getAllLocalJourneys();
+  }
+
   /**
    * Get a specific journey by ID
    */
   async getJourney(id: number): Promise<LocalJourney> {
-    if (Platform.OS !== 'android') {
-      throw new Error('Not available on this platform');
-    }
     return TripDetectionModule.getJourney(id);
   }
 
+  /**
+   * Get the GPS points recorded during a journey, optionally without the
+   * first and last meters
+   */
+  async getJourneyTrack(
+    id: number,
+    options: JourneyTrackOptions = {},
+  ): Promise<JourneyTrackPoint[]> {
+    const points: JourneyTrackPoint[] =
+      await TripDetectionModule.getJourneyTrack(id);
+    return trimTrack(points, options.trimMeters ?? 0);
+  }
+
+  /**
+   * Activity transitions recorded by the detection service (Room), also
+   * while React Native was not running
+   */
+  async getActivityTransitions(
+    from: number,
+    to: number,
+  ): Promise<TransitionEvent[]> {
+    return TripDetectionModule.getActivityTransitions(from, to);
+  }
+
+  async clearActivityTransitions(): Promise<void> {
+    await TripDetectionModule.clearActivityTransitions();
+  }
+
   /**
    * Update a local journey
    */
   async updateLocalJourney(
     id: number,
-    updates: Partial<{
-      transportType: string;
-      distanceKm: number;
-      placeDeparture: string;
-      placeArrival: string;
-    }>,
+    updates: LocalJourneyUpdates,
   ): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.updateLocalJourney(id, updates);
   }
 
@@ -98,19 +140,41 @@ class TripDetection {
    * Delete a local journey
    */
   async deleteLocalJourney(id: number): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.deleteLocalJourney(id);
   }
 
+  /**
+   * Delete every journey stored on the device
+   */
+  async deleteAllLocalJourneys(): Promise<boolean> {
+    return TripDetectionModule.deleteAllLocalJourneys();
+  }
+
+  /**
+   * Merge several adjacent pending journeys into one (distances summed, times
+   * spanned, confidence recomputed). The originals are deleted. Rejects when
+   * another pending journey lies between them.
+   */
+  async mergeJourneys(ids: number[]): Promise<LocalJourney> {
+    return TripDetectionModule.mergeJourneys(ids);
+  }
+
+  /**
+   * Split a pending journey in two at a timestamp (epoch ms), each part at
+   * least a minute long. The distance is shared in proportion to the time.
+   * The original is deleted.
+   */
+  async splitJourney(
+    id: number,
+    timestamp: number,
+  ): Promise<[LocalJourney, LocalJourney]> {
+    return TripDetectionModule.splitJourney(id, timestamp);
+  }
+
   /**
    * Mark a journey as sent to backend
    */
   async markJourneySent(id: number): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.markJourneySent(id);
   }
 
@@ -118,9 +182,6 @@ class TripDetection {
    * Get count of pending journeys
    */
   async getPendingCount(): Promise<number> {
-    if (Platform.OS !== 'android') {
-      return 0;
-    }
     return TripDetectionModule.getPendingCount();
   }
 
@@ -128,14 +189,6 @@ class TripDetection {
    * Check permission status for location, activity recognition, and notifications
    */
   async checkPermissions(): Promise<PermissionStatus> {
-    if (Platform.OS !== 'android') {
-      return {
-        location: false,
-        activityRecognition: false,
-        notifications: false,
-        allGranted: false,
-      };
-    }
     return TripDetectionModule.checkPermissions();
   }
 
@@ -143,19 +196,36 @@ class TripDetection {
    * Request required permissions
    */
   async requestPermissions(): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
     return TripDetectionModule.requestPermissions();
   }
 
+  /**
+   * Get the detection thresholds
+   */
+  async getDetectionConfig(): Promise<DetectionConfig> {
+    return TripDetectionModule.getDetectionConfig();
+  }
+
+  /**
+   * Update some detection thresholds, persisted natively and applied by the
+   * running service at its next decision
+   */
+  async setDetectionConfig(
+    updates: Partial<DetectionConfig>,
+  ): Promise<DetectionConfig> {
+    const config = {...(await this.getDetectionConfig()), ...updates};
+    const errors = Object.entries(validateDetectionConfig(config));
+    if (errors.length > 0) {
+      const [key, message] = errors[0];
+      throw new Error(`Invalid ${key}: ${message}`);
+    }
+    return TripDetectionModule.setDetectionConfig(config);
+  }
+
   /**
    * Enable or disable native debug/demo mode (POC)
    */
   async setDebugMode(enabled: boolean): Promise<void> {
-    if (Platform.OS !== 'android') {
-      return;
-    }
     return TripDetectionModule.setDebugMode(enabled);
   }
 
@@ -163,9 +233,6 @@ class TripDetection {
    * Ask native side to create a simulated trip (used for testing full app workflow)
    */
   async simulateTrip(): Promise<void> {
-    if (Platform.OS !== 'android') {
-      return;
-    }
     return TripDetectionModule.simulateTrip();
   }
 
@@ -175,10 +242,7 @@ class TripDetection {
   addTripDetectedListener(
     callback: (journey: LocalJourney) => void,
   ): (() => void) | null {
-    if (!eventEmitter) {
-      return null;
-    }
-    const subscription = eventEmitter.addListener(
+    const subscription = this.eventEmitter.addListener(
       EVENTS.TRIP_DETECTED,
       callback,
     );
@@ -191,10 +255,7 @@ class TripDetection {
   addStateChangeListener(
     callback: (state: {isRunning: boolean}) => void,
   ): (() => void) | null {
-    if (!eventEmitter) {
-      return null;
-    }
-    const subscription = eventEmitter.addListener(
+    const subscription = this.eventEmitter.addListener(
       EVENTS.DETECTION_STATE_CHANGED,
       callback,
     );
@@ -205,16 +266,9 @@ class TripDetection {
    * Subscribe to activity transition events (for live tracking)
    */
   addTransitionListener(
-    callback: (data: {
-      activityType: string;
-      transitionType: string;
-      timestamp: number;
-    }) => void,
+    callback: (data: TransitionEvent) => void,
   ): (() => void) | null {
-    if (!eventEmitter) {
-      return null;
-    }
-    const subscription = eventEmitter.addListener(
+    const subscription = this.eventEmitter.addListener(
       EVENTS.TRANSITION_DETECTED,
       callback,
     );
@@ -225,20 +279,133 @@ class TripDetection {
    * Subscribe to GPS log events (for GPS tracking display)
    */
   addGpsLogListener(
-    callback: (data: {
-      event: string;
-      timestamp?: number;
-      formattedTime?: string;
-      [key: string]: any;
-    }) => void,
+    callback: (data: GpsLogEvent) => void,
   ): (() => void) | null {
-    if (!eventEmitter) {
-      return null;
-    }
-    const subscription = eventEmitter.addListener(EVENTS.GPS_LOG, callback);
+    const subscription = this.eventEmitter.addListener(
+      EVENTS.GPS_LOG,
+      callback,
+    );
     return () => subscription.remove();
   }
 }
 
-export const tripDetection = new TripDetection();
+/**
+ * Release builds without the native module: detection is unavailable, no
+ * journey is ever recorded
+ */
+class UnsupportedTripDetection implements TripDetectionDriver {
+  async startDetection(): Promise<boolean> {
+    console.warn('Trip detection is only available on Android');
+    return false;
+  }
+
+  async stopDetection(): Promise<boolean> {
+    return false;
+  }
+
+  async isDetectionRunning(): Promise<boolean> {
+    return false;
+  }
+
+  async setDetectionSchedule(): Promise<void> {}
+
+  async getPendingJourneys(): Promise<LocalJourney[]> {
+    return [];
+  }
+
+  async getAllLocalJourneys(): Promise<LocalJourney[]> {
+    return [];
+  }
+
+  async getJourney(): Promise<LocalJourney> {
+    throw new Error('Not available on this platform');
+  }
+
+  async getJourneyTrack(): Promise<JourneyTrackPoint[]> {
+    return [];
+  }
+
+  async getActivityTransitions(): Promise<TransitionEvent[]> {
+    return [];
+  }
+
+  async clearActivityTransitions(): Promise<void> {}
+
+  async updateLocalJourney(): Promise<boolean> {
+    return false;
+  }
+
+  async deleteLocalJourney(): Promise<boolean> {
+    return false;
+  }
+
+  async deleteAllLocalJourneys(): Promise<boolean> {
+    return false;
+  }
+
+  async mergeJourneys(): Promise<LocalJourney> {
+    throw new Error('Not available on this platform');
+  }
+
+  async splitJourney(): Promise<[LocalJourney, LocalJourney]> {
+    throw new Error('Not available on this platform');
+  }
+
+  async markJourneySent(): Promise<boolean> {
+    return false;
+  }
+
+  async getPendingCount(): Promise<number> {
+    return 0;
+  }
+
+  async checkPermissions(): Promise<PermissionStatus> {
+    return {
+      location: false,
+      activityRecognition: false,
+      notifications: false,
+      allGranted: false,
+    };
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return false;
+  }
+
+  async getDetectionConfig(): Promise<DetectionConfig> {
+    return {...DEFAULT_DETECTION_CONFIG};
+  }
+
+  async setDetectionConfig(): Promise<DetectionConfig> {
+    throw new Error('Not available on this platform');
+  }
+
+  async setDebugMode(): Promise<void> {}
+
+  async simulateTrip(): Promise<void> {}
+
+  addTripDetectedListener(): null {
+    return null;
+  }
+
+  addStateChangeListener(): null {
+    return null;
+  }
+
+  addTransitionListener(): null {
+    return null;
+  }
+
+  addGpsLogListener(): null {
+    return null;
+  }
+}
+
+// The replay driver fakes permissions and journeys: never in release builds
+export const tripDetection: TripDetectionDriver =
+  Platform.OS === 'android'
+    ? new NativeTripDetection()
+    : __DEV__
+    ? replayTripDetection
+    : new UnsupportedTripDetection();
 export default tripDetection;
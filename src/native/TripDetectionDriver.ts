@@ -0,0 +1,111 @@
+/**
+ * Interface shared by the trip detection implementations: the native
+ * Android module and the trace replay driver (iOS simulator, Jest)
+ */
+
+import {
+  DetectionConfig,
+  JourneyTrackPoint,
+  LocalJourney,
+  PermissionStatus,
+} from '../api/types';
+import {DetectionSchedule} from '../utils/detectionSchedule';
+
+// Activity transition, as reported by Activity Recognition
+export interface TransitionEvent {
+  activityType: string; // WALKING, RUNNING, ON_BICYCLE, IN_VEHICLE, STILL...
+  transitionType: string; // ENTER or EXIT
+  timestamp: number; // epoch ms
+}
+
+// GPS tracking step, for the debug log
+export interface GpsLogEvent {
+  // gps_start, gps_stop_pending_confirmation, trip_end_confirmed, gps_stats
+  event: string;
+  activity?: string; // activity type of the trip (WALKING...)
+  timestamp?: number; // epoch ms
+  formattedTime?: string;
+  // gps_stats only
+  isGpsBased?: boolean;
+  gpsPoints?: number;
+  distance?: number; // km
+  startLat?: number;
+  startLon?: number;
+  endLat?: number;
+  endLon?: number;
+}
+
+export interface JourneyTrackOptions {
+  // Drop this much of the route at each end (privacy), 0 keeps it whole
+  trimMeters?: number;
+}
+
+export type LocalJourneyUpdates = Partial<{
+  transportType: string;
+  distanceKm: number;
+  placeDeparture: string;
+  placeArrival: string;
+}>;
+
+export interface TripDetectionDriver {
+  // Enable detection: it runs within the detection schedule only
+  startDetection(): Promise<boolean>;
+  stopDetection(): Promise<boolean>;
+  isDetectionRunning(): Promise<boolean>;
+  // Followed by the driver itself, also when the app is in the background.
+  // Outside the schedule detection stops once the trip in progress is over.
+  setDetectionSchedule(
+    schedule: DetectionSchedule,
+    pausedUntil: number | null,
+  ): Promise<void>;
+
+  getPendingJourneys(): Promise<LocalJourney[]>;
+  getAllLocalJourneys(): Promise<LocalJourney[]>;
+  getJourney(id: number): Promise<LocalJourney>;
+  // GPS points of a journey, oldest first (empty when none were recorded)
+  getJourneyTrack(
+    id: number,
+    options?: JourneyTrackOptions,
+  ): Promise<JourneyTrackPoint[]>;
+  updateLocalJourney(
+    id: number,
+    updates: LocalJourneyUpdates,
+  ): Promise<boolean>;
+  deleteLocalJourney(id: number): Promise<boolean>;
+  deleteAllLocalJourneys(): Promise<boolean>;
+  mergeJourneys(ids: number[]): Promise<LocalJourney>;
+  splitJourney(
+    id: number,
+    timestamp: number,
+  ): Promise<[LocalJourney, LocalJourney]>;
+  markJourneySent(id: number): Promise<boolean>;
+  getPendingCount(): Promise<number>;
+  // Transitions the detection acted on between two epoch ms timestamps,
+  // oldest first. Recorded by the driver itself (kept 48 h natively), so
+  // none are missed while the app is not running.
+  getActivityTransitions(from: number, to: number): Promise<TransitionEvent[]>;
+  clearActivityTransitions(): Promise<void>;
+
+  checkPermissions(): Promise<PermissionStatus>;
+  requestPermissions(): Promise<boolean>;
+  getDetectionConfig(): Promise<DetectionConfig>;
+  // Missing keys keep their value, rejects when a value is out of range
+  setDetectionConfig(
+    updates: Partial<DetectionConfig>,
+  ): Promise<DetectionConfig>;
+  setDebugMode(enabled: boolean): Promise<void>;
+  simulateTrip(): Promise<void>;
+
+  // Listeners return an unsubscribe function, null when events are
+  // not available
+  addTripDetectedListener(
+    callback: (journey: LocalJourney) => void,
+  ): (() => void) | null;
+  addStateChangeListener(
+    callback: (state: {isRunning: boolean}) => void,
+  ): (() => void) | null;
+  addTransitionListener(
+    callback: (data: TransitionEvent) => void,
+  ): (() => void) | null;
+  addGpsLogListener(callback: (data: GpsLogEvent) => void): (() => void) | null;
+}
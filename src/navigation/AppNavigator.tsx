@@ -3,6 +3,9 @@ import {NavigationContainer} from '@react-navigation/native';
 import {createNativeStackNavigator} from '@react-navigation/native-stack';
 import {createBottomTabNavigator} from '@react-navigation/bottom-tabs';
 import {useAuth} from '../context/AuthContext';
+import {CommuteTemplate} from '../api/types';
+import {CommuteTemplateInput} from '../services/commute-templates';
+import {PrivateZone} from '../utils/privateZones';
 import {
   AuthScreen,
   DashboardScreen,
@@ -10,8 +13,17 @@ import {
   TripsScreen,
   ShopScreen,
   ProfilScreen,
+  EditProfileScreen,
+  ChangePasswordScreen,
+  DeleteAccountScreen,
   PendingJourneysScreen,
   PendingJourneyDetailScreen,
+  DeclareJourneyScreen,
+  CommuteTemplatesScreen,
+  CommuteTemplateEditScreen,
+  DetectionScheduleScreen,
+  PrivateZonesScreen,
+  PrivateZoneEditScreen,
   ValidatedJourneysScreen,
   ValidatedJourneyDetailScreen,
   CO2HistoryScreen,
@@ -36,6 +48,16 @@ export type RootStackParamList = {
   MainTabs: undefined;
   PendingJourneys: undefined;
   PendingJourneyDetail: {journeyId: number};
+  DeclareJourney: {template?: CommuteTemplate} | undefined;
+  CommuteTemplates: undefined;
+  CommuteTemplateEdit:
+    | {template?: CommuteTemplate; draft?: CommuteTemplateInput}
+    | undefined;
+  DetectionSchedule: undefined;
+  PrivateZones: undefined;
+  PrivateZoneEdit:
+    | {zone?: PrivateZone; draft?: {latitude: number; longitude: number}}
+    | undefined;
   ValidatedJourneys: {transportFilter?: string} | undefined;
   ValidatedJourneyDetail: {journey: any};
   CO2History: undefined;
@@ -56,6 +78,9 @@ export type RootStackParamList = {
     teamScore: number;
     teamRank: number;
   };
+  EditProfile: undefined;
+  ChangePassword: undefined;
+  DeleteAccount: undefined;
 };
 
 export type TabParamList = {
@@ -202,6 +227,44 @@ function MainStack() {
         component={PendingJourneyDetailScreen}
         options={{title: 'Details du trajet'}}
       />
+      <Stack.Screen
+        name="DeclareJourney"
+        component={DeclareJourneyScreen}
+        options={{title: 'Declarer un trajet'}}
+      />
+      <Stack.Screen
+        name="CommuteTemplates"
+        component={CommuteTemplatesScreen}
+        options={{title: 'Trajets habituels'}}
+      />
+      <Stack.Screen
+        name="CommuteTemplateEdit"
+        component={CommuteTemplateEditScreen}
+        options={({route}) => ({
+          title: route.params?.template
+            ? 'Modifier le trajet habituel'
+            : 'Nouveau trajet habituel',
+        })}
+      />
+      <Stack.Screen
+        name="DetectionSchedule"
+        component={DetectionScheduleScreen}
+        options={{title: 'Horaires de detection'}}
+      />
+      <Stack.Screen
+        name="PrivateZones"
+        component={PrivateZonesScreen}
+        options={{title: 'Zones privees'}}
+      />
+      <Stack.Screen
+        name="PrivateZoneEdit"
+        component={PrivateZoneEditScreen}
+        options={({route}) => ({
+          title: route.params?.zone
+            ? 'Modifier la zone privee'
+            : 'Nouvelle zone privee',
+        })}
+      />
       <Stack.Screen
         name="ValidatedJourneys"
         component={ValidatedJourneysScreen}
@@ -242,6 +305,21 @@ function MainStack() {
         component={TeamMembersScreen}
         options={{title: 'Équipe'}}
       />
+      <Stack.Screen
+        name="EditProfile"
+        component={EditProfileScreen}
+        options={{title: 'Modifier le profil'}}
+      />
+      <Stack.Screen
+        name="ChangePassword"
+        component={ChangePasswordScreen}
+        options={{title: 'Mot de passe'}}
+      />
+      <Stack.Screen
+        name="DeleteAccount"
+        component={DeleteAccountScreen}
+        options={{title: 'Supprimer le compte'}}
+      />
     </Stack.Navigator>
   );
 }
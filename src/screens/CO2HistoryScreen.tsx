@@ -2,16 +2,15 @@
  * CO2 History Screen - Simple list of CO2 per journey
  */
 
-import React, {useState, useCallback} from 'react';
+import React, {useState, useMemo} from 'react';
 import {
   View,
   Text,
-  FlatList,
+  SectionList,
   StyleSheet,
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import {useFocusEffect} from '@react-navigation/native';
 import {
   Leaf,
   Bike,
@@ -20,43 +19,38 @@ import {
   Bus,
   Route,
 } from 'lucide-react-native';
-import {apiClient} from '../api/client';
+import {useAuth} from '../context/AuthContext';
+import {queries} from '../api/queries';
+import {getErrorMessage} from '../api/errors';
+import {useInfiniteQuery} from '../hooks/useInfiniteQuery';
 import {ValidatedJourney} from '../api/types';
+import {MonthSection, groupByMonth} from '../utils/journeys';
 
 export default function CO2HistoryScreen(): JSX.Element {
-  const [journeys, setJourneys] = useState<ValidatedJourney[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadJourneys();
-    }, []),
+  const {userId} = useAuth();
+  const history = useInfiniteQuery(
+    userId
+      ? (offset: number) => queries.validatedJourneyHistory(userId, {}, offset)
+      : null,
   );
-
-  const loadJourneys = async () => {
-    setError(null);
-    try {
-      const userId = apiClient.getUserId();
-      if (!userId) {
-        setError('Utilisateur non connecté');
-        return;
-      }
-      const data = await apiClient.getUserValidatedJourneys(userId);
-      setJourneys(data);
-    } catch (err) {
-      const message =
-        err instanceof Error ? err.message : 'Erreur de chargement';
-      setError(message);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const {pages, isLoading, isLoadingMore, hasMore, loadMore} = history;
+  // Totals over every journey, not only the loaded pages
+  const summary = pages.length > 0 ? pages[0] : null;
+  const sections = useMemo(
+    () => groupByMonth(pages.flatMap(page => page.items)),
+    [pages],
+  );
+  const [refreshing, setRefreshing] = useState(false);
+  // Loaded journeys stay visible when a refresh fails
+  const error = !userId
+    ? 'Utilisateur non connecté'
+    : history.error && !summary
+    ? getErrorMessage(history.error, 'Erreur de chargement')
+    : null;
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadJourneys();
+    await history.refetch();
     setRefreshing(false);
   };
 
@@ -120,17 +114,32 @@ export default function CO2HistoryScreen(): JSX.Element {
   };
 
   const getTotalCO2 = (): number => {
-    return journeys.reduce((acc, j) => acc + (j.carbon_footprint || 0), 0);
+    return summary?.total_carbon_footprint ?? 0;
   };
 
-  const renderJourney = ({item, index}: {item: ValidatedJourney; index: number}) => {
+  const getJourneyCount = (): number => {
+    return summary?.total ?? 0;
+  };
+
+  const renderJourney = ({
+    item,
+    index,
+    section,
+  }: {
+    item: ValidatedJourney;
+    index: number;
+    section: MonthSection<ValidatedJourney>;
+  }) => {
     const isEcoFriendly = item.transport_type === 'marche' || item.transport_type === 'velo';
     
     return (
       <View
         style={[
           styles.journeyCard,
-          index === journeys.length - 1 && styles.journeyCardLast,
+          !hasMore &&
+            section === sections[sections.length - 1] &&
+            index === section.data.length - 1 &&
+            styles.journeyCardLast,
         ]}>
         <View
           style={[
@@ -175,7 +184,7 @@ export default function CO2HistoryScreen(): JSX.Element {
         <Text style={styles.totalValue}>{getTotalCO2().toFixed(1)} kg</Text>
         <Text style={styles.totalLabel}>CO₂ total émis</Text>
         <Text style={styles.totalSubtitle}>
-          {journeys.length} trajet{journeys.length !== 1 ? 's' : ''}
+          {getJourneyCount()} trajet{getJourneyCount() !== 1 ? 's' : ''}
         </Text>
       </View>
       
@@ -205,6 +214,27 @@ export default function CO2HistoryScreen(): JSX.Element {
     </View>
   );
 
+  const renderSectionHeader = ({
+    section,
+  }: {
+    section: MonthSection<ValidatedJourney>;
+  }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>{section.title}</Text>
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (!isLoadingMore) {
+      return null;
+    }
+    return (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color="#7B1FA2" />
+      </View>
+    );
+  };
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -215,9 +245,11 @@ export default function CO2HistoryScreen(): JSX.Element {
 
   return (
     <View style={styles.container}>
-      <FlatList
-        data={journeys}
+      <SectionList
+        sections={sections}
         renderItem={renderJourney}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled
         keyExtractor={item => item.id.toString()}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
@@ -229,8 +261,11 @@ export default function CO2HistoryScreen(): JSX.Element {
             tintColor="#7B1FA2"
           />
         }
-        ListHeaderComponent={journeys.length > 0 ? renderHeader : null}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={sections.length > 0 ? renderHeader : null}
         ListEmptyComponent={error ? renderError : renderEmpty}
+        ListFooterComponent={renderFooter}
       />
     </View>
   );
@@ -312,6 +347,20 @@ const styles = StyleSheet.create({
   journeyCardLast: {
     marginBottom: 0,
   },
+  sectionHeader: {
+    backgroundColor: '#f8f9fa',
+    paddingTop: 4,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7B1FA2',
+  },
+  footer: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
   transportIcon: {
     width: 40,
     height: 40,
@@ -0,0 +1,154 @@
+/**
+ * Change Password Screen
+ * Change the password of the logged-in user (current password required)
+ */
+
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {KeyRound, Lock} from 'lucide-react-native';
+
+import {useAuth} from '@/context/AuthContext';
+import {HttpError, ValidationError, getErrorMessage} from '@/api/errors';
+import {ActionButton, FormField} from '@/components/ui';
+import {
+  FieldErrors,
+  MIN_PASSWORD_LENGTH,
+  PasswordChangeForm,
+  validatePasswordChange,
+} from '@/utils/validation';
+
+const EMPTY_FORM: PasswordChangeForm = {
+  current_password: '',
+  new_password: '',
+  confirm_password: '',
+};
+
+export default function ChangePasswordScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const {changePassword} = useAuth();
+  const [form, setForm] = useState<PasswordChangeForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FieldErrors<PasswordChangeForm>>({});
+  const [saving, setSaving] = useState(false);
+
+  const setField = (field: keyof PasswordChangeForm) => (text: string) => {
+    setForm(previous => ({...previous, [field]: text}));
+    setErrors(previous => ({...previous, [field]: undefined}));
+  };
+
+  const handleSubmit = async () => {
+    Keyboard.dismiss();
+    const validation = validatePasswordChange(form);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const message = await changePassword({
+        current_password: form.current_password,
+        new_password: form.new_password,
+      });
+      setForm(EMPTY_FORM);
+      Alert.alert('Mot de passe modifie', message, [
+        {text: 'OK', onPress: () => navigation.goBack()},
+      ]);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors(error.fields as FieldErrors<PasswordChangeForm>);
+      } else if (error instanceof HttpError && error.status === 400) {
+        // Wrong current password
+        setErrors({current_password: error.message});
+      } else {
+        Alert.alert(
+          'Erreur',
+          getErrorMessage(error, 'Changement du mot de passe impossible'),
+        );
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <FormField
+          label="Mot de passe actuel"
+          value={form.current_password}
+          onChangeText={setField('current_password')}
+          secureTextEntry
+          icon={<Lock size={18} color="#666" />}
+          error={errors.current_password}
+        />
+        <FormField
+          label="Nouveau mot de passe"
+          value={form.new_password}
+          onChangeText={setField('new_password')}
+          secureTextEntry
+          icon={<KeyRound size={18} color="#666" />}
+          error={errors.new_password}
+        />
+        <FormField
+          label="Confirmer le nouveau mot de passe"
+          value={form.confirm_password}
+          onChangeText={setField('confirm_password')}
+          secureTextEntry
+          icon={<KeyRound size={18} color="#666" />}
+          error={errors.confirm_password}
+        />
+        <Text style={styles.hint}>
+          Minimum {MIN_PASSWORD_LENGTH} caracteres, different du mot de passe
+          actuel.
+        </Text>
+      </View>
+
+      <ActionButton
+        title="Changer le mot de passe"
+        onPress={handleSubmit}
+        loading={saving}
+        style={styles.submitButton}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#888',
+  },
+  submitButton: {
+    marginTop: 8,
+  },
+});
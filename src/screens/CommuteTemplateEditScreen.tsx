@@ -0,0 +1,238 @@
+/**
+ * Commute Template Edit Screen
+ * Create, edit or delete a recurring trip (name, mode, distance, time)
+ */
+
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {Clock, Route, Save, Tag, Trash2} from 'lucide-react-native';
+
+import commuteTemplates, {
+  CommuteTemplateInput,
+} from '@/services/commute-templates';
+import {CommuteTemplate, TransportType} from '@/api/types';
+import {
+  ActionButton,
+  DateTimeField,
+  FormField,
+  TransportSelector,
+} from '@/components/ui';
+import {FieldErrors} from '@/utils/validation';
+import {
+  formatTimeOfDay,
+  parseTimeOfDay,
+  validateCommuteTemplate,
+} from '@/utils/commuteTemplates';
+
+type RootStackParamList = {
+  // template: edit it; draft: new template pre-filled (e.g. from a journey)
+  CommuteTemplateEdit:
+    | {template?: CommuteTemplate; draft?: CommuteTemplateInput}
+    | undefined;
+};
+
+type RouteType = RouteProp<RootStackParamList, 'CommuteTemplateEdit'>;
+
+function timeToDate(value: string): Date {
+  const minutes = parseTimeOfDay(value) ?? 8 * 60;
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+}
+
+export default function CommuteTemplateEditScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const route = useRoute<RouteType>();
+  const existing = route.params?.template;
+  const initial = existing ?? route.params?.draft;
+
+  const [name, setName] = useState(initial?.name ?? '');
+  const [transportType, setTransportType] = useState<TransportType>(
+    initial?.transport_type ?? 'velo',
+  );
+  const [distance, setDistance] = useState(
+    initial ? String(initial.distance_km) : '',
+  );
+  const [departureTime, setDepartureTime] = useState(() =>
+    timeToDate(initial?.departure_time ?? '08:00'),
+  );
+  const [duration, setDuration] = useState(
+    initial ? String(initial.duration_minutes) : '',
+  );
+  const [errors, setErrors] = useState<FieldErrors<CommuteTemplate>>({});
+  const [saving, setSaving] = useState(false);
+
+  const clearError = (field: keyof CommuteTemplate) =>
+    setErrors(previous => ({...previous, [field]: undefined}));
+
+  const handleSave = async () => {
+    Keyboard.dismiss();
+    const template: CommuteTemplateInput = {
+      id: existing?.id,
+      name: name.trim(),
+      transport_type: transportType,
+      distance_km: parseFloat(distance.replace(',', '.')),
+      departure_time: formatTimeOfDay(departureTime),
+      duration_minutes: Number(duration),
+    };
+    const validation = validateCommuteTemplate(template);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await commuteTemplates.saveTemplate(template);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      Alert.alert('Erreur', "Impossible d'enregistrer le trajet habituel");
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) {
+      return;
+    }
+    Alert.alert('Supprimer ce trajet habituel ?', existing.name, [
+      {text: 'Annuler', style: 'cancel'},
+      {
+        text: 'Supprimer',
+        style: 'destructive',
+        onPress: async () => {
+          await commuteTemplates.deleteTemplate(existing.id);
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <FormField
+          label="Nom"
+          value={name}
+          onChangeText={text => {
+            setName(text);
+            clearError('name');
+          }}
+          placeholder="Ex : Domicile - Travail"
+          autoCapitalize="sentences"
+          icon={<Tag size={18} color="#666" />}
+          error={errors.name}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>Mode de transport</Text>
+      <TransportSelector
+        value={transportType}
+        onChange={value => {
+          setTransportType(value);
+          clearError('distance_km');
+        }}
+      />
+
+      <View style={[styles.card, styles.detailsCard]}>
+        <DateTimeField
+          label="Heure de depart habituelle"
+          mode="time"
+          value={departureTime}
+          onChange={setDepartureTime}
+        />
+        <FormField
+          label="Duree habituelle (min)"
+          value={duration}
+          onChangeText={text => {
+            setDuration(text);
+            clearError('duration_minutes');
+          }}
+          placeholder="Ex : 25"
+          keyboardType="number-pad"
+          icon={<Clock size={18} color="#666" />}
+          error={errors.duration_minutes}
+        />
+        <FormField
+          label="Distance habituelle (km)"
+          value={distance}
+          onChangeText={text => {
+            setDistance(text);
+            clearError('distance_km');
+          }}
+          placeholder="Ex : 6,5"
+          keyboardType="decimal-pad"
+          icon={<Route size={18} color="#666" />}
+          error={errors.distance_km}
+        />
+      </View>
+
+      <ActionButton
+        title="Enregistrer"
+        onPress={handleSave}
+        loading={saving}
+        icon={<Save size={20} color="#fff" />}
+        style={styles.button}
+      />
+      {existing && (
+        <ActionButton
+          title="Supprimer"
+          onPress={handleDelete}
+          variant="danger"
+          icon={<Trash2 size={20} color="#E53935" />}
+          style={styles.button}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingVertical: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    paddingBottom: 0,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  detailsCard: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  button: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+});
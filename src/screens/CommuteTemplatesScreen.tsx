@@ -0,0 +1,206 @@
+/**
+ * Commute Templates Screen
+ * List, add and edit recurring trips, and opt in to backend sync
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {ChevronRight, Plus} from 'lucide-react-native';
+
+import commuteTemplates from '@/services/commute-templates';
+import {getErrorMessage} from '@/api/errors';
+import {CommuteTemplate} from '@/api/types';
+import {ActionButton, getTransportOption} from '@/components/ui';
+
+type RootStackParamList = {
+  CommuteTemplates: undefined;
+  CommuteTemplateEdit: {template?: CommuteTemplate} | undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'CommuteTemplates'
+>;
+
+export default function CommuteTemplatesScreen(): JSX.Element {
+  const navigation = useNavigation<NavigationProp>();
+  const [templates, setTemplates] = useState<CommuteTemplate[]>([]);
+  const [syncEnabled, setSyncEnabled] = useState(false);
+
+  useEffect(() => commuteTemplates.addListener(setTemplates), []);
+
+  useFocusEffect(
+    useCallback(() => {
+      commuteTemplates.getTemplates().then(setTemplates);
+      commuteTemplates.isSyncEnabled().then(setSyncEnabled);
+      commuteTemplates
+        .sync()
+        .catch(error => console.warn('[Templates] Sync failed:', error));
+    }, []),
+  );
+
+  const handleSyncChange = async (enabled: boolean) => {
+    setSyncEnabled(enabled);
+    try {
+      await commuteTemplates.setSyncEnabled(enabled);
+    } catch (error) {
+      Alert.alert(
+        'Synchronisation',
+        getErrorMessage(
+          error,
+          'Synchronisation impossible pour le moment, nouvel essai plus tard',
+        ),
+      );
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}>
+      {templates.length === 0 && (
+        <Text style={styles.emptyText}>
+          Enregistrez vos trajets reguliers (domicile - travail...) pour les
+          declarer en un geste et aider a reconnaitre le mode de transport des
+          trajets detectes.
+        </Text>
+      )}
+
+      {templates.map(template => {
+        const option = getTransportOption(template.transport_type);
+        return (
+          <TouchableOpacity
+            key={template.id}
+            style={styles.templateCard}
+            onPress={() =>
+              navigation.navigate('CommuteTemplateEdit', {template})
+            }
+            activeOpacity={0.8}>
+            <View
+              style={[styles.templateIcon, {backgroundColor: option?.bgColor}]}>
+              {option?.icon}
+            </View>
+            <View style={styles.templateContent}>
+              <Text style={styles.templateName}>{template.name}</Text>
+              <Text style={styles.templateDetails}>
+                {option?.label} - depart {template.departure_time} -{' '}
+                {template.distance_km} km - {template.duration_minutes} min
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#ccc" />
+          </TouchableOpacity>
+        );
+      })}
+
+      <ActionButton
+        title="Ajouter un trajet habituel"
+        onPress={() => navigation.navigate('CommuteTemplateEdit')}
+        variant="secondary"
+        icon={<Plus size={20} color="#2E7D32" />}
+        style={styles.addButton}
+      />
+
+      <View style={styles.syncCard}>
+        <View style={styles.syncText}>
+          <Text style={styles.syncLabel}>Synchroniser avec mon compte</Text>
+          <Text style={styles.syncHint}>
+            Retrouvez vos trajets habituels sur un autre telephone. Sinon, ils
+            restent uniquement sur celui-ci.
+          </Text>
+        </View>
+        <Switch
+          value={syncEnabled}
+          onValueChange={handleSyncChange}
+          trackColor={{false: '#ccc', true: '#A5D6A7'}}
+          thumbColor={syncEnabled ? '#2E7D32' : '#f4f3f4'}
+        />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  templateCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.04,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  templateIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  templateContent: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  templateDetails: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  addButton: {
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  syncCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  syncText: {
+    flex: 1,
+  },
+  syncLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  syncHint: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 4,
+  },
+});
@@ -3,7 +3,7 @@
  * Main screen with user statistics and recent journeys
  */
 
-import React, {useState, useEffect, useCallback} from 'react';
+import React, {useState, useCallback} from 'react';
 import {
   View,
   Text,
@@ -30,8 +30,9 @@ import {
 } from 'lucide-react-native';
 
 import {useAuth} from '@/context/AuthContext';
-import {apiClient} from '@/api/client';
-import {UserStats, ValidatedJourney, UserProfile, JourneyRead} from '@/api/types';
+import {queries} from '@/api/queries';
+import {JourneyRead} from '@/api/types';
+import {useQuery} from '@/hooks/useQuery';
 
 type RootStackParamList = {
   ValidatedJourneys: {transportFilter?: string} | undefined;
@@ -45,53 +46,39 @@ const {width} = Dimensions.get('window');
 export default function DashboardScreen(): JSX.Element {
   const navigation = useNavigation<NavigationProp>();
   const {userId} = useAuth();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [stats, setStats] = useState<UserStats | null>(null);
-  const [journeys, setJourneys] = useState<ValidatedJourney[]>([]);
-  const [loading, setLoading] = useState(true);
+  const statsQuery = useQuery(userId ? queries.userStats(userId) : null);
+  // First page of the history (shared with the history screen)
+  const journeysQuery = useQuery(
+    userId ? queries.validatedJourneyHistory(userId, {}, 0) : null,
+  );
+  // Stats have no public transport totals: ask the history for them
+  const transitQuery = useQuery(
+    userId
+      ? queries.validatedJourneyTotals(userId, {
+          transport_type: 'transport_commun',
+        })
+      : null,
+  );
   const [refreshing, setRefreshing] = useState(false);
-  const [transportStats, setTransportStats] = useState({
-    transport_commun_count: 0,
-    transport_commun_distance: 0,
-  });
-
-  const fetchData = useCallback(async () => {
-    if (!userId) return;
-
-    try {
-      const [profileData, statsData, journeysData] = await Promise.all([
-        apiClient.getUserProfile(userId).catch(() => null),
-        apiClient.getUserStats(userId).catch(() => null),
-        apiClient.getUserValidatedJourneys(userId).catch(() => []),
-      ]);
 
-      setUserProfile(profileData);
-      setStats(statsData);
-      // Get only last 3 journeys
-      setJourneys(journeysData.slice(0, 3));
-
-      // Calculate transport_commun stats from journeys
-      const tcJourneys = journeysData.filter(j => j.transport_type === 'transport_commun');
-      setTransportStats({
-        transport_commun_count: tcJourneys.length,
-        transport_commun_distance: tcJourneys.reduce((acc, j) => acc + j.distance_km, 0),
-      });
-    } catch (err) {
-      console.error('Error fetching dashboard data:', err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [userId]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  const {refetch: refetchStats} = statsQuery;
+  const {refetch: refetchJourneys} = journeysQuery;
+  const {refetch: refetchTransit} = transitQuery;
+  const stats = statsQuery.data ?? null;
+  const loading = statsQuery.isLoading || journeysQuery.isLoading;
+  // Get only last 3 journeys
+  const journeys = (journeysQuery.data?.items ?? []).slice(0, 3);
+
+  const transportStats = {
+    transport_commun_count: transitQuery.data?.total ?? 0,
+    transport_commun_distance: transitQuery.data?.total_distance_km ?? 0,
+  };
 
-  const onRefresh = useCallback(() => {
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    fetchData();
-  }, [fetchData]);
+    await Promise.all([refetchStats(), refetchJourneys(), refetchTransit()]);
+    setRefreshing(false);
+  }, [refetchStats, refetchJourneys, refetchTransit]);
 
   const formatDistance = (km: number) => {
     if (km >= 1000) {
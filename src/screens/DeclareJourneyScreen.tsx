@@ -0,0 +1,304 @@
+/**
+ * Declare Journey Screen
+ * Manually declare a trip that detection missed (phone off, battery saver)
+ */
+
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {Info, Route, Send} from 'lucide-react-native';
+
+import journeyOutbox from '@/services/journey-outbox';
+import {getErrorMessage} from '@/api/errors';
+import {CommuteTemplate, TransportType} from '@/api/types';
+import {
+  ActionButton,
+  DateTimeField,
+  FormField,
+  TransportSelector,
+} from '@/components/ui';
+import {
+  MANUAL_MAX_AGE_DAYS,
+  buildManualJourneyCreate,
+  checkManualJourney,
+} from '@/utils/journeys';
+import {templateToManualJourney} from '@/utils/commuteTemplates';
+
+type RootStackParamList = {
+  DeclareJourney: {template?: CommuteTemplate} | undefined;
+};
+
+type RouteType = RouteProp<RootStackParamList, 'DeclareJourney'>;
+
+const DAY_MS = 24 * 3600 * 1000;
+const DEFAULT_DURATION_MS = 30 * 60 * 1000;
+
+/**
+ * Put the hours and minutes of `time` on the day of `base`
+ */
+function withTime(base: Date, time: Date): Date {
+  const date = new Date(base);
+  date.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return date;
+}
+
+/**
+ * Arrival at the given time, on the day after departure when the time is
+ * not later (trip across midnight)
+ */
+function arrivalAfter(departure: Date, time: Date): Date {
+  const arrival = withTime(departure, time);
+  return arrival > departure ? arrival : new Date(arrival.getTime() + DAY_MS);
+}
+
+function initialArrival(): Date {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - (now.getMinutes() % 5), 0, 0);
+  return now;
+}
+
+export default function DeclareJourneyScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const route = useRoute<RouteType>();
+  // Pre-filled from a commute template, still editable
+  const [prefill] = useState(() => {
+    const template = route.params?.template;
+    if (template) {
+      return templateToManualJourney(template);
+    }
+    const arrival = initialArrival();
+    return {
+      departure: new Date(arrival.getTime() - DEFAULT_DURATION_MS),
+      arrival,
+      distanceKm: NaN,
+      transportType: 'velo' as TransportType,
+    };
+  });
+  const [departure, setDeparture] = useState(prefill.departure);
+  const [arrival, setArrival] = useState(prefill.arrival);
+  const [transportType, setTransportType] = useState(prefill.transportType);
+  const [distance, setDistance] = useState(
+    isNaN(prefill.distanceKm) ? '' : String(prefill.distanceKm),
+  );
+  const [showErrors, setShowErrors] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const journey = {
+    departure,
+    arrival,
+    distanceKm: parseFloat(distance.replace(',', '.')),
+    transportType,
+  };
+  const errors = checkManualJourney(journey);
+  const durationMinutes = Math.round(
+    (arrival.getTime() - departure.getTime()) / 60000,
+  );
+  const now = new Date();
+
+  // Moving the day keeps both times
+  const handleDayChange = (day: Date) => {
+    const shift = day.getTime() - departure.getTime();
+    setDeparture(day);
+    setArrival(new Date(arrival.getTime() + shift));
+  };
+
+  const handleDepartureChange = (time: Date) => {
+    setDeparture(time);
+    setArrival(arrivalAfter(time, arrival));
+  };
+
+  const handleSubmit = async () => {
+    Keyboard.dismiss();
+    if (errors.time || errors.distance) {
+      setShowErrors(true);
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await journeyOutbox.submit(
+        null,
+        buildManualJourneyCreate(journey),
+      );
+      if (result.status === 'queued') {
+        Alert.alert(
+          "Trajet en attente d'envoi",
+          'Pas de connexion pour le moment. Votre trajet sera envoye automatiquement des que le reseau sera disponible.',
+          [{text: 'OK', onPress: () => navigation.goBack()}],
+        );
+        return;
+      }
+      Alert.alert(
+        'Trajet declare',
+        `Vous avez gagne ${result.journey.score_journey} points.`,
+        [{text: 'OK', onPress: () => navigation.goBack()}],
+      );
+    } catch (error) {
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(error, "Impossible d'envoyer le trajet"),
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Quand ?</Text>
+        <DateTimeField
+          label="Jour"
+          mode="date"
+          value={departure}
+          onChange={handleDayChange}
+          minimumDate={new Date(now.getTime() - MANUAL_MAX_AGE_DAYS * DAY_MS)}
+          maximumDate={now}
+        />
+        <View style={styles.timeRow}>
+          <View style={styles.timeField}>
+            <DateTimeField
+              label="Depart"
+              mode="time"
+              value={departure}
+              onChange={handleDepartureChange}
+            />
+          </View>
+          <View style={styles.timeField}>
+            <DateTimeField
+              label="Arrivee"
+              mode="time"
+              value={arrival}
+              onChange={time => setArrival(arrivalAfter(departure, time))}
+              hint={
+                arrival.getDate() !== departure.getDate()
+                  ? 'lendemain'
+                  : undefined
+              }
+            />
+          </View>
+        </View>
+        <Text style={styles.summary}>Duree : {durationMinutes} min</Text>
+        {showErrors && errors.time && (
+          <Text style={styles.errorText}>{errors.time}</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Mode de transport</Text>
+      <TransportSelector value={transportType} onChange={setTransportType} />
+
+      <View style={[styles.card, styles.distanceCard]}>
+        <FormField
+          label="Distance (km)"
+          value={distance}
+          onChangeText={setDistance}
+          placeholder="Ex : 4,5"
+          keyboardType="decimal-pad"
+          icon={<Route size={18} color="#666" />}
+          error={showErrors || distance ? errors.distance : undefined}
+        />
+      </View>
+
+      <View style={styles.infoCard}>
+        <Info size={18} color="#1976D2" />
+        <Text style={styles.infoText}>
+          Les trajets declares sont marques comme saisis manuellement. Seuls les
+          trajets des {MANUAL_MAX_AGE_DAYS} derniers jours avec une vitesse
+          coherente avec le mode choisi sont acceptes.
+        </Text>
+      </View>
+
+      <ActionButton
+        title="Declarer le trajet"
+        onPress={handleSubmit}
+        loading={sending}
+        icon={<Send size={20} color="#fff" />}
+        style={styles.submitButton}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingVertical: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+    marginBottom: 12,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  timeField: {
+    flex: 1,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#E53935',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  distanceCard: {
+    marginTop: 16,
+    paddingBottom: 0,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    backgroundColor: '#E3F2FD',
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    gap: 10,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1976D2',
+    lineHeight: 18,
+  },
+  submitButton: {
+    marginHorizontal: 16,
+  },
+});
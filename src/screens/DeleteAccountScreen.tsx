@@ -0,0 +1,138 @@
+/**
+ * Delete Account Screen
+ * Erase the account on the backend and all its data on this device
+ */
+
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import {Lock, Trash2} from 'lucide-react-native';
+
+import {useAuth} from '@/context/AuthContext';
+import {HttpError, getErrorMessage} from '@/api/errors';
+import {ActionButton, FormField} from '@/components/ui';
+
+const DELETED_DATA = [
+  'Votre profil et votre rattachement a votre entreprise et equipe',
+  'Tous vos trajets, valides et en attente',
+  'Vos badges, achats et votre solde de points',
+  'Les donnees enregistrees sur ce telephone (trajets detectes, session)',
+];
+
+export default function DeleteAccountScreen(): JSX.Element {
+  const {deleteAccount} = useAuth();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [deleting, setDeleting] = useState(false);
+
+  const confirmDeletion = async () => {
+    setDeleting(true);
+    try {
+      // Logged out on success: the navigator switches to the Auth stack
+      await deleteAccount(password);
+    } catch (err) {
+      if (err instanceof HttpError && err.status === 400) {
+        setError(err.message);
+      } else {
+        Alert.alert(
+          'Erreur',
+          getErrorMessage(err, 'Impossible de supprimer le compte'),
+        );
+      }
+      setDeleting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Keyboard.dismiss();
+    if (!password) {
+      setError('Mot de passe requis');
+      return;
+    }
+    Alert.alert(
+      'Supprimer definitivement ?',
+      'Cette action est irreversible. Pensez a exporter vos donnees avant.',
+      [
+        {text: 'Annuler', style: 'cancel'},
+        {text: 'Supprimer', style: 'destructive', onPress: confirmDeletion},
+      ],
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.title}>Ce qui sera supprime</Text>
+        {DELETED_DATA.map(item => (
+          <Text key={item} style={styles.item}>
+            • {item}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <FormField
+          label="Confirmez avec votre mot de passe"
+          value={password}
+          onChangeText={text => {
+            setPassword(text);
+            setError(undefined);
+          }}
+          secureTextEntry
+          icon={<Lock size={18} color="#666" />}
+          error={error}
+        />
+      </View>
+
+      <ActionButton
+        title="Supprimer mon compte"
+        onPress={handleDelete}
+        variant="danger"
+        loading={deleting}
+        icon={<Trash2 size={20} color="#E53935" />}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#E53935',
+    marginBottom: 12,
+  },
+  item: {
+    fontSize: 14,
+    color: '#444',
+    lineHeight: 22,
+  },
+});
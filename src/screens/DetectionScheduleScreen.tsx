@@ -0,0 +1,418 @@
+/**
+ * Detection Schedule Screen
+ * Choose when trip detection runs: week days, commute time windows, days
+ * off (holidays) and extra days
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {CalendarOff, CalendarPlus, Plus, Save, X} from 'lucide-react-native';
+
+import detectionScheduler from '@/services/detection-schedule';
+import {ActionButton, DateTimeField} from '@/components/ui';
+import {formatTimeOfDay, parseTimeOfDay} from '@/utils/commuteTemplates';
+import {
+  DetectionSchedule,
+  ScheduleErrors,
+  WEEK_DAYS,
+  formatDateKey,
+  hasScheduleErrors,
+  validateSchedule,
+} from '@/utils/detectionSchedule';
+
+const MAX_WINDOWS = 4;
+
+function timeToDate(value: string): Date {
+  const minutes = parseTimeOfDay(value) ?? 0;
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+}
+
+function formatException(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('fr-FR', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  });
+}
+
+export default function DetectionScheduleScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const [schedule, setSchedule] = useState<DetectionSchedule | null>(null);
+  const [errors, setErrors] = useState<ScheduleErrors>({windows: []});
+  const [exceptionDate, setExceptionDate] = useState(() => new Date());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    detectionScheduler.getSchedule().then(setSchedule);
+  }, []);
+
+  if (!schedule) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#2E7D32" />
+      </View>
+    );
+  }
+
+  const update = (changes: Partial<DetectionSchedule>) => {
+    setSchedule({...schedule, ...changes});
+    setErrors({windows: []});
+  };
+
+  const toggleDay = (day: number) =>
+    update({
+      days: schedule.days.includes(day)
+        ? schedule.days.filter(d => d !== day)
+        : [...schedule.days, day].sort(),
+    });
+
+  const setWindowTime = (index: number, key: 'start' | 'end', date: Date) =>
+    update({
+      windows: schedule.windows.map((window, i) =>
+        i === index ? {...window, [key]: formatTimeOfDay(date)} : window,
+      ),
+    });
+
+  const addException = (active: boolean) => {
+    const date = formatDateKey(exceptionDate);
+    update({
+      exceptions: [
+        ...schedule.exceptions.filter(e => e.date !== date),
+        {date, active},
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+  };
+
+  const handleSave = async () => {
+    const validation = validateSchedule(schedule);
+    setErrors(validation);
+    if (hasScheduleErrors(validation)) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await detectionScheduler.setSchedule({
+        ...schedule,
+        // Past days off are no longer useful
+        exceptions: schedule.exceptions.filter(
+          e => e.date >= formatDateKey(new Date()),
+        ),
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save detection schedule:', error);
+      Alert.alert('Erreur', "Impossible d'enregistrer les horaires");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}>
+      <View style={[styles.card, styles.switchCard]}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>
+            Detecter seulement aux horaires
+          </Text>
+          <Text style={styles.switchHint}>
+            En dehors de ces plages, la detection est arretee pour economiser la
+            batterie. Sinon, elle tourne en permanence.
+          </Text>
+        </View>
+        <Switch
+          value={schedule.enabled}
+          onValueChange={enabled => update({enabled})}
+          trackColor={{false: '#ccc', true: '#A5D6A7'}}
+          thumbColor={schedule.enabled ? '#2E7D32' : '#f4f3f4'}
+        />
+      </View>
+
+      {schedule.enabled && (
+        <>
+          <Text style={styles.sectionTitle}>Jours</Text>
+          <View style={styles.card}>
+            <View style={styles.days}>
+              {WEEK_DAYS.map(({day, label}) => {
+                const selected = schedule.days.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.dayChip, selected && styles.dayChipSelected]}
+                    onPress={() => toggleDay(day)}>
+                    <Text
+                      style={[
+                        styles.dayLabel,
+                        selected && styles.dayLabelSelected,
+                      ]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {errors.days && <Text style={styles.errorText}>{errors.days}</Text>}
+          </View>
+
+          <Text style={styles.sectionTitle}>Plages horaires</Text>
+          {schedule.windows.map((window, index) => (
+            <View key={index} style={styles.card}>
+              <View style={styles.windowHeader}>
+                <Text style={styles.windowTitle}>Plage {index + 1}</Text>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() =>
+                    update({
+                      windows: schedule.windows.filter((_, i) => i !== index),
+                    })
+                  }
+                  accessibilityLabel="Supprimer cette plage">
+                  <X size={16} color="#666" />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.windowTimes}>
+                <View style={styles.windowTime}>
+                  <DateTimeField
+                    label="Debut"
+                    mode="time"
+                    value={timeToDate(window.start)}
+                    onChange={date => setWindowTime(index, 'start', date)}
+                  />
+                </View>
+                <View style={styles.windowTime}>
+                  <DateTimeField
+                    label="Fin"
+                    mode="time"
+                    value={timeToDate(window.end)}
+                    onChange={date => setWindowTime(index, 'end', date)}
+                  />
+                </View>
+              </View>
+              {errors.windows[index] && (
+                <Text style={styles.errorText}>{errors.windows[index]}</Text>
+              )}
+            </View>
+          ))}
+          {schedule.windows.length < MAX_WINDOWS && (
+            <ActionButton
+              title="Ajouter une plage"
+              onPress={() =>
+                update({
+                  windows: [
+                    ...schedule.windows,
+                    {start: '12:00', end: '14:00'},
+                  ],
+                })
+              }
+              variant="secondary"
+              icon={<Plus size={20} color="#2E7D32" />}
+              style={styles.button}
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>Jours particuliers</Text>
+          <View style={styles.card}>
+            <DateTimeField
+              label="Jour"
+              mode="date"
+              value={exceptionDate}
+              onChange={setExceptionDate}
+              minimumDate={new Date()}
+            />
+            <View style={styles.exceptionActions}>
+              <ActionButton
+                title="Jour off"
+                onPress={() => addException(false)}
+                variant="outline"
+                icon={<CalendarOff size={18} color="#2E7D32" />}
+                style={styles.exceptionButton}
+              />
+              <ActionButton
+                title="Jour travaille"
+                onPress={() => addException(true)}
+                variant="outline"
+                icon={<CalendarPlus size={18} color="#2E7D32" />}
+                style={styles.exceptionButton}
+              />
+            </View>
+            {schedule.exceptions.map(exception => (
+              <View key={exception.date} style={styles.exceptionRow}>
+                <Text style={styles.exceptionText}>
+                  {formatException(exception.date)} :{' '}
+                  {exception.active ? 'detection' : 'pas de detection'}
+                </Text>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() =>
+                    update({
+                      exceptions: schedule.exceptions.filter(
+                        e => e.date !== exception.date,
+                      ),
+                    })
+                  }
+                  accessibilityLabel="Retirer ce jour">
+                  <X size={16} color="#666" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      <ActionButton
+        title="Enregistrer"
+        onPress={handleSave}
+        loading={saving}
+        icon={<Save size={20} color="#fff" />}
+        style={styles.button}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingVertical: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  switchCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  switchHint: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  days: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  dayChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: '#eee',
+  },
+  dayChipSelected: {
+    borderColor: '#2E7D32',
+    backgroundColor: '#E8F5E9',
+  },
+  dayLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  dayLabelSelected: {
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  windowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  windowTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  windowTimes: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  windowTime: {
+    flex: 1,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  exceptionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exceptionButton: {
+    flex: 1,
+  },
+  exceptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  exceptionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  errorText: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#E53935',
+  },
+  button: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+});
@@ -2,7 +2,7 @@
  * Distance History Screen - Total distance and breakdown by transport mode
  */
 
-import React, {useState, useCallback} from 'react';
+import React, {useState} from 'react';
 import {
   View,
   Text,
@@ -11,7 +11,6 @@ import {
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import {useFocusEffect} from '@react-navigation/native';
 import {
   Route,
   Bike,
@@ -19,8 +18,16 @@ import {
   Car,
   Bus,
 } from 'lucide-react-native';
-import {apiClient} from '../api/client';
-import {ValidatedJourney} from '../api/types';
+import {useAuth} from '../context/AuthContext';
+import {queries} from '../api/queries';
+import {getErrorMessage} from '../api/errors';
+import {useQuery} from '../hooks/useQuery';
+
+// Totals of one transport mode, from the stats or the history
+interface ModeTotals {
+  distance: number;
+  count: number;
+}
 
 interface DistanceByMode {
   mode: string;
@@ -32,44 +39,64 @@ interface DistanceByMode {
 }
 
 export default function DistanceHistoryScreen(): JSX.Element {
-  const [journeys, setJourneys] = useState<ValidatedJourney[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadJourneys();
-    }, []),
+  const {userId} = useAuth();
+  // Server-side aggregates: the journeys themselves are never loaded
+  const {
+    data: stats,
+    error: queryError,
+    isLoading,
+    refetch,
+  } = useQuery(userId ? queries.userStats(userId) : null);
+  // Stats have no public transport totals: ask the history for them
+  const {data: transit, refetch: refetchTransit} = useQuery(
+    userId
+      ? queries.validatedJourneyTotals(userId, {
+          transport_type: 'transport_commun',
+        })
+      : null,
   );
-
-  const loadJourneys = async () => {
-    setError(null);
-    try {
-      const userId = apiClient.getUserId();
-      if (!userId) {
-        setError('Utilisateur non connecté');
-        return;
-      }
-      const data = await apiClient.getUserValidatedJourneys(userId);
-      setJourneys(data);
-    } catch (err) {
-      const message =
-        err instanceof Error ? err.message : 'Erreur de chargement';
-      setError(message);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const [refreshing, setRefreshing] = useState(false);
+  // Cached totals stay visible when a refresh fails
+  const error = !userId
+    ? 'Utilisateur non connecté'
+    : queryError && !stats
+    ? getErrorMessage(queryError, 'Erreur de chargement')
+    : null;
+  const journeyCount = stats?.validated_journey_count ?? 0;
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadJourneys();
+    await Promise.all([refetch(), refetchTransit()]);
     setRefreshing(false);
   };
 
   const getTotalDistance = (): number => {
-    return journeys.reduce((acc, j) => acc + (j.distance_km || 0), 0);
+    return stats?.total_distance_km ?? 0;
+  };
+
+  const getModeTotals = (mode: string): ModeTotals => {
+    switch (mode) {
+      case 'velo':
+        return {
+          distance: stats?.bike_distance_km ?? 0,
+          count: stats?.bike_journey_count ?? 0,
+        };
+      case 'marche':
+        return {
+          distance: stats?.walk_distance_km ?? 0,
+          count: stats?.walk_journey_count ?? 0,
+        };
+      case 'voiture':
+        return {
+          distance: stats?.car_distance_km ?? 0,
+          count: stats?.car_journey_count ?? 0,
+        };
+      default:
+        return {
+          distance: transit?.total_distance_km ?? 0,
+          count: transit?.total ?? 0,
+        };
+    }
   };
 
   const getDistanceByMode = (): DistanceByMode[] => {
@@ -100,16 +127,7 @@ export default function DistanceHistoryScreen(): JSX.Element {
       },
     ];
 
-    return modes.map(m => {
-      const modeJourneys = journeys.filter(j => j.transport_type === m.mode);
-      const distance = modeJourneys.reduce((acc, j) => acc + (j.distance_km || 0), 0);
-      const count = modeJourneys.length;
-      return {
-        ...m,
-        distance,
-        count,
-      };
-    });
+    return modes.map(m => ({...m, ...getModeTotals(m.mode)}));
   };
 
   const formatDistance = (km: number): string => {
@@ -157,7 +175,7 @@ export default function DistanceHistoryScreen(): JSX.Element {
           <Text style={styles.totalLabel}>Distance totale parcourue</Text>
           <Text style={styles.totalValue}>{formatDistance(totalDistance)}</Text>
           <Text style={styles.totalSubtext}>
-            {journeys.length} trajet{journeys.length > 1 ? 's' : ''} validé{journeys.length > 1 ? 's' : ''}
+            {journeyCount} trajet{journeyCount > 1 ? 's' : ''} validé{journeyCount > 1 ? 's' : ''}
           </Text>
         </View>
       </View>
@@ -220,7 +238,7 @@ export default function DistanceHistoryScreen(): JSX.Element {
         ))}
       </View>
 
-      {journeys.length === 0 && (
+      {journeyCount === 0 && (
         <View style={styles.emptyContainer}>
           <Route size={48} color="#ccc" />
           <Text style={styles.emptyText}>Aucun trajet validé</Text>
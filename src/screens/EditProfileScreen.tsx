@@ -0,0 +1,209 @@
+/**
+ * Edit Profile Screen
+ * Edit the name, email and username of the logged-in user
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {AtSign, Mail, Save, User} from 'lucide-react-native';
+
+import {useAuth} from '@/context/AuthContext';
+import {queries} from '@/api/queries';
+import {useQuery} from '@/hooks/useQuery';
+import {ValidationError, getErrorMessage} from '@/api/errors';
+import {UserUpdate} from '@/api/types';
+import {ActionButton, FormField} from '@/components/ui';
+import {FieldErrors, validateProfile} from '@/utils/validation';
+
+type ProfileForm = Required<UserUpdate>;
+
+const FIELDS: (keyof ProfileForm)[] = [
+  'firstname',
+  'lastname',
+  'email',
+  'username',
+];
+
+export default function EditProfileScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const {userId, updateProfile} = useAuth();
+  const {data: profile} = useQuery(userId ? queries.userProfile(userId) : null);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [errors, setErrors] = useState<FieldErrors<ProfileForm>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Fill the form once, later refetches must not overwrite the edits
+  useEffect(() => {
+    if (profile && !form) {
+      setForm({
+        firstname: profile.firstname,
+        lastname: profile.lastname,
+        email: profile.email,
+        username: profile.username,
+      });
+    }
+  }, [profile, form]);
+
+  const setField = (field: keyof ProfileForm) => (text: string) => {
+    setForm(previous => (previous ? {...previous, [field]: text} : previous));
+    setErrors(previous => ({...previous, [field]: undefined}));
+  };
+
+  const handleSave = async () => {
+    if (!form || !profile) {
+      return;
+    }
+    Keyboard.dismiss();
+
+    const values: ProfileForm = {
+      firstname: form.firstname.trim(),
+      lastname: form.lastname.trim(),
+      email: form.email.trim(),
+      username: form.username.trim(),
+    };
+    const validation = validateProfile(values);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    // Only send what changed
+    const changes: UserUpdate = {};
+    FIELDS.forEach(field => {
+      if (values[field] !== profile[field]) {
+        changes[field] = values[field];
+      }
+    });
+    if (Object.keys(changes).length === 0) {
+      navigation.goBack();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateProfile(changes);
+      Alert.alert(
+        'Profil mis a jour',
+        'Vos informations ont ete enregistrees.',
+        [{text: 'OK', onPress: () => navigation.goBack()}],
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors(error.fields as FieldErrors<ProfileForm>);
+      } else {
+        Alert.alert('Erreur', getErrorMessage(error, 'Mise a jour impossible'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!form) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#2E7D32" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Identite</Text>
+        <FormField
+          label="Prenom"
+          value={form.firstname}
+          onChangeText={setField('firstname')}
+          autoCapitalize="words"
+          icon={<User size={18} color="#666" />}
+          error={errors.firstname}
+        />
+        <FormField
+          label="Nom"
+          value={form.lastname}
+          onChangeText={setField('lastname')}
+          autoCapitalize="words"
+          icon={<User size={18} color="#666" />}
+          error={errors.lastname}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Compte</Text>
+        <FormField
+          label="Email"
+          value={form.email}
+          onChangeText={setField('email')}
+          keyboardType="email-address"
+          icon={<Mail size={18} color="#666" />}
+          error={errors.email}
+        />
+        <FormField
+          label="Nom d'utilisateur"
+          value={form.username}
+          onChangeText={setField('username')}
+          icon={<AtSign size={18} color="#666" />}
+          error={errors.username}
+        />
+      </View>
+
+      <ActionButton
+        title="Enregistrer"
+        onPress={handleSave}
+        loading={saving}
+        icon={<Save size={20} color="#fff" />}
+        style={styles.saveButton}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    paddingBottom: 0,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+    marginBottom: 12,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
@@ -18,6 +18,8 @@ import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {useAuth} from '../context/AuthContext';
 import {apiClient} from '../api/client';
 import tripDetection from '../native/TripDetection';
+import {GpsLogEvent} from '../native/TripDetectionDriver';
+import privateZones from '../services/private-zones';
 import {UserStatistics, LocalJourney} from '../api/types';
 
 type RootStackParamList = {
@@ -47,12 +49,7 @@ export default function HomeScreen(): JSX.Element {
     }>
   >([]);
   const [gpsLogs, setGpsLogs] = useState<
-    Array<{
-      event: string;
-      timestamp: number;
-      formattedTime: string;
-      [key: string]: any;
-    }>
+    Array<GpsLogEvent & {timestamp: number; formattedTime: string}>
   >([]);
 
   // Load data on focus
@@ -111,7 +108,9 @@ export default function HomeScreen(): JSX.Element {
       });
     });
 
-    const unsubscribeGpsLog = tripDetection.addGpsLogListener?.((data: any) => {
+    const unsubscribeGpsLog = tripDetection.addGpsLogListener?.(async event => {
+      // Points inside private zones are not shown, even in the debug log
+      const data = await privateZones.trimGpsLog(event);
       const now = new Date();
       const formattedTime = now.toLocaleTimeString('fr-FR', {
         hour: '2-digit',
@@ -124,10 +123,9 @@ export default function HomeScreen(): JSX.Element {
       setGpsLogs(prev => {
         const newLogs = [
           {
-            event: data.event,
-            timestamp: data.timestamp || now.getTime(),
-            formattedTime,
             ...data,
+            timestamp: data.timestamp || now.getTime(),
+            formattedTime: data.formattedTime ?? formattedTime,
           },
           ...prev,
         ].slice(0, 15); // Keep last 15
@@ -17,7 +17,9 @@ import {useFocusEffect, useNavigation} from '@react-navigation/native';
 import {Trophy, Crown, Medal, Users, Building2, UserCircle} from 'lucide-react-native';
 import {useAuth} from '../context/AuthContext';
 import {apiClient} from '../api/client';
+import {isCancelled} from '../api/errors';
 import {LeaderboardUser, LeaderboardTeam, Team} from '../api/types';
+import {useRequestSignal} from '../hooks/useRequestSignal';
 
 type LeaderboardTab = 'company' | 'teams' | 'my-team';
 type LeaderboardEntry = LeaderboardUser | LeaderboardTeam;
@@ -37,6 +39,7 @@ export default function LeaderboardScreen(): JSX.Element {
   const [loadingMore, setLoadingMore] = useState(false);
   const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  const getSignal = useRequestSignal();
 
   const LIMIT = 50;
 
@@ -61,9 +64,14 @@ export default function LeaderboardScreen(): JSX.Element {
   const loadUserTeam = async () => {
     if (user?.team_id) {
       try {
-        const team = await apiClient.getTeam(user.team_id);
+        const team = await apiClient.getTeam(user.team_id, {
+          signal: getSignal(),
+        });
         setUserTeam(team);
       } catch (error) {
+        if (isCancelled(error)) {
+          return;
+        }
         console.error('Failed to load user team:', error);
       }
     } else {
@@ -98,9 +106,14 @@ export default function LeaderboardScreen(): JSX.Element {
       setLoadingMore(true);
     }
 
+    const signal = getSignal();
     try {
       if (activeTab === 'company') {
-        const data = await apiClient.getGlobalLeaderboard(LIMIT, currentOffset);
+        const data = await apiClient.getGlobalLeaderboard(
+          LIMIT,
+          currentOffset,
+          {signal},
+        );
         if (isReset) {
           setUserLeaderboard(data);
         } else {
@@ -108,7 +121,9 @@ export default function LeaderboardScreen(): JSX.Element {
         }
         setHasMore(data.length === LIMIT);
       } else if (activeTab === 'teams') {
-        const data = await apiClient.getTeamLeaderboard(LIMIT, currentOffset);
+        const data = await apiClient.getTeamLeaderboard(LIMIT, currentOffset, {
+          signal,
+        });
         if (isReset) {
           setTeamLeaderboard(data);
         } else {
@@ -119,6 +134,7 @@ export default function LeaderboardScreen(): JSX.Element {
         const data = await apiClient.getTeamMembersLeaderboard(
           LIMIT,
           currentOffset,
+          {signal},
         );
         if (isReset) {
           setMyTeamLeaderboard(data);
@@ -130,10 +146,15 @@ export default function LeaderboardScreen(): JSX.Element {
 
       setOffset(currentOffset + LIMIT);
     } catch (error) {
+      if (isCancelled(error)) {
+        return;
+      }
       console.error('Failed to load leaderboard:', error);
     } finally {
-      setIsLoading(false);
-      setLoadingMore(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
@@ -15,71 +15,72 @@ import {
   Modal,
 } from 'react-native';
 import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {
   Clock,
   MapPin,
   Route,
   Gauge,
   ChevronLeft,
-  Check,
-  Bike,
-  Footprints,
-  Car,
-  Bus,
   Sparkles,
   Navigation,
   Target,
   Send,
+  Repeat,
+  Split,
+  MapPinOff,
 } from 'lucide-react-native';
 import tripDetection from '../native/TripDetection';
-import {apiClient} from '../api/client';
-import {LocalJourney, TransportType, JourneyCreate} from '../api/types';
+import journeyOutbox from '../services/journey-outbox';
+import commuteTemplates, {
+  CommuteTemplateInput,
+} from '../services/commute-templates';
+import transitionLog from '../services/transition-log';
+import privateZones from '../services/private-zones';
+import {getErrorMessage} from '../api/errors';
+import {
+  JourneyLegsEditor,
+  JourneyRoute,
+  TransportSelector,
+  getTransportOption,
+} from '../components/ui';
+import {
+  CommuteTemplate,
+  JourneyTrackPoint,
+  LocalJourney,
+  TransportType,
+} from '../api/types';
+import {buildJourneyCreate, journeyPlaceLabels} from '../utils/journeys';
+import {findMatchingTemplate, formatTimeOfDay} from '../utils/commuteTemplates';
+import {trimJourney, trimTrackPoints} from '../utils/privateZones';
+import {DEFAULT_TRACK_TRIM_METERS} from '../utils/journeyTrack';
+import {
+  LegDraft,
+  defaultLegs,
+  mainTransportType,
+  proposeLegs,
+  toJourneyLegs,
+  totalLegDistance,
+  validateLegs,
+} from '../utils/journeyLegs';
+
+// Transitions shortly before the departure tell the mode of the first leg
+const TRANSITION_LOOKBACK_MS = 10 * 60 * 1000;
 
 type RootStackParamList = {
   PendingJourneyDetail: {journeyId: number};
+  CommuteTemplateEdit: {draft: CommuteTemplateInput};
+  PrivateZoneEdit: {draft: {latitude: number; longitude: number}};
 };
 
 type RouteType = RouteProp<RootStackParamList, 'PendingJourneyDetail'>;
-
-const TRANSPORT_OPTIONS: {
-  value: TransportType;
-  label: string;
-  icon: React.ReactNode;
-  color: string;
-  bgColor: string;
-}[] = [
-  {
-    value: 'marche',
-    label: 'Marche',
-    icon: <Footprints size={28} color="#4CAF50" />,
-    color: '#4CAF50',
-    bgColor: '#E8F5E9',
-  },
-  {
-    value: 'velo',
-    label: 'Vélo',
-    icon: <Bike size={28} color="#2196F3" />,
-    color: '#2196F3',
-    bgColor: '#E3F2FD',
-  },
-  {
-    value: 'transport_commun',
-    label: 'Transport',
-    icon: <Bus size={28} color="#9C27B0" />,
-    color: '#9C27B0',
-    bgColor: '#F3E5F5',
-  },
-  {
-    value: 'voiture',
-    label: 'Voiture',
-    icon: <Car size={28} color="#FF9800" />,
-    color: '#FF9800',
-    bgColor: '#FFF3E0',
-  },
-];
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'PendingJourneyDetail'
+>;
 
 export default function PendingJourneyDetailScreen(): JSX.Element {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RouteType>();
   const {journeyId} = route.params;
 
@@ -94,22 +95,67 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
   const [distanceKm, setDistanceKm] = useState('');
   const [placeDeparture, setPlaceDeparture] = useState('');
   const [placeArrival, setPlaceArrival] = useState('');
+  // Usual trip this journey looks like, its mode is suggested
+  const [matchedTemplate, setMatchedTemplate] =
+    useState<CommuteTemplate | null>(null);
+  // Multimodal journey: null while the journey has a single mode
+  const [legs, setLegs] = useState<LegDraft[] | null>(null);
+  const [legErrors, setLegErrors] = useState<(string | undefined)[]>([]);
+  // Legs proposed from the activity changes recorded during the trip
+  const [proposedLegs, setProposedLegs] = useState<LegDraft[] | null>(null);
+  // Recorded route, without its ends nor the points in private zones
+  const [track, setTrack] = useState<JourneyTrackPoint[]>([]);
 
   useEffect(() => {
     loadJourney();
   }, [journeyId]);
 
+  // A zone created from this journey hides its point as soon as it is saved
+  useEffect(
+    () =>
+      privateZones.addListener(zones => {
+        setJourney(current =>
+          current ? trimJourney(current, zones) : current,
+        );
+        setTrack(current => trimTrackPoints(current, zones));
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    if (journey) {
+      loadAddressesFromCoordinates(journey);
+    }
+  }, [journey]);
+
   const loadJourney = async () => {
     try {
-      const data = await tripDetection.getJourney(journeyId);
+      // Start and end points inside private zones are trimmed right away
+      const data = await privateZones.trimJourney(
+        await tripDetection.getJourney(journeyId),
+      );
       setJourney(data);
 
       // Initialize editable fields
       setTransportType(data.detectedTransportType as TransportType);
       setDistanceKm(data.distanceKm.toFixed(2));
 
-      // Load real addresses from GPS coordinates
-      await loadAddressesFromCoordinates(data);
+      const template = findMatchingTemplate(
+        await commuteTemplates.getTemplates(),
+        data,
+      );
+      setMatchedTemplate(template);
+      if (template) {
+        setTransportType(template.transport_type);
+      }
+
+      const transitions = await transitionLog.getTransitions(
+        data.timeDeparture - TRANSITION_LOOKBACK_MS,
+        data.timeArrival,
+      );
+      setProposedLegs(proposeLegs(data, transitions, data.distanceKm));
+
+      await loadTrack();
     } catch (error) {
       Alert.alert('Erreur', 'Impossible de charger le trajet');
       navigation.goBack();
@@ -118,135 +164,134 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
     }
   };
 
-  const loadAddressesFromCoordinates = async (_data: LocalJourney) => {
+  const loadTrack = async () => {
+    try {
+      const points = await tripDetection.getJourneyTrack(journeyId, {
+        trimMeters: DEFAULT_TRACK_TRIM_METERS,
+      });
+      setTrack(await privateZones.trimTrack(points));
+    } catch (error) {
+      // The journey stays usable without its route
+      console.error('Failed to load journey track:', error);
+    }
+  };
+
+  const loadAddressesFromCoordinates = async (data: LocalJourney) => {
     // V1 Privacy: Ne plus afficher d'adresses réelles
-    // Affichage de libellés neutres uniquement
-    setPlaceDeparture('Début du trajet');
-    setPlaceArrival('Fin du trajet');
+    // Libellés neutres, ou "Zone privée" pour un point dans une zone privée
+    const labels = journeyPlaceLabels(data);
+    setPlaceDeparture(labels.departure);
+    setPlaceArrival(labels.arrival);
   };
 
-  const handleValidateAndSend = async () => {
+  const handleSplit = () => {
     if (!journey) {
       return;
     }
+    const edited = parseFloat(distanceKm);
+    setLegErrors([]);
+    setLegs(
+      proposedLegs ??
+        defaultLegs(
+          journey,
+          transportType,
+          isNaN(edited) ? journey.distanceKm : edited,
+        ),
+    );
+  };
 
-    setIsSending(true);
+  const handleUnsplit = () => {
+    if (legs) {
+      setTransportType(mainTransportType(legs));
+      setDistanceKm(totalLegDistance(legs).toFixed(2));
+    }
+    setLegs(null);
+  };
 
-    try {
-      // Validation avec valeurs par défaut pour tester la détection automatique
-      let finalDistance = parseFloat(distanceKm);
-      if (isNaN(finalDistance) || finalDistance <= 0) {
-        console.warn(
-          'Distance invalide, utilisation de la valeur par défaut: 0.5 km',
-        );
-        finalDistance = 0.5; // Valeur par défaut pour test
-      }
+  const handleLegsChange = (changed: LegDraft[]) => {
+    setLegs(changed);
+    setLegErrors([]);
+  };
 
-      // V1 Privacy: Forcer l'anonymisation - ne jamais envoyer d'adresses réelles
-      const finalPlaceDeparture = 'Début du trajet';
-      const finalPlaceArrival = 'Fin du trajet';
-
-      // Validation des timestamps avec valeurs par défaut
-      let timeDepartureISO: string;
-      let timeArrivalISO: string;
-
-      if (
-        !journey.timeDeparture ||
-        isNaN(journey.timeDeparture) ||
-        journey.timeDeparture <= 0
-      ) {
-        console.warn(
-          'Timestamp de départ invalide, utilisation de la date actuelle',
-        );
-        timeDepartureISO = new Date().toISOString();
-      } else {
-        const departureDate = new Date(journey.timeDeparture);
-        if (isNaN(departureDate.getTime())) {
-          console.warn(
-            'Date de départ invalide, utilisation de la date actuelle',
-          );
-          timeDepartureISO = new Date().toISOString();
-        } else {
-          timeDepartureISO = departureDate.toISOString();
-        }
-      }
+  const handleValidateAndSend = async () => {
+    if (!journey) {
+      return;
+    }
 
-      if (
-        !journey.timeArrival ||
-        isNaN(journey.timeArrival) ||
-        journey.timeArrival <= 0
-      ) {
-        console.warn(
-          "Timestamp d'arrivée invalide, utilisation de la date actuelle",
-        );
-        timeArrivalISO = new Date().toISOString();
-      } else {
-        const arrivalDate = new Date(journey.timeArrival);
-        if (isNaN(arrivalDate.getTime())) {
-          console.warn(
-            "Date d'arrivée invalide, utilisation de la date actuelle",
-          );
-          timeArrivalISO = new Date().toISOString();
-        } else {
-          timeArrivalISO = arrivalDate.toISOString();
-        }
+    if (legs) {
+      const errors = validateLegs(legs);
+      if (errors.some(Boolean)) {
+        setLegErrors(errors);
+        return;
       }
+    }
 
-      // Validation du transport type avec valeur par défaut
-      const validTransportTypes: TransportType[] = [
-        'marche',
-        'velo',
-        'transport_commun',
-        'voiture',
-      ];
-      let finalTransportType = transportType;
-      if (!validTransportTypes.includes(transportType)) {
-        console.warn(
-          `Transport type invalide (${transportType}), utilisation de "marche" par défaut`,
-        );
-        finalTransportType = 'marche';
-      }
+    setIsSending(true);
+
+    try {
+      // Validation avec valeurs par défaut pour tester la détection automatique
+      const journeyCreate = buildJourneyCreate(
+        journey,
+        legs
+          ? {
+              transportType: mainTransportType(legs),
+              distanceKm: totalLegDistance(legs),
+              legs: toJourneyLegs(legs),
+            }
+          : {transportType, distanceKm: parseFloat(distanceKm)},
+      );
 
       // Update local journey first
       await tripDetection.updateLocalJourney(journey.id, {
-        transportType: finalTransportType,
-        distanceKm: finalDistance,
-        placeDeparture: finalPlaceDeparture,
-        placeArrival: finalPlaceArrival,
+        transportType: journeyCreate.transport_type,
+        distanceKm: journeyCreate.distance_km,
+        placeDeparture: journeyCreate.place_departure,
+        placeArrival: journeyCreate.place_arrival,
       });
 
-      // Prepare journey for backend
-      const journeyCreate: JourneyCreate = {
-        place_departure: finalPlaceDeparture,
-        place_arrival: finalPlaceArrival,
-        time_departure: timeDepartureISO,
-        time_arrival: timeArrivalISO,
-        distance_km: finalDistance,
-        transport_type: finalTransportType,
-        detection_source: 'auto',
-      };
-
-      console.log('Envoi du trajet avec les données:', journeyCreate);
+      // Send to backend through the outbox (marked as sent once acknowledged)
+      const result = await journeyOutbox.submit(journey.id, journeyCreate);
 
-      // Send to backend
-      const result = await apiClient.createJourney(journeyCreate);
-
-      // Mark as sent locally
-      await tripDetection.markJourneySent(journey.id);
+      if (result.status === 'queued') {
+        Alert.alert(
+          "Trajet en attente d'envoi",
+          'Pas de connexion pour le moment. Votre trajet sera envoyé automatiquement dès que le réseau sera disponible.',
+          [{text: 'OK', onPress: () => navigation.goBack()}],
+        );
+        return;
+      }
 
       // Show reward
-      setRewardScore(result.score_journey);
+      setRewardScore(result.journey.score_journey);
       setShowReward(true);
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Erreur inconnue';
       console.error("Erreur lors de l'envoi du trajet:", error);
-      Alert.alert('Erreur', `Impossible d'envoyer le trajet: ${message}`);
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(error, "Impossible d'envoyer le trajet"),
+      );
     } finally {
       setIsSending(false);
     }
   };
 
+  const handleSaveAsTemplate = () => {
+    if (!journey) {
+      return;
+    }
+    const edited = parseFloat(distanceKm);
+    const distance = isNaN(edited) ? journey.distanceKm : edited;
+    navigation.navigate('CommuteTemplateEdit', {
+      draft: {
+        name: '',
+        transport_type: transportType,
+        distance_km: Math.round(distance * 10) / 10,
+        departure_time: formatTimeOfDay(new Date(journey.timeDeparture)),
+        duration_minutes: Math.max(Math.round(journey.durationMinutes), 1),
+      },
+    });
+  };
+
   const handleCloseReward = () => {
     setShowReward(false);
     navigation.goBack();
@@ -268,10 +313,6 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
     });
   };
 
-  const getSelectedTransport = () => {
-    return TRANSPORT_OPTIONS.find(t => t.value === transportType);
-  };
-
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -288,7 +329,12 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
     );
   }
 
-  const selectedTransport = getSelectedTransport();
+  const selectedTransport = getTransportOption(
+    legs ? mainTransportType(legs) : transportType,
+  );
+  const displayedDistance = legs
+    ? totalLegDistance(legs)
+    : parseFloat(distanceKm);
 
   return (
     <View style={styles.container}>
@@ -336,7 +382,7 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
                 <View style={styles.statItem}>
                   <Route size={14} color="#666" />
                   <Text style={styles.statText}>
-                    {parseFloat(distanceKm).toFixed(1)} km
+                    {displayedDistance.toFixed(1)} km
                   </Text>
                 </View>
                 <View style={styles.statDivider} />
@@ -372,52 +418,66 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
           </View>
         </View>
 
-        {/* Transport Type Selection */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Mode de transport</Text>
-          <View style={styles.transportGrid}>
-            {TRANSPORT_OPTIONS.map(option => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.transportOption,
-                  transportType === option.value && {
-                    borderColor: option.color,
-                    backgroundColor: option.bgColor,
-                  },
-                ]}
-                onPress={() => setTransportType(option.value)}
-                activeOpacity={0.7}>
-                <View
-                  style={[
-                    styles.transportIconContainer,
-                    {backgroundColor: option.bgColor},
-                  ]}>
-                  {option.icon}
-                </View>
-                <Text
-                  style={[
-                    styles.transportLabel,
-                    transportType === option.value && {
-                      color: option.color,
-                      fontWeight: '600',
-                    },
-                  ]}>
-                  {option.label}
-                </Text>
-                {transportType === option.value && (
-                  <View
-                    style={[
-                      styles.checkBadge,
-                      {backgroundColor: option.color},
-                    ]}>
-                    <Check size={12} color="#fff" />
-                  </View>
-                )}
+        {/* Recorded route */}
+        {track.length >= 2 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Parcours</Text>
+            <View style={[styles.detailsCard, styles.routeCard]}>
+              <JourneyRoute points={track} />
+              <Text style={styles.routeHint}>
+                {`Les ${DEFAULT_TRACK_TRIM_METERS} premiers et derniers mètres ne sont pas affichés.`}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Transport Type Selection, or one mode per leg */}
+        {legs ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Étapes</Text>
+              <TouchableOpacity onPress={handleUnsplit}>
+                <Text style={styles.sectionLink}>Un seul mode</Text>
               </TouchableOpacity>
-            ))}
+            </View>
+            <JourneyLegsEditor
+              legs={legs}
+              onChange={handleLegsChange}
+              errors={legErrors}
+            />
           </View>
-        </View>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Mode de transport</Text>
+            {proposedLegs && (
+              <View style={styles.suggestionBanner}>
+                <Split size={16} color="#1976D2" />
+                <Text style={styles.suggestionText}>
+                  Plusieurs modes de transport détectés pendant ce trajet
+                </Text>
+              </View>
+            )}
+            {matchedTemplate &&
+              matchedTemplate.transport_type === transportType && (
+                <View style={styles.suggestionBanner}>
+                  <Repeat size={16} color="#1976D2" />
+                  <Text style={styles.suggestionText}>
+                    {`Proposé d'après votre trajet habituel « ${matchedTemplate.name} »`}
+                  </Text>
+                </View>
+              )}
+            <TransportSelector
+              value={transportType}
+              onChange={setTransportType}
+            />
+            <TouchableOpacity style={styles.splitLink} onPress={handleSplit}>
+              <Split size={16} color="#2E7D32" />
+              <Text style={styles.templateLinkText}>
+                Découper en étapes (marche, train, vélo...)
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         {/* Location Details */}
         <View style={styles.section}>
@@ -432,9 +492,10 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
                 <Text style={styles.inputLabel}>Distance (km)</Text>
               </View>
               <TextInput
-                style={styles.input}
-                value={distanceKm}
+                style={[styles.input, legs && styles.inputReadOnly]}
+                value={legs ? String(totalLegDistance(legs)) : distanceKm}
                 onChangeText={setDistanceKm}
+                editable={!legs}
                 keyboardType="decimal-pad"
                 placeholder="0.00"
                 placeholderTextColor="#aaa"
@@ -481,6 +542,54 @@ export default function PendingJourneyDetailScreen(): JSX.Element {
           </View>
         </View>
 
+        {!matchedTemplate && !legs && (
+          <TouchableOpacity
+            style={styles.templateLink}
+            onPress={handleSaveAsTemplate}>
+            <Repeat size={16} color="#2E7D32" />
+            <Text style={styles.templateLinkText}>
+              Enregistrer comme trajet habituel
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {journey.startLatitude !== undefined &&
+          journey.startLongitude !== undefined && (
+            <TouchableOpacity
+              style={styles.templateLink}
+              onPress={() =>
+                navigation.navigate('PrivateZoneEdit', {
+                  draft: {
+                    latitude: journey.startLatitude as number,
+                    longitude: journey.startLongitude as number,
+                  },
+                })
+              }>
+              <MapPinOff size={16} color="#2E7D32" />
+              <Text style={styles.templateLinkText}>
+                Masquer le lieu de départ (zone privée)
+              </Text>
+            </TouchableOpacity>
+          )}
+        {journey.endLatitude !== undefined &&
+          journey.endLongitude !== undefined && (
+            <TouchableOpacity
+              style={styles.templateLink}
+              onPress={() =>
+                navigation.navigate('PrivateZoneEdit', {
+                  draft: {
+                    latitude: journey.endLatitude as number,
+                    longitude: journey.endLongitude as number,
+                  },
+                })
+              }>
+              <MapPinOff size={16} color="#2E7D32" />
+              <Text style={styles.templateLinkText}>
+                Masquer le lieu d'arrivée (zone privée)
+              </Text>
+            </TouchableOpacity>
+          )}
+
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
@@ -696,48 +805,50 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 12,
   },
-  transportGrid: {
+  sectionHeader: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    paddingHorizontal: 16,
-    gap: 10,
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
   },
-  transportOption: {
-    width: '48%',
-    backgroundColor: '#fff',
-    borderRadius: 16,
-    padding: 16,
-    alignItems: 'center',
-    borderWidth: 2,
-    borderColor: 'transparent',
-    position: 'relative',
-    shadowColor: '#000',
-    shadowOffset: {width: 0, height: 1},
-    shadowOpacity: 0.04,
-    shadowRadius: 4,
-    elevation: 1,
+  sectionLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+    paddingHorizontal: 20,
   },
-  transportIconContainer: {
-    width: 56,
-    height: 56,
-    borderRadius: 16,
+  splitLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
     justifyContent: 'center',
+    gap: 8,
+    paddingTop: 14,
+  },
+  suggestionBanner: {
+    flexDirection: 'row',
     alignItems: 'center',
-    marginBottom: 10,
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#E3F2FD',
   },
-  transportLabel: {
-    fontSize: 14,
-    color: '#666',
+  suggestionText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1976D2',
   },
-  checkBadge: {
-    position: 'absolute',
-    top: 10,
-    right: 10,
-    width: 22,
-    height: 22,
-    borderRadius: 11,
-    justifyContent: 'center',
+  templateLink: {
+    flexDirection: 'row',
     alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  templateLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
   },
   detailsCard: {
     marginHorizontal: 16,
@@ -750,6 +861,14 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  routeCard: {
+    padding: 12,
+  },
+  routeHint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 8,
+  },
   inputGroup: {
     padding: 16,
     borderBottomWidth: 1,
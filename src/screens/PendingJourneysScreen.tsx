@@ -2,7 +2,7 @@
  * Pending Journeys Screen - List of detected journeys awaiting validation
  */
 
-import React, {useState, useCallback} from 'react';
+import React, {useState, useCallback, useEffect} from 'react';
 import {
   View,
   Text,
@@ -25,9 +25,25 @@ import {
   Car,
   Bus,
   TrendingUp,
+  CloudUpload,
+  Square,
+  CheckSquare,
+  Send,
+  Merge,
+  Scissors,
 } from 'lucide-react-native';
 import tripDetection from '../native/TripDetection';
+import privateZones from '../services/private-zones';
+import journeyOutbox, {OutboxEntry} from '../services/journey-outbox';
+import {
+  BatchProgress,
+  BatchSummary,
+  rejectJourneys,
+  validateJourneys,
+} from '../services/journey-batch';
+import {BatchProgressModal, SplitJourneyModal} from '../components/ui';
 import {LocalJourney} from '../api/types';
+import {areAdjacent} from '../utils/journeys';
 
 type RootStackParamList = {
   PendingJourneys: undefined;
@@ -39,11 +55,34 @@ type NavigationProp = NativeStackNavigationProp<
   'PendingJourneys'
 >;
 
+// Local journeys already validated and waiting in the outbox
+const queuedIdsFrom = (entries: OutboxEntry[]): Set<number> =>
+  new Set(
+    entries
+      .map(entry => entry.localJourneyId)
+      .filter((id): id is number => id !== null),
+  );
+
 export default function PendingJourneysScreen(): JSX.Element {
   const navigation = useNavigation<NavigationProp>();
   const [journeys, setJourneys] = useState<LocalJourney[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [queuedIds, setQueuedIds] = useState<Set<number>>(new Set());
+
+  // Multi-select mode
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [batchTitle, setBatchTitle] = useState('');
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(
+    null,
+  );
+  const [batchLabels, setBatchLabels] = useState<Map<number, string>>(
+    new Map(),
+  );
+  // Journey being split, null when the split modal is closed
+  const [splitTarget, setSplitTarget] = useState<LocalJourney | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -51,10 +90,22 @@ export default function PendingJourneysScreen(): JSX.Element {
     }, []),
   );
 
+  // Reload when the outbox drains (sent journeys leave the pending list)
+  useEffect(() => {
+    return journeyOutbox.addListener(() => {
+      loadJourneys();
+    });
+  }, []);
+
   const loadJourneys = async () => {
     try {
-      const pending = await tripDetection.getPendingJourneys();
-      setJourneys(pending);
+      const [pending, entries] = await Promise.all([
+        tripDetection.getPendingJourneys(),
+        journeyOutbox.getEntries(),
+      ]);
+      // Start and end points inside private zones never reach the screen
+      setJourneys(await privateZones.trimJourneys(pending));
+      setQueuedIds(queuedIdsFrom(entries));
     } catch (error) {
       console.error('Failed to load journeys:', error);
       Alert.alert('Erreur', 'Impossible de charger les trajets');
@@ -91,6 +142,182 @@ export default function PendingJourneysScreen(): JSX.Element {
     );
   };
 
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      selectedIds.size === journeys.length
+        ? new Set()
+        : new Set(journeys.map(j => j.id)),
+    );
+  };
+
+  const getSelectedJourneys = (): LocalJourney[] =>
+    journeys.filter(j => selectedIds.has(j.id));
+
+  const runBatch = async (
+    title: string,
+    run: (
+      onProgress: (progress: BatchProgress) => void,
+    ) => Promise<BatchSummary>,
+  ) => {
+    // Freeze labels: journeys disappear from the list while the batch runs
+    setBatchLabels(
+      new Map(
+        getSelectedJourneys().map(j => [
+          j.id,
+          `${getTransportLabel(j.detectedTransportType)} - ${formatDate(
+            j.timeDeparture,
+          )}`,
+        ]),
+      ),
+    );
+    setBatchTitle(title);
+    await run(setBatchProgress);
+    exitSelectionMode();
+    await loadJourneys();
+  };
+
+  const handleValidateSelected = () => {
+    const selected = getSelectedJourneys();
+    Alert.alert(
+      `Valider ${selected.length} trajet${selected.length > 1 ? 's' : ''} ?`,
+      'Les trajets seront envoyés avec le mode de transport détecté.',
+      [
+        {text: 'Annuler', style: 'cancel'},
+        {
+          text: 'Valider',
+          onPress: () =>
+            runBatch('Validation des trajets', onProgress =>
+              validateJourneys(selected, onProgress),
+            ),
+        },
+      ],
+    );
+  };
+
+  const handleRejectSelected = () => {
+    const selected = getSelectedJourneys();
+    Alert.alert(
+      `Supprimer ${selected.length} trajet${selected.length > 1 ? 's' : ''} ?`,
+      'Cette action est irréversible.',
+      [
+        {text: 'Annuler', style: 'cancel'},
+        {
+          text: 'Supprimer',
+          style: 'destructive',
+          onPress: () =>
+            runBatch('Suppression des trajets', onProgress =>
+              rejectJourneys(
+                selected.map(j => j.id),
+                onProgress,
+              ),
+            ),
+        },
+      ],
+    );
+  };
+
+  const handleMergeSelected = () => {
+    const selected = getSelectedJourneys();
+    if (selected.length < 2) {
+      Alert.alert('Fusion', 'Sélectionnez au moins deux trajets à fusionner');
+      return;
+    }
+    if (!areAdjacent(journeys, selectedIds)) {
+      Alert.alert(
+        'Fusion',
+        'Seuls des trajets qui se suivent peuvent être fusionnés',
+      );
+      return;
+    }
+    Alert.alert(
+      `Fusionner ${selected.length} trajets ?`,
+      'Les trajets seront regroupés en un seul (distances additionnées).',
+      [
+        {text: 'Annuler', style: 'cancel'},
+        {
+          text: 'Fusionner',
+          onPress: async () => {
+            try {
+              await Promise.all(
+                selected.map(j => journeyOutbox.removeJourney(j.id)),
+              );
+              await tripDetection.mergeJourneys(selected.map(j => j.id));
+              exitSelectionMode();
+              await loadJourneys();
+            } catch (error) {
+              console.error('Failed to merge journeys:', error);
+              Alert.alert('Erreur', 'Impossible de fusionner les trajets');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleSplitSelected = () => {
+    const [selected] = getSelectedJourneys();
+    if (selected) {
+      setSplitTarget(selected);
+    }
+  };
+
+  const handleConfirmSplit = async (timestamp: number) => {
+    if (!splitTarget) {
+      return;
+    }
+    setIsSplitting(true);
+    try {
+      await journeyOutbox.removeJourney(splitTarget.id);
+      await tripDetection.splitJourney(splitTarget.id, timestamp);
+      setSplitTarget(null);
+      exitSelectionMode();
+      await loadJourneys();
+    } catch (error) {
+      console.error('Failed to split journey:', error);
+      Alert.alert('Erreur', 'Impossible de couper le trajet');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  const handleCloseBatch = () => {
+    const items = batchProgress?.items ?? [];
+    const failed = items.filter(i => i.status === 'failed').length;
+    const queued = items.filter(i => i.status === 'queued').length;
+    setBatchProgress(null);
+
+    if (failed > 0) {
+      Alert.alert(
+        'Traitement partiel',
+        `${items.length - failed} sur ${items.length} trajets traités, ` +
+          `${failed} en échec. Les trajets en échec restent dans la liste.`,
+      );
+    } else if (queued > 0) {
+      Alert.alert(
+        "Trajets en attente d'envoi",
+        `${queued} trajet${queued > 1 ? 's' : ''} sera envoyé ` +
+          'automatiquement dès que le réseau sera disponible.',
+      );
+    }
+  };
+
   const getTransportLabel = (type: string): string => {
     const labels: Record<string, string> = {
       marche: 'Marche',
@@ -164,8 +391,14 @@ export default function PendingJourneysScreen(): JSX.Element {
         index === journeys.length - 1 && styles.journeyCardLast,
       ]}
       onPress={() =>
-        navigation.navigate('PendingJourneyDetail', {journeyId: item.id})
+        selectionMode
+          ? toggleSelected(item.id)
+          : navigation.navigate('PendingJourneyDetail', {journeyId: item.id})
       }
+      onLongPress={() => {
+        setSelectionMode(true);
+        toggleSelected(item.id);
+      }}
       activeOpacity={0.8}>
       <View style={styles.journeyHeader}>
         <View
@@ -183,12 +416,20 @@ export default function PendingJourneysScreen(): JSX.Element {
             {formatDate(item.timeDeparture)}
           </Text>
         </View>
-        <TouchableOpacity
-          style={styles.deleteButton}
-          onPress={() => handleDelete(item.id)}
-          hitSlop={{top: 10, bottom: 10, left: 10, right: 10}}>
-          <Trash2 size={18} color="#F44336" />
-        </TouchableOpacity>
+        {selectionMode ? (
+          selectedIds.has(item.id) ? (
+            <CheckSquare size={24} color="#2E7D32" />
+          ) : (
+            <Square size={24} color="#bbb" />
+          )
+        ) : (
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => handleDelete(item.id)}
+            hitSlop={{top: 10, bottom: 10, left: 10, right: 10}}>
+            <Trash2 size={18} color="#F44336" />
+          </TouchableOpacity>
+        )}
       </View>
 
       <View style={styles.journeyDetails}>
@@ -223,10 +464,19 @@ export default function PendingJourneysScreen(): JSX.Element {
         </View>
       </View>
 
-      <View style={styles.journeyFooter}>
-        <Text style={styles.validateHint}>Appuyer pour valider</Text>
-        <ChevronRight size={18} color="#2E7D32" />
-      </View>
+      {queuedIds.has(item.id) ? (
+        <View style={[styles.journeyFooter, styles.journeyFooterQueued]}>
+          <CloudUpload size={18} color="#E65100" />
+          <Text style={[styles.validateHint, styles.queuedHint]}>
+            Validé, envoi en attente de réseau
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.journeyFooter}>
+          <Text style={styles.validateHint}>Appuyer pour valider</Text>
+          <ChevronRight size={18} color="#2E7D32" />
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -244,10 +494,77 @@ export default function PendingJourneysScreen(): JSX.Element {
 
   const renderHeader = () => (
     <View style={styles.headerSection}>
-      <Text style={styles.headerTitle}>À valider</Text>
-      <Text style={styles.headerSubtitle}>
-        {journeys.length} trajet{journeys.length !== 1 ? 's' : ''} en attente
-      </Text>
+      <View style={styles.headerRow}>
+        <Text style={styles.headerTitle}>À valider</Text>
+        <TouchableOpacity
+          onPress={() =>
+            selectionMode ? exitSelectionMode() : setSelectionMode(true)
+          }>
+          <Text style={styles.headerAction}>
+            {selectionMode ? 'Annuler' : 'Sélectionner'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {selectionMode ? (
+        <View style={styles.headerRow}>
+          <Text style={styles.headerSubtitle}>
+            {selectedIds.size} sélectionné{selectedIds.size > 1 ? 's' : ''}
+          </Text>
+          <TouchableOpacity onPress={toggleSelectAll}>
+            <Text style={styles.headerAction}>
+              {selectedIds.size === journeys.length
+                ? 'Tout désélectionner'
+                : 'Tout sélectionner'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Text style={styles.headerSubtitle}>
+          {journeys.length} trajet{journeys.length !== 1 ? 's' : ''} en attente
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderSelectionBar = () => (
+    <View style={styles.selectionBar}>
+      <TouchableOpacity
+        style={[styles.selectionButton, styles.selectionButtonPrimary]}
+        onPress={handleValidateSelected}
+        disabled={selectedIds.size === 0}>
+        <Send size={18} color="#fff" />
+        <Text style={[styles.selectionButtonText, styles.selectionTextLight]}>
+          Valider
+        </Text>
+      </TouchableOpacity>
+      {selectedIds.size === 1 ? (
+        <TouchableOpacity
+          style={styles.selectionButton}
+          onPress={handleSplitSelected}>
+          <Scissors size={18} color="#1976D2" />
+          <Text style={[styles.selectionButtonText, styles.selectionTextMerge]}>
+            Couper
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.selectionButton}
+          onPress={handleMergeSelected}>
+          <Merge size={18} color="#1976D2" />
+          <Text style={[styles.selectionButtonText, styles.selectionTextMerge]}>
+            Fusionner
+          </Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.selectionButton, styles.selectionButtonDanger]}
+        onPress={handleRejectSelected}
+        disabled={selectedIds.size === 0}>
+        <Trash2 size={18} color="#E53935" />
+        <Text style={[styles.selectionButtonText, styles.selectionTextDanger]}>
+          Rejeter
+        </Text>
+      </TouchableOpacity>
     </View>
   );
 
@@ -265,7 +582,10 @@ export default function PendingJourneysScreen(): JSX.Element {
         data={journeys}
         renderItem={renderJourney}
         keyExtractor={item => item.id.toString()}
-        contentContainerStyle={styles.listContent}
+        contentContainerStyle={[
+          styles.listContent,
+          selectionMode && styles.listContentWithBar,
+        ]}
         showsVerticalScrollIndicator={false}
         refreshControl={
           <RefreshControl
@@ -278,6 +598,23 @@ export default function PendingJourneysScreen(): JSX.Element {
         ListHeaderComponent={journeys.length > 0 ? renderHeader : null}
         ListEmptyComponent={renderEmpty}
       />
+
+      {selectionMode && selectedIds.size > 0 && renderSelectionBar()}
+
+      <BatchProgressModal
+        visible={batchProgress !== null}
+        title={batchTitle}
+        progress={batchProgress}
+        getItemLabel={id => batchLabels.get(id) ?? `Trajet #${id}`}
+        onClose={handleCloseBatch}
+      />
+
+      <SplitJourneyModal
+        journey={splitTarget}
+        loading={isSplitting}
+        onCancel={() => setSplitTarget(null)}
+        onConfirm={handleConfirmSplit}
+      />
     </View>
   );
 }
@@ -298,6 +635,9 @@ const styles = StyleSheet.create({
     paddingTop: 55,
     flexGrow: 1,
   },
+  listContentWithBar: {
+    paddingBottom: 110,
+  },
   headerSection: {
     marginBottom: 16,
   },
@@ -311,6 +651,58 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  selectionBar: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    gap: 10,
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+  selectionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: '#E3F2FD',
+  },
+  selectionButtonPrimary: {
+    backgroundColor: '#2E7D32',
+  },
+  selectionButtonDanger: {
+    backgroundColor: '#FFEBEE',
+  },
+  selectionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  selectionTextLight: {
+    color: '#fff',
+  },
+  selectionTextMerge: {
+    color: '#1976D2',
+  },
+  selectionTextDanger: {
+    color: '#E53935',
+  },
   journeyCard: {
     backgroundColor: '#fff',
     borderRadius: 20,
@@ -404,6 +796,13 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginRight: 4,
   },
+  journeyFooterQueued: {
+    backgroundColor: '#FFF3E0',
+    gap: 6,
+  },
+  queuedHint: {
+    color: '#E65100',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
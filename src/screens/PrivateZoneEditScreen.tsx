@@ -0,0 +1,201 @@
+/**
+ * Private Zone Edit Screen
+ * Create, edit or delete a private zone (center and radius)
+ */
+
+import React, {useState} from 'react';
+import {View, StyleSheet, ScrollView, Alert, Keyboard} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {Circle, MapPin, Save, Tag, Trash2} from 'lucide-react-native';
+
+import privateZones from '@/services/private-zones';
+import {ActionButton, FormField} from '@/components/ui';
+import {FieldErrors} from '@/utils/validation';
+import {
+  PRIVATE_ZONE_RADIUS,
+  PrivateZone,
+  PrivateZoneInput,
+  validatePrivateZone,
+} from '@/utils/privateZones';
+
+type RootStackParamList = {
+  // zone: edit it; draft: new zone centered on a point (e.g. a trip start)
+  PrivateZoneEdit:
+    | {zone?: PrivateZone; draft?: {latitude: number; longitude: number}}
+    | undefined;
+};
+
+type RouteType = RouteProp<RootStackParamList, 'PrivateZoneEdit'>;
+
+function parseCoordinate(value: string): number {
+  return value.trim() === '' ? NaN : Number(value.replace(',', '.'));
+}
+
+export default function PrivateZoneEditScreen(): JSX.Element {
+  const navigation = useNavigation();
+  const route = useRoute<RouteType>();
+  const existing = route.params?.zone;
+  const center = existing ?? route.params?.draft;
+
+  const [name, setName] = useState(existing?.name ?? '');
+  const [latitude, setLatitude] = useState(
+    center ? String(center.latitude) : '',
+  );
+  const [longitude, setLongitude] = useState(
+    center ? String(center.longitude) : '',
+  );
+  const [radius, setRadius] = useState(
+    String(existing?.radiusMeters ?? PRIVATE_ZONE_RADIUS.default),
+  );
+  const [errors, setErrors] = useState<FieldErrors<PrivateZoneInput>>({});
+  const [saving, setSaving] = useState(false);
+
+  const clearError = (field: keyof PrivateZoneInput) =>
+    setErrors(previous => ({...previous, [field]: undefined}));
+
+  const handleSave = async () => {
+    Keyboard.dismiss();
+    const zone: PrivateZoneInput = {
+      id: existing?.id,
+      name: name.trim(),
+      latitude: parseCoordinate(latitude),
+      longitude: parseCoordinate(longitude),
+      radiusMeters: Number(radius),
+    };
+    const validation = validatePrivateZone(zone);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await privateZones.saveZone(zone);
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save private zone:', error);
+      Alert.alert('Erreur', "Impossible d'enregistrer la zone privee");
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) {
+      return;
+    }
+    Alert.alert('Supprimer cette zone privee ?', existing.name, [
+      {text: 'Annuler', style: 'cancel'},
+      {
+        text: 'Supprimer',
+        style: 'destructive',
+        onPress: async () => {
+          await privateZones.deleteZone(existing.id);
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <FormField
+          label="Nom"
+          value={name}
+          onChangeText={text => {
+            setName(text);
+            clearError('name');
+          }}
+          placeholder="Ex : Domicile"
+          autoCapitalize="sentences"
+          icon={<Tag size={18} color="#666" />}
+          error={errors.name}
+        />
+        <FormField
+          label="Latitude du centre"
+          value={latitude}
+          onChangeText={text => {
+            setLatitude(text);
+            clearError('latitude');
+          }}
+          placeholder="Ex : 48,8566"
+          keyboardType="numbers-and-punctuation"
+          icon={<MapPin size={18} color="#666" />}
+          error={errors.latitude}
+        />
+        <FormField
+          label="Longitude du centre"
+          value={longitude}
+          onChangeText={text => {
+            setLongitude(text);
+            clearError('longitude');
+          }}
+          placeholder="Ex : 2,3522"
+          keyboardType="numbers-and-punctuation"
+          icon={<MapPin size={18} color="#666" />}
+          error={errors.longitude}
+        />
+        <FormField
+          label="Rayon (m)"
+          value={radius}
+          onChangeText={text => {
+            setRadius(text);
+            clearError('radiusMeters');
+          }}
+          placeholder={`${PRIVATE_ZONE_RADIUS.min} - ${PRIVATE_ZONE_RADIUS.max}`}
+          keyboardType="number-pad"
+          icon={<Circle size={18} color="#666" />}
+          error={errors.radiusMeters}
+        />
+      </View>
+
+      <ActionButton
+        title="Enregistrer"
+        onPress={handleSave}
+        loading={saving}
+        icon={<Save size={20} color="#fff" />}
+        style={styles.button}
+      />
+      {existing && (
+        <ActionButton
+          title="Supprimer"
+          onPress={handleDelete}
+          variant="danger"
+          icon={<Trash2 size={20} color="#E53935" />}
+          style={styles.button}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingVertical: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    paddingBottom: 0,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 2},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  button: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+});
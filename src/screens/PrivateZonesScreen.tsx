@@ -0,0 +1,135 @@
+/**
+ * Private Zones Screen
+ * List the places whose GPS coordinates are trimmed from detected trips
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {ChevronRight, Plus, ShieldCheck} from 'lucide-react-native';
+
+import privateZones from '@/services/private-zones';
+import {ActionButton} from '@/components/ui';
+import {PrivateZone} from '@/utils/privateZones';
+
+type RootStackParamList = {
+  PrivateZones: undefined;
+  PrivateZoneEdit: {zone?: PrivateZone} | undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'PrivateZones'
+>;
+
+export default function PrivateZonesScreen(): JSX.Element {
+  const navigation = useNavigation<NavigationProp>();
+  const [zones, setZones] = useState<PrivateZone[]>([]);
+
+  useEffect(() => privateZones.addListener(setZones), []);
+
+  useFocusEffect(
+    useCallback(() => {
+      privateZones.getZones().then(setZones);
+    }, []),
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.introText}>
+        Les trajets qui commencent ou finissent dans une zone privee (domicile,
+        ...) n'en gardent pas les coordonnees GPS : elles ne sont ni affichees
+        ni envoyees. Les zones restent sur ce telephone.
+      </Text>
+
+      {zones.map(zone => (
+        <TouchableOpacity
+          key={zone.id}
+          style={styles.zoneCard}
+          onPress={() => navigation.navigate('PrivateZoneEdit', {zone})}
+          activeOpacity={0.8}>
+          <View style={styles.zoneIcon}>
+            <ShieldCheck size={24} color="#2E7D32" />
+          </View>
+          <View style={styles.zoneContent}>
+            <Text style={styles.zoneName}>{zone.name}</Text>
+            <Text style={styles.zoneDetails}>Rayon {zone.radiusMeters} m</Text>
+          </View>
+          <ChevronRight size={20} color="#ccc" />
+        </TouchableOpacity>
+      ))}
+
+      <ActionButton
+        title="Ajouter une zone privee"
+        onPress={() => navigation.navigate('PrivateZoneEdit')}
+        variant="secondary"
+        icon={<Plus size={20} color="#2E7D32" />}
+        style={styles.addButton}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  zoneCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.04,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  zoneIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 14,
+    backgroundColor: '#E8F5E9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  zoneContent: {
+    flex: 1,
+  },
+  zoneName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  zoneDetails: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  addButton: {
+    marginTop: 6,
+  },
+});
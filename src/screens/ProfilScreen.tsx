@@ -11,18 +11,34 @@ import {
   RefreshControl,
   ActivityIndicator,
   Text,
+  Alert,
+  Share,
 } from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {
   Building2,
   MapPin,
   Hash,
   LogOut,
   AlertCircle,
+  KeyRound,
+  UserPen,
+  FileJson,
+  FileSpreadsheet,
+  Trash2,
+  ShieldCheck,
+  MapPinOff,
 } from 'lucide-react-native';
 
 import {useAuth} from '@/context/AuthContext';
 import {apiClient} from '@/api/client';
-import {UserProfile, Company, Team, UserBadge} from '@/api/types';
+import {getErrorMessage} from '@/api/errors';
+import {queries} from '@/api/queries';
+import {useQuery} from '@/hooks/useQuery';
+import {Company, Team, UserBadge} from '@/api/types';
+import {RootStackParamList} from '@/navigation/AppNavigator';
+import {buildPersonalDataExport, toCsv, toJson} from '@/services/personal-data';
 import {
   ProfileHeader,
   InfoCard,
@@ -30,65 +46,67 @@ import {
   ActionButton,
   BadgeDisplay,
   TeamSection,
+  DetectionSettingsCard,
 } from '@/components/ui';
 
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
 export default function ProfilScreen(): JSX.Element {
+  const navigation = useNavigation<NavigationProp>();
   const {userId, logout} = useAuth();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  // Shared with EditProfile: refetched when the profile or team changes
+  const profileQuery = useQuery(userId ? queries.userProfile(userId) : null);
+  const userProfile = profileQuery.data ?? null;
   const [company, setCompany] = useState<Company | null>(null);
   const [team, setTeam] = useState<Team | null>(null);
   const [badges, setBadges] = useState<UserBadge[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [exporting, setExporting] = useState<'json' | 'csv' | null>(null);
 
-  const fetchProfileData = useCallback(async () => {
+  const companyId = userProfile?.company_id;
+  const teamId = userProfile?.team_id;
+  const {refetch: refetchProfile} = profileQuery;
+
+  // Company, team and badges, reloaded when the profile points elsewhere
+  const fetchProfileDetails = useCallback(async () => {
     if (!userId) {
-      setError('Utilisateur non connecte');
-      setLoading(false);
       return;
     }
-
-    try {
-      setError(null);
-
-      // Fetch user profile
-      const profile = await apiClient.getUserProfile(userId);
-      setUserProfile(profile);
-
-      // Fetch company, team and badges in parallel
-      const [companyData, teamData, badgesData] = await Promise.all([
-        profile.company_id
-          ? apiClient.getCompany(profile.company_id).catch(() => null)
-          : Promise.resolve(null),
-        profile.team_id
-          ? apiClient.getTeam(profile.team_id).catch(() => null)
-          : Promise.resolve(null),
-        apiClient.getUserBadges(userId).catch(() => []),
-      ]);
-
-      setCompany(companyData);
-      setTeam(teamData);
-      setBadges(badgesData);
-    } catch (err) {
-      console.error('Error fetching profile data:', err);
-      setError('Impossible de charger le profil');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [userId]);
+    const [companyData, teamData, badgesData] = await Promise.all([
+      companyId
+        ? apiClient.getCompany(companyId).catch(() => null)
+        : Promise.resolve(null),
+      teamId
+        ? apiClient.getTeam(teamId).catch(() => null)
+        : Promise.resolve(null),
+      apiClient.getUserBadges(userId).catch(() => []),
+    ]);
+    setCompany(companyData);
+    setTeam(teamData);
+    setBadges(badgesData);
+  }, [userId, companyId, teamId]);
 
   useEffect(() => {
-    fetchProfileData();
-  }, [fetchProfileData]);
+    fetchProfileDetails();
+  }, [fetchProfileDetails]);
 
-  const onRefresh = useCallback(() => {
+  const fetchProfileData = useCallback(async () => {
+    await Promise.all([refetchProfile(), fetchProfileDetails()]);
+  }, [refetchProfile, fetchProfileDetails]);
+
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    fetchProfileData();
+    await fetchProfileData();
+    setRefreshing(false);
   }, [fetchProfileData]);
 
+  const error = !userId
+    ? 'Utilisateur non connecte'
+    : profileQuery.error
+    ? 'Impossible de charger le profil'
+    : null;
+
   const handleLogout = async () => {
     setLoggingOut(true);
     try {
@@ -100,7 +118,29 @@ export default function ProfilScreen(): JSX.Element {
     }
   };
 
-  if (loading) {
+  // Shared as text: the user picks where to keep it (mail, drive...)
+  const handleExport = async (format: 'json' | 'csv') => {
+    if (!userId) {
+      return;
+    }
+    setExporting(format);
+    try {
+      const data = await buildPersonalDataExport(userId);
+      await Share.share({
+        title: 'Mes donnees Green Mobility Pass',
+        message: format === 'json' ? toJson(data) : toCsv(data),
+      });
+    } catch (err) {
+      Alert.alert(
+        'Export impossible',
+        getErrorMessage(err, "Impossible d'exporter vos donnees"),
+      );
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (profileQuery.isLoading) {
     return (
       <View style={styles.centered}>
         <ActivityIndicator size="large" color="#2E7D32" />
@@ -191,6 +231,66 @@ export default function ProfilScreen(): JSX.Element {
         />
       )}
 
+      {/* Account */}
+      <View style={styles.accountActions}>
+        <ActionButton
+          title="Modifier le profil"
+          onPress={() => navigation.navigate('EditProfile')}
+          variant="secondary"
+          icon={<UserPen size={20} color="#2E7D32" />}
+        />
+        <ActionButton
+          title="Changer le mot de passe"
+          onPress={() => navigation.navigate('ChangePassword')}
+          variant="outline"
+          icon={<KeyRound size={20} color="#2E7D32" />}
+        />
+      </View>
+
+      {/* Trip detection thresholds */}
+      <DetectionSettingsCard />
+
+      {/* Personal data (GDPR) */}
+      <InfoCard
+        title="Mes donnees"
+        icon={<ShieldCheck size={20} color="#2E7D32" />}>
+        <Text style={styles.dataText}>
+          Exportez tout ce que l'application et le serveur conservent sur vous
+          (profil, trajets, badges, achats, donnees du telephone), ou supprimez
+          votre compte.
+        </Text>
+        <View style={styles.dataActions}>
+          <ActionButton
+            title="Zones privees"
+            onPress={() => navigation.navigate('PrivateZones')}
+            variant="outline"
+            icon={<MapPinOff size={20} color="#2E7D32" />}
+          />
+          <ActionButton
+            title="Exporter (JSON)"
+            onPress={() => handleExport('json')}
+            variant="outline"
+            loading={exporting === 'json'}
+            disabled={exporting !== null}
+            icon={<FileJson size={20} color="#2E7D32" />}
+          />
+          <ActionButton
+            title="Exporter (CSV)"
+            onPress={() => handleExport('csv')}
+            variant="outline"
+            loading={exporting === 'csv'}
+            disabled={exporting !== null}
+            icon={<FileSpreadsheet size={20} color="#2E7D32" />}
+          />
+          <ActionButton
+            title="Supprimer mon compte"
+            onPress={() => navigation.navigate('DeleteAccount')}
+            variant="danger"
+            icon={<Trash2 size={20} color="#E53935" />}
+          />
+        </View>
+      </InfoCard>
+
       {/* Logout Button */}
       <View style={styles.logoutContainer}>
         <ActionButton
@@ -253,6 +353,21 @@ const styles = StyleSheet.create({
     shadowRadius: 12,
     elevation: 5,
   },
+  accountActions: {
+    paddingHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 16,
+    gap: 12,
+  },
+  dataText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  dataActions: {
+    marginTop: 12,
+    gap: 10,
+  },
   logoutContainer: {
     paddingHorizontal: 16,
     marginTop: 8,
@@ -19,8 +19,12 @@ import {useFocusEffect, useNavigation} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {useAuth} from '../context/AuthContext';
 import {apiClient} from '../api/client';
+import {getErrorMessage, isCancelled} from '../api/errors';
+import {queries} from '../api/queries';
+import {queryCache} from '../api/query-cache';
 import {ShopItem, Wallet} from '../api/types';
 import {Icon} from '../components/ui';
+import {useRequestSignal} from '../hooks/useRequestSignal';
 import {RootStackParamList} from '../navigation/AppNavigator';
 
 type ItemCategory = 'ALL' | 'MOBILITY' | 'WELLBEING' | 'STATUS' | 'DONATION';
@@ -38,6 +42,7 @@ export default function ShopScreen(): JSX.Element {
   const [confirmModalVisible, setConfirmModalVisible] = useState(false);
   const [selectedItem, setSelectedItem] = useState<ShopItem | null>(null);
   const [purchasing, setPurchasing] = useState(false);
+  const getSignal = useRequestSignal();
 
   useFocusEffect(
     useCallback(() => {
@@ -47,19 +52,28 @@ export default function ShopScreen(): JSX.Element {
   );
 
   const loadShopData = async () => {
+    const signal = getSignal();
     setIsLoading(true);
     try {
       const [itemsData, walletData] = await Promise.all([
-        apiClient.getShopItems(),
-        user?.id ? apiClient.getWallet(user.id) : Promise.resolve(null),
+        apiClient.getShopItems({signal}),
+        // Shared with other screens, refetched after purchases
+        user?.id
+          ? queryCache.fetch(queries.wallet(user.id))
+          : Promise.resolve(null),
       ]);
       setItems(itemsData);
       setWallet(walletData);
     } catch (error) {
+      if (isCancelled(error)) {
+        return;
+      }
       console.error('Failed to load shop data:', error);
       Alert.alert('Erreur', 'Impossible de charger les données du shop');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -89,7 +103,10 @@ export default function ShopScreen(): JSX.Element {
       await loadShopData();
     } catch (error) {
       console.error('Purchase failed:', error);
-      Alert.alert('Erreur', "Impossible d'acheter cet item");
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(error, "Impossible d'acheter cet item"),
+      );
     } finally {
       setPurchasing(false);
     }
@@ -53,8 +53,8 @@ export default function TeamMembersScreen(): JSX.Element {
       console.log('[TeamMembersScreen] Received members:', JSON.stringify(data));
       // Trier par score décroissant et ajouter le rang
       const sorted = data
-        .sort((a: any, b: any) => (b.score_total || 0) - (a.score_total || 0))
-        .map((member: any, index: number) => ({
+        .sort((a, b) => (b.score_total || 0) - (a.score_total || 0))
+        .map((member, index) => ({
           ...member,
           rank: index + 1,
         }));
@@ -22,15 +22,33 @@ import {
   Route,
   CheckCircle,
   AlertCircle,
+  PlusCircle,
+  Repeat,
+  Send,
+  Activity,
+  CalendarClock,
+  Pause,
+  Play,
 } from 'lucide-react-native';
 import {useAuth} from '../context/AuthContext';
 import tripDetection from '../native/TripDetection';
-import {LocalJourney} from '../api/types';
+import commuteTemplates from '../services/commute-templates';
+import detectionScheduler, {
+  ScheduleStatus,
+} from '../services/detection-schedule';
+import {getErrorMessage} from '../api/errors';
+import {CommuteTemplate, LocalJourney} from '../api/types';
+import {getTransportOption} from '../components/ui';
+import {templateToManualJourney} from '../utils/commuteTemplates';
+import {describeSchedule, formatScheduleTime} from '../utils/detectionSchedule';
 
 type RootStackParamList = {
   Trips: undefined;
   PendingJourneys: undefined;
   ValidatedJourneys: undefined;
+  DeclareJourney: {template?: CommuteTemplate} | undefined;
+  CommuteTemplates: undefined;
+  DetectionSchedule: undefined;
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Trips'>;
@@ -43,6 +61,10 @@ export default function TripsScreen(): JSX.Element {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [isDetectionActive, setIsDetectionActive] = useState(false);
+  const [templates, setTemplates] = useState<CommuteTemplate[]>([]);
+  const [scheduleStatus, setScheduleStatus] = useState<ScheduleStatus | null>(
+    null,
+  );
 
   // Load data on focus
   useFocusEffect(
@@ -71,16 +93,31 @@ export default function TripsScreen(): JSX.Element {
       },
     );
 
+    const unsubscribeTemplates = commuteTemplates.addListener(setTemplates);
+
+    // The schedule starts and stops detection: refresh the running state too
+    const unsubscribeSchedule = detectionScheduler.addListener(status => {
+      setScheduleStatus(status);
+      checkDetectionStatus();
+    });
+
     return () => {
       unsubscribeTripDetected?.();
       unsubscribeStateChange?.();
+      unsubscribeTemplates();
+      unsubscribeSchedule();
     };
   }, []);
 
   const loadData = async () => {
     setIsLoading(true);
     try {
-      await Promise.all([loadPendingCount(), checkDetectionStatus()]);
+      await Promise.all([
+        loadPendingCount(),
+        checkDetectionStatus(),
+        commuteTemplates.getTemplates().then(setTemplates),
+        detectionScheduler.getStatus().then(setScheduleStatus),
+      ]);
     } finally {
       setIsLoading(false);
     }
@@ -104,6 +141,76 @@ export default function TripsScreen(): JSX.Element {
     }
   };
 
+  // One tap declares the last occurrence, "Modifier" opens it pre-filled
+  const handleTemplatePress = (template: CommuteTemplate) => {
+    const {departure} = templateToManualJourney(template);
+    const day =
+      departure.toDateString() === new Date().toDateString()
+        ? "aujourd'hui"
+        : 'hier';
+    Alert.alert(
+      `Déclarer « ${template.name} » ?`,
+      `${getTransportLabel(template.transport_type)} ${day} à ${
+        template.departure_time
+      }, ${template.distance_km} km`,
+      [
+        {text: 'Annuler', style: 'cancel'},
+        {
+          text: 'Modifier',
+          onPress: () => navigation.navigate('DeclareJourney', {template}),
+        },
+        {text: 'Déclarer', onPress: () => declareTemplate(template)},
+      ],
+    );
+  };
+
+  const declareTemplate = async (template: CommuteTemplate) => {
+    try {
+      const result = await commuteTemplates.declare(template);
+      if (result.status === 'queued') {
+        Alert.alert(
+          "Trajet en attente d'envoi",
+          'Il sera envoyé automatiquement dès que le réseau sera disponible.',
+        );
+      } else {
+        Alert.alert(
+          'Trajet déclaré',
+          `Vous avez gagné ${result.journey.score_journey} points.`,
+        );
+      }
+    } catch (error) {
+      Alert.alert(
+        'Erreur',
+        getErrorMessage(error, "Impossible d'envoyer le trajet"),
+      );
+    }
+  };
+
+  const handlePauseToggle = async () => {
+    try {
+      if (scheduleStatus?.pausedUntil) {
+        await detectionScheduler.resume();
+      } else {
+        await detectionScheduler.pauseForToday();
+      }
+    } catch (error) {
+      console.error('Failed to toggle detection pause:', error);
+    }
+  };
+
+  const getScheduleSubtitle = (status: ScheduleStatus): string => {
+    const next = status.nextChange
+      ? formatScheduleTime(new Date(status.nextChange))
+      : null;
+    if (status.pausedUntil) {
+      return next ? `En pause, reprise ${next}` : "En pause jusqu'à demain";
+    }
+    if (!status.schedule.enabled || !next) {
+      return describeSchedule(status.schedule);
+    }
+    return status.active ? `Jusqu'à ${next}` : `Prochaine plage ${next}`;
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadData();
@@ -146,6 +253,74 @@ export default function TripsScreen(): JSX.Element {
         <Text style={styles.headerTitle}>Mes Trajets</Text>
       </View>
 
+      {/* Detection Status Card */}
+      {scheduleStatus && (
+        <View style={styles.statusCard}>
+          <View style={styles.statusCardContent}>
+            <View style={styles.statusHeader}>
+              <View
+                style={[
+                  styles.statusIconContainer,
+                  isDetectionActive
+                    ? styles.statusIconActive
+                    : styles.statusIconInactive,
+                ]}>
+                <Activity size={24} color="#fff" />
+              </View>
+              <View style={styles.statusTextContainer}>
+                <Text style={styles.statusTitle}>Détection des trajets</Text>
+                <Text style={styles.statusSubtitle}>
+                  {getScheduleSubtitle(scheduleStatus)}
+                </Text>
+              </View>
+            </View>
+            <View
+              style={[
+                styles.statusBadge,
+                isDetectionActive ? styles.badgeActive : styles.badgeInactive,
+              ]}>
+              <View
+                style={[
+                  styles.statusDot,
+                  isDetectionActive ? styles.dotActive : styles.dotInactive,
+                ]}
+              />
+              <Text
+                style={[
+                  styles.statusBadgeText,
+                  isDetectionActive
+                    ? styles.badgeTextActive
+                    : styles.badgeTextInactive,
+                ]}>
+                {isDetectionActive ? 'Active' : 'Arrêtée'}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.statusActions}>
+            <TouchableOpacity
+              style={styles.statusAction}
+              onPress={handlePauseToggle}>
+              {scheduleStatus.pausedUntil ? (
+                <Play size={16} color="#2E7D32" />
+              ) : (
+                <Pause size={16} color="#2E7D32" />
+              )}
+              <Text style={styles.statusActionText}>
+                {scheduleStatus.pausedUntil
+                  ? 'Reprendre'
+                  : "Pause pour aujourd'hui"}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.statusAction}
+              onPress={() => navigation.navigate('DetectionSchedule')}>
+              <CalendarClock size={16} color="#2E7D32" />
+              <Text style={styles.statusActionText}>Horaires</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Pending Journeys Card */}
       <TouchableOpacity
         style={styles.pendingCard}
@@ -203,6 +378,80 @@ export default function TripsScreen(): JSX.Element {
             </View>
             <ChevronRight size={20} color="#ccc" />
           </TouchableOpacity>
+
+          {/* Manual declaration */}
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => navigation.navigate('DeclareJourney')}
+            activeOpacity={0.8}>
+            <View style={[styles.actionIcon, {backgroundColor: '#E3F2FD'}]}>
+              <PlusCircle size={24} color="#1976D2" />
+            </View>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Déclarer un trajet</Text>
+              <Text style={styles.actionSubtitle}>
+                Un trajet n'a pas été détecté ?
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#ccc" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Commute templates */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Trajets habituels</Text>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('CommuteTemplates')}>
+            <Text style={styles.sectionLink}>Gérer</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.actionsGrid}>
+          {templates.map(template => {
+            const option = getTransportOption(template.transport_type);
+            return (
+              <TouchableOpacity
+                key={template.id}
+                style={styles.actionCard}
+                onPress={() => handleTemplatePress(template)}
+                activeOpacity={0.8}>
+                <View
+                  style={[
+                    styles.actionIcon,
+                    {backgroundColor: option?.bgColor},
+                  ]}>
+                  <Repeat size={24} color={option?.color} />
+                </View>
+                <View style={styles.actionContent}>
+                  <Text style={styles.actionTitle}>{template.name}</Text>
+                  <Text style={styles.actionSubtitle}>
+                    Départ {template.departure_time} - {template.distance_km} km
+                  </Text>
+                </View>
+                <Send size={18} color="#ccc" />
+              </TouchableOpacity>
+            );
+          })}
+          {templates.length === 0 && (
+            <TouchableOpacity
+              style={styles.actionCard}
+              onPress={() => navigation.navigate('CommuteTemplates')}
+              activeOpacity={0.8}>
+              <View style={[styles.actionIcon, styles.templateIcon]}>
+                <Repeat size={24} color="#2E7D32" />
+              </View>
+              <View style={styles.actionContent}>
+                <Text style={styles.actionTitle}>
+                  Ajouter un trajet habituel
+                </Text>
+                <Text style={styles.actionSubtitle}>
+                  Déclarez vos trajets réguliers en un geste
+                </Text>
+              </View>
+              <ChevronRight size={20} color="#ccc" />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -337,6 +586,24 @@ const styles = StyleSheet.create({
   badgeTextInactive: {
     color: '#666',
   },
+  statusActions: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  statusAction: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    gap: 6,
+  },
+  statusActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
   pendingCard: {
     marginHorizontal: 16,
     marginBottom: 20,
@@ -393,6 +660,20 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  templateIcon: {
+    backgroundColor: '#E8F5E9',
+  },
+  sectionLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+    paddingHorizontal: 20,
+  },
   actionsGrid: {
     paddingHorizontal: 16,
     gap: 10,
@@ -167,6 +167,50 @@ export default function ValidatedJourneyDetailScreen(): JSX.Element {
         </View>
       </View>
 
+      {/* Legs of a multimodal journey */}
+      {journey.legs && journey.legs.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Étapes</Text>
+
+          <View style={styles.legsCard}>
+            {journey.legs.map((leg, index) => (
+              <View
+                key={index}
+                style={[styles.legRow, index > 0 && styles.legRowDivider]}>
+                <View
+                  style={[
+                    styles.legIcon,
+                    {backgroundColor: getTransportColor(leg.transport_type)},
+                  ]}>
+                  {getTransportIcon(leg.transport_type, 18)}
+                </View>
+                <View style={styles.legContent}>
+                  <Text style={styles.legLabel}>
+                    {getTransportLabel(leg.transport_type)}
+                  </Text>
+                  <Text style={styles.legDetails}>
+                    {formatDateTime(leg.time_departure).time} -{' '}
+                    {formatDateTime(leg.time_arrival).time} ·{' '}
+                    {leg.duration_minutes} min
+                  </Text>
+                </View>
+                <View style={styles.legStats}>
+                  <Text style={styles.legDistance}>
+                    {leg.distance_km.toFixed(1)} km
+                  </Text>
+                  <Text style={styles.legScore}>
+                    +{leg.score_leg} pts
+                    {leg.carbon_footprint > 0
+                      ? ` · ${leg.carbon_footprint.toFixed(1)} kg CO₂`
+                      : ''}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Timeline Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Itinéraire</Text>
@@ -360,6 +404,59 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     marginBottom: 12,
   },
+  legsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  legRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  legRowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  legIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  legContent: {
+    flex: 1,
+  },
+  legLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  legDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  legStats: {
+    alignItems: 'flex-end',
+  },
+  legDistance: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  legScore: {
+    fontSize: 12,
+    color: '#2E7D32',
+    marginTop: 2,
+  },
   timelineCard: {
     backgroundColor: '#fff',
     borderRadius: 16,
@@ -2,17 +2,17 @@
  * Validated Journeys Screen - List of journeys sent to backend
  */
 
-import React, {useState, useCallback, useMemo} from 'react';
+import React, {useState, useMemo} from 'react';
 import {
   View,
   Text,
-  FlatList,
+  SectionList,
   StyleSheet,
   RefreshControl,
   ActivityIndicator,
   TouchableOpacity,
 } from 'react-native';
-import {useFocusEffect, useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {
   Clock,
@@ -27,12 +27,20 @@ import {
   Leaf,
   ChevronRight,
 } from 'lucide-react-native';
-import {apiClient} from '../api/client';
-import {JourneyRead} from '../api/types';
+import {useAuth} from '../context/AuthContext';
+import {queries} from '../api/queries';
+import {getErrorMessage} from '../api/errors';
+import {useInfiniteQuery} from '../hooks/useInfiniteQuery';
+import {ValidatedJourney} from '../api/types';
+import {
+  MonthSection,
+  VALID_TRANSPORT_TYPES,
+  groupByMonth,
+} from '../utils/journeys';
 
 type RootStackParamList = {
   ValidatedJourneys: {transportFilter?: string} | undefined;
-  ValidatedJourneyDetail: {journey: JourneyRead};
+  ValidatedJourneyDetail: {journey: ValidatedJourney};
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -43,45 +51,39 @@ export default function ValidatedJourneysScreen(): JSX.Element {
   const route = useRoute<ValidatedJourneysRouteProp>();
   const transportFilter = route.params?.transportFilter;
   
-  const [journeys, setJourneys] = useState<JourneyRead[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Filter journeys by transport type if filter is set
-  const filteredJourneys = useMemo(() => {
-    if (!transportFilter) return journeys;
-    return journeys.filter(j => j.transport_type === transportFilter);
-  }, [journeys, transportFilter]);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadJourneys();
-    }, []),
+  const {userId} = useAuth();
+  const transportType = VALID_TRANSPORT_TYPES.find(
+    type => type === transportFilter,
   );
-
-  const loadJourneys = async () => {
-    setError(null);
-    try {
-      const userId = apiClient.getUserId();
-      if (!userId) {
-        setError('Utilisateur non connecté');
-        return;
-      }
-      const data = await apiClient.getUserValidatedJourneys(userId);
-      setJourneys(data);
-    } catch (err) {
-      const message =
-        err instanceof Error ? err.message : 'Erreur de chargement';
-      setError(message);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Filtered by the backend, loaded page by page
+  const history = useInfiniteQuery(
+    userId
+      ? (offset: number) =>
+          queries.validatedJourneyHistory(
+            userId,
+            {transport_type: transportType},
+            offset,
+          )
+      : null,
+  );
+  const {pages, isLoading, isLoadingMore, loadMore} = history;
+  // Totals over every matching journey, not only the loaded pages
+  const summary = pages.length > 0 ? pages[0] : null;
+  const sections = useMemo(
+    () => groupByMonth(pages.flatMap(page => page.items)),
+    [pages],
+  );
+  const [refreshing, setRefreshing] = useState(false);
+  // Loaded journeys stay visible when a refresh fails
+  const error = !userId
+    ? 'Utilisateur non connecté'
+    : history.error && !summary
+    ? getErrorMessage(history.error, 'Erreur de chargement')
+    : null;
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadJourneys();
+    await history.refetch();
     setRefreshing(false);
   };
 
@@ -152,15 +154,19 @@ export default function ValidatedJourneysScreen(): JSX.Element {
   };
 
   const getTotalScore = (): number => {
-    return filteredJourneys.reduce((acc, j) => acc + j.score_journey, 0);
+    return summary?.total_score ?? 0;
   };
 
   const getTotalDistance = (): number => {
-    return filteredJourneys.reduce((acc, j) => acc + j.distance_km, 0);
+    return summary?.total_distance_km ?? 0;
   };
 
   const getTotalCO2 = (): number => {
-    return filteredJourneys.reduce((acc, j) => acc + (j.carbon_footprint || 0), 0);
+    return summary?.total_carbon_footprint ?? 0;
+  };
+
+  const getJourneyCount = (): number => {
+    return summary?.total ?? 0;
   };
 
   const getFilterLabel = (): string => {
@@ -189,13 +195,24 @@ export default function ValidatedJourneysScreen(): JSX.Element {
     }
   };
 
-  const renderJourney = ({item, index}: {item: JourneyRead; index: number}) => (
+  const renderJourney = ({
+    item,
+    index,
+    section,
+  }: {
+    item: ValidatedJourney;
+    index: number;
+    section: MonthSection<ValidatedJourney>;
+  }) => (
     <TouchableOpacity
       onPress={() => navigation.navigate('ValidatedJourneyDetail', {journey: item})}
       activeOpacity={0.7}
       style={[
         styles.journeyCard,
-        index === filteredJourneys.length - 1 && styles.journeyCardLast,
+        !history.hasMore &&
+          section === sections[sections.length - 1] &&
+          index === section.data.length - 1 &&
+          styles.journeyCardLast,
       ]}>
       <View style={styles.journeyHeader}>
         <View
@@ -308,8 +325,8 @@ export default function ValidatedJourneysScreen(): JSX.Element {
         }
       </Text>
       <Text style={styles.headerSubtitle}>
-        {filteredJourneys.length} trajet{filteredJourneys.length !== 1 ? 's' : ''} validé
-        {filteredJourneys.length !== 1 ? 's' : ''}
+        {getJourneyCount()} trajet{getJourneyCount() !== 1 ? 's' : ''} validé
+        {getJourneyCount() !== 1 ? 's' : ''}
       </Text>
 
       {/* Stats Summary */}
@@ -347,6 +364,27 @@ export default function ValidatedJourneysScreen(): JSX.Element {
     </View>
   );
 
+  const renderSectionHeader = ({
+    section,
+  }: {
+    section: MonthSection<ValidatedJourney>;
+  }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>{section.title}</Text>
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (!isLoadingMore) {
+      return null;
+    }
+    return (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color="#2E7D32" />
+      </View>
+    );
+  };
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -357,9 +395,11 @@ export default function ValidatedJourneysScreen(): JSX.Element {
 
   return (
     <View style={styles.container}>
-      <FlatList
-        data={filteredJourneys}
+      <SectionList
+        sections={sections}
         renderItem={renderJourney}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled
         keyExtractor={item => item.id.toString()}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
@@ -371,8 +411,11 @@ export default function ValidatedJourneysScreen(): JSX.Element {
             tintColor="#2E7D32"
           />
         }
-        ListHeaderComponent={filteredJourneys.length > 0 ? renderHeader : null}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={sections.length > 0 ? renderHeader : null}
         ListEmptyComponent={error ? renderError : renderEmpty}
+        ListFooterComponent={renderFooter}
       />
     </View>
   );
@@ -484,6 +527,20 @@ const styles = StyleSheet.create({
   journeyCardLast: {
     marginBottom: 0,
   },
+  sectionHeader: {
+    backgroundColor: '#f8f9fa',
+    paddingTop: 8,
+    paddingBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a472a',
+  },
+  footer: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
   journeyHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -5,8 +5,17 @@ export {default as LeaderboardScreen} from './LeaderboardScreen';
 export {default as TripsScreen} from './TripsScreen';
 export {default as ShopScreen} from './ShopScreen';
 export {default as ProfilScreen} from './ProfilScreen';
+export {default as EditProfileScreen} from './EditProfileScreen';
+export {default as ChangePasswordScreen} from './ChangePasswordScreen';
+export {default as DeleteAccountScreen} from './DeleteAccountScreen';
 export {default as PendingJourneysScreen} from './PendingJourneysScreen';
 export {default as PendingJourneyDetailScreen} from './PendingJourneyDetailScreen';
+export {default as DeclareJourneyScreen} from './DeclareJourneyScreen';
+export {default as CommuteTemplatesScreen} from './CommuteTemplatesScreen';
+export {default as CommuteTemplateEditScreen} from './CommuteTemplateEditScreen';
+export {default as DetectionScheduleScreen} from './DetectionScheduleScreen';
+export {default as PrivateZonesScreen} from './PrivateZonesScreen';
+export {default as PrivateZoneEditScreen} from './PrivateZoneEditScreen';
 export {default as ValidatedJourneysScreen} from './ValidatedJourneysScreen';
 export {default as ValidatedJourneyDetailScreen} from './ValidatedJourneyDetailScreen';
 export {default as CO2HistoryScreen} from './CO2HistoryScreen';
@@ -2,12 +2,18 @@
  * Authentication Service
  */
 
-import {apiClient} from '@/api/client';
+import {CallOptions, apiClient} from '@/api/client';
+import {ApiError, HttpError, getErrorMessage} from '@/api/errors';
+import {
+  Company,
+  PasswordChange,
+  PasswordResetConfirm,
+  PasswordResetRequest,
+  UserProfile,
+  UserUpdate,
+} from '@/api/types';
 
-export interface ApiError {
-  message: string;
-  status?: number;
-}
+export {ApiError};
 
 export interface SignUpData {
   username: string;
@@ -23,24 +29,40 @@ export interface LoginData {
   password: string;
 }
 
-export interface ResetPasswordData {
-  email: string;
-}
+export type ResetPasswordData = PasswordResetRequest;
 
 /**
- * Sign up a new user
+ * Sign up a new user, attached to the company of `company_code`
  */
 export async function signUpUser(data: SignUpData): Promise<void> {
   try {
     await apiClient.register({
-      username: data.username,
-      email: data.email,
+      username: data.username.trim(),
+      email: data.email.trim(),
       password: data.password,
+      firstname: data.firstname.trim(),
+      lastname: data.lastname.trim(),
+      company_code: data.company_code.toUpperCase(),
     });
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Erreur lors de l'inscription";
-    throw {message} as ApiError;
+    throw toApiError(error, "Erreur lors de l'inscription");
+  }
+}
+
+/**
+ * Resolve a company code before sign-up
+ */
+export async function checkCompanyCode(
+  companyCode: string,
+  options: CallOptions = {},
+): Promise<Company> {
+  try {
+    return await apiClient.getCompanyByCode(companyCode.toUpperCase(), options);
+  } catch (error) {
+    if (error instanceof HttpError && error.isNotFound) {
+      throw new HttpError(404, 'Code entreprise inconnu', error.body);
+    }
+    throw toApiError(error, 'Impossible de verifier le code entreprise');
   }
 }
 
@@ -51,9 +73,11 @@ export async function loginUser(data: LoginData): Promise<void> {
   try {
     await apiClient.login(data.username, data.password);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : 'Erreur de connexion';
-    throw {message} as ApiError;
+    if (error instanceof HttpError && error.status === 401) {
+      // FastAPI answers "Incorrect username or password"
+      throw new HttpError(401, 'Identifiants incorrects', error.body);
+    }
+    throw toApiError(error, 'Erreur de connexion');
   }
 }
 
@@ -62,54 +86,90 @@ export async function loginUser(data: LoginData): Promise<void> {
  */
 export async function resetPassword(data: ResetPasswordData): Promise<string> {
   try {
-    const baseUrl = apiClient['baseUrl'] || 'https://capitulatory-insinuatingly-dayna.ngrok-free.dev';
-    const response = await fetch(`${baseUrl}/resetpassword`, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      throw new Error('Erreur lors de la réinitialisation');
-    }
-
-    const responseData = await response.json() as {message?: string};
-    return responseData.message || 'Code envoyé avec succès';
+    const response = await apiClient.requestPasswordReset(data);
+    return response.message || 'Code envoyé avec succès';
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : 'Erreur lors de la réinitialisation';
-    throw {message} as ApiError;
+    throw toApiError(error, 'Erreur lors de la réinitialisation');
   }
 }
 
-export interface ChangePasswordData {
-  email: string;
-  temporary_password: string;
-  new_password: string;
-}
+export type ChangePasswordData = PasswordResetConfirm;
 
 /**
  * Change password using temporary code (for password reset flow)
  */
-export async function changePasswordWithCode(data: ChangePasswordData): Promise<string> {
+export async function changePasswordWithCode(
+  data: ChangePasswordData,
+): Promise<string> {
   try {
-    const baseUrl = apiClient['baseUrl'] || 'https://capitulatory-insinuatingly-dayna.ngrok-free.dev';
-    const response = await fetch(`${baseUrl}/resetpassword/confirm`, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify(data),
-    });
+    const response = await apiClient.confirmPasswordReset(data);
+    return response.message || 'Mot de passe modifié avec succès';
+  } catch (error) {
+    if (
+      error instanceof HttpError &&
+      !error.detail &&
+      error.kind !== 'validation'
+    ) {
+      throw new HttpError(error.status, 'Code invalide ou expiré', error.body);
+    }
+    throw toApiError(error, 'Erreur lors du changement de mot de passe');
+  }
+}
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || 'Code invalide ou expiré');
+/**
+ * Update the profile of the logged-in user
+ */
+export async function updateUserProfile(
+  userId: number,
+  data: UserUpdate,
+): Promise<UserProfile> {
+  try {
+    return await apiClient.updateUserProfile(userId, data);
+  } catch (error) {
+    // Other refusals (invalid email...) keep the backend message
+    if (
+      error instanceof HttpError &&
+      error.status === 400 &&
+      error.detail === 'Username already registered'
+    ) {
+      throw new HttpError(
+        400,
+        "Ce nom d'utilisateur est deja pris",
+        error.body,
+      );
     }
+    throw toApiError(error, 'Erreur lors de la mise a jour du profil');
+  }
+}
 
-    const responseData = await response.json() as {message?: string};
-    return responseData.message || 'Mot de passe modifié avec succès';
+/**
+ * Change the password of the logged-in user
+ */
+export async function changeUserPassword(
+  userId: number,
+  data: PasswordChange,
+): Promise<string> {
+  try {
+    const response = await apiClient.changePassword(userId, data);
+    return response.message || 'Mot de passe modifié avec succès';
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : 'Erreur lors du changement de mot de passe';
-    throw {message} as ApiError;
+    if (
+      error instanceof HttpError &&
+      error.status === 400 &&
+      error.detail === 'Incorrect password'
+    ) {
+      throw new HttpError(400, 'Mot de passe actuel incorrect', error.body);
+    }
+    throw toApiError(error, 'Erreur lors du changement de mot de passe');
+  }
+}
+
+/**
+ * Keep typed API errors as they are; give anything else a readable message
+ */
+function toApiError(error: unknown, fallback: string): Error {
+  if (error instanceof ApiError) {
+    return error;
   }
+  return new Error(getErrorMessage(error, fallback));
 }
@@ -0,0 +1,259 @@
+/**
+ * Commute Templates
+ * Recurring trips saved by the user, stored locally per account and
+ * optionally synced with the backend. Sync compares the version counter of
+ * the backend, never device clocks.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {apiClient} from '@/api/client';
+import {HttpError} from '@/api/errors';
+import {CommuteTemplate, CommuteTemplateList} from '@/api/types';
+import {buildManualJourneyCreate} from '@/utils/journeys';
+import {templateToManualJourney} from '@/utils/commuteTemplates';
+import {generateUuid} from '@/utils/uuid';
+import journeyOutbox, {SubmitResult} from './journey-outbox';
+
+// One key per account, so templates never leak to another login
+const TEMPLATES_KEY_PREFIX = '@GMP_commute_templates_';
+
+interface StoredTemplates extends CommuteTemplateList {
+  // version is the backend one the local list was last synced with
+  sync_enabled: boolean;
+  dirty: boolean; // Local changes not pushed yet
+}
+
+export type CommuteTemplateInput = Omit<CommuteTemplate, 'id'> & {
+  id?: string;
+};
+
+const EMPTY: StoredTemplates = {
+  templates: [],
+  version: 0,
+  sync_enabled: false,
+  dirty: false,
+};
+
+/**
+ * Saved list, from before version counters too (then pushed on the next sync
+ * when not empty)
+ */
+function fromJson(value: string): StoredTemplates {
+  const stored = JSON.parse(value);
+  return {
+    templates: stored.templates ?? [],
+    version: stored.version ?? 0,
+    sync_enabled: stored.sync_enabled ?? false,
+    dirty: stored.dirty ?? stored.templates?.length > 0,
+  };
+}
+
+class CommuteTemplateStore {
+  private userId: number | null = null;
+  private stored: StoredTemplates | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private listeners = new Set<(templates: CommuteTemplate[]) => void>();
+
+  /**
+   * Get the templates of the logged-in user (empty when logged out)
+   */
+  async getTemplates(): Promise<CommuteTemplate[]> {
+    const stored = await this.load();
+    return [...stored.templates];
+  }
+
+  /**
+   * Create a template, or replace the one with the same id
+   */
+  async saveTemplate(input: CommuteTemplateInput): Promise<CommuteTemplate> {
+    const stored = await this.load();
+    const template: CommuteTemplate = {
+      ...input,
+      id: input.id ?? generateUuid(),
+    };
+    const index = stored.templates.findIndex(t => t.id === template.id);
+    const templates = [...stored.templates];
+    if (index >= 0) {
+      templates[index] = template;
+    } else {
+      templates.push(template);
+    }
+    await this.update(templates);
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const stored = await this.load();
+    await this.update(stored.templates.filter(t => t.id !== id));
+  }
+
+  async isSyncEnabled(): Promise<boolean> {
+    const stored = await this.load();
+    return stored.sync_enabled;
+  }
+
+  /**
+   * Turn backend sync on or off. Enabling syncs right away and rejects
+   * when the backend cannot be reached (sync stays enabled).
+   */
+  async setSyncEnabled(enabled: boolean): Promise<void> {
+    const stored = await this.load();
+    await this.persist({...stored, sync_enabled: enabled});
+    if (enabled) {
+      await this.sync();
+    }
+  }
+
+  /**
+   * Reconcile with the backend when sync is enabled. A backend list saved
+   * from another device since the last sync replaces the local one, unsynced
+   * local changes included (the first device to push wins). Otherwise local
+   * changes are pushed.
+   */
+  async sync(): Promise<void> {
+    if (this.syncPromise) {
+      return this.syncPromise;
+    }
+
+    this.syncPromise = (async () => {
+      try {
+        const userId = apiClient.getUserId();
+        const stored = await this.load();
+        if (!userId || !stored.sync_enabled) {
+          return;
+        }
+
+        const remote = await this.fetchRemote(userId);
+        if (remote.version !== stored.version) {
+          await this.adopt(remote);
+        } else if (stored.dirty) {
+          await this.push(userId, stored);
+        }
+      } finally {
+        this.syncPromise = null;
+      }
+    })();
+
+    return this.syncPromise;
+  }
+
+  /**
+   * Declare the last completed occurrence of a template (today, or
+   * yesterday when today's trip is not over yet)
+   */
+  async declare(template: CommuteTemplate): Promise<SubmitResult> {
+    return journeyOutbox.submit(
+      null,
+      buildManualJourneyCreate(templateToManualJourney(template)),
+    );
+  }
+
+  /**
+   * Subscribe to template changes
+   */
+  addListener(callback: (templates: CommuteTemplate[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Backend list, empty when nothing was saved yet (404)
+   */
+  private async fetchRemote(userId: number): Promise<CommuteTemplateList> {
+    try {
+      return await apiClient.getCommuteTemplates(userId);
+    } catch (error) {
+      if (error instanceof HttpError && error.isNotFound) {
+        return {templates: [], version: 0};
+      }
+      throw error;
+    }
+  }
+
+  private async adopt(remote: CommuteTemplateList): Promise<void> {
+    const stored = await this.load();
+    await this.persist({
+      ...stored,
+      templates: remote.templates,
+      version: remote.version,
+      dirty: false,
+    });
+  }
+
+  private async push(userId: number, stored: StoredTemplates): Promise<void> {
+    let saved: CommuteTemplateList;
+    try {
+      saved = await apiClient.saveCommuteTemplates(userId, {
+        templates: stored.templates,
+        version: stored.version,
+      });
+    } catch (error) {
+      if (error instanceof HttpError && error.isConflict) {
+        // Saved from another device between the read and the write
+        await this.adopt(await this.fetchRemote(userId));
+        return;
+      }
+      throw error;
+    }
+    // Still dirty when the list changed during the request (pushed next)
+    const current = await this.load();
+    await this.persist({
+      ...current,
+      version: saved.version,
+      dirty: current.templates !== stored.templates,
+    });
+  }
+
+  private async update(templates: CommuteTemplate[]): Promise<void> {
+    const stored = await this.load();
+    await this.persist({...stored, templates, dirty: true});
+    if (stored.sync_enabled) {
+      // After any sync in flight, which read the list before this change.
+      // Pushed on a later sync when offline (the list stays dirty).
+      (this.syncPromise ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => this.sync())
+        .catch(error => console.warn('[Templates] Sync failed:', error));
+    }
+  }
+
+  private async load(): Promise<StoredTemplates> {
+    const userId = apiClient.getUserId();
+    if (this.stored && this.userId === userId) {
+      return this.stored;
+    }
+    this.userId = userId;
+    if (!userId) {
+      this.stored = {...EMPTY};
+      return this.stored;
+    }
+    try {
+      const value = await AsyncStorage.getItem(TEMPLATES_KEY_PREFIX + userId);
+      this.stored = value ? fromJson(value) : {...EMPTY};
+    } catch (error) {
+      console.error('Failed to load commute templates:', error);
+      this.stored = {...EMPTY};
+    }
+    return this.stored as StoredTemplates;
+  }
+
+  private async persist(stored: StoredTemplates): Promise<void> {
+    this.stored = stored;
+    if (this.userId) {
+      try {
+        await AsyncStorage.setItem(
+          TEMPLATES_KEY_PREFIX + this.userId,
+          JSON.stringify(stored),
+        );
+      } catch (error) {
+        console.error('Failed to save commute templates:', error);
+      }
+    }
+    this.listeners.forEach(listener => listener([...stored.templates]));
+  }
+}
+
+export const commuteTemplates = new CommuteTemplateStore();
+export default commuteTemplates;
@@ -0,0 +1,227 @@
+/**
+ * Detection Schedule
+ * Commute windows chosen by the user, during which trip detection runs.
+ * Detection can also be paused until the end of the day. The schedule is
+ * handed to the detection driver, which starts and stops detection at the
+ * window boundaries itself (native alarms, also in the background and after
+ * a reboot); the status here is for display.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AppState, AppStateStatus, NativeEventSubscription} from 'react-native';
+import tripDetection from '@/native/TripDetection';
+import {
+  DEFAULT_DETECTION_SCHEDULE,
+  DetectionSchedule,
+  endOfDay,
+  isInSchedule,
+  nextScheduleChange,
+} from '@/utils/detectionSchedule';
+
+const SCHEDULE_KEY = '@GMP_detection_schedule';
+const PAUSED_UNTIL_KEY = '@GMP_detection_paused_until';
+
+// Refresh the displayed status at least this often
+const MAX_TIMER_MS = 3600 * 1000;
+
+export interface ScheduleStatus {
+  schedule: DetectionSchedule;
+  // Detection should be running now
+  active: boolean;
+  pausedUntil: number | null; // epoch ms
+  // Next time detection starts or stops (end of pause included)
+  nextChange: number | null; // epoch ms
+}
+
+class DetectionScheduler {
+  private schedule: DetectionSchedule | null = null;
+  private pausedUntil: number | null = null;
+  private loaded = false;
+  private started = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private applyPromise: Promise<void> = Promise.resolve();
+  private listeners = new Set<(status: ScheduleStatus) => void>();
+
+  /**
+   * Enable detection within the schedule. The schedule is handed again to
+   * the driver whenever the app comes back to the foreground, in case an
+   * alarm could not start detection in the background.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.apply();
+        }
+      },
+    );
+    await this.apply();
+    await tripDetection.startDetection();
+  }
+
+  /**
+   * Stop refreshing the status (detection itself is left as is)
+   */
+  stop(): void {
+    this.started = false;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimer();
+  }
+
+  async getSchedule(): Promise<DetectionSchedule> {
+    await this.load();
+    return {...(this.schedule as DetectionSchedule)};
+  }
+
+  async setSchedule(schedule: DetectionSchedule): Promise<void> {
+    await this.load();
+    this.schedule = schedule;
+    await AsyncStorage.setItem(SCHEDULE_KEY, JSON.stringify(schedule));
+    await this.apply();
+  }
+
+  /**
+   * Stop detection until midnight, whatever the schedule says
+   */
+  async pauseForToday(): Promise<void> {
+    await this.load();
+    this.pausedUntil = endOfDay(new Date()).getTime();
+    await AsyncStorage.setItem(PAUSED_UNTIL_KEY, String(this.pausedUntil));
+    await this.apply();
+  }
+
+  async resume(): Promise<void> {
+    await this.load();
+    this.pausedUntil = null;
+    await AsyncStorage.removeItem(PAUSED_UNTIL_KEY);
+    await this.apply();
+  }
+
+  async getStatus(): Promise<ScheduleStatus> {
+    await this.load();
+    const schedule = this.schedule as DetectionSchedule;
+    const now = new Date();
+    const pausedUntil =
+      this.pausedUntil !== null && this.pausedUntil > now.getTime()
+        ? this.pausedUntil
+        : null;
+
+    if (pausedUntil !== null) {
+      // Detection comes back with the pause end only if the schedule allows it
+      const resume = isInSchedule(schedule, new Date(pausedUntil))
+        ? new Date(pausedUntil)
+        : nextScheduleChange(schedule, new Date(pausedUntil));
+      return {
+        schedule,
+        active: false,
+        pausedUntil,
+        nextChange: resume?.getTime() ?? null,
+      };
+    }
+    return {
+      schedule,
+      active: isInSchedule(schedule, now),
+      pausedUntil: null,
+      nextChange: nextScheduleChange(schedule, now)?.getTime() ?? null,
+    };
+  }
+
+  /**
+   * Subscribe to status changes (schedule edited, pause, window boundary)
+   */
+  addListener(callback: (status: ScheduleStatus) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Forget the schedule and the pause (logout, account deletion)
+   */
+  async clear(): Promise<void> {
+    this.stop();
+    this.schedule = {...DEFAULT_DETECTION_SCHEDULE};
+    this.pausedUntil = null;
+    this.loaded = true;
+    // The driver gets the default schedule at the next start()
+    await AsyncStorage.multiRemove([SCHEDULE_KEY, PAUSED_UNTIL_KEY]);
+  }
+
+  /**
+   * Hand the schedule to the detection driver, then refresh the status.
+   * Calls are queued so the driver gets them in order.
+   */
+  private apply(): Promise<void> {
+    this.applyPromise = this.applyPromise
+      .then(async () => {
+        const status = await this.getStatus();
+        await tripDetection.setDetectionSchedule(
+          status.schedule,
+          status.pausedUntil,
+        );
+        this.notify(status);
+      })
+      .catch(error =>
+        console.error('[Schedule] Failed to apply schedule:', error),
+      );
+    return this.applyPromise;
+  }
+
+  /**
+   * Tell the listeners, then again at the next change while started
+   */
+  private notify(status: ScheduleStatus): void {
+    this.listeners.forEach(listener => listener(status));
+    this.clearTimer();
+    if (!this.started) {
+      return;
+    }
+    const delay =
+      status.nextChange === null
+        ? MAX_TIMER_MS
+        : Math.min(status.nextChange - Date.now(), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.getStatus().then(next => this.notify(next));
+    }, Math.max(delay, 1000));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    try {
+      const [schedule, pausedUntil] = await Promise.all([
+        AsyncStorage.getItem(SCHEDULE_KEY),
+        AsyncStorage.getItem(PAUSED_UNTIL_KEY),
+      ]);
+      this.schedule = schedule
+        ? {...DEFAULT_DETECTION_SCHEDULE, ...JSON.parse(schedule)}
+        : {...DEFAULT_DETECTION_SCHEDULE};
+      this.pausedUntil = pausedUntil ? Number(pausedUntil) : null;
+    } catch (error) {
+      console.error('Failed to load detection schedule:', error);
+      this.schedule = {...DEFAULT_DETECTION_SCHEDULE};
+      this.pausedUntil = null;
+    }
+    this.loaded = true;
+  }
+}
+
+export const detectionScheduler = new DetectionScheduler();
+export default detectionScheduler;
@@ -0,0 +1,129 @@
+/**
+ * Journey Batch
+ * Validates or rejects several pending journeys one by one, reporting
+ * per-item progress so partial failures can be shown to the user
+ */
+
+import {getErrorMessage} from '@/api/errors';
+import {LocalJourney} from '@/api/types';
+import tripDetection from '@/native/TripDetection';
+import {buildJourneyCreate} from '@/utils/journeys';
+import journeyOutbox from './journey-outbox';
+
+export type BatchItemStatus =
+  | 'waiting'
+  | 'running'
+  | 'sent'
+  | 'queued'
+  | 'rejected'
+  | 'failed';
+
+export interface BatchItem {
+  id: number;
+  status: BatchItemStatus;
+  scoreJourney?: number;
+  error?: string;
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  items: BatchItem[];
+}
+
+export interface BatchSummary {
+  items: BatchItem[];
+  succeeded: number;
+  failed: number;
+  totalScore: number;
+}
+
+type Worker = (id: number) => Promise<Partial<BatchItem>>;
+
+async function runBatch(
+  ids: number[],
+  worker: Worker,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchSummary> {
+  const items: BatchItem[] = ids.map(id => ({id, status: 'waiting'}));
+  let done = 0;
+
+  const report = () =>
+    onProgress?.({done, total: items.length, items: [...items]});
+
+  report();
+  for (let i = 0; i < items.length; i++) {
+    items[i] = {...items[i], status: 'running'};
+    report();
+    try {
+      const result = await worker(items[i].id);
+      items[i] = {...items[i], status: 'sent', ...result};
+    } catch (error) {
+      items[i] = {
+        ...items[i],
+        status: 'failed',
+        error: getErrorMessage(error, 'Erreur inconnue'),
+      };
+    }
+    done++;
+    report();
+  }
+
+  const failed = items.filter(item => item.status === 'failed').length;
+  return {
+    items,
+    succeeded: items.length - failed,
+    failed,
+    totalScore: items.reduce((sum, item) => sum + (item.scoreJourney ?? 0), 0),
+  };
+}
+
+/**
+ * Validate journeys with their detected transport mode and send them
+ * through the outbox (journeys without network end up 'queued')
+ */
+export async function validateJourneys(
+  journeys: LocalJourney[],
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchSummary> {
+  const byId = new Map(journeys.map(j => [j.id, j]));
+
+  return runBatch(
+    journeys.map(j => j.id),
+    async id => {
+      const journey = byId.get(id) as LocalJourney;
+      const journeyCreate = buildJourneyCreate(journey);
+
+      await tripDetection.updateLocalJourney(id, {
+        transportType: journeyCreate.transport_type,
+        distanceKm: journeyCreate.distance_km,
+        placeDeparture: journeyCreate.place_departure,
+        placeArrival: journeyCreate.place_arrival,
+      });
+
+      const result = await journeyOutbox.submit(id, journeyCreate);
+      return result.status === 'sent'
+        ? {status: 'sent', scoreJourney: result.journey.score_journey}
+        : {status: 'queued'};
+    },
+    onProgress,
+  );
+}
+
+/**
+ * Reject (delete locally) several pending journeys
+ */
+export async function rejectJourneys(
+  ids: number[],
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchSummary> {
+  return runBatch(
+    ids,
+    async id => {
+      await journeyOutbox.removeJourney(id);
+      await tripDetection.deleteLocalJourney(id);
+      return {status: 'rejected'};
+    },
+    onProgress,
+  );
+}
@@ -0,0 +1,485 @@
+/**
+ * Journey Outbox
+ * Persists validated journeys until the backend acknowledges them and
+ * retries automatically (app foreground, connectivity return, backoff timer)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AppState, AppStateStatus, NativeEventSubscription} from 'react-native';
+import NetInfo, {NetInfoSubscription} from '@react-native-community/netinfo';
+import {apiClient} from '@/api/client';
+import {HttpError, getErrorMessage} from '@/api/errors';
+import {JourneyCreate, JourneyRead, ValidatedJourney} from '@/api/types';
+import tripDetection from '@/native/TripDetection';
+import {generateUuid} from '@/utils/uuid';
+
+const OUTBOX_KEY = '@GMP_journey_outbox';
+const SUBMITTED_KEY = '@GMP_submitted_journeys';
+// Account the queued entries were created by
+const OWNER_KEY = '@GMP_journey_outbox_owner';
+
+// Number of acknowledged client ids remembered for the duplicate lookup
+const MAX_SUBMITTED_ENTRIES = 200;
+
+// Latest validated journeys searched for the original of a 409 duplicate
+const RECONCILE_PAGE_SIZE = 50;
+
+// Exponential backoff between automatic retries
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+export interface OutboxEntry {
+  // Native LocalJourney id, null for journeys that do not come from detection
+  localJourneyId: number | null;
+  payload: JourneyCreate;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError: string | null;
+  createdAt: number; // epoch ms
+}
+
+export type SubmitResult =
+  | {status: 'sent'; journey: JourneyRead}
+  | {status: 'queued'};
+
+/**
+ * Errors the backend will keep returning no matter how often we retry: the
+ * payload is refused (400, 422), or it is a duplicate that could not be
+ * reconciled (409, the journey is already on the server). Anything else is
+ * retried: network, server and auth errors (401, 403, expired session) keep
+ * the journey until the user logs in again.
+ */
+function isPermanentError(error: unknown): boolean {
+  return (
+    error instanceof HttpError &&
+    (error.status === 400 || error.status === 409 || error.status === 422)
+  );
+}
+
+function toJourneyRead(journey: ValidatedJourney): JourneyRead {
+  return {
+    id: journey.id,
+    user_id: journey.id_user,
+    place_departure: journey.place_departure,
+    place_arrival: journey.place_arrival,
+    time_departure: journey.time_departure,
+    time_arrival: journey.time_arrival,
+    duration_minutes: journey.duration_minutes,
+    distance_km: journey.distance_km,
+    transport_type: journey.transport_type,
+    detection_source: journey.detection_source,
+    score_journey: journey.score_journey,
+    carbon_footprint: journey.carbon_footprint,
+    created_at: journey.created_at,
+    client_journey_id: journey.client_journey_id,
+    legs: journey.legs,
+  };
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+class JourneyOutbox {
+  private entries: OutboxEntry[] | null = null;
+  // Backend acknowledgements by client id, oldest first
+  private submitted: Record<string, JourneyRead> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private netInfoSubscription: NetInfoSubscription | null = null;
+  private isConnected = true;
+  private inFlight = new Set<OutboxEntry>();
+  private listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+  /**
+   * Start draining automatically on app foreground and connectivity return.
+   * Entries kept for another account (its session expired, then someone
+   * else logged in) are dropped first.
+   */
+  start(userId: number): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.flush(true);
+        }
+      },
+    );
+
+    this.netInfoSubscription = NetInfo.addEventListener(state => {
+      const wasConnected = this.isConnected;
+      this.isConnected = state.isConnected !== false;
+      if (this.isConnected && !wasConnected) {
+        this.flush(true);
+      }
+    });
+
+    this.claim(userId).then(() => this.flush(true));
+  }
+
+  private async claim(userId: number): Promise<void> {
+    try {
+      const owner = await AsyncStorage.getItem(OWNER_KEY);
+      if (owner !== null && owner !== String(userId)) {
+        await this.clear();
+      }
+      await AsyncStorage.setItem(OWNER_KEY, String(userId));
+    } catch (error) {
+      console.error('Failed to check outbox owner:', error);
+    }
+  }
+
+  /**
+   * Stop automatic draining (queued entries are kept)
+   */
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.netInfoSubscription?.();
+    this.netInfoSubscription = null;
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Get all queued entries
+   */
+  async getEntries(): Promise<OutboxEntry[]> {
+    const entries = await this.load();
+    return [...entries];
+  }
+
+  /**
+   * Get count of queued entries
+   */
+  async getCount(): Promise<number> {
+    const entries = await this.load();
+    return entries.length;
+  }
+
+  /**
+   * Check if a local journey is already waiting in the outbox
+   */
+  async isQueued(localJourneyId: number): Promise<boolean> {
+    const entries = await this.load();
+    return entries.some(entry => entry.localJourneyId === localJourneyId);
+  }
+
+  /**
+   * Get the backend journey already created for a client id, if any
+   */
+  async findSubmitted(clientJourneyId: string): Promise<JourneyRead | null> {
+    const submitted = await this.loadSubmitted();
+    return submitted[clientJourneyId] ?? null;
+  }
+
+  /**
+   * Queue a validated journey and try to send it right away.
+   * Resolves with the backend journey when sent, or 'queued' when the
+   * network is unavailable. Rejects when the backend refuses the journey.
+   */
+  async submit(
+    localJourneyId: number | null,
+    payload: JourneyCreate,
+  ): Promise<SubmitResult> {
+    const entries = await this.load();
+    const existing =
+      localJourneyId === null
+        ? undefined
+        : entries.find(e => e.localJourneyId === localJourneyId);
+
+    // Keep the same idempotency key across re-validations of one trip
+    const clientJourneyId =
+      payload.client_journey_id ??
+      existing?.payload.client_journey_id ??
+      generateUuid();
+
+    const entry: OutboxEntry = {
+      localJourneyId,
+      payload: {...payload, client_journey_id: clientJourneyId},
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+      createdAt: Date.now(),
+    };
+
+    if (existing && this.inFlight.has(existing)) {
+      // Already being sent by a background drain
+      return {status: 'queued'};
+    } else if (existing) {
+      entries[entries.indexOf(existing)] = entry;
+    } else {
+      entries.push(entry);
+    }
+    await this.persist();
+
+    try {
+      const journey = await this.send(entry);
+      return {status: 'sent', journey};
+    } catch (error) {
+      if (isPermanentError(error)) {
+        throw error;
+      }
+      return {status: 'queued'};
+    }
+  }
+
+  /**
+   * Try to send every queued entry whose backoff delay has elapsed
+   * (or all of them when force is true)
+   */
+  async flush(force = false): Promise<void> {
+    if (this.flushPromise) {
+      return this.flushPromise;
+    }
+    // Checked before the drain starts: returning from it synchronously would
+    // run its finally block before flushPromise is set, and leave it set
+    if (!apiClient.isAuthenticated()) {
+      return;
+    }
+
+    this.flushPromise = (async () => {
+      try {
+        const entries = await this.load();
+        const now = Date.now();
+        const due = entries.filter(
+          e => !this.inFlight.has(e) && (force || e.nextAttemptAt <= now),
+        );
+
+        for (const entry of due) {
+          try {
+            await this.send(entry);
+          } catch (error) {
+            if (!isPermanentError(error)) {
+              // Network still down: no point hammering the others
+              break;
+            }
+            console.warn('[Outbox] Journey rejected by backend:', error);
+          }
+        }
+      } finally {
+        this.flushPromise = null;
+        this.scheduleRetry();
+      }
+    })();
+
+    return this.flushPromise;
+  }
+
+  /**
+   * Remove an entry without sending it
+   */
+  async discard(entry: OutboxEntry): Promise<void> {
+    const entries = await this.load();
+    const index = entries.indexOf(entry);
+    if (index >= 0) {
+      entries.splice(index, 1);
+      await this.persist();
+    }
+  }
+
+  /**
+   * Remove the entry queued for a local journey (e.g. journey rejected)
+   */
+  async removeJourney(localJourneyId: number): Promise<void> {
+    const entries = await this.load();
+    const entry = entries.find(e => e.localJourneyId === localJourneyId);
+    if (entry && !this.inFlight.has(entry)) {
+      await this.discard(entry);
+    }
+  }
+
+  /**
+   * Drop every queued entry and acknowledgement (used on logout)
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+    this.submitted = {};
+    this.clearRetryTimer();
+    try {
+      await AsyncStorage.multiRemove([OUTBOX_KEY, SUBMITTED_KEY, OWNER_KEY]);
+    } catch (error) {
+      console.error('Failed to clear outbox:', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Subscribe to outbox changes
+   */
+  addListener(callback: (entries: OutboxEntry[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private async send(entry: OutboxEntry): Promise<JourneyRead> {
+    this.inFlight.add(entry);
+    try {
+      const journey = await this.createOrReconcile(entry.payload);
+
+      // Only mark as sent once the backend has acknowledged the journey
+      if (entry.localJourneyId !== null) {
+        try {
+          await tripDetection.markJourneySent(entry.localJourneyId);
+        } catch (error) {
+          console.error('[Outbox] Failed to mark journey as sent:', error);
+        }
+      }
+
+      await this.discard(entry);
+      return journey;
+    } catch (error) {
+      if (isPermanentError(error)) {
+        await this.discard(entry);
+      } else {
+        entry.attempts += 1;
+        entry.nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+        entry.lastError = getErrorMessage(error, 'Erreur inconnue');
+        await this.persist();
+      }
+      throw error;
+    } finally {
+      this.inFlight.delete(entry);
+    }
+  }
+
+  /**
+   * Post the journey unless it was already acknowledged. A 409 means a
+   * previous attempt reached the backend: recover that journey instead.
+   */
+  private async createOrReconcile(
+    payload: JourneyCreate,
+  ): Promise<JourneyRead> {
+    const clientJourneyId = payload.client_journey_id;
+    if (clientJourneyId) {
+      const alreadySubmitted = await this.findSubmitted(clientJourneyId);
+      if (alreadySubmitted) {
+        return alreadySubmitted;
+      }
+    }
+
+    let journey: JourneyRead;
+    try {
+      journey = await apiClient.createJourney(payload);
+    } catch (error) {
+      const userId = apiClient.getUserId();
+      if (
+        !clientJourneyId ||
+        !userId ||
+        !(error instanceof HttpError && error.isConflict)
+      ) {
+        throw error;
+      }
+      // The duplicate is recent: the first history page is enough
+      const page = await apiClient.getValidatedJourneyHistory(
+        userId,
+        {},
+        RECONCILE_PAGE_SIZE,
+      );
+      const existing = page.items.find(
+        j => j.client_journey_id === clientJourneyId,
+      );
+      if (!existing) {
+        throw error;
+      }
+      journey = toJourneyRead(existing);
+    }
+
+    if (clientJourneyId) {
+      await this.rememberSubmitted(clientJourneyId, journey);
+    }
+    return journey;
+  }
+
+  private async loadSubmitted(): Promise<Record<string, JourneyRead>> {
+    if (this.submitted) {
+      return this.submitted;
+    }
+    try {
+      const stored = await AsyncStorage.getItem(SUBMITTED_KEY);
+      this.submitted = this.submitted ?? (stored ? JSON.parse(stored) : {});
+    } catch (error) {
+      console.error('Failed to load submitted journeys:', error);
+      this.submitted = this.submitted ?? {};
+    }
+    return this.submitted as Record<string, JourneyRead>;
+  }
+
+  private async rememberSubmitted(
+    clientJourneyId: string,
+    journey: JourneyRead,
+  ): Promise<void> {
+    const submitted = await this.loadSubmitted();
+    submitted[clientJourneyId] = journey;
+
+    const keys = Object.keys(submitted);
+    keys
+      .slice(0, Math.max(keys.length - MAX_SUBMITTED_ENTRIES, 0))
+      .forEach(key => delete submitted[key]);
+
+    try {
+      await AsyncStorage.setItem(SUBMITTED_KEY, JSON.stringify(submitted));
+    } catch (error) {
+      console.error('Failed to save submitted journeys:', error);
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+    if (!this.appStateSubscription || !this.entries?.length) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...this.entries.map(e => e.nextAttemptAt));
+    const delay = Math.max(nextAttemptAt - Date.now(), 0);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      this.entries = this.entries ?? (stored ? JSON.parse(stored) : []);
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+      this.entries = this.entries ?? [];
+    }
+    return this.entries as OutboxEntry[];
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Failed to save outbox:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = [...(this.entries ?? [])];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const journeyOutbox = new JourneyOutbox();
+export default journeyOutbox;
@@ -0,0 +1,235 @@
+/**
+ * Personal Data Service (GDPR)
+ * Export everything the app and the backend hold about the user, and erase
+ * it when the account is deleted
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {apiClient} from '@/api/client';
+import {HttpError} from '@/api/errors';
+import {
+  CommuteTemplate,
+  Company,
+  JourneyTrackPoint,
+  LocalJourney,
+  PurchasedItem,
+  Team,
+  UserBadge,
+  UserProfile,
+  UserStats,
+  ValidatedJourney,
+  Wallet,
+} from '@/api/types';
+import tripDetection from '@/native/TripDetection';
+import journeyOutbox, {OutboxEntry} from './journey-outbox';
+import commuteTemplates from './commute-templates';
+import transitionLog, {ActivityTransition} from './transition-log';
+import detectionScheduler from './detection-schedule';
+import privateZones from './private-zones';
+import {DetectionSchedule} from '@/utils/detectionSchedule';
+import {PrivateZone} from '@/utils/privateZones';
+
+export interface PersonalDataExport {
+  exported_at: string;
+  // Server-side data
+  profile: UserProfile;
+  company: Company | null;
+  team: Team | null;
+  stats: UserStats | null;
+  wallet: Wallet | null;
+  badges: UserBadge[];
+  validated_journeys: ValidatedJourney[];
+  purchases: PurchasedItem[];
+  // Data kept on this device
+  device: {
+    // Detected journeys in the native database, pending and sent
+    local_journeys: LocalJourney[];
+    // GPS points recorded during those journeys, untrimmed
+    journey_tracks: {journey_id: number; points: JourneyTrackPoint[]}[];
+    // Journeys waiting to be sent
+    outbox: OutboxEntry[];
+    // Recurring trips (also on the backend when sync is enabled)
+    commute_templates: CommuteTemplate[];
+    // Activity changes of the last 48 h, used to split journeys into legs
+    activity_transitions: ActivityTransition[];
+    // Commute windows during which detection runs
+    detection_schedule: DetectionSchedule;
+    // Places trimmed from detected journeys, never sent to the backend
+    private_zones: PrivateZone[];
+    // Storage keys in use; credentials are listed, never exported
+    storage_keys: string[];
+  };
+}
+
+/**
+ * Collect the export. The profile is required; the other parts are left
+ * empty when their endpoint fails, so one outage does not block the export.
+ */
+export async function buildPersonalDataExport(
+  userId: number,
+): Promise<PersonalDataExport> {
+  const profile = await apiClient.getUserProfile(userId);
+  const [
+    company,
+    team,
+    stats,
+    wallet,
+    badges,
+    validatedJourneys,
+    purchases,
+    localJourneys,
+    outbox,
+    templates,
+    transitions,
+    schedule,
+    zones,
+    storageKeys,
+  ] = await Promise.all([
+    profile.company_id
+      ? apiClient.getCompany(profile.company_id).catch(() => null)
+      : null,
+    profile.team_id
+      ? apiClient.getTeam(profile.team_id).catch(() => null)
+      : null,
+    apiClient.getUserStats(userId).catch(() => null),
+    apiClient.getWallet(userId).catch(() => null),
+    apiClient.getUserBadges(userId).catch(() => []),
+    apiClient.getUserValidatedJourneys(userId).catch(() => []),
+    apiClient.getPurchasedItems(userId).catch(() => []),
+    tripDetection.getAllLocalJourneys().catch(() => []),
+    journeyOutbox.getEntries(),
+    commuteTemplates.getTemplates(),
+    transitionLog.getAll(),
+    detectionScheduler.getSchedule(),
+    privateZones.getZones(),
+    AsyncStorage.getAllKeys().catch(() => [] as readonly string[]),
+  ]);
+
+  const tracks = await Promise.all(
+    localJourneys.map(async journey => ({
+      journey_id: journey.id,
+      points: await tripDetection
+        .getJourneyTrack(journey.id)
+        .catch(() => [] as JourneyTrackPoint[]),
+    })),
+  );
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile,
+    company,
+    team,
+    stats,
+    wallet,
+    badges,
+    validated_journeys: validatedJourneys,
+    purchases,
+    device: {
+      local_journeys: localJourneys,
+      journey_tracks: tracks.filter(track => track.points.length > 0),
+      outbox,
+      commute_templates: templates,
+      activity_transitions: transitions,
+      detection_schedule: schedule,
+      private_zones: zones,
+      storage_keys: [...storageKeys],
+    },
+  };
+}
+
+export function toJson(data: PersonalDataExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * One CSV table per section, separated by a `# section` line
+ */
+export function toCsv(data: PersonalDataExport): string {
+  const sections: [string, object[]][] = [
+    ['profile', [data.profile]],
+    ['company', data.company ? [data.company] : []],
+    ['team', data.team ? [data.team] : []],
+    ['stats', data.stats ? [data.stats] : []],
+    ['wallet', data.wallet ? [data.wallet] : []],
+    ['badges', data.badges],
+    ['validated_journeys', data.validated_journeys],
+    ['purchases', data.purchases],
+    ['local_journeys', data.device.local_journeys],
+    [
+      'journey_tracks',
+      data.device.journey_tracks.flatMap(({journey_id, points}) =>
+        points.map(point => ({journey_id, ...point})),
+      ),
+    ],
+    [
+      'outbox',
+      data.device.outbox.map(({payload, ...entry}) => ({...entry, ...payload})),
+    ],
+    ['commute_templates', data.device.commute_templates],
+    ['activity_transitions', data.device.activity_transitions],
+    ['detection_schedule', [data.device.detection_schedule]],
+    ['private_zones', data.device.private_zones],
+  ];
+  return sections
+    .map(([name, rows]) => `# ${name}\n${toCsvTable(rows)}`)
+    .join('\n\n');
+}
+
+function toCsvTable(rows: object[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const lines = rows.map(row =>
+    columns
+      .map(column => toCsvCell((row as Record<string, unknown>)[column]))
+      .join(','),
+  );
+  return [columns.join(','), ...lines].join('\n');
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Delete the account on the backend, then erase everything on the device:
+ * native journeys, outbox, tokens (secure store), cache and AsyncStorage.
+ * Nothing local is erased if the backend refuses.
+ */
+export async function deleteAccountAndData(
+  userId: number,
+  password: string,
+): Promise<void> {
+  try {
+    await apiClient.deleteAccount(userId, {password});
+  } catch (error) {
+    // Other refusals keep the backend message
+    if (
+      error instanceof HttpError &&
+      error.status === 400 &&
+      error.detail === 'Incorrect password'
+    ) {
+      throw new HttpError(400, 'Mot de passe incorrect', error.body);
+    }
+    throw error;
+  }
+
+  // Stop first so no new journey is recorded meanwhile
+  await detectionScheduler.clear();
+  await tripDetection.stopDetection().catch(() => false);
+  try {
+    await tripDetection.deleteAllLocalJourneys();
+  } catch (error) {
+    console.error('Failed to delete local journeys:', error);
+  }
+  journeyOutbox.stop();
+  await journeyOutbox.clear();
+  await transitionLog.clear();
+  await privateZones.clear();
+  // Wipes the tokens and the query cache, then notifies `logged_out`
+  await apiClient.logout();
+  await AsyncStorage.clear();
+}
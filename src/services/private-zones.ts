@@ -0,0 +1,114 @@
+/**
+ * Private Zones
+ * Places defined by the user (home...) stored only on this device. Detected
+ * journeys, their routes and GPS logs are trimmed before being displayed or
+ * submitted.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {JourneyTrackPoint, LocalJourney} from '@/api/types';
+import {GpsLogEvent} from '@/native/TripDetectionDriver';
+import {
+  PrivateZone,
+  PrivateZoneInput,
+  trimGpsLog,
+  trimJourney,
+  trimTrackPoints,
+} from '@/utils/privateZones';
+import {generateUuid} from '@/utils/uuid';
+
+const ZONES_KEY = '@GMP_private_zones';
+
+class PrivateZoneStore {
+  private zones: PrivateZone[] | null = null;
+  private listeners = new Set<(zones: PrivateZone[]) => void>();
+
+  async getZones(): Promise<PrivateZone[]> {
+    return [...(await this.load())];
+  }
+
+  /**
+   * Create a zone, or replace the one with the same id
+   */
+  async saveZone(input: PrivateZoneInput): Promise<PrivateZone> {
+    const zones = [...(await this.load())];
+    const zone: PrivateZone = {...input, id: input.id ?? generateUuid()};
+    const index = zones.findIndex(z => z.id === zone.id);
+    if (index >= 0) {
+      zones[index] = zone;
+    } else {
+      zones.push(zone);
+    }
+    await this.update(zones);
+    return zone;
+  }
+
+  async deleteZone(id: string): Promise<void> {
+    const zones = await this.load();
+    await this.update(zones.filter(z => z.id !== id));
+  }
+
+  async trimJourney(journey: LocalJourney): Promise<LocalJourney> {
+    return trimJourney(journey, await this.load());
+  }
+
+  async trimJourneys(journeys: LocalJourney[]): Promise<LocalJourney[]> {
+    const zones = await this.load();
+    return journeys.map(journey => trimJourney(journey, zones));
+  }
+
+  async trimTrack(points: JourneyTrackPoint[]): Promise<JourneyTrackPoint[]> {
+    return trimTrackPoints(points, await this.load());
+  }
+
+  async trimGpsLog(event: GpsLogEvent): Promise<GpsLogEvent> {
+    return trimGpsLog(event, await this.load());
+  }
+
+  /**
+   * Subscribe to zone changes
+   */
+  addListener(callback: (zones: PrivateZone[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Forget every zone (logout, account deletion)
+   */
+  async clear(): Promise<void> {
+    this.zones = [];
+    await AsyncStorage.removeItem(ZONES_KEY);
+    this.notify();
+  }
+
+  private async update(zones: PrivateZone[]): Promise<void> {
+    this.zones = zones;
+    await AsyncStorage.setItem(ZONES_KEY, JSON.stringify(zones));
+    this.notify();
+  }
+
+  private notify(): void {
+    const zones = [...(this.zones ?? [])];
+    this.listeners.forEach(listener => listener(zones));
+  }
+
+  private async load(): Promise<PrivateZone[]> {
+    if (this.zones) {
+      return this.zones;
+    }
+    try {
+      const stored = await AsyncStorage.getItem(ZONES_KEY);
+      this.zones = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load private zones:', error);
+      this.zones = [];
+    }
+    return this.zones as PrivateZone[];
+  }
+}
+
+export const privateZones = new PrivateZoneStore();
+export default privateZones;
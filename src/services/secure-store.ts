@@ -0,0 +1,143 @@
+/**
+ * Secure Store for Green Mobility Pass
+ * Storage for secrets (auth tokens), kept out of plain AsyncStorage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {secureStorage} from '../native/SecureStorage';
+
+export interface SecureStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  // Wipe every secret (used on logout)
+  clear(): Promise<void>;
+}
+
+/**
+ * Encrypted with a Keystore-held key on Android, in the Keychain on iOS
+ * (native module)
+ */
+export class KeystoreSecureStore implements SecureStore {
+  getItem(key: string): Promise<string | null> {
+    return secureStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return secureStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return secureStorage.removeItem(key);
+  }
+
+  clear(): Promise<void> {
+    return secureStorage.clear();
+  }
+}
+
+/**
+ * Kept in memory only: used in tests, and in release builds without the
+ * native module (secrets do not survive a restart)
+ */
+export class MemorySecureStore implements SecureStore {
+  private values: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.values.clear();
+  }
+}
+
+/**
+ * Plain AsyncStorage, as in earlier versions: fallback for dev builds
+ * without the native module, so sessions still survive a restart. Never
+ * used in release builds.
+ */
+export class AsyncStorageSecureStore implements SecureStore {
+  // Keys used since launch, removed by clear()
+  private keys: Set<string> = new Set();
+
+  async getItem(key: string): Promise<string | null> {
+    this.keys.add(key);
+    return AsyncStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.keys.add(key);
+    await AsyncStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.multiRemove([...this.keys]);
+    this.keys.clear();
+  }
+}
+
+/**
+ * Move values written in plain AsyncStorage by earlier versions into the
+ * secure store, then delete them. A value already in the store wins.
+ * Nothing moves when the store is AsyncStorage itself.
+ */
+export async function migrateFromAsyncStorage(
+  store: SecureStore,
+  keys: string[],
+): Promise<void> {
+  if (store instanceof AsyncStorageSecureStore) {
+    return;
+  }
+  await Promise.all(
+    keys.map(async key => {
+      const legacy = await AsyncStorage.getItem(key);
+      if (legacy === null) {
+        return;
+      }
+      if ((await store.getItem(key)) === null) {
+        await store.setItem(key, legacy);
+      }
+      await AsyncStorage.removeItem(key);
+    }),
+  );
+}
+
+/**
+ * Keystore/Keychain when the native module is linked. Without it, only dev
+ * builds keep tokens in plain AsyncStorage: tests and release builds keep
+ * them in memory, and a release build logs in again after a restart.
+ */
+function createSecureStore(): SecureStore {
+  if (secureStorage.isAvailable()) {
+    return new KeystoreSecureStore();
+  }
+  if (process.env.JEST_WORKER_ID) {
+    return new MemorySecureStore();
+  }
+  if (__DEV__) {
+    console.warn(
+      '[SecureStore] Native module missing, tokens kept in plain AsyncStorage',
+    );
+    return new AsyncStorageSecureStore();
+  }
+  console.error('[SecureStore] Native module missing, tokens not persisted');
+  return new MemorySecureStore();
+}
+
+// Export singleton instance
+export const secureStore: SecureStore = createSecureStore();
+
+export default secureStore;
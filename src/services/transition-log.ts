@@ -0,0 +1,49 @@
+/**
+ * Transition Log
+ * Recent activity transitions reported by the detection (walking, on
+ * bicycle, in vehicle...) so a detected journey can later be split into legs
+ * where the activity changed. The driver records them itself (natively on
+ * Android), so transitions received while the app was not running are kept.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import tripDetection from '@/native/TripDetection';
+import {TransitionEvent} from '@/native/TripDetectionDriver';
+
+// Where earlier versions kept the transitions they saw from JS
+const LEGACY_TRANSITIONS_KEY = '@GMP_activity_transitions';
+
+export type ActivityTransition = TransitionEvent;
+
+class TransitionLog {
+  /**
+   * Transitions recorded between two epoch ms timestamps, oldest first
+   */
+  async getTransitions(
+    from: number,
+    to: number,
+  ): Promise<ActivityTransition[]> {
+    try {
+      return await tripDetection.getActivityTransitions(from, to);
+    } catch (error) {
+      console.error('Failed to load activity transitions:', error);
+      return [];
+    }
+  }
+
+  async getAll(): Promise<ActivityTransition[]> {
+    return this.getTransitions(0, Date.now());
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await tripDetection.clearActivityTransitions();
+      await AsyncStorage.removeItem(LEGACY_TRANSITIONS_KEY);
+    } catch (error) {
+      console.error('Failed to clear activity transitions:', error);
+    }
+  }
+}
+
+export const transitionLog = new TransitionLog();
+export default transitionLog;
@@ -2,4 +2,5 @@ declare module '@env' {
   export const API_BASE_URL: string;
   export const ACCESS_TOKEN_KEY: string;
   export const REFRESH_TOKEN_KEY: string;
+  export const API_RESPONSE_VALIDATION: string;
 }
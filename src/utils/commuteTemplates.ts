@@ -0,0 +1,146 @@
+/**
+ * Commute template utilities - Turn a template into a declaration and match
+ * detected journeys against the templates
+ */
+
+import {CommuteTemplate, LocalJourney} from '../api/types';
+import {
+  MANUAL_MAX_DURATION_MINUTES,
+  ManualJourney,
+  checkManualJourney,
+} from './journeys';
+import {FieldErrors, MIN_NAME_LENGTH} from './validation';
+
+// A detected journey matches a template when it starts within this window
+// around the template time and its distance is close enough
+export const TEMPLATE_TIME_WINDOW_MINUTES = 45;
+export const TEMPLATE_DISTANCE_TOLERANCE = 0.3; // relative to the template
+const MIN_DISTANCE_TOLERANCE_KM = 0.5;
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Format the local time of a date as HH:MM
+ */
+export function formatTimeOfDay(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes(),
+  ).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since midnight of a HH:MM time, null when malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * The last occurrence of a template that is already over: today at its
+ * departure time, or the day before when that trip has not ended yet (two
+ * days before for a late trip still running past midnight)
+ */
+export function templateToManualJourney(
+  template: CommuteTemplate,
+  now: Date = new Date(),
+): ManualJourney {
+  const departure = new Date(now);
+  const minutes = parseTimeOfDay(template.departure_time) ?? 0;
+  departure.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+
+  let arrival = new Date(
+    departure.getTime() + template.duration_minutes * 60000,
+  );
+  while (arrival > now) {
+    departure.setDate(departure.getDate() - 1);
+    arrival = new Date(departure.getTime() + template.duration_minutes * 60000);
+  }
+
+  return {
+    departure,
+    arrival,
+    distanceKm: template.distance_km,
+    transportType: template.transport_type,
+  };
+}
+
+/**
+ * Find the template a detected journey most likely is: departure within the
+ * time window (across midnight too) and similar distance. Closest wins.
+ */
+export function findMatchingTemplate(
+  templates: CommuteTemplate[],
+  journey: LocalJourney,
+): CommuteTemplate | null {
+  const departure = new Date(journey.timeDeparture);
+  const journeyMinutes = departure.getHours() * 60 + departure.getMinutes();
+
+  let best: CommuteTemplate | null = null;
+  let bestScore = Infinity;
+  templates.forEach(template => {
+    const templateMinutes = parseTimeOfDay(template.departure_time);
+    if (templateMinutes === null) {
+      return;
+    }
+    const gap = Math.abs(journeyMinutes - templateMinutes);
+    const timeGap = Math.min(gap, DAY_MINUTES - gap);
+    const distanceGap = Math.abs(journey.distanceKm - template.distance_km);
+    const tolerance = Math.max(
+      template.distance_km * TEMPLATE_DISTANCE_TOLERANCE,
+      MIN_DISTANCE_TOLERANCE_KM,
+    );
+    if (timeGap > TEMPLATE_TIME_WINDOW_MINUTES || distanceGap > tolerance) {
+      return;
+    }
+
+    // Both gaps relative to their limit, so neither dominates
+    const score =
+      timeGap / TEMPLATE_TIME_WINDOW_MINUTES + distanceGap / tolerance;
+    if (score < bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Validate a template before saving. Its distance and duration must pass
+ * the same plausibility checks as a declared journey.
+ */
+export function validateCommuteTemplate(
+  template: Omit<CommuteTemplate, 'id'>,
+): FieldErrors<CommuteTemplate> {
+  const errors: FieldErrors<CommuteTemplate> = {};
+  if (template.name.trim().length < MIN_NAME_LENGTH) {
+    errors.name = `Minimum ${MIN_NAME_LENGTH} caracteres`;
+  }
+  if (parseTimeOfDay(template.departure_time) === null) {
+    errors.departure_time = 'Heure invalide';
+  }
+  if (
+    !Number.isInteger(template.duration_minutes) ||
+    template.duration_minutes < 1 ||
+    template.duration_minutes > MANUAL_MAX_DURATION_MINUTES
+  ) {
+    errors.duration_minutes = `Entre 1 et ${MANUAL_MAX_DURATION_MINUTES} min`;
+  }
+  if (isNaN(template.distance_km) || template.distance_km <= 0) {
+    errors.distance_km = 'Distance invalide';
+  }
+  if (Object.keys(errors).length === 0) {
+    const check = checkManualJourney(
+      templateToManualJourney({...template, id: ''}),
+    );
+    if (check.distance) {
+      errors.distance_km = check.distance;
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,75 @@
+/**
+ * Detection config - Defaults and allowed ranges of the trip detection
+ * thresholds (must match DetectionConfig.kt)
+ */
+
+import {DetectionConfig} from '../api/types';
+import {FieldErrors} from './validation';
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  minDurationSeconds: 1,
+  minDistanceMeters: 0,
+  stopTimeoutSeconds: 60,
+  gpsIntervalSeconds: 5,
+  minConfidence: 0,
+};
+
+export const DETECTION_CONFIG_FIELDS: {
+  key: keyof DetectionConfig;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+}[] = [
+  {
+    key: 'minDurationSeconds',
+    label: 'Duree minimale',
+    unit: 's',
+    min: 1,
+    max: 1800,
+  },
+  {
+    key: 'minDistanceMeters',
+    label: 'Distance minimale',
+    unit: 'm',
+    min: 0,
+    max: 5000,
+  },
+  {
+    key: 'stopTimeoutSeconds',
+    label: "Delai d'arret",
+    unit: 's',
+    min: 30,
+    max: 900,
+  },
+  {
+    key: 'gpsIntervalSeconds',
+    label: 'Intervalle GPS',
+    unit: 's',
+    min: 1,
+    max: 60,
+  },
+  {
+    key: 'minConfidence',
+    label: 'Confiance minimale',
+    unit: '%',
+    min: 0,
+    max: 100,
+  },
+];
+
+/**
+ * Check every value is a whole number within its range
+ */
+export function validateDetectionConfig(
+  config: DetectionConfig,
+): FieldErrors<DetectionConfig> {
+  const errors: FieldErrors<DetectionConfig> = {};
+  DETECTION_CONFIG_FIELDS.forEach(({key, unit, min, max}) => {
+    const value = config[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors[key] = `Entre ${min} et ${max} ${unit}`;
+    }
+  });
+  return errors;
+}
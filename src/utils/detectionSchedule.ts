@@ -0,0 +1,187 @@
+/**
+ * Detection schedule - Commute windows during which trip detection runs
+ * (week days, time windows, days off or extra days)
+ */
+
+import {formatTimeOfDay, parseTimeOfDay} from './commuteTemplates';
+
+export interface TimeWindow {
+  start: string; // HH:MM
+  end: string; // HH:MM, after start (windows do not cross midnight)
+}
+
+export interface ScheduleException {
+  date: string; // YYYY-MM-DD, local time
+  active: boolean; // false: day off (holiday), true: extra day
+}
+
+export interface DetectionSchedule {
+  // Off: detection runs all the time, as before schedules existed
+  enabled: boolean;
+  days: number[]; // 0 = Sunday ... 6 = Saturday (Date.getDay)
+  windows: TimeWindow[];
+  exceptions: ScheduleException[];
+}
+
+export interface ScheduleErrors {
+  days?: string;
+  windows: (string | undefined)[];
+}
+
+export const DEFAULT_DETECTION_SCHEDULE: DetectionSchedule = {
+  enabled: false,
+  days: [1, 2, 3, 4, 5],
+  windows: [
+    {start: '06:30', end: '10:00'},
+    {start: '16:00', end: '20:00'},
+  ],
+  exceptions: [],
+};
+
+// Monday first, as displayed
+export const WEEK_DAYS: {day: number; label: string}[] = [
+  {day: 1, label: 'Lun'},
+  {day: 2, label: 'Mar'},
+  {day: 3, label: 'Mer'},
+  {day: 4, label: 'Jeu'},
+  {day: 5, label: 'Ven'},
+  {day: 6, label: 'Sam'},
+  {day: 0, label: 'Dim'},
+];
+
+/**
+ * YYYY-MM-DD of a date, in local time
+ */
+export function formatDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    '0',
+  )}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Local midnight at the end of the day of a date
+ */
+export function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(24, 0, 0, 0);
+  return end;
+}
+
+function isActiveDay(schedule: DetectionSchedule, date: Date): boolean {
+  const key = formatDateKey(date);
+  const exception = schedule.exceptions.find(e => e.date === key);
+  return exception ? exception.active : schedule.days.includes(date.getDay());
+}
+
+/**
+ * Whether detection should run at a given time
+ */
+export function isInSchedule(
+  schedule: DetectionSchedule,
+  date: Date = new Date(),
+): boolean {
+  if (!schedule.enabled) {
+    return true;
+  }
+  if (!isActiveDay(schedule, date)) {
+    return false;
+  }
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return schedule.windows.some(window => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    return start !== null && end !== null && minutes >= start && minutes < end;
+  });
+}
+
+/**
+ * Next time detection should start or stop, null when it never changes
+ * within a week (schedule off, no active day...)
+ */
+export function nextScheduleChange(
+  schedule: DetectionSchedule,
+  now: Date = new Date(),
+): Date | null {
+  if (!schedule.enabled) {
+    return null;
+  }
+  const current = isInSchedule(schedule, now);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const boundaries: Date[] = [];
+  for (let offset = 0; offset <= 7; offset++) {
+    schedule.windows.forEach(window => {
+      [window.start, window.end].forEach(time => {
+        const minutes = parseTimeOfDay(time);
+        if (minutes === null) {
+          return;
+        }
+        // Calendar days, not 24 h steps: a DST change makes a day 23 or 25 h
+        const boundary = new Date(today);
+        boundary.setDate(today.getDate() + offset);
+        boundary.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+        if (boundary > now) {
+          boundaries.push(boundary);
+        }
+      });
+    });
+  }
+  boundaries.sort((a, b) => a.getTime() - b.getTime());
+  return boundaries.find(b => isInSchedule(schedule, b) !== current) ?? null;
+}
+
+export function validateSchedule(schedule: DetectionSchedule): ScheduleErrors {
+  const errors: ScheduleErrors = {windows: []};
+  if (!schedule.enabled) {
+    return errors;
+  }
+  if (schedule.days.length === 0) {
+    errors.days = 'Choisissez au moins un jour';
+  }
+  errors.windows = schedule.windows.map(window => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+      return 'Heure invalide';
+    }
+    return end > start ? undefined : 'La fin doit etre apres le debut';
+  });
+  if (schedule.windows.length === 0) {
+    errors.days = errors.days ?? 'Ajoutez au moins une plage horaire';
+  }
+  return errors;
+}
+
+export function hasScheduleErrors(errors: ScheduleErrors): boolean {
+  return errors.days !== undefined || errors.windows.some(Boolean);
+}
+
+/**
+ * Short description, e.g. "Lun, Mar, Jeu · 06:30-10:00, 16:00-20:00"
+ */
+export function describeSchedule(schedule: DetectionSchedule): string {
+  if (!schedule.enabled) {
+    return 'Toute la journee, tous les jours';
+  }
+  const days = WEEK_DAYS.filter(({day}) => schedule.days.includes(day))
+    .map(({label}) => label)
+    .join(', ');
+  const windows = schedule.windows
+    .map(window => `${window.start}-${window.end}`)
+    .join(', ');
+  return `${days} · ${windows}`;
+}
+
+/**
+ * "16:00" today, or "lun. 06:30" on another day
+ */
+export function formatScheduleTime(date: Date, now: Date = new Date()): string {
+  if (formatDateKey(date) === formatDateKey(now)) {
+    return formatTimeOfDay(date);
+  }
+  return `${date.toLocaleDateString('fr-FR', {
+    weekday: 'short',
+  })} ${formatTimeOfDay(date)}`;
+}
@@ -0,0 +1,317 @@
+/**
+ * Journey leg utilities - Split a detected journey into legs (walk, then
+ * train, then bike...), estimate their distances and propose the split
+ * points from the activity transitions recorded during the trip
+ */
+
+import {JourneyLeg, TransportType} from '../api/types';
+import {MANUAL_SPEED_RANGES} from './journeys';
+
+export const MAX_LEGS = 5;
+// Shortest leg the boundaries can be moved to
+export const MIN_LEG_MINUTES = 1;
+
+// Typical speed (km/h) used to share the journey distance between legs
+const TYPICAL_SPEED_KMH: Record<TransportType, number> = {
+  marche: 5,
+  velo: 15,
+  transport_commun: 30,
+  voiture: 35,
+};
+
+// Native activity types (Activity Recognition) and the mode they suggest.
+// STILL and UNKNOWN say nothing about the mode.
+const ACTIVITY_TRANSPORT_TYPES: Record<string, TransportType> = {
+  WALKING: 'marche',
+  RUNNING: 'marche',
+  ON_BICYCLE: 'velo',
+  IN_VEHICLE: 'voiture',
+};
+
+export interface LegDraft {
+  transportType: TransportType;
+  departure: number; // epoch ms
+  arrival: number; // epoch ms
+  distance: string; // km, as typed by the user
+}
+
+interface JourneyBounds {
+  timeDeparture: number; // epoch ms
+  timeArrival: number; // epoch ms
+}
+
+export function parseLegDistance(distance: string): number {
+  return parseFloat(distance.replace(',', '.'));
+}
+
+export function totalLegDistance(legs: LegDraft[]): number {
+  const total = legs.reduce(
+    (sum, leg) => sum + (parseLegDistance(leg.distance) || 0),
+    0,
+  );
+  return Math.round(total * 10) / 10;
+}
+
+/**
+ * Share a distance between the legs according to their duration and the
+ * typical speed of their mode. Rounded to 0.1 km, the last leg takes the
+ * remainder so the legs still add up to the distance.
+ */
+export function estimateLegDistances(
+  legs: LegDraft[],
+  distanceKm: number,
+): LegDraft[] {
+  const weights = legs.map(
+    leg =>
+      ((leg.arrival - leg.departure) / 3600000) *
+      TYPICAL_SPEED_KMH[leg.transportType],
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let remaining = Math.round(distanceKm * 10);
+  return legs.map((leg, index) => {
+    const tenths =
+      index === legs.length - 1
+        ? remaining
+        : Math.min(
+            remaining,
+            Math.round(
+              totalWeight > 0
+                ? (distanceKm * 10 * weights[index]) / totalWeight
+                : (distanceKm * 10) / legs.length,
+            ),
+          );
+    remaining -= tenths;
+    return {...leg, distance: String(tenths / 10)};
+  });
+}
+
+/**
+ * Split a journey into legs at the given timestamps, one mode per leg
+ */
+export function createLegs(
+  journey: JourneyBounds,
+  boundaries: number[],
+  transportTypes: TransportType[],
+  distanceKm: number,
+): LegDraft[] {
+  const times = [journey.timeDeparture, ...boundaries, journey.timeArrival];
+  const legs = transportTypes.map((transportType, index) => ({
+    transportType,
+    departure: times[index],
+    arrival: times[index + 1],
+    distance: '',
+  }));
+  return estimateLegDistances(legs, distanceKm);
+}
+
+/**
+ * Default split when no transition was recorded: in two halves, walking
+ * first then the journey's mode (public transport for a walk)
+ */
+export function defaultLegs(
+  journey: JourneyBounds,
+  transportType: TransportType,
+  distanceKm: number,
+): LegDraft[] {
+  const middle = Math.round(
+    (journey.timeDeparture + journey.timeArrival) / 2 / 60000,
+  );
+  return createLegs(
+    journey,
+    [middle * 60000],
+    ['marche', transportType === 'marche' ? 'transport_commun' : transportType],
+    distanceKm,
+  );
+}
+
+/**
+ * Propose legs from the activity transitions recorded during the journey:
+ * a new leg starts at each ENTER transition whose mode differs from the
+ * current one. Null when the activity never changed mode.
+ */
+export function proposeLegs(
+  journey: JourneyBounds,
+  transitions: {
+    activityType: string;
+    transitionType: string;
+    timestamp: number;
+  }[],
+  distanceKm: number,
+): LegDraft[] | null {
+  const minGap = MIN_LEG_MINUTES * 60000;
+  const boundaries: number[] = [];
+  const transportTypes: TransportType[] = [];
+  transitions
+    .filter(
+      transition =>
+        transition.transitionType === 'ENTER' &&
+        transition.activityType in ACTIVITY_TRANSPORT_TYPES &&
+        transition.timestamp < journey.timeArrival - minGap,
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(transition => {
+      const transportType = ACTIVITY_TRANSPORT_TYPES[transition.activityType];
+      const last = transportTypes[transportTypes.length - 1];
+      if (transportType === last) {
+        return;
+      }
+      if (
+        transportTypes.length === 0 ||
+        transition.timestamp < journey.timeDeparture + minGap
+      ) {
+        // Activity at the start of the journey
+        transportTypes[0] = transportType;
+        return;
+      }
+      const previousBoundary =
+        boundaries[boundaries.length - 1] ?? journey.timeDeparture;
+      if (
+        transition.timestamp - previousBoundary < minGap ||
+        transportTypes.length >= MAX_LEGS
+      ) {
+        return;
+      }
+      boundaries.push(transition.timestamp);
+      transportTypes.push(transportType);
+    });
+
+  if (transportTypes.length < 2) {
+    return null;
+  }
+  return createLegs(journey, boundaries, transportTypes, distanceKm);
+}
+
+/**
+ * Move the boundary between legs `index` and `index + 1`, keeping both at
+ * least MIN_LEG_MINUTES long. Distances are estimated again.
+ */
+export function moveLegBoundary(
+  legs: LegDraft[],
+  index: number,
+  deltaMinutes: number,
+): LegDraft[] {
+  const before = legs[index];
+  const after = legs[index + 1];
+  const minGap = MIN_LEG_MINUTES * 60000;
+  const boundary = Math.min(
+    Math.max(before.arrival + deltaMinutes * 60000, before.departure + minGap),
+    after.arrival - minGap,
+  );
+  const moved = legs.map((leg, i) => {
+    if (i === index) {
+      return {...leg, arrival: boundary};
+    }
+    if (i === index + 1) {
+      return {...leg, departure: boundary};
+    }
+    return leg;
+  });
+  return estimateLegDistances(moved, totalLegDistance(legs));
+}
+
+/**
+ * Split a leg in two halves with the same mode
+ */
+export function splitLeg(legs: LegDraft[], index: number): LegDraft[] {
+  const leg = legs[index];
+  const middle = Math.round((leg.departure + leg.arrival) / 2 / 60000) * 60000;
+  if (
+    legs.length >= MAX_LEGS ||
+    middle - leg.departure < MIN_LEG_MINUTES * 60000 ||
+    leg.arrival - middle < MIN_LEG_MINUTES * 60000
+  ) {
+    return legs;
+  }
+  const split = [
+    ...legs.slice(0, index),
+    {...leg, arrival: middle},
+    {...leg, departure: middle},
+    ...legs.slice(index + 1),
+  ];
+  return estimateLegDistances(split, totalLegDistance(legs));
+}
+
+/**
+ * Remove a leg, the previous leg (or the next one for the first) takes
+ * over its time
+ */
+export function removeLeg(legs: LegDraft[], index: number): LegDraft[] {
+  if (legs.length <= 2) {
+    return legs;
+  }
+  const merged = legs
+    .map((leg, i) => {
+      if (index > 0 && i === index - 1) {
+        return {...leg, arrival: legs[index].arrival};
+      }
+      if (index === 0 && i === 1) {
+        return {...leg, departure: legs[0].departure};
+      }
+      return leg;
+    })
+    .filter((_, i) => i !== index);
+  return estimateLegDistances(merged, totalLegDistance(legs));
+}
+
+/**
+ * Change the mode of a leg. Distances are estimated again.
+ */
+export function setLegTransportType(
+  legs: LegDraft[],
+  index: number,
+  transportType: TransportType,
+): LegDraft[] {
+  return estimateLegDistances(
+    legs.map((leg, i) => (i === index ? {...leg, transportType} : leg)),
+    totalLegDistance(legs),
+  );
+}
+
+/**
+ * The mode covering the longest distance, reported as the journey mode
+ */
+export function mainTransportType(legs: LegDraft[]): TransportType {
+  const distances = new Map<TransportType, number>();
+  legs.forEach(leg =>
+    distances.set(
+      leg.transportType,
+      (distances.get(leg.transportType) ?? 0) +
+        (parseLegDistance(leg.distance) || 0),
+    ),
+  );
+  let main = legs[0].transportType;
+  distances.forEach((distance, transportType) => {
+    if (distance > (distances.get(main) ?? 0)) {
+      main = transportType;
+    }
+  });
+  return main;
+}
+
+/**
+ * Check every leg: a distance and an average speed that matches its mode.
+ * One message per leg, undefined when the leg is fine.
+ */
+export function validateLegs(legs: LegDraft[]): (string | undefined)[] {
+  return legs.map(leg => {
+    const distanceKm = parseLegDistance(leg.distance);
+    if (isNaN(distanceKm) || distanceKm <= 0) {
+      return 'Distance invalide';
+    }
+    const speed = distanceKm / ((leg.arrival - leg.departure) / 3600000);
+    const range = MANUAL_SPEED_RANGES[leg.transportType];
+    if (speed < range.min || speed > range.max) {
+      return `Vitesse peu plausible pour ce mode : ${Math.round(speed)} km/h`;
+    }
+    return undefined;
+  });
+}
+
+export function toJourneyLegs(legs: LegDraft[]): JourneyLeg[] {
+  return legs.map(leg => ({
+    transport_type: leg.transportType,
+    distance_km: Math.round(parseLegDistance(leg.distance) * 10) / 10,
+    time_departure: new Date(leg.departure).toISOString(),
+    time_arrival: new Date(leg.arrival).toISOString(),
+  }));
+}
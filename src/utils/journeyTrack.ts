@@ -0,0 +1,139 @@
+/**
+ * Journey track utilities - Trim the ends of a recorded route for privacy,
+ * compute segment speeds and project the points for drawing
+ */
+
+import {JourneyTrackPoint} from '../api/types';
+import {haversineKm} from './traces';
+
+// Trimmed from each end of a track when the caller asks for privacy
+export const DEFAULT_TRACK_TRIM_METERS = 200;
+
+export interface TrackSegment {
+  from: {x: number; y: number};
+  to: {x: number; y: number};
+  speedKmh: number;
+}
+
+export interface ProjectedTrack {
+  points: {x: number; y: number}[];
+  segments: TrackSegment[];
+}
+
+// Speed bands for the route colors, slowest first
+export const SPEED_COLORS: {maxKmh: number; color: string; label: string}[] = [
+  {maxKmh: 7, color: '#4CAF50', label: '< 7 km/h'},
+  {maxKmh: 25, color: '#2196F3', label: '7 - 25 km/h'},
+  {maxKmh: 50, color: '#FF9800', label: '25 - 50 km/h'},
+  {maxKmh: Infinity, color: '#E53935', label: '> 50 km/h'},
+];
+
+function segmentKm(from: JourneyTrackPoint, to: JourneyTrackPoint): number {
+  return haversineKm(from, to);
+}
+
+/**
+ * Drop the points within `meters` of path distance from the start and from
+ * the end, so the route does not show where the trip began or ended. The
+ * whole track goes when it is shorter than twice that distance.
+ */
+export function trimTrack(
+  points: JourneyTrackPoint[],
+  meters: number,
+): JourneyTrackPoint[] {
+  if (meters <= 0 || points.length === 0) {
+    return [...points];
+  }
+  const limitKm = meters / 1000;
+
+  let start = 0;
+  let fromStart = 0;
+  while (start < points.length - 1 && fromStart < limitKm) {
+    fromStart += segmentKm(points[start], points[start + 1]);
+    start++;
+  }
+
+  let end = points.length - 1;
+  let fromEnd = 0;
+  while (end > 0 && fromEnd < limitKm) {
+    fromEnd += segmentKm(points[end - 1], points[end]);
+    end--;
+  }
+
+  return fromStart < limitKm || start > end ? [] : points.slice(start, end + 1);
+}
+
+/**
+ * Speed between each point and the next one, in km/h: the fix speed when
+ * both points report one, otherwise distance over time
+ */
+export function segmentSpeeds(points: JourneyTrackPoint[]): number[] {
+  return points.slice(1).map((to, i) => {
+    const from = points[i];
+    if (from.speed !== undefined && to.speed !== undefined) {
+      return ((from.speed + to.speed) / 2) * 3.6;
+    }
+    const hours = (to.timestamp - from.timestamp) / 3600000;
+    return hours > 0 ? segmentKm(from, to) / hours : 0;
+  });
+}
+
+export function speedColor(speedKmh: number): string {
+  return (
+    SPEED_COLORS.find(band => speedKmh < band.maxKmh) ??
+    SPEED_COLORS[SPEED_COLORS.length - 1]
+  ).color;
+}
+
+/**
+ * Fit the track in a width x height box (north up, same scale on both
+ * axes), leaving `padding` on each side
+ */
+export function projectTrack(
+  points: JourneyTrackPoint[],
+  width: number,
+  height: number,
+  padding: number,
+): ProjectedTrack {
+  if (points.length === 0) {
+    return {points: [], segments: []};
+  }
+  // Equirectangular projection, good enough at the scale of a trip
+  const meanLatitude =
+    points.reduce((sum, p) => sum + p.latitude, 0) / points.length;
+  const xScale = Math.cos((meanLatitude * Math.PI) / 180);
+  const raw = points.map(p => ({x: p.longitude * xScale, y: -p.latitude}));
+
+  const xs = raw.map(p => p.x);
+  const ys = raw.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const innerWidth = Math.max(width - 2 * padding, 0);
+  const innerHeight = Math.max(height - 2 * padding, 0);
+  const scale =
+    spanX === 0 && spanY === 0
+      ? 0
+      : Math.min(
+          spanX > 0 ? innerWidth / spanX : Infinity,
+          spanY > 0 ? innerHeight / spanY : Infinity,
+        );
+  // Center the route in the box
+  const offsetX = padding + (innerWidth - spanX * scale) / 2;
+  const offsetY = padding + (innerHeight - spanY * scale) / 2;
+
+  const projected = raw.map(p => ({
+    x: offsetX + (p.x - minX) * scale,
+    y: offsetY + (p.y - minY) * scale,
+  }));
+  const speeds = segmentSpeeds(points);
+  return {
+    points: projected,
+    segments: speeds.map((speedKmh, i) => ({
+      from: projected[i],
+      to: projected[i + 1],
+      speedKmh,
+    })),
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Journey utilities - Build backend payloads from locally detected or
+ * declared journeys and group validated journeys for display
+ */
+
+import {
+  JourneyCreate,
+  JourneyLeg,
+  LocalJourney,
+  TransportType,
+} from '../api/types';
+
+export const VALID_TRANSPORT_TYPES: TransportType[] = [
+  'marche',
+  'velo',
+  'transport_commun',
+  'voiture',
+];
+
+// V1 Privacy: libellés neutres, jamais d'adresses réelles
+export const PLACE_DEPARTURE_LABEL = 'Début du trajet';
+export const PLACE_ARRIVAL_LABEL = 'Fin du trajet';
+// Start or end trimmed by a private zone (see privateZones.ts)
+export const PRIVATE_PLACE_LABEL = 'Zone privée';
+
+/**
+ * Convert an epoch ms timestamp to ISO, falling back to now when invalid
+ */
+function toIsoOrNow(timestamp: number, label: string): string {
+  if (!timestamp || isNaN(timestamp) || timestamp <= 0) {
+    console.warn(
+      `Timestamp ${label} invalide, utilisation de la date actuelle`,
+    );
+    return new Date().toISOString();
+  }
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) {
+    console.warn(`Date ${label} invalide, utilisation de la date actuelle`);
+    return new Date().toISOString();
+  }
+  return date.toISOString();
+}
+
+/**
+ * Labels shown for the start and end of a detected journey: neutral, or
+ * "Zone privée" when a private zone trimmed them. On-device only, the
+ * backend always gets the neutral labels (buildJourneyCreate).
+ */
+export function journeyPlaceLabels(journey: LocalJourney): {
+  departure: string;
+  arrival: string;
+} {
+  return {
+    departure:
+      journey.placeDeparture === PRIVATE_PLACE_LABEL
+        ? PRIVATE_PLACE_LABEL
+        : PLACE_DEPARTURE_LABEL,
+    arrival:
+      journey.placeArrival === PRIVATE_PLACE_LABEL
+        ? PRIVATE_PLACE_LABEL
+        : PLACE_ARRIVAL_LABEL,
+  };
+}
+
+/**
+ * Build the JourneyCreate payload for a local journey, with the user's edits.
+ * Invalid values fall back to defaults so auto-detection can still be tested.
+ * With legs, the edits carry the main mode and the total distance.
+ */
+export function buildJourneyCreate(
+  journey: LocalJourney,
+  edits: {
+    transportType?: string;
+    distanceKm?: number;
+    legs?: JourneyLeg[];
+  } = {},
+): JourneyCreate {
+  let distanceKm = edits.distanceKm ?? journey.distanceKm;
+  if (isNaN(distanceKm) || distanceKm <= 0) {
+    console.warn(
+      'Distance invalide, utilisation de la valeur par défaut: 0.5 km',
+    );
+    distanceKm = 0.5; // Valeur par défaut pour test
+  }
+
+  let transportType = (edits.transportType ??
+    journey.detectedTransportType) as TransportType;
+  if (!VALID_TRANSPORT_TYPES.includes(transportType)) {
+    console.warn(
+      `Transport type invalide (${transportType}), utilisation de "marche" par défaut`,
+    );
+    transportType = 'marche';
+  }
+
+  return {
+    // Neutral even for a private zone, which must not show on the server
+    place_departure: PLACE_DEPARTURE_LABEL,
+    place_arrival: PLACE_ARRIVAL_LABEL,
+    time_departure: toIsoOrNow(journey.timeDeparture, 'de départ'),
+    time_arrival: toIsoOrNow(journey.timeArrival, "d'arrivée"),
+    distance_km: distanceKm,
+    transport_type: transportType,
+    detection_source: 'auto',
+    client_journey_id: journey.clientId,
+    ...(edits.legs && {legs: edits.legs}),
+  };
+}
+
+// Shortest part a detected journey can be split into (same as native)
+export const MIN_SPLIT_PART_MINUTES = 1;
+
+/**
+ * Whether the selected journeys follow each other, with no other pending
+ * journey between them (only those can be merged)
+ */
+export function areAdjacent(
+  pending: LocalJourney[],
+  selectedIds: Set<number>,
+): boolean {
+  const positions = [...pending]
+    .sort((a, b) => a.timeDeparture - b.timeDeparture)
+    .map((journey, index) => (selectedIds.has(journey.id) ? index : -1))
+    .filter(index => index >= 0);
+  return (
+    positions.length >= 2 &&
+    positions[positions.length - 1] - positions[0] === positions.length - 1
+  );
+}
+
+/**
+ * Distances of the two parts of a journey split at a timestamp, shared in
+ * proportion to the time as the native split does
+ */
+export function splitDistance(
+  journey: LocalJourney,
+  timestamp: number,
+): [number, number] {
+  const ratio =
+    (timestamp - journey.timeDeparture) /
+    (journey.timeArrival - journey.timeDeparture);
+  const first = journey.distanceKm * ratio;
+  return [first, journey.distanceKm - first];
+}
+
+// Average speed (km/h) accepted for a declared journey, door to door
+export const MANUAL_SPEED_RANGES: Record<
+  TransportType,
+  {min: number; max: number}
+> = {
+  marche: {min: 2, max: 8},
+  velo: {min: 5, max: 40},
+  transport_commun: {min: 5, max: 130},
+  voiture: {min: 5, max: 130},
+};
+export const MANUAL_MAX_DURATION_MINUTES = 4 * 60;
+export const MANUAL_MAX_AGE_DAYS = 7;
+
+export interface ManualJourney {
+  departure: Date;
+  arrival: Date;
+  distanceKm: number;
+  transportType: TransportType;
+}
+
+export interface ManualJourneyErrors {
+  time?: string;
+  distance?: string;
+}
+
+/**
+ * Check that a declared journey is plausible: in the past week, not in the
+ * future, and with an average speed that matches the transport mode
+ */
+export function checkManualJourney(
+  journey: ManualJourney,
+  now: number = Date.now(),
+): ManualJourneyErrors {
+  const errors: ManualJourneyErrors = {};
+  const departure = journey.departure.getTime();
+  const arrival = journey.arrival.getTime();
+  const durationMinutes = (arrival - departure) / 60000;
+
+  if (arrival <= departure) {
+    errors.time = "L'arrivee doit etre apres le depart";
+  } else if (arrival > now) {
+    errors.time = 'Le trajet ne peut pas etre dans le futur';
+  } else if (departure < now - MANUAL_MAX_AGE_DAYS * 24 * 3600 * 1000) {
+    errors.time = `Seuls les trajets des ${MANUAL_MAX_AGE_DAYS} derniers jours peuvent etre declares`;
+  } else if (durationMinutes > MANUAL_MAX_DURATION_MINUTES) {
+    errors.time = `Duree trop longue (${
+      MANUAL_MAX_DURATION_MINUTES / 60
+    } h maximum)`;
+  }
+
+  if (isNaN(journey.distanceKm) || journey.distanceKm <= 0) {
+    errors.distance = 'Distance invalide';
+  } else if (!errors.time) {
+    const speed = journey.distanceKm / (durationMinutes / 60);
+    const range = MANUAL_SPEED_RANGES[journey.transportType];
+    if (speed < range.min || speed > range.max) {
+      const kmh = Math.round(speed);
+      errors.distance =
+        `Vitesse moyenne peu plausible pour ce mode : ${kmh} km/h ` +
+        `(entre ${range.min} et ${range.max} km/h attendus)`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build the JourneyCreate payload for a journey declared by the user
+ */
+export function buildManualJourneyCreate(
+  journey: ManualJourney,
+): JourneyCreate {
+  return {
+    place_departure: PLACE_DEPARTURE_LABEL,
+    place_arrival: PLACE_ARRIVAL_LABEL,
+    time_departure: journey.departure.toISOString(),
+    time_arrival: journey.arrival.toISOString(),
+    distance_km: Math.round(journey.distanceKm * 10) / 10,
+    transport_type: journey.transportType,
+    detection_source: 'manual',
+  };
+}
+
+export interface MonthSection<T> {
+  key: string; // YYYY-MM
+  title: string; // e.g. "Mars 2024"
+  data: T[];
+}
+
+/**
+ * Group journeys sorted newest first into one section per month
+ */
+export function groupByMonth<T extends {time_departure: string}>(
+  journeys: T[],
+): MonthSection<T>[] {
+  const sections: MonthSection<T>[] = [];
+  journeys.forEach(journey => {
+    const date = new Date(journey.time_departure);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+      2,
+      '0',
+    )}`;
+    const last = sections[sections.length - 1];
+    if (last && last.key === key) {
+      last.data.push(journey);
+      return;
+    }
+    const title = date.toLocaleDateString('fr-FR', {
+      month: 'long',
+      year: 'numeric',
+    });
+    sections.push({
+      key,
+      title: title.charAt(0).toUpperCase() + title.slice(1),
+      data: [journey],
+    });
+  });
+  return sections;
+}
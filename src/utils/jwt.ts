@@ -0,0 +1,57 @@
+/**
+ * JWT utilities - Read claims of the access token (no signature check)
+ */
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode base64url into a string (atob is not available on every engine)
+ */
+function decodeBase64Url(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes: number[] = [];
+  // Every 4 characters hold 24 bits (3 bytes); a final group of n
+  // characters holds n - 1 bytes
+  for (let i = 0; i < base64.length; i += 4) {
+    const sextets = [...base64.slice(i, i + 4)]
+      .map(char => BASE64_ALPHABET.indexOf(char))
+      .filter(value => value !== -1);
+    const group =
+      sextets.reduce((acc, value) => acc * 64 + value, 0) *
+      64 ** (4 - sextets.length);
+    for (let byte = 0; byte < sextets.length - 1; byte++) {
+      bytes.push(Math.floor(group / 256 ** (2 - byte)) % 256);
+    }
+  }
+  // Bytes are UTF-8
+  return decodeURIComponent(
+    bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''),
+  );
+}
+
+/**
+ * Payload of a JWT, or null when the token is not a JWT
+ */
+export function decodeJwtPayload(
+  token: string,
+): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a JWT in epoch ms, from its `exp` claim (seconds)
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
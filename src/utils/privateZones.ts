@@ -0,0 +1,132 @@
+/**
+ * Private zones - Places (home...) whose GPS coordinates never leave the
+ * device: trip starts and ends inside them are trimmed before display or
+ * submission
+ */
+
+import {JourneyTrackPoint, LocalJourney} from '../api/types';
+import {GpsLogEvent} from '../native/TripDetectionDriver';
+import {PRIVATE_PLACE_LABEL} from './journeys';
+import {haversineKm} from './traces';
+import {FieldErrors} from './validation';
+
+export interface PrivateZone {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export type PrivateZoneInput = Omit<PrivateZone, 'id'> & {id?: string};
+
+export const PRIVATE_ZONE_RADIUS = {
+  min: 50,
+  max: 2000,
+  default: 200,
+};
+
+/**
+ * Zone containing a point, null when the point is outside every zone
+ */
+export function findPrivateZone(
+  zones: PrivateZone[],
+  latitude: number,
+  longitude: number,
+): PrivateZone | null {
+  return (
+    zones.find(
+      zone =>
+        haversineKm(zone, {latitude, longitude}) * 1000 <= zone.radiusMeters,
+    ) ?? null
+  );
+}
+
+function isPrivate(
+  zones: PrivateZone[],
+  latitude?: number,
+  longitude?: number,
+): boolean {
+  return (
+    latitude !== undefined &&
+    longitude !== undefined &&
+    findPrivateZone(zones, latitude, longitude) !== null
+  );
+}
+
+/**
+ * Copy of a journey without the coordinates of a start or end inside a
+ * private zone (their place label becomes "Zone privée")
+ */
+export function trimJourney(
+  journey: LocalJourney,
+  zones: PrivateZone[],
+): LocalJourney {
+  const trimmed = {...journey};
+  if (isPrivate(zones, journey.startLatitude, journey.startLongitude)) {
+    trimmed.startLatitude = undefined;
+    trimmed.startLongitude = undefined;
+    trimmed.placeDeparture = PRIVATE_PLACE_LABEL;
+  }
+  if (isPrivate(zones, journey.endLatitude, journey.endLongitude)) {
+    trimmed.endLatitude = undefined;
+    trimmed.endLongitude = undefined;
+    trimmed.placeArrival = PRIVATE_PLACE_LABEL;
+  }
+  return trimmed;
+}
+
+/**
+ * Same for the start and end points of a GPS log event
+ */
+export function trimGpsLog(
+  event: GpsLogEvent,
+  zones: PrivateZone[],
+): GpsLogEvent {
+  const trimmed = {...event};
+  if (isPrivate(zones, event.startLat, event.startLon)) {
+    delete trimmed.startLat;
+    delete trimmed.startLon;
+  }
+  if (isPrivate(zones, event.endLat, event.endLon)) {
+    delete trimmed.endLat;
+    delete trimmed.endLon;
+  }
+  return trimmed;
+}
+
+/**
+ * Points of a recorded route that are outside every private zone
+ */
+export function trimTrackPoints(
+  points: JourneyTrackPoint[],
+  zones: PrivateZone[],
+): JourneyTrackPoint[] {
+  return points.filter(
+    point => !isPrivate(zones, point.latitude, point.longitude),
+  );
+}
+
+export function validatePrivateZone(
+  zone: PrivateZoneInput,
+): FieldErrors<PrivateZoneInput> {
+  const errors: FieldErrors<PrivateZoneInput> = {};
+  if (zone.name.trim().length === 0) {
+    errors.name = 'Donnez un nom a la zone';
+  }
+  if (isNaN(zone.latitude) || Math.abs(zone.latitude) > 90) {
+    errors.latitude = 'Entre -90 et 90';
+  }
+  if (isNaN(zone.longitude) || Math.abs(zone.longitude) > 180) {
+    errors.longitude = 'Entre -180 et 180';
+  }
+  const {min, max} = PRIVATE_ZONE_RADIUS;
+  if (
+    isNaN(zone.radiusMeters) ||
+    zone.radiusMeters < min ||
+    zone.radiusMeters > max
+  ) {
+    errors.radiusMeters = `Entre ${min} et ${max} m`;
+  }
+  return errors;
+}
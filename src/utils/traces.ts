@@ -0,0 +1,207 @@
+/**
+ * Trace utilities - Parse recorded GPS traces (GPX or CSV) into the
+ * location and activity transition events the replay driver plays back
+ */
+
+export type TraceEvent =
+  | {
+      type: 'location';
+      timestamp: number; // epoch ms
+      latitude: number;
+      longitude: number;
+      accuracy?: number; // meters
+    }
+  | {
+      type: 'transition';
+      timestamp: number; // epoch ms
+      activityType: string; // WALKING, RUNNING, ON_BICYCLE, IN_VEHICLE, STILL
+      transitionType: 'ENTER' | 'EXIT';
+    };
+
+export type TraceLocation = Extract<TraceEvent, {type: 'location'}>;
+
+export class TraceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceParseError';
+  }
+}
+
+interface TraceRow {
+  timestamp: number;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy?: number;
+  activity: string | null;
+}
+
+/**
+ * Epoch ms from an ISO date or a number of ms (seconds when it is too small
+ * to be ms)
+ */
+function parseTimestamp(value: string, line: number): number {
+  const trimmed = value.trim();
+  const timestamp = /^\d+(\.\d+)?$/.test(trimmed)
+    ? Number(trimmed)
+    : Date.parse(trimmed);
+  if (isNaN(timestamp)) {
+    throw new TraceParseError(`Invalid time "${value}" (line ${line})`);
+  }
+  return timestamp < 1e11 ? timestamp * 1000 : timestamp;
+}
+
+function parseCoordinate(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const coordinate = Number(value);
+  return isNaN(coordinate) ? null : coordinate;
+}
+
+/**
+ * Turn rows into events, sorted by time. A change of activity between two
+ * rows becomes an EXIT of the previous one and an ENTER of the new one.
+ */
+function rowsToEvents(rows: TraceRow[]): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  let activity: string | null = null;
+  [...rows]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(row => {
+      if (row.activity && row.activity !== activity) {
+        if (activity) {
+          events.push({
+            type: 'transition',
+            timestamp: row.timestamp,
+            activityType: activity,
+            transitionType: 'EXIT',
+          });
+        }
+        events.push({
+          type: 'transition',
+          timestamp: row.timestamp,
+          activityType: row.activity,
+          transitionType: 'ENTER',
+        });
+        activity = row.activity;
+      }
+      if (row.latitude !== null && row.longitude !== null) {
+        events.push({
+          type: 'location',
+          timestamp: row.timestamp,
+          latitude: row.latitude,
+          longitude: row.longitude,
+          ...(row.accuracy !== undefined && {accuracy: row.accuracy}),
+        });
+      }
+    });
+  return events;
+}
+
+/**
+ * Parse a CSV trace with a header line. Columns: `timestamp` (ISO or epoch),
+ * `latitude`, `longitude`, and optionally `activity` and `accuracy`. A row
+ * may only carry an activity (e.g. STILL at the end of a trip).
+ */
+export function parseCsvTrace(text: string): TraceEvent[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) {
+    throw new TraceParseError('Empty trace');
+  }
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (...names: string[]) =>
+    header.findIndex(name => names.includes(name));
+  const timeIndex = column('timestamp', 'time');
+  const latIndex = column('latitude', 'lat');
+  const lonIndex = column('longitude', 'lon', 'lng');
+  const activityIndex = column('activity');
+  const accuracyIndex = column('accuracy');
+  if (timeIndex < 0 || latIndex < 0 || lonIndex < 0) {
+    throw new TraceParseError(
+      'CSV header must have timestamp, latitude and longitude columns',
+    );
+  }
+
+  const rows = lines.slice(1).map((line, index) => {
+    const cells = line.split(',');
+    const accuracy =
+      accuracyIndex >= 0 ? parseCoordinate(cells[accuracyIndex]) : null;
+    return {
+      timestamp: parseTimestamp(cells[timeIndex] ?? '', index + 2),
+      latitude: parseCoordinate(cells[latIndex]),
+      longitude: parseCoordinate(cells[lonIndex]),
+      ...(accuracy !== null && {accuracy}),
+      activity:
+        activityIndex >= 0
+          ? cells[activityIndex]?.trim().toUpperCase() || null
+          : null,
+    };
+  });
+  return rowsToEvents(rows);
+}
+
+/**
+ * Parse the track points of a GPX trace. The activity of a point can be
+ * given in its extensions: `<extensions><activity>WALKING</activity>`.
+ */
+export function parseGpxTrace(text: string): TraceEvent[] {
+  const rows: TraceRow[] = [];
+  const pointPattern = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pointPattern.exec(text)) !== null) {
+    const attributes = match[1];
+    const body = match[2] ?? '';
+    const lat = /\blat="([^"]+)"/.exec(attributes);
+    const lon = /\blon="([^"]+)"/.exec(attributes);
+    const time = /<time>([^<]+)<\/time>/.exec(body);
+    if (!lat || !lon || !time) {
+      throw new TraceParseError(
+        `Track point ${rows.length + 1} needs lat, lon and time`,
+      );
+    }
+    const activity = /<(?:\w+:)?activity>([^<]+)<\/(?:\w+:)?activity>/.exec(
+      body,
+    );
+    rows.push({
+      timestamp: parseTimestamp(time[1], rows.length + 1),
+      latitude: parseCoordinate(lat[1]),
+      longitude: parseCoordinate(lon[1]),
+      activity: activity ? activity[1].trim().toUpperCase() : null,
+    });
+  }
+  if (rows.length === 0) {
+    throw new TraceParseError('No track point in GPX trace');
+  }
+  return rowsToEvents(rows);
+}
+
+/**
+ * Parse a GPX or CSV trace, detected from its first character
+ */
+export function parseTrace(text: string): TraceEvent[] {
+  return text.trimStart().startsWith('<')
+    ? parseGpxTrace(text)
+    : parseCsvTrace(text);
+}
+
+/**
+ * Great-circle distance between two locations, in km
+ */
+export function haversineKm(
+  from: {latitude: number; longitude: number},
+  to: {latitude: number; longitude: number},
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
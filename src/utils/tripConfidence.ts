@@ -0,0 +1,47 @@
+/**
+ * Trip confidence - How much a detected trip can be trusted, from the GPS
+ * fixes recorded during it (must match TripStateMachine.computeConfidence)
+ */
+
+// Transitions carry no confidence: trips without GPS only get this
+export const ESTIMATED_CONFIDENCE = 30;
+const PRECISE_ACCURACY_METERS = 30;
+
+// Plausible average speed in km/h of each moving activity
+const SPEED_RANGES_KMH: Record<string, [number, number]> = {
+  WALKING: [2, 8],
+  RUNNING: [6, 20],
+  ON_BICYCLE: [6, 35],
+  IN_VEHICLE: [10, 150],
+};
+
+/**
+ * Confidence (0-100): half from the share of precise GPS fixes, half from
+ * the average speed matching the activity (full inside its range, half
+ * within a factor of 2). Points without accuracy count as precise.
+ */
+export function tripConfidence(
+  activity: string,
+  points: {accuracy?: number}[],
+  distanceKm: number,
+  durationMs: number,
+): number {
+  if (points.length < 2) {
+    return ESTIMATED_CONFIDENCE;
+  }
+  const precise =
+    points.filter(
+      ({accuracy}) =>
+        accuracy === undefined || accuracy <= PRECISE_ACCURACY_METERS,
+    ).length / points.length;
+
+  const speedKmh = distanceKm / (durationMs / 3600000);
+  const range = SPEED_RANGES_KMH[activity];
+  let speedScore = 0;
+  if (range && speedKmh >= range[0] && speedKmh <= range[1]) {
+    speedScore = 1;
+  } else if (range && speedKmh >= range[0] / 2 && speedKmh <= range[1] * 2) {
+    speedScore = 0.5;
+  }
+  return Math.round((100 * (precise + speedScore)) / 2);
+}
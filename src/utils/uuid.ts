@@ -0,0 +1,16 @@
+/**
+ * UUID utilities - Client-side identifiers (idempotency keys)
+ */
+
+/**
+ * Generate a RFC 4122 version 4 UUID
+ * Math.random is enough here: ids only need to be unique per user, not secret
+ */
+export function generateUuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    // Variant digit is one of 8, 9, a, b
+    const value = char === 'x' ? random : 8 + (random % 4);
+    return value.toString(16);
+  });
+}
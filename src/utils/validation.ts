@@ -0,0 +1,65 @@
+/**
+ * Form validation - Rules shared by the sign-up and profile forms
+ */
+
+import {PasswordChange, UserUpdate} from '../api/types';
+
+export const MIN_NAME_LENGTH = 2;
+export const MIN_USERNAME_LENGTH = 3;
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Field name -> message, only for invalid fields
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+export interface PasswordChangeForm extends PasswordChange {
+  confirm_password: string;
+}
+
+export const isValidEmail = (email: string) =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+export const isValidPassword = (password: string) =>
+  password.length >= MIN_PASSWORD_LENGTH;
+
+/**
+ * Check the profile form (values already trimmed)
+ */
+export function validateProfile(
+  data: Required<UserUpdate>,
+): FieldErrors<UserUpdate> {
+  const errors: FieldErrors<UserUpdate> = {};
+  if (data.firstname.length < MIN_NAME_LENGTH) {
+    errors.firstname = `Minimum ${MIN_NAME_LENGTH} caracteres`;
+  }
+  if (data.lastname.length < MIN_NAME_LENGTH) {
+    errors.lastname = `Minimum ${MIN_NAME_LENGTH} caracteres`;
+  }
+  if (!isValidEmail(data.email)) {
+    errors.email = 'Adresse email invalide';
+  }
+  if (data.username.length < MIN_USERNAME_LENGTH) {
+    errors.username = `Minimum ${MIN_USERNAME_LENGTH} caracteres`;
+  }
+  return errors;
+}
+
+/**
+ * Check the change-password form
+ */
+export function validatePasswordChange(
+  data: PasswordChangeForm,
+): FieldErrors<PasswordChangeForm> {
+  const errors: FieldErrors<PasswordChangeForm> = {};
+  if (!data.current_password) {
+    errors.current_password = 'Mot de passe actuel requis';
+  }
+  if (!isValidPassword(data.new_password)) {
+    errors.new_password = `Minimum ${MIN_PASSWORD_LENGTH} caracteres`;
+  } else if (data.new_password === data.current_password) {
+    errors.new_password = "Doit etre different de l'actuel";
+  }
+  if (data.confirm_password !== data.new_password) {
+    errors.confirm_password = 'Les mots de passe ne correspondent pas';
+  }
+  return errors;
+}